@@ -3,6 +3,14 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+const parseOptionalNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
 const config: Config = {
   port: parseInt(process.env.PORT || '3000', 10),
   wallet: {
@@ -17,6 +25,26 @@ const config: Config = {
   mongodb: {
     uri: process.env.MONGODB_URI || 'mongodb://localhost:27017/polytradingbot',
   },
+  paperTrading: process.env.PAPER_TRADING === 'true',
+  bots: {
+    configPath: process.env.BOTS_CONFIG_PATH || 'bots.json',
+  },
+  risk: {
+    maxNotionalPerMarket: parseOptionalNumber(process.env.RISK_MAX_NOTIONAL_PER_MARKET),
+    maxOpenOrders: parseOptionalNumber(process.env.RISK_MAX_OPEN_ORDERS),
+    maxTotalExposure: parseOptionalNumber(process.env.RISK_MAX_TOTAL_EXPOSURE),
+    maxDailyLoss: parseOptionalNumber(process.env.RISK_MAX_DAILY_LOSS),
+    minOrderSize: parseFloat(process.env.RISK_MIN_ORDER_SIZE || '1'),
+  },
+  redemption: {
+    enabled: process.env.REDEMPTION_ENABLED === 'true',
+    rpcUrl: process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com',
+    signer: process.env.REDEMPTION_SIGNER === 'wallet' ? 'wallet' : 'safe',
+  },
+  endOfMarket: {
+    cancelBeforeExpirySeconds: parseFloat(process.env.END_OF_MARKET_CANCEL_SECONDS || '30'),
+    unhedgedPolicy: process.env.END_OF_MARKET_UNHEDGED === 'flatten' ? 'flatten' : 'hold',
+  },
 };
 
 export default config;
@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { IBacktestJob } from '../models/BacktestJob';
+import { getBacktestJobService, parseBacktestJobRequest } from '../services/BacktestJobService';
+import { logger } from '../utils/logger';
+
+/**
+ * Job summary returned by the backtest job endpoints (result included once completed)
+ */
+const toBacktestJobResponse = (job: IBacktestJob, cached: boolean = false, result: Record<string, unknown> | null = null) => ({
+  jobId: job.id,
+  status: job.status,
+  cached,
+  input: job.input,
+  progress: {
+    processedMarkets: job.progress.processedMarkets,
+    totalMarkets: job.progress.totalMarkets,
+    percent: job.progress.totalMarkets > 0
+      ? Math.round((job.progress.processedMarkets / job.progress.totalMarkets) * 100)
+      : (job.status === 'completed' ? 100 : 0),
+  },
+  invalidated: job.invalidatedAt !== null,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt,
+  error: job.error,
+  result,
+});
+
+/**
+ * Submit a backtest job
+ * POST /api/backtests
+ * Body:
+ *   - strategy: 'gridHedge' | 'prePurchasedSell' | 'newHedge'
+ *   - params: object (optional) - strategy parameters (strategy defaults otherwise)
+ *   - token, eventType, startDate, endDate, page, pageSize/count, useTradePrints, fillModel (and its
+ *     parameters) - as for /api/strategy/total-profit
+ * Responds 200 with the cached result when an identical backtest has completed and its markets have not
+ * changed since, otherwise 202 with the queued (or already running) job; poll GET /api/backtests/:jobId.
+ */
+export const submitBacktestJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = parseBacktestJobRequest(req.body || {});
+    if ('error' in parsed) {
+      res.status(400).json({
+        error: parsed.error,
+        message: parsed.message
+      });
+      return;
+    }
+
+    const { job, cached } = await getBacktestJobService().submitJob(parsed.input);
+    const result = cached ? await getBacktestJobService().getJobResult(job) : null;
+    res.status(cached ? 200 : 202).json(toBacktestJobResponse(job, cached, result));
+  } catch (error) {
+    logger.error('Error submitting backtest job:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * List recent backtest jobs (without results)
+ * GET /api/backtests
+ * Query parameters:
+ *   - limit: number (default: 50)
+ */
+export const getBacktestJobs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+    if (isNaN(limit) || limit <= 0) {
+      res.status(400).json({
+        error: 'Invalid limit',
+        message: 'limit must be a positive number'
+      });
+      return;
+    }
+
+    const jobs = await getBacktestJobService().getJobs(limit);
+    res.json({
+      count: jobs.length,
+      jobs: jobs.map(job => toBacktestJobResponse(job)),
+    });
+  } catch (error) {
+    logger.error('Error listing backtest jobs:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Status and progress of a backtest job, with its result once completed
+ * GET /api/backtests/:jobId
+ */
+export const getBacktestJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!/^[0-9a-f]{24}$/i.test(req.params.jobId)) {
+      res.status(400).json({
+        error: 'Invalid jobId',
+        message: 'jobId must be a backtest job id'
+      });
+      return;
+    }
+
+    const job = await getBacktestJobService().getJob(req.params.jobId);
+    if (!job) {
+      res.status(404).json({
+        error: 'Backtest job not found',
+        message: `No backtest job with id ${req.params.jobId}`
+      });
+      return;
+    }
+    res.json(toBacktestJobResponse(job, false, await getBacktestJobService().getJobResult(job)));
+  } catch (error) {
+    logger.error('Error getting backtest job:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
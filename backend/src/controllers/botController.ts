@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import { getBotManager } from '../services/BotManager';
+import { TradingBot } from '../services/TradingBot';
+import { logger } from '../utils/logger';
+
+/**
+ * Get the running TradingBot for a request, or send 404 (unknown bot) / 409 (bot not running)
+ */
+const getRunningBot = (req: Request, res: Response): TradingBot | null => {
+  const { botId } = req.params;
+  const botManager = getBotManager();
+
+  if (!botManager.getBot(botId)) {
+    res.status(404).json({ error: 'Bot not found', message: `Unknown bot: ${botId}` });
+    return null;
+  }
+
+  const bot = botManager.getTradingBot(botId);
+  if (!bot) {
+    res.status(409).json({ error: 'Bot not running', message: `Bot ${botId} is not running` });
+    return null;
+  }
+  return bot;
+};
+
+/**
+ * List all configured bots with their live state
+ * GET /api/bots
+ */
+export const getBots = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bots = getBotManager().getBots();
+    res.json({
+      count: bots.length,
+      runningCount: bots.filter(bot => bot.running).length,
+      bots,
+    });
+  } catch (error) {
+    logger.error('Error fetching bots:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Get one bot: config plus current slug, market info, start coin price, bias and open orders
+ * GET /api/bots/:botId
+ */
+export const getBot = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bot = getBotManager().getBot(req.params.botId);
+    if (!bot) {
+      res.status(404).json({ error: 'Bot not found', message: `Unknown bot: ${req.params.botId}` });
+      return;
+    }
+    res.json(bot);
+  } catch (error) {
+    logger.error('Error fetching bot:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Start a configured bot
+ * POST /api/bots/:botId/start
+ */
+export const startBot = async (req: Request, res: Response): Promise<void> => {
+  const { botId } = req.params;
+  try {
+    if (!getBotManager().getBot(botId)) {
+      res.status(404).json({ error: 'Bot not found', message: `Unknown bot: ${botId}` });
+      return;
+    }
+    const bot = await getBotManager().startBot(botId);
+    res.json(bot);
+  } catch (error) {
+    logger.error(`Error starting bot ${botId}:`, error);
+    res.status(500).json({ error: 'Failed to start bot', message: (error as Error).message });
+  }
+};
+
+/**
+ * Stop a running bot
+ * POST /api/bots/:botId/stop
+ */
+export const stopBot = async (req: Request, res: Response): Promise<void> => {
+  const { botId } = req.params;
+  try {
+    if (!getBotManager().getBot(botId)) {
+      res.status(404).json({ error: 'Bot not found', message: `Unknown bot: ${botId}` });
+      return;
+    }
+    const bot = await getBotManager().stopBot(botId);
+    res.json(bot);
+  } catch (error) {
+    logger.error(`Error stopping bot ${botId}:`, error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Pause a running bot (price ticks are ignored and no new orders are placed)
+ * POST /api/bots/:botId/pause
+ */
+export const pauseBot = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bot = getRunningBot(req, res);
+    if (!bot) {
+      return;
+    }
+    bot.pause();
+    res.json(getBotManager().getBot(req.params.botId));
+  } catch (error) {
+    logger.error('Error pausing bot:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Resume a paused bot
+ * POST /api/bots/:botId/resume
+ */
+export const resumeBot = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bot = getRunningBot(req, res);
+    if (!bot) {
+      return;
+    }
+    bot.resume();
+    res.json(getBotManager().getBot(req.params.botId));
+  } catch (error) {
+    logger.error('Error resuming bot:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Change strategy parameters of a running bot (applied from the next market)
+ * PATCH /api/bots/:botId/params
+ * Body: strategy parameters to change, e.g. { "gridGap": 10 }
+ */
+export const updateBotParams = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bot = getRunningBot(req, res);
+    if (!bot) {
+      return;
+    }
+
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body) || Object.keys(req.body).length === 0) {
+      res.status(400).json({
+        error: 'Invalid params',
+        message: 'Request body must be an object of strategy parameters'
+      });
+      return;
+    }
+
+    try {
+      bot.updateStrategyParams(req.body);
+    } catch (error) {
+      res.status(400).json({ error: 'Invalid params', message: (error as Error).message });
+      return;
+    }
+
+    res.json(getBotManager().getBot(req.params.botId));
+  } catch (error) {
+    logger.error('Error updating bot params:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Emergency cancel-all for one bot (also pauses it)
+ * POST /api/bots/:botId/cancel-all
+ */
+export const cancelAllBotOrders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bot = getRunningBot(req, res);
+    if (!bot) {
+      return;
+    }
+    await bot.cancelAllOrders();
+    res.json(getBotManager().getBot(req.params.botId));
+  } catch (error) {
+    logger.error('Error cancelling bot orders:', error);
+    res.status(500).json({ error: 'Failed to cancel orders', message: (error as Error).message });
+  }
+};
+
+/**
+ * Emergency cancel-all for every running bot (also pauses them)
+ * POST /api/bots/cancel-all
+ */
+export const cancelAllOrders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await getBotManager().cancelAllOrders();
+    res.json({ bots: getBotManager().getBots() });
+  } catch (error) {
+    logger.error('Error cancelling all orders:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Reload the bots config (file + BotConfig collection)
+ * POST /api/bots/reload
+ */
+export const reloadBots = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bots = await getBotManager().reload();
+    res.json({ bots });
+  } catch (error) {
+    logger.error('Error reloading bots config:', error);
+    res.status(400).json({ error: 'Failed to reload bots config', message: (error as Error).message });
+  }
+};
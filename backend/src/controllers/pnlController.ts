@@ -0,0 +1,22 @@
+import { Request, Response } from 'express';
+import { getPnlLedger, parsePnlQuery } from '../services/PnlLedger';
+import { logger } from '../utils/logger';
+
+/**
+ * P&L of the bots' confirmed trades: totals, per slug, bot, coin and day, plus open positions
+ * GET /api/pnl?botId=&token=&slug=&startDate=&endDate=&paperTrading=
+ */
+export const getPnl = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = parsePnlQuery(req.query as Record<string, unknown>);
+    if ('error' in parsed) {
+      res.status(400).json(parsed);
+      return;
+    }
+
+    res.json(await getPnlLedger().getSummary(parsed.filters));
+  } catch (error) {
+    logger.error('Error fetching P&L:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import TokenPriceHistory from '../models/TokenPriceHistory';
+import { countMarkets, describePagination, findMarkets, parseMarketHistoryQuery } from '../services/marketHistory';
 import { logger } from '../utils/logger';
 
 export const getPriceHistoryBySlug = async (req: Request, res: Response): Promise<void> => {
@@ -59,6 +60,14 @@ export const getPriceHistoryBySlug = async (req: Request, res: Response): Promis
         upTokenPrice: item.upTokenPrice,
         downTokenPrice: item.downTokenPrice,
         coinPriceBias: item.coinPriceBias,
+        upBestBid: item.upBestBid ?? null,
+        downBestBid: item.downBestBid ?? null,
+        upSpread: item.upSpread ?? null,
+        downSpread: item.downSpread ?? null,
+        upBidSize: item.upBidSize ?? null,
+        upAskSize: item.upAskSize ?? null,
+        downBidSize: item.downBidSize ?? null,
+        downAskSize: item.downAskSize ?? null,
       })),
     });
   } catch (error) {
@@ -94,6 +103,14 @@ export const getLatestPriceBySlug = async (req: Request, res: Response): Promise
       upTokenPrice: latestPrice.upTokenPrice,
       downTokenPrice: latestPrice.downTokenPrice,
       coinPriceBias: latestPrice.coinPriceBias,
+      upBestBid: latestPrice.upBestBid ?? null,
+      downBestBid: latestPrice.downBestBid ?? null,
+      upSpread: latestPrice.upSpread ?? null,
+      downSpread: latestPrice.downSpread ?? null,
+      upBidSize: latestPrice.upBidSize ?? null,
+      upAskSize: latestPrice.upAskSize ?? null,
+      downBidSize: latestPrice.downBidSize ?? null,
+      downAskSize: latestPrice.downAskSize ?? null,
     });
   } catch (error) {
     logger.error('Error fetching latest price:', error);
@@ -101,54 +118,39 @@ export const getLatestPriceBySlug = async (req: Request, res: Response): Promise
   }
 };
 
+/**
+ * List ended markets, most recent first
+ * GET /api/slugs
+ * Query parameters:
+ *   - token, eventType (optional) - filters
+ *   - startDate, endDate (optional) - only markets ending within the range
+ *   - page (default: 1), pageSize (optional) - page of markets (default: all)
+ */
 export const getAllSlugs = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { token, eventType } = req.query;
-
-    // Build query for filtering
-    const query: any = {};
-    if (token) {
-      query.token = token;
-    }
-    if (eventType) {
-      query.eventType = eventType;
+    const marketQuery = parseMarketHistoryQuery(req.query);
+    if ('error' in marketQuery) {
+      res.status(400).json({ error: marketQuery.error, message: marketQuery.message });
+      return;
     }
-
-    // Get distinct slugs from the database with filters
-    const slugs = await TokenPriceHistory.distinct('slug', query);
-
-    // Get the latest timestamp and outcome for each slug and sort by it
-    const slugsWithLatestTimestamp = await Promise.all(
-      slugs.map(async (slug) => {
-        const slugQuery: any = { slug, ...query };
-        const latestPrice = await TokenPriceHistory.findOne(
-          slugQuery,
-          { timestamp: 1, outcome: 1 },
-          { sort: { timestamp: -1 } }
-        );
-        return {
-          slug,
-          latestTimestamp: latestPrice?.timestamp || new Date(0), // Use epoch if no data found
-          outcome: latestPrice?.outcome || null,
-        };
-      })
-    );
-
-    // Sort by latest timestamp (descending - most recent first)
-    slugsWithLatestTimestamp.sort((a, b) => {
-      const timeA = a.latestTimestamp.getTime();
-      const timeB = b.latestTimestamp.getTime();
-      return timeB - timeA; // Descending order
-    });
-
-    // Extract sorted slugs with outcome
-    const sortedSlugs = slugsWithLatestTimestamp.map(item => ({
-      slug: item.slug,
-      outcome: item.outcome,
+    const { filters, pagination } = marketQuery;
+
+    const [totalCount, markets] = await Promise.all([
+      countMarkets(filters),
+      findMarkets(filters, pagination),
+    ]);
+
+    // Extract sorted slugs with outcome (null until the market is resolved)
+    const sortedSlugs = markets.map(market => ({
+      slug: market.slug,
+      outcome: market.status === 'resolved' ? market.outcome : null,
+      status: market.status,
     }));
 
     res.json({
       count: sortedSlugs.length,
+      totalCount,
+      pagination: describePagination(pagination, totalCount),
       slugs: sortedSlugs.map(item => item.slug),
       slugsWithOutcome: sortedSlugs,
     });
@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { getBotManager } from '../services/BotManager';
+import { getRiskManager, parseRiskLimitsUpdate } from '../services/RiskManager';
+import { logger } from '../utils/logger';
+
+/**
+ * Risk limits, kill switch, daily P&L and current exposure
+ * GET /api/risk
+ */
+export const getRiskStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(getRiskManager().getStatus());
+  } catch (error) {
+    logger.error('Error fetching risk status:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Change risk limits (persisted, override the RISK_* env defaults); null removes a limit
+ * PUT /api/risk/limits
+ * Body: { maxNotionalPerMarket?, maxOpenOrders?, maxTotalExposure?, maxDailyLoss?, minOrderSize? }
+ */
+export const updateRiskLimits = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = req.body;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      res.status(400).json({ error: 'Invalid limits', message: 'Body must be an object of risk limits' });
+      return;
+    }
+
+    const parsed = parseRiskLimitsUpdate(body);
+    if ('error' in parsed) {
+      res.status(400).json(parsed);
+      return;
+    }
+
+    getRiskManager().setLimits(parsed.limits);
+    res.json(getRiskManager().getStatus());
+  } catch (error) {
+    logger.error('Error updating risk limits:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Engage the kill switch: every new order is rejected, and all bots are paused with their orders cancelled
+ * POST /api/risk/kill-switch
+ * Body: { reason? }
+ */
+export const engageKillSwitch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const reason = typeof req.body?.reason === 'string' && req.body.reason ? req.body.reason : null;
+    getRiskManager().engageKillSwitch(reason);
+    await getBotManager().cancelAllOrders();
+    res.json({ risk: getRiskManager().getStatus(), bots: getBotManager().getBots() });
+  } catch (error) {
+    logger.error('Error engaging kill switch:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Disengage the kill switch (paused bots stay paused until resumed)
+ * DELETE /api/risk/kill-switch
+ */
+export const disengageKillSwitch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    getRiskManager().disengageKillSwitch();
+    res.json(getRiskManager().getStatus());
+  } catch (error) {
+    logger.error('Error disengaging kill switch:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,9 +1,9 @@
 import { Request, Response } from 'express';
-import TokenPriceHistory from '../models/TokenPriceHistory';
 import { logger } from '../utils/logger';
-import { calculateGridHedgeStrategy, PriceData } from '../utils/strategyCalculator1';
-import { calculatePrePurchasedSellStrategy, PriceData as PriceData2 } from '../utils/strategyCalculator2';
-import { calculateNewHedgeStrategy, PriceData as PriceData3 } from '../utils/strategyCalculater3';
+import { calculateRiskMetrics } from '../utils/riskMetrics';
+import { countMarkets, describePagination, parseMarketHistoryQuery, streamMarketHistories } from '../services/marketHistory';
+import { getParameterSweepService, parseSweepRequest, SweepJob } from '../services/ParameterSweepService';
+import { GridHedgeStrategy, NewHedgeStrategy, PrePurchasedSellStrategy, parseFillModelQuery, runBacktest } from '../strategies';
 
 /**
  * Calculate total profit across all slugs
@@ -17,6 +17,19 @@ import { calculateNewHedgeStrategy, PriceData as PriceData3 } from '../utils/str
  *   - token: string (optional) - filter by coin symbol (BTC, ETH, SOL, XRP)
  *   - eventType: string (optional) - filter by event type (hourly, 15min)
  *   - count: number (optional) - number of latest slugs to calculate (default: all slugs)
+ *   - startDate, endDate: date (optional) - only markets ending within the range
+ *   - page: number (default: 1), pageSize: number (optional, alias: count) - page of markets, most recent first
+ *   - useTradePrints: boolean (default: false) - also fill limit orders on stored trade prints
+ *   - fillModel: 'ideal' | 'realistic' (default: ideal) - ideal fills at the limit on touch without fees;
+ *     realistic adds fees, slippage and queue position, configured by:
+ *       takerFeeBps: number | 'market' (default: market fee_rate_bps from trade prints), makerFeeBps (default: 0),
+ *       slippage: 'none' | 'fixed' | 'depth' (default: fixed), slippageCents (default: 0),
+ *       touchFillProbability: 0-1 (default: 0.5) - 0 requires a trade through the level, fillSeed
+ * riskMetrics holds the chronological equity curve (cumulative P&L per slug), max drawdown, win/loss counts,
+ * max losing streak, profit factor, average return on cost and a per-market Sharpe-like ratio.
+ * fillModel reports the fill model and its parameters.
+ * Positions held to expiry settle on the market's resolved outcome (Markets collection); slugs that are
+ * still unresolved are settled on the last tick and counted in unresolvedCount.
  */
 export const calculateTotalProfit = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -36,11 +49,7 @@ export const calculateTotalProfit = async (req: Request, res: Response): Promise
     const enableDoubleSide = req.query.enableDoubleSide !== undefined
       ? req.query.enableDoubleSide === 'true' || req.query.enableDoubleSide === '1'
       : true;
-    const token = req.query.token as string | undefined;
-    const eventType = req.query.eventType as string | undefined;
-    const count = req.query.count 
-      ? parseInt(req.query.count as string, 10) 
-      : undefined;
+    const useTradePrints = req.query.useTradePrints === 'true' || req.query.useTradePrints === '1';
 
     // Validate parameters
     if (isNaN(maxTotalCost) || maxTotalCost <= 0 || maxTotalCost >= 100) {
@@ -67,27 +76,30 @@ export const calculateTotalProfit = async (req: Request, res: Response): Promise
       return;
     }
 
-    if (count !== undefined && (isNaN(count) || count <= 0)) {
+    const marketQuery = parseMarketHistoryQuery(req.query);
+    if ('error' in marketQuery) {
       res.status(400).json({ 
-        error: 'Invalid count',
-        message: 'count must be a positive number'
+        error: marketQuery.error,
+        message: marketQuery.message
       });
       return;
     }
+    const { filters, pagination } = marketQuery;
 
-    // Build query for filtering slugs
-    const slugQuery: any = {};
-    if (token) {
-      slugQuery.token = token;
-    }
-    if (eventType) {
-      slugQuery.eventType = eventType;
+    const fillModelQuery = parseFillModelQuery(req.query);
+    if ('error' in fillModelQuery) {
+      res.status(400).json({ 
+        error: fillModelQuery.error,
+        message: fillModelQuery.message
+      });
+      return;
     }
+    const { fillModel } = fillModelQuery;
 
-    // Get all distinct slugs with filters
-    const allSlugs = await TokenPriceHistory.distinct('slug', slugQuery);
+    // Count the ended markets matching the filters
+    const totalSlugCount = await countMarkets(filters);
 
-    if (allSlugs.length === 0) {
+    if (totalSlugCount === 0) {
       res.json({
         totalProfit: 0,
         totalCost: 0,
@@ -96,92 +108,55 @@ export const calculateTotalProfit = async (req: Request, res: Response): Promise
         totalHedgesFilled: 0,
         slugCount: 0,
         processedSlugCount: 0,
+        unresolvedCount: 0,
+        riskMetrics: calculateRiskMetrics([]),
+        fillModel: fillModel.describe(),
         results: []
       });
       return;
     }
 
-    // Get slugs sorted by latest timestamp (most recent first)
-    const slugsWithLatestTimestamp = await Promise.all(
-      allSlugs.map(async (slug) => {
-        const query: any = { slug, ...slugQuery };
-        const latestPrice = await TokenPriceHistory.findOne(
-          query,
-          { timestamp: 1 },
-          { sort: { timestamp: -1 } }
-        );
-        return {
-          slug,
-          latestTimestamp: latestPrice?.timestamp || new Date(0), // Use epoch if no data found
-        };
-      })
-    );
-
-    // Sort by latest timestamp (descending - most recent first)
-    slugsWithLatestTimestamp.sort((a, b) => {
-      const timeA = a.latestTimestamp.getTime();
-      const timeB = b.latestTimestamp.getTime();
-      return timeB - timeA; // Descending order
-    });
-
-    // Extract sorted slugs and limit by count if provided
-    let slugs: string[];
-    if (count !== undefined) {
-      slugs = slugsWithLatestTimestamp.slice(0, count).map(item => item.slug);
-    } else {
-      slugs = slugsWithLatestTimestamp.map(item => item.slug);
-    }
-
     // Calculate strategy for each slug
     let totalProfit = 0;
     let totalCost = 0;
     let totalFinalValue = 0;
     let totalEntries = 0;
     let totalHedgesFilled = 0;
+    let unresolvedCount = 0;
     const results: Array<{
       slug: string;
+      endTime: Date | null;
       profit: number;
       cost: number;
       finalValue: number;
       entries: number;
       hedgesFilled: number;
+      resolved: boolean;
     }> = [];
 
-    for (const slug of slugs) {
+    // Stream the price history of each market of the page (one aggregation, most recent first)
+    let processedSlugCount = 0;
+    const histories = streamMarketHistories(filters, pagination, { includeTradePrints: useTradePrints });
+    for await (const { slug, eventType, endTime, resolvedOutcome, ticks, trades } of histories) {
+      processedSlugCount++;
+      if (ticks.length === 0) {
+        continue;
+      }
+
       try {
-        // Build query for price history
-        const priceHistoryQuery: any = { slug, ...slugQuery };
-        
-        // Get price history for this slug
-        const priceHistory = await TokenPriceHistory.find(priceHistoryQuery)
-          .sort({ timestamp: 1 })
-          .exec();
-
-        if (priceHistory.length === 0) {
-          continue;
+        // Settle on the official outcome; unresolved markets fall back to the last tick
+        if (!resolvedOutcome) {
+          unresolvedCount++;
         }
 
-        // Convert to PriceData format
-        const priceData: PriceData[] = priceHistory.map(item => {
-          const timestamp = item.timestamp.toISOString();
-          return {
-            slug: item.slug,
-            timestamp: timestamp,
-            upTokenPrice: item.upTokenPrice,
-            downTokenPrice: item.downTokenPrice,
-            createdAt: timestamp, // Use timestamp as createdAt
-            coinPriceBias: item.coinPriceBias,
-          };
-        });
-
         // Calculate strategy for this slug
-        const strategyResult = calculateGridHedgeStrategy(
-          priceData,
-          maxTotalCost,
-          gridGap,
-          orderSize,
-          enableRebuy,
-          enableDoubleSide
+        const strategyResult = runBacktest(
+          new GridHedgeStrategy({ maxTotalCost, gridGap, orderSize, enableRebuy, enableDoubleSide }),
+          { slug, eventType },
+          ticks,
+          trades,
+          resolvedOutcome,
+          fillModel
         );
 
         // Accumulate totals
@@ -194,11 +169,13 @@ export const calculateTotalProfit = async (req: Request, res: Response): Promise
         // Store individual result
         results.push({
           slug,
+          endTime,
           profit: strategyResult.totalProfit,
           cost: strategyResult.totalCost,
           finalValue: strategyResult.finalValue,
           entries: strategyResult.totalEntries,
           hedgesFilled: strategyResult.totalHedgesFilled,
+          resolved: resolvedOutcome !== null,
         });
       } catch (error) {
         logger.error(`Error calculating strategy for slug ${slug}:`, error);
@@ -212,19 +189,28 @@ export const calculateTotalProfit = async (req: Request, res: Response): Promise
       totalFinalValue: Math.round(totalFinalValue * 100) / 100,
       totalEntries,
       totalHedgesFilled,
-      totalSlugCount: allSlugs.length,
-      processedSlugCount: slugs.length,
+      totalSlugCount,
+      processedSlugCount,
       actualProcessedCount: results.length,
+      pagination: describePagination(pagination, totalSlugCount),
+      unresolvedCount,
       parameters: {
         maxTotalCost,
         gridGap,
         orderSize,
         enableRebuy,
         enableDoubleSide,
-        token: token || null,
-        eventType: eventType || null,
-        count: count || null,
+        token: filters.token || null,
+        eventType: filters.eventType || null,
+        startDate: filters.startDate || null,
+        endDate: filters.endDate || null,
+        count: pagination.pageSize,
+        page: pagination.page,
+        useTradePrints,
       },
+      fillModel: fillModel.describe(),
+      // Results are most recent first
+      riskMetrics: calculateRiskMetrics([...results].reverse()),
       results,
     });
   } catch (error) {
@@ -243,6 +229,13 @@ export const calculateTotalProfit = async (req: Request, res: Response): Promise
  *   - token: string (optional) - filter by coin symbol (BTC, ETH, SOL, XRP)
  *   - eventType: string (optional) - filter by event type (hourly, 15min)
  *   - count: number (optional) - number of latest slugs to calculate (default: all slugs)
+ *   - startDate, endDate: date (optional) - only markets ending within the range
+ *   - page: number (default: 1), pageSize: number (optional, alias: count) - page of markets, most recent first
+ *   - useTradePrints: boolean (default: false) - also fill limit orders on stored trade prints
+ *   - fillModel and its parameters: as for /api/strategy/total-profit
+ * riskMetrics, fillModel: as for /api/strategy/total-profit
+ * Tokens held to expiry settle on the market's resolved outcome (totalFinalValue); tokens of slugs that are
+ * still unresolved are not valued, and those slugs are counted in unresolvedCount.
  */
 export const calculateTotalProfit2 = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -256,11 +249,7 @@ export const calculateTotalProfit2 = async (req: Request, res: Response): Promis
     const orderSize = req.query.orderSize 
       ? parseFloat(req.query.orderSize as string) 
       : 1;
-    const token = req.query.token as string | undefined;
-    const eventType = req.query.eventType as string | undefined;
-    const count = req.query.count 
-      ? parseInt(req.query.count as string, 10) 
-      : undefined;
+    const useTradePrints = req.query.useTradePrints === 'true' || req.query.useTradePrints === '1';
 
     // Validate parameters
     if (isNaN(targetTotal) || targetTotal <= 0 || targetTotal > 200) {
@@ -287,27 +276,30 @@ export const calculateTotalProfit2 = async (req: Request, res: Response): Promis
       return;
     }
 
-    if (count !== undefined && (isNaN(count) || count <= 0)) {
+    const marketQuery = parseMarketHistoryQuery(req.query);
+    if ('error' in marketQuery) {
       res.status(400).json({ 
-        error: 'Invalid count',
-        message: 'count must be a positive number'
+        error: marketQuery.error,
+        message: marketQuery.message
       });
       return;
     }
+    const { filters, pagination } = marketQuery;
 
-    // Build query for filtering slugs
-    const slugQuery: any = {};
-    if (token) {
-      slugQuery.token = token;
-    }
-    if (eventType) {
-      slugQuery.eventType = eventType;
+    const fillModelQuery = parseFillModelQuery(req.query);
+    if ('error' in fillModelQuery) {
+      res.status(400).json({ 
+        error: fillModelQuery.error,
+        message: fillModelQuery.message
+      });
+      return;
     }
+    const { fillModel } = fillModelQuery;
 
-    // Get all distinct slugs with filters
-    const allSlugs = await TokenPriceHistory.distinct('slug', slugQuery);
+    // Count the ended markets matching the filters
+    const totalSlugCount = await countMarkets(filters);
 
-    if (allSlugs.length === 0) {
+    if (totalSlugCount === 0) {
       res.json({
         totalProfit: 0,
         totalCost: 0,
@@ -316,99 +308,70 @@ export const calculateTotalProfit2 = async (req: Request, res: Response): Promis
         totalSlugCount: 0,
         processedSlugCount: 0,
         actualProcessedCount: 0,
+        unresolvedCount: 0,
+        riskMetrics: calculateRiskMetrics([]),
+        fillModel: fillModel.describe(),
         results: []
       });
       return;
     }
 
-    // Get slugs sorted by latest timestamp (most recent first)
-    const slugsWithLatestTimestamp = await Promise.all(
-      allSlugs.map(async (slug) => {
-        const query: any = { slug, ...slugQuery };
-        const latestPrice = await TokenPriceHistory.findOne(
-          query,
-          { timestamp: 1 },
-          { sort: { timestamp: -1 } }
-        );
-        return {
-          slug,
-          latestTimestamp: latestPrice?.timestamp || new Date(0),
-        };
-      })
-    );
-
-    // Sort by latest timestamp (descending - most recent first)
-    slugsWithLatestTimestamp.sort((a, b) => {
-      const timeA = a.latestTimestamp.getTime();
-      const timeB = b.latestTimestamp.getTime();
-      return timeB - timeA;
-    });
-
-    // Extract sorted slugs and limit by count if provided
-    let slugs: string[];
-    if (count !== undefined) {
-      slugs = slugsWithLatestTimestamp.slice(0, count).map(item => item.slug);
-    } else {
-      slugs = slugsWithLatestTimestamp.map(item => item.slug);
-    }
-
     // Calculate strategy for each slug
     let totalProfit = 0;
     let totalCost = 0;
     let totalReceived = 0;
+    let totalFinalValue = 0;
+    let unresolvedCount = 0;
     const results: Array<{
       slug: string;
+      endTime: Date | null;
       profit: number;
       cost: number;
       totalReceived: number;
+      finalValue: number;
+      resolved: boolean;
     }> = [];
 
-    for (const slug of slugs) {
+    // Stream the price history of each market of the page (one aggregation, most recent first)
+    let processedSlugCount = 0;
+    const histories = streamMarketHistories(filters, pagination, { includeTradePrints: useTradePrints });
+    for await (const { slug, eventType, endTime, resolvedOutcome, ticks, trades } of histories) {
+      processedSlugCount++;
+      if (ticks.length === 0) {
+        continue;
+      }
+
       try {
-        // Build query for price history
-        const priceHistoryQuery: any = { slug, ...slugQuery };
-        
-        // Get price history for this slug
-        const priceHistory = await TokenPriceHistory.find(priceHistoryQuery)
-          .sort({ timestamp: 1 })
-          .exec();
-
-        if (priceHistory.length === 0) {
-          continue;
+        // Held tokens settle on the official outcome; they are not valued for unresolved markets
+        if (!resolvedOutcome) {
+          unresolvedCount++;
         }
 
-        // Convert to PriceData format
-        const priceData: PriceData2[] = priceHistory.map(item => {
-          const timestamp = item.timestamp.toISOString();
-          return {
-            slug: item.slug,
-            timestamp: timestamp,
-            upTokenPrice: item.upTokenPrice,
-            downTokenPrice: item.downTokenPrice,
-            createdAt: timestamp,
-            coinPriceBias: item.coinPriceBias,
-          };
-        });
-
         // Calculate strategy for this slug
-        const strategyResult = calculatePrePurchasedSellStrategy(
-          priceData,
-          targetTotal,
-          sellThreshold,
-          orderSize
+        const strategyResult = runBacktest(
+          new PrePurchasedSellStrategy({ targetTotal, sellThreshold, orderSize }),
+          { slug, eventType },
+          ticks,
+          trades,
+          resolvedOutcome,
+          fillModel
         );
 
         // Accumulate totals
         totalProfit += strategyResult.totalProfit;
         totalCost += strategyResult.totalCost;
         totalReceived += strategyResult.totalReceived;
+        totalFinalValue += strategyResult.finalValue;
 
         // Store individual result
         results.push({
           slug,
+          endTime,
           profit: strategyResult.totalProfit,
           cost: strategyResult.totalCost,
           totalReceived: strategyResult.totalReceived,
+          finalValue: strategyResult.finalValue,
+          resolved: resolvedOutcome !== null,
         });
       } catch (error) {
         logger.error(`Error calculating strategy 2 for slug ${slug}:`, error);
@@ -420,17 +383,27 @@ export const calculateTotalProfit2 = async (req: Request, res: Response): Promis
       totalProfit: Math.round(totalProfit * 100) / 100,
       totalCost: Math.round(totalCost * 100) / 100,
       totalReceived: Math.round(totalReceived * 100) / 100,
-      totalSlugCount: allSlugs.length,
-      processedSlugCount: slugs.length,
+      totalFinalValue: Math.round(totalFinalValue * 100) / 100,
+      totalSlugCount,
+      processedSlugCount,
       actualProcessedCount: results.length,
+      pagination: describePagination(pagination, totalSlugCount),
+      unresolvedCount,
       parameters: {
         targetTotal,
         sellThreshold,
         orderSize,
-        token: token || null,
-        eventType: eventType || null,
-        count: count || null,
+        token: filters.token || null,
+        eventType: filters.eventType || null,
+        startDate: filters.startDate || null,
+        endDate: filters.endDate || null,
+        count: pagination.pageSize,
+        page: pagination.page,
+        useTradePrints,
       },
+      fillModel: fillModel.describe(),
+      // Results are most recent first
+      riskMetrics: calculateRiskMetrics([...results].reverse()),
       results,
     });
   } catch (error) {
@@ -451,6 +424,13 @@ export const calculateTotalProfit2 = async (req: Request, res: Response): Promis
  *   - token: string (optional) - filter by coin symbol (BTC, ETH, SOL, XRP)
  *   - eventType: string (optional) - filter by event type (hourly, 15min)
  *   - count: number (optional) - number of latest slugs to calculate (default: all slugs)
+ *   - startDate, endDate: date (optional) - only markets ending within the range
+ *   - page: number (default: 1), pageSize: number (optional, alias: count) - page of markets, most recent first
+ *   - useTradePrints: boolean (default: false) - also fill limit orders on stored trade prints
+ *   - fillModel and its parameters: as for /api/strategy/total-profit
+ * riskMetrics, fillModel: as for /api/strategy/total-profit
+ * Positions held to expiry settle on the market's resolved outcome (Markets collection); slugs that are
+ * still unresolved are settled on the last tick and counted in unresolvedCount.
  */
 export const calculateTotalProfit3 = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -470,11 +450,7 @@ export const calculateTotalProfit3 = async (req: Request, res: Response): Promis
     const orderSize = req.query.orderSize 
       ? parseFloat(req.query.orderSize as string) 
       : 1;
-    const token = req.query.token as string | undefined;
-    const eventType = req.query.eventType as string | undefined;
-    const count = req.query.count 
-      ? parseInt(req.query.count as string, 10) 
-      : undefined;
+    const useTradePrints = req.query.useTradePrints === 'true' || req.query.useTradePrints === '1';
 
     // Validate parameters
     if (isNaN(priceDiff) || priceDiff <= 0) {
@@ -517,27 +493,30 @@ export const calculateTotalProfit3 = async (req: Request, res: Response): Promis
       return;
     }
 
-    if (count !== undefined && (isNaN(count) || count <= 0)) {
+    const marketQuery = parseMarketHistoryQuery(req.query);
+    if ('error' in marketQuery) {
       res.status(400).json({ 
-        error: 'Invalid count',
-        message: 'count must be a positive number'
+        error: marketQuery.error,
+        message: marketQuery.message
       });
       return;
     }
+    const { filters, pagination } = marketQuery;
 
-    // Build query for filtering slugs
-    const slugQuery: any = {};
-    if (token) {
-      slugQuery.token = token;
-    }
-    if (eventType) {
-      slugQuery.eventType = eventType;
+    const fillModelQuery = parseFillModelQuery(req.query);
+    if ('error' in fillModelQuery) {
+      res.status(400).json({ 
+        error: fillModelQuery.error,
+        message: fillModelQuery.message
+      });
+      return;
     }
+    const { fillModel } = fillModelQuery;
 
-    // Get all distinct slugs with filters
-    const allSlugs = await TokenPriceHistory.distinct('slug', slugQuery);
+    // Count the ended markets matching the filters
+    const totalSlugCount = await countMarkets(filters);
 
-    if (allSlugs.length === 0) {
+    if (totalSlugCount === 0) {
       res.json({
         totalProfit: 0,
         totalCost: 0,
@@ -547,106 +526,70 @@ export const calculateTotalProfit3 = async (req: Request, res: Response): Promis
         totalSlugCount: 0,
         processedSlugCount: 0,
         actualProcessedCount: 0,
+        unresolvedCount: 0,
         parameters: {
           priceDiff,
           timeTillEnd,
           targetPrice,
           maxTotalCent,
           orderSize,
-          token: token || null,
-          eventType: eventType || null,
-          count: count || null,
+          token: filters.token || null,
+          eventType: filters.eventType || null,
+          startDate: filters.startDate || null,
+          endDate: filters.endDate || null,
+          count: pagination.pageSize,
+          page: pagination.page,
+          useTradePrints,
         },
+        riskMetrics: calculateRiskMetrics([]),
+        fillModel: fillModel.describe(),
         results: []
       });
       return;
     }
 
-    // Get slugs sorted by latest timestamp (most recent first)
-    const slugsWithLatestTimestamp = await Promise.all(
-      allSlugs.map(async (slug) => {
-        const query: any = { slug, ...slugQuery };
-        const latestPrice = await TokenPriceHistory.findOne(
-          query,
-          { timestamp: 1 },
-          { sort: { timestamp: -1 } }
-        );
-        return {
-          slug,
-          latestTimestamp: latestPrice?.timestamp || new Date(0),
-        };
-      })
-    );
-
-    // Sort by latest timestamp (descending - most recent first)
-    slugsWithLatestTimestamp.sort((a, b) => {
-      const timeA = a.latestTimestamp.getTime();
-      const timeB = b.latestTimestamp.getTime();
-      return timeB - timeA;
-    });
-
-    // Extract sorted slugs and limit by count if provided
-    let slugs: string[];
-    if (count !== undefined) {
-      slugs = slugsWithLatestTimestamp.slice(0, count).map(item => item.slug);
-    } else {
-      slugs = slugsWithLatestTimestamp.map(item => item.slug);
-    }
-
     // Calculate strategy for each slug
     let totalProfit = 0;
     let totalCost = 0;
     let totalFinalValue = 0;
     let totalEntries = 0;
     let totalHedgesFilled = 0;
+    let unresolvedCount = 0;
     const results: Array<{
       slug: string;
+      endTime: Date | null;
       profit: number;
       cost: number;
       finalValue: number;
       entries: number;
       hedgesFilled: number;
+      resolved: boolean;
     }> = [];
 
-    for (const slug of slugs) {
+    // Stream the price history of each market of the page (one aggregation, most recent first)
+    let processedSlugCount = 0;
+    const histories = streamMarketHistories(filters, pagination, { includeTradePrints: useTradePrints });
+    for await (const { slug, eventType, endTime, resolvedOutcome, ticks, trades } of histories) {
+      processedSlugCount++;
+      if (ticks.length === 0) {
+        continue;
+      }
+
       try {
-        // Build query for price history
-        const priceHistoryQuery: any = { slug, ...slugQuery };
-        
-        // Get price history for this slug
-        const priceHistory = await TokenPriceHistory.find(priceHistoryQuery)
-          .sort({ timestamp: 1 })
-          .exec();
-
-        if (priceHistory.length === 0) {
-          continue;
-        }
 
-        // Get eventType from first record (all records for a slug should have same eventType)
-        const eventTypeFromData = priceHistory[0].eventType as 'hourly' | '15min';
-
-        // Convert to PriceData format
-        const priceData: PriceData3[] = priceHistory.map(item => {
-          const timestamp = item.timestamp.toISOString();
-          return {
-            slug: item.slug,
-            timestamp: timestamp,
-            upTokenPrice: item.upTokenPrice,
-            downTokenPrice: item.downTokenPrice,
-            createdAt: timestamp,
-            coinPriceBias: item.coinPriceBias,
-          };
-        });
+        // Settle on the official outcome; unresolved markets fall back to the last tick
+        if (!resolvedOutcome) {
+          unresolvedCount++;
+        }
 
         // Calculate strategy for this slug
-        const strategyResult = calculateNewHedgeStrategy(
-          priceData,
-          priceDiff,
-          timeTillEnd,
-          targetPrice,
-          maxTotalCent,
-          orderSize,
-          eventTypeFromData
+        const strategyResult = runBacktest(
+          new NewHedgeStrategy({ priceDiff, timeTillEnd, targetPrice, maxTotalCent, orderSize }),
+          { slug, eventType },
+          ticks,
+          trades,
+          resolvedOutcome,
+          fillModel
         );
 
         // Accumulate totals
@@ -659,11 +602,13 @@ export const calculateTotalProfit3 = async (req: Request, res: Response): Promis
         // Store individual result
         results.push({
           slug,
+          endTime,
           profit: strategyResult.totalProfit,
           cost: strategyResult.totalCost,
           finalValue: strategyResult.finalValue,
           entries: strategyResult.totalEntries,
           hedgesFilled: strategyResult.totalHedgesFilled,
+          resolved: resolvedOutcome !== null,
         });
       } catch (error) {
         logger.error(`Error calculating strategy 3 for slug ${slug}:`, error);
@@ -677,19 +622,28 @@ export const calculateTotalProfit3 = async (req: Request, res: Response): Promis
       totalFinalValue: Math.round(totalFinalValue * 100) / 100,
       totalEntries,
       totalHedgesFilled,
-      totalSlugCount: allSlugs.length,
-      processedSlugCount: slugs.length,
+      totalSlugCount,
+      processedSlugCount,
       actualProcessedCount: results.length,
+      pagination: describePagination(pagination, totalSlugCount),
+      unresolvedCount,
       parameters: {
         priceDiff,
         timeTillEnd,
         targetPrice,
         maxTotalCent,
         orderSize,
-        token: token || null,
-        eventType: eventType || null,
-        count: count || null,
+        token: filters.token || null,
+        eventType: filters.eventType || null,
+        startDate: filters.startDate || null,
+        endDate: filters.endDate || null,
+        count: pagination.pageSize,
+        page: pagination.page,
+        useTradePrints,
       },
+      fillModel: fillModel.describe(),
+      // Results are most recent first
+      riskMetrics: calculateRiskMetrics([...results].reverse()),
       results,
     });
   } catch (error) {
@@ -698,3 +652,147 @@ export const calculateTotalProfit3 = async (req: Request, res: Response): Promis
   }
 };
 
+/**
+ * Job summary (and optionally the ranked results) returned by the sweep endpoints
+ */
+const toSweepJobResponse = (job: SweepJob, includeResults: boolean) => ({
+  jobId: job.id,
+  status: job.status,
+  strategy: job.request.strategy,
+  ranges: job.request.ranges,
+  params: job.request.params,
+  sortBy: job.request.sortBy,
+  walkForwardOptions: job.request.walkForward,
+  fillModel: job.request.fillModel.describe(),
+  combinations: job.combinations,
+  progress: {
+    ...job.progress,
+    percent: job.progress.totalMarkets > 0
+      ? Math.round((job.progress.processedMarkets / job.progress.totalMarkets) * 100)
+      : (job.status === 'completed' ? 100 : 0),
+  },
+  createdAt: job.createdAt,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt,
+  error: job.error,
+  ...(includeResults ? { results: job.results, walkForward: job.walkForward } : {}),
+});
+
+/**
+ * Start a parameter sweep (grid search) as a background job
+ * POST /api/strategy/sweep
+ * Body:
+ *   - strategy: 'gridHedge' | 'prePurchasedSell' | 'newHedge'
+ *   - ranges: object - swept parameters, each { min, max, step } or a list of values
+ *     (e.g. { "gridGap": { "min": 2, "max": 10, "step": 1 }, "enableRebuy": [true, false] })
+ *   - params: object (optional) - fixed strategy parameters (strategy defaults otherwise)
+ *   - sortBy: 'profit' | 'winRate' | 'maxDrawdown' | 'entries' (default: profit)
+ *   - walkForward: { trainSize, testSize } (optional) - also run a walk-forward evaluation: markets are split
+ *     chronologically into rolling windows, the best combination (by sortBy) on trainSize markets is
+ *     evaluated on the next testSize markets, and the out-of-sample equity curve is stitched across windows
+ *   - token, eventType, startDate, endDate, page, pageSize/count, useTradePrints, fillModel (and its
+ *     parameters) - as for total-profit
+ * Responds 202 with the job; poll GET /api/strategy/sweep/:jobId for progress and the ranked results.
+ */
+export const startParameterSweep = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = parseSweepRequest(req.body || {});
+    if ('error' in parsed) {
+      res.status(400).json({
+        error: parsed.error,
+        message: parsed.message
+      });
+      return;
+    }
+
+    const job = getParameterSweepService().createJob(parsed.request);
+    res.status(202).json(toSweepJobResponse(job, false));
+  } catch (error) {
+    logger.error('Error starting parameter sweep:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * List parameter sweep jobs, newest first (without results)
+ * GET /api/strategy/sweep
+ */
+export const getParameterSweeps = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const jobs = getParameterSweepService().getJobs();
+    res.json({
+      count: jobs.length,
+      jobs: jobs.map(job => toSweepJobResponse(job, false)),
+    });
+  } catch (error) {
+    logger.error('Error listing parameter sweeps:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Progress of a parameter sweep job, with the ranked results (and walk-forward evaluation) once completed
+ * GET /api/strategy/sweep/:jobId
+ * Query parameters:
+ *   - limit: number (optional) - only the top N results
+ */
+export const getParameterSweep = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = getParameterSweepService().getJob(req.params.jobId);
+    if (!job) {
+      res.status(404).json({
+        error: 'Sweep not found',
+        message: `No parameter sweep job with id ${req.params.jobId}`
+      });
+      return;
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : null;
+    if (limit !== null && (isNaN(limit) || limit <= 0)) {
+      res.status(400).json({
+        error: 'Invalid limit',
+        message: 'limit must be a positive number'
+      });
+      return;
+    }
+
+    const response = toSweepJobResponse(job, true);
+    res.json({
+      ...response,
+      results: limit !== null ? job.results.slice(0, limit) : job.results,
+    });
+  } catch (error) {
+    logger.error('Error getting parameter sweep:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Cancel a queued or running parameter sweep job
+ * DELETE /api/strategy/sweep/:jobId
+ */
+export const cancelParameterSweep = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const service = getParameterSweepService();
+    const job = service.getJob(req.params.jobId);
+    if (!job) {
+      res.status(404).json({
+        error: 'Sweep not found',
+        message: `No parameter sweep job with id ${req.params.jobId}`
+      });
+      return;
+    }
+    if (!service.cancelJob(job.id)) {
+      res.status(409).json({
+        error: 'Sweep already finished',
+        message: `Parameter sweep ${job.id} is ${job.status}`
+      });
+      return;
+    }
+
+    res.json(toSweepJobResponse(job, false));
+  } catch (error) {
+    logger.error('Error cancelling parameter sweep:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,101 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type BacktestJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Normalized inputs of a backtest job (strategy parameters include the strategy defaults)
+ */
+export interface BacktestJobInput {
+    strategy: string;
+    params: Record<string, unknown>;
+    token: string | null;
+    eventType: string | null;
+    startDate: string | null; // ISO timestamp
+    endDate: string | null; // ISO timestamp
+    page: number;
+    pageSize: number | null;
+    useTradePrints: boolean;
+    fillModel: Record<string, unknown>; // FillModel.describe()
+}
+
+/**
+ * Backtest run by the BacktestJobService worker. Completed jobs double as a result cache keyed by
+ * inputHash, until new ticks or settlements of one of their slugs invalidate them.
+ */
+export interface IBacktestJob extends Document {
+    inputHash: string; // SHA-256 of the normalized input
+    input: BacktestJobInput;
+    status: BacktestJobStatus;
+    progress: {
+        processedMarkets: number;
+        totalMarkets: number;
+    };
+    slugs: string[]; // Markets covered by the job
+    result: Record<string, unknown> | null; // Totals; per-slug results are in the BacktestJobResult collection
+    error: string | null;
+    startedAt: Date | null;
+    finishedAt: Date | null;
+    invalidatedAt: Date | null; // Set when the covered markets changed; invalidated jobs are not served from cache
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const BacktestJobSchema: Schema = new Schema({
+    inputHash: {
+        type: String,
+        required: true,
+    },
+    input: {
+        type: Schema.Types.Mixed,
+        required: true,
+    },
+    status: {
+        type: String,
+        required: true,
+        enum: ['queued', 'running', 'completed', 'failed'],
+        default: 'queued',
+        index: true,
+    },
+    progress: {
+        processedMarkets: {
+            type: Number,
+            default: 0,
+        },
+        totalMarkets: {
+            type: Number,
+            default: 0,
+        },
+    },
+    slugs: {
+        type: [String],
+        default: [],
+        index: true,
+    },
+    result: {
+        type: Schema.Types.Mixed,
+        default: null,
+    },
+    error: {
+        type: String,
+        default: null,
+    },
+    startedAt: {
+        type: Date,
+        default: null,
+    },
+    finishedAt: {
+        type: Date,
+        default: null,
+    },
+    invalidatedAt: {
+        type: Date,
+        default: null,
+    },
+}, {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    minimize: false, // Keep empty params objects
+});
+
+BacktestJobSchema.index({ inputHash: 1, invalidatedAt: 1, createdAt: -1 });
+
+export default mongoose.model<IBacktestJob>('BacktestJob', BacktestJobSchema);
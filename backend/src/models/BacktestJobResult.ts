@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Backtest result of one market of a BacktestJob.
+ * Kept out of the job document so large jobs stay under the MongoDB document size limit.
+ */
+export interface IBacktestJobResult extends Document {
+    jobId: Types.ObjectId;
+    index: number; // Position in the job's results (most recent market first)
+    slug: string;
+    endTime: Date | null;
+    resolved: boolean;
+    profit: number;
+    cost: number;
+    entries: number;
+    finalValue?: number;
+    hedgesFilled?: number;
+    totalReceived?: number;
+}
+
+const BacktestJobResultSchema: Schema = new Schema({
+    jobId: {
+        type: Schema.Types.ObjectId,
+        required: true,
+    },
+    index: {
+        type: Number,
+        required: true,
+    },
+    slug: {
+        type: String,
+        required: true,
+    },
+    endTime: {
+        type: Date,
+        default: null,
+    },
+    resolved: {
+        type: Boolean,
+        required: true,
+    },
+    profit: {
+        type: Number,
+        required: true,
+    },
+    cost: {
+        type: Number,
+        required: true,
+    },
+    entries: {
+        type: Number,
+        required: true,
+    },
+    finalValue: { type: Number },
+    hedgesFilled: { type: Number },
+    totalReceived: { type: Number },
+}, {
+    timestamps: true, // Adds createdAt and updatedAt fields
+});
+
+BacktestJobResultSchema.index({ jobId: 1, index: 1 });
+
+export default mongoose.model<IBacktestJobResult>('BacktestJobResult', BacktestJobResultSchema);
@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { EventType } from './TokenPriceHistory';
+
+/**
+ * Trading bot instance configuration.
+ * Entries override bots with the same botId from the bots config file.
+ */
+export interface IBotConfig extends Document {
+    botId: string;
+    coin: string; // Coin symbol (e.g., 'BTC', 'ETH', 'SOL', 'XRP')
+    interval: EventType;
+    strategy: string; // Strategy name (e.g., 'gridHedge', 'prePurchasedSell', 'newHedge')
+    strategyParams: Record<string, unknown>;
+    capitalLimit: number | null; // Maximum capital committed per market (in dollars), null for no limit
+    enabled: boolean;
+}
+
+const BotConfigSchema: Schema = new Schema({
+    botId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    coin: {
+        type: String,
+        required: true,
+        enum: ['BTC', 'ETH', 'SOL', 'XRP'],
+    },
+    interval: {
+        type: String,
+        required: true,
+        enum: ['hourly', '15min'],
+    },
+    strategy: {
+        type: String,
+        required: true,
+        enum: ['gridHedge', 'prePurchasedSell', 'newHedge'],
+    },
+    strategyParams: {
+        type: Schema.Types.Mixed,
+        default: {},
+    },
+    capitalLimit: {
+        type: Number,
+        default: null,
+    },
+    enabled: {
+        type: Boolean,
+        default: true,
+    },
+}, {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    minimize: false, // Keep empty strategyParams objects
+});
+
+export default mongoose.model<IBotConfig>('BotConfig', BotConfigSchema);
@@ -0,0 +1,114 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Strategy order resting on the exchange (placed, not yet reported to the strategy as filled)
+ */
+export interface BotStateOrder {
+    orderId: string; // Exchange order ID
+    strategyOrderId: string;
+    tokenType: 'up' | 'down';
+    assetId: string;
+    side: 'BUY' | 'SELL';
+    price: number;
+    size: number;
+    sizeMatched: number;
+    reservedCapital: number; // Capital reserved against the capital limit (in dollars)
+}
+
+/**
+ * Fill reported to the strategy in the current market
+ */
+export interface BotStateFill {
+    orderId: string; // Exchange order ID
+    strategyOrderId: string;
+    tokenType: 'up' | 'down';
+    assetId: string;
+    side: 'BUY' | 'SELL';
+    price: number;
+    size: number;
+    timestamp: string;
+}
+
+/**
+ * Persisted state of a TradingBot in its current market, so a restarted bot resumes the
+ * strategy and its resting orders instead of re-entering the market
+ */
+export interface IBotState extends Document {
+    botId: string;
+    slug: string | null; // Market the strategy is running on, null between markets
+    strategy: string;
+    strategyParams: Record<string, unknown>;
+    strategyState: Record<string, unknown> | null; // Strategy.saveState()
+    nextStrategyOrderId: number;
+    committedCapital: number; // In dollars
+    orders: BotStateOrder[];
+    fills: BotStateFill[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const BotStateSchema: Schema = new Schema({
+    botId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    slug: {
+        type: String,
+        default: null,
+    },
+    strategy: {
+        type: String,
+        required: true,
+    },
+    strategyParams: {
+        type: Schema.Types.Mixed,
+        default: {},
+    },
+    strategyState: {
+        type: Schema.Types.Mixed,
+        default: null,
+    },
+    nextStrategyOrderId: {
+        type: Number,
+        default: 0,
+    },
+    committedCapital: {
+        type: Number,
+        default: 0,
+    },
+    orders: {
+        type: [{
+            _id: false,
+            orderId: String,
+            strategyOrderId: String,
+            tokenType: String,
+            assetId: String,
+            side: String,
+            price: Number,
+            size: Number,
+            sizeMatched: Number,
+            reservedCapital: Number,
+        }],
+        default: [],
+    },
+    fills: {
+        type: [{
+            _id: false,
+            orderId: String,
+            strategyOrderId: String,
+            tokenType: String,
+            assetId: String,
+            side: String,
+            price: Number,
+            size: Number,
+            timestamp: String,
+        }],
+        default: [],
+    },
+}, {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    minimize: false, // Keep empty strategy states
+});
+
+export default mongoose.model<IBotState>('BotState', BotStateSchema);
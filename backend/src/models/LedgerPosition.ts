@@ -0,0 +1,132 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { EventType, Outcome } from './TokenPriceHistory';
+
+/**
+ * End-of-market policy applied to a position shortly before its market closed
+ */
+export interface LedgerEndOfMarket {
+    policy: 'hold' | 'flatten';
+    cancelledOrders: number; // Resting orders of the asset cancelled
+    unhedgedSize: number; // Tokens held beyond the opposite side's holding
+    flattenedSize: number; // Tokens sold at market (0 if held, or if the sell failed)
+    flattenOrderId: string | null;
+    at: Date;
+}
+
+/**
+ * Position of a bot in one asset (UP or DOWN token of a market), built from its confirmed trades.
+ * Sells realize P&L against the average cost; the held size is settled when the market resolves.
+ */
+export interface ILedgerPosition extends Document {
+    botId: string;
+    slug: string;
+    token: string; // Coin symbol (e.g., 'BTC', 'ETH', 'SOL', 'XRP')
+    eventType: EventType;
+    assetId: string;
+    outcome: Outcome; // Token of the market this asset is
+    paperTrading: boolean;
+    date: string; // UTC day of the first fill (YYYY-MM-DD)
+    size: number; // Tokens currently held
+    cost: number; // Cost basis of held tokens (in dollars)
+    boughtSize: number;
+    totalCost: number; // Total spent on buys (in dollars)
+    soldSize: number;
+    totalReceived: number; // Total received from sells (in dollars)
+    realizedPnl: number; // P&L realized by sells (in dollars)
+    fillCount: number;
+    fillIds: string[]; // Applied fills (tradeId:orderId), so replayed trades are not counted twice
+    settled: boolean;
+    settlementOutcome?: Outcome | null; // Winning token of the market
+    settlementPnl?: number | null; // Payout of held tokens minus their cost (in dollars)
+    settledAt?: Date | null;
+    redemptionTxHash?: string | null; // Transaction that redeemed the market's winning tokens
+    redeemedAt?: Date | null;
+    endOfMarket?: LedgerEndOfMarket | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const LedgerPositionSchema: Schema = new Schema({
+    botId: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    slug: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    token: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    eventType: {
+        type: String,
+        required: true,
+        enum: ['hourly', '15min'],
+    },
+    assetId: {
+        type: String,
+        required: true,
+    },
+    outcome: {
+        type: String,
+        required: true,
+        enum: ['UP', 'DOWN'],
+    },
+    paperTrading: {
+        type: Boolean,
+        default: false,
+    },
+    date: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    size: { type: Number, default: 0 },
+    cost: { type: Number, default: 0 },
+    boughtSize: { type: Number, default: 0 },
+    totalCost: { type: Number, default: 0 },
+    soldSize: { type: Number, default: 0 },
+    totalReceived: { type: Number, default: 0 },
+    realizedPnl: { type: Number, default: 0 },
+    fillCount: { type: Number, default: 0 },
+    fillIds: {
+        type: [String],
+        default: [],
+    },
+    settled: {
+        type: Boolean,
+        default: false,
+        index: true,
+    },
+    settlementOutcome: {
+        type: String,
+        enum: ['UP', 'DOWN', null],
+        default: null,
+    },
+    settlementPnl: { type: Number, default: null },
+    settledAt: { type: Date, default: null },
+    redemptionTxHash: { type: String, default: null },
+    redeemedAt: { type: Date, default: null },
+    endOfMarket: {
+        type: {
+            _id: false,
+            policy: String,
+            cancelledOrders: Number,
+            unhedgedSize: Number,
+            flattenedSize: Number,
+            flattenOrderId: String,
+            at: Date,
+        },
+        default: null,
+    },
+}, {
+    timestamps: true, // Adds createdAt and updatedAt fields
+});
+
+LedgerPositionSchema.index({ botId: 1, slug: 1, assetId: 1 }, { unique: true });
+
+export default mongoose.model<ILedgerPosition>('LedgerPosition', LedgerPositionSchema);
@@ -0,0 +1,129 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { EventType, Outcome } from './TokenPriceHistory';
+
+// Lifecycle: 'active' while the market is traded, 'unresolved' once it has closed, 'resolved' once settled
+export type MarketStatus = 'active' | 'unresolved' | 'resolved';
+
+/**
+ * Top of book of both tokens when MarketMonitor switched to the market at its boundary
+ */
+export interface MarketFirstTick {
+    at: Date;
+    yesBestAsk: number;
+    yesBestBid: number;
+    noBestAsk: number;
+    noBestBid: number;
+}
+
+/**
+ * One market (slug): metadata written by MarketMonitor when it switches markets, and the official
+ * settlement filled in by MarketResolutionService.
+ */
+export interface IMarket extends Document {
+    slug: string;
+    conditionId: string | null; // Looked up from Gamma by slug if not known when the market is registered
+    question: string | null;
+    yesAssetId: string | null; // UP token
+    noAssetId: string | null; // DOWN token
+    token: string; // Coin symbol (e.g., 'BTC', 'ETH', 'SOL', 'XRP')
+    eventType: EventType;
+    startTime: Date | null;
+    endTime: Date | null;
+    startCoinPrice: number | null; // Coin price at market start
+    closeCoinPrice: number | null; // Coin price when the market closed
+    status: MarketStatus;
+    outcome: Outcome | null; // Resolved outcome, null until resolved
+    resolvedAt: Date | null;
+    lastCheckedAt: Date | null; // Last resolution attempt
+    firstTick: MarketFirstTick | null; // Null if the monitor joined the market after its start
+}
+
+const MarketSchema: Schema = new Schema({
+    slug: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    conditionId: {
+        type: String,
+        default: null,
+        index: true,
+    },
+    question: {
+        type: String,
+        default: null,
+    },
+    yesAssetId: {
+        type: String,
+        default: null,
+    },
+    noAssetId: {
+        type: String,
+        default: null,
+    },
+    token: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    eventType: {
+        type: String,
+        required: true,
+        enum: ['hourly', '15min'],
+        index: true,
+    },
+    startTime: {
+        type: Date,
+        default: null,
+    },
+    endTime: {
+        type: Date,
+        default: null,
+    },
+    startCoinPrice: {
+        type: Number,
+        default: null,
+    },
+    closeCoinPrice: {
+        type: Number,
+        default: null,
+    },
+    status: {
+        type: String,
+        required: true,
+        enum: ['active', 'unresolved', 'resolved'],
+        default: 'unresolved',
+        index: true,
+    },
+    outcome: {
+        type: String,
+        enum: ['UP', 'DOWN', null],
+        default: null,
+    },
+    resolvedAt: {
+        type: Date,
+        default: null,
+    },
+    lastCheckedAt: {
+        type: Date,
+        default: null,
+    },
+    firstTick: {
+        type: {
+            _id: false,
+            at: Date,
+            yesBestAsk: Number,
+            yesBestBid: Number,
+            noBestAsk: Number,
+            noBestBid: Number,
+        },
+        default: null,
+    },
+}, {
+    timestamps: true, // Adds createdAt and updatedAt fields
+});
+
+MarketSchema.index({ token: 1, eventType: 1, status: 1 });
+MarketSchema.index({ token: 1, eventType: 1, endTime: -1 });
+
+export default mongoose.model<IMarket>('Market', MarketSchema);
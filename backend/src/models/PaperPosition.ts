@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { EventType, Outcome } from './TokenPriceHistory';
+
+/**
+ * Paper-trading position and P&L of one bot in one market (slug).
+ * Field names follow the backtest StrategyResult so both can be compared per slug.
+ */
+export interface IPaperPosition extends Document {
+    botId: string;
+    slug: string;
+    token: string; // Coin symbol (e.g., 'BTC', 'ETH', 'SOL', 'XRP')
+    eventType: EventType;
+    upSize: number; // UP tokens currently held
+    upCost: number; // Cost basis of held UP tokens (in dollars)
+    downSize: number; // DOWN tokens currently held
+    downCost: number; // Cost basis of held DOWN tokens (in dollars)
+    totalCost: number; // Total spent on buys (in dollars)
+    totalReceived: number; // Total received from sells (in dollars)
+    realizedPnl: number; // P&L realized by sells before settlement (in dollars)
+    fillCount: number;
+    settled: boolean;
+    outcome?: Outcome | null; // Set at settlement
+    finalValue?: number | null; // Payout of held tokens at settlement (in dollars)
+    totalProfit?: number | null; // totalReceived + finalValue - totalCost
+    settledAt?: Date | null;
+}
+
+const PaperPositionSchema: Schema = new Schema({
+    botId: {
+        type: String,
+        required: true,
+    },
+    slug: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    token: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    eventType: {
+        type: String,
+        required: true,
+        enum: ['hourly', '15min'],
+        index: true,
+    },
+    upSize: { type: Number, default: 0 },
+    upCost: { type: Number, default: 0 },
+    downSize: { type: Number, default: 0 },
+    downCost: { type: Number, default: 0 },
+    totalCost: { type: Number, default: 0 },
+    totalReceived: { type: Number, default: 0 },
+    realizedPnl: { type: Number, default: 0 },
+    fillCount: { type: Number, default: 0 },
+    settled: {
+        type: Boolean,
+        default: false,
+        index: true,
+    },
+    outcome: {
+        type: String,
+        enum: ['UP', 'DOWN', null],
+        default: null,
+    },
+    finalValue: { type: Number, default: null },
+    totalProfit: { type: Number, default: null },
+    settledAt: { type: Date, default: null },
+}, {
+    timestamps: true, // Adds createdAt and updatedAt fields
+});
+
+PaperPositionSchema.index({ botId: 1, slug: 1 }, { unique: true });
+PaperPositionSchema.index({ token: 1, eventType: 1, createdAt: -1 });
+
+export default mongoose.model<IPaperPosition>('PaperPosition', PaperPositionSchema);
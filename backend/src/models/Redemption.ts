@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { Outcome } from './TokenPriceHistory';
+
+// 'pending' is retried after nextAttemptAt; 'failed' gave up after the maximum number of attempts
+export type RedemptionStatus = 'redeemed' | 'empty' | 'pending' | 'failed';
+
+/**
+ * Redemption of the funder's winning tokens of one resolved market (condition)
+ */
+export interface IRedemption extends Document {
+    conditionId: string;
+    slug: string;
+    outcome: Outcome;
+    status: RedemptionStatus;
+    attempts: number;
+    signer: string; // RedemptionSigner name
+    txHash: string | null;
+    upSize: number; // UP tokens held when redeemed
+    downSize: number; // DOWN tokens held when redeemed
+    payout: number; // Collateral received (in dollars)
+    lastError: string | null;
+    nextAttemptAt: Date | null;
+    redeemedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const RedemptionSchema: Schema = new Schema({
+    conditionId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    slug: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    outcome: {
+        type: String,
+        required: true,
+        enum: ['UP', 'DOWN'],
+    },
+    status: {
+        type: String,
+        required: true,
+        enum: ['redeemed', 'empty', 'pending', 'failed'],
+        index: true,
+    },
+    attempts: { type: Number, default: 0 },
+    signer: { type: String, required: true },
+    txHash: { type: String, default: null },
+    upSize: { type: Number, default: 0 },
+    downSize: { type: Number, default: 0 },
+    payout: { type: Number, default: 0 },
+    lastError: { type: String, default: null },
+    nextAttemptAt: { type: Date, default: null },
+    redeemedAt: { type: Date, default: null },
+}, {
+    timestamps: true, // Adds createdAt and updatedAt fields
+});
+
+export default mongoose.model<IRedemption>('Redemption', RedemptionSchema);
@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Order counted by the risk manager until it is filled or cancelled
+ */
+export interface RiskOpenOrder {
+    orderId: string;
+    botId: string;
+    slug: string;
+    side: 'BUY' | 'SELL';
+    price: number;
+    size: number;
+    sizeMatched: number;
+}
+
+/**
+ * Filled buy notional held by a bot in a market, until the market ends
+ */
+export interface RiskPosition {
+    botId: string;
+    slug: string;
+    notional: number; // In dollars
+}
+
+/**
+ * Persisted state of the RiskManager (a single document), so limits, the kill switch and
+ * the day's losses survive restarts
+ */
+export interface IRiskState extends Document {
+    key: string; // Always 'global'
+    limits: Record<string, number | null>; // Limits set through the API, override the env defaults
+    killSwitch: {
+        engaged: boolean;
+        reason: string | null;
+        engagedAt: Date | null;
+    };
+    daily: {
+        date: string; // UTC day (YYYY-MM-DD)
+        realizedPnl: number; // In dollars
+    };
+    positions: RiskPosition[];
+    openOrders: RiskOpenOrder[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const RiskStateSchema: Schema = new Schema({
+    key: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    limits: {
+        type: Schema.Types.Mixed,
+        default: {},
+    },
+    killSwitch: {
+        engaged: {
+            type: Boolean,
+            default: false,
+        },
+        reason: {
+            type: String,
+            default: null,
+        },
+        engagedAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    daily: {
+        date: {
+            type: String,
+            default: '',
+        },
+        realizedPnl: {
+            type: Number,
+            default: 0,
+        },
+    },
+    positions: {
+        type: [{
+            _id: false,
+            botId: String,
+            slug: String,
+            notional: Number,
+        }],
+        default: [],
+    },
+    openOrders: {
+        type: [{
+            _id: false,
+            orderId: String,
+            botId: String,
+            slug: String,
+            side: String,
+            price: Number,
+            size: Number,
+            sizeMatched: Number,
+        }],
+        default: [],
+    },
+}, {
+    timestamps: true, // Adds createdAt and updatedAt fields
+    minimize: false, // Keep empty limits objects
+});
+
+export default mongoose.model<IRiskState>('RiskState', RiskStateSchema);
@@ -12,6 +12,15 @@ export interface ITokenPriceHistory extends Document {
     eventType: EventType; // 'hourly' or '15min'
     outcome: Outcome; // 'UP' or 'DOWN'
     coinPriceBias?: number; // Difference between current coin price and start coin price
+    // Bid side and top of book (null when not recorded, e.g. documents saved before these fields existed)
+    upBestBid: number | null; // bestBidPrice for YES/UP token
+    downBestBid: number | null; // bestBidPrice for NO/DOWN token
+    upSpread: number | null; // upTokenPrice - upBestBid
+    downSpread: number | null; // downTokenPrice - downBestBid
+    upBidSize: number | null; // Size at the best bid of the UP token
+    upAskSize: number | null; // Size at the best ask of the UP token
+    downBidSize: number | null; // Size at the best bid of the DOWN token
+    downAskSize: number | null; // Size at the best ask of the DOWN token
 }
 
 const TokenPriceHistorySchema: Schema = new Schema({
@@ -55,6 +64,46 @@ const TokenPriceHistorySchema: Schema = new Schema({
         required: false,
         index: false,
     },
+    upBestBid: {
+        type: Number,
+        required: false,
+        default: null,
+    },
+    downBestBid: {
+        type: Number,
+        required: false,
+        default: null,
+    },
+    upSpread: {
+        type: Number,
+        required: false,
+        default: null,
+    },
+    downSpread: {
+        type: Number,
+        required: false,
+        default: null,
+    },
+    upBidSize: {
+        type: Number,
+        required: false,
+        default: null,
+    },
+    upAskSize: {
+        type: Number,
+        required: false,
+        default: null,
+    },
+    downBidSize: {
+        type: Number,
+        required: false,
+        default: null,
+    },
+    downAskSize: {
+        type: Number,
+        required: false,
+        default: null,
+    },
 }, {
     timestamps: true, // Adds createdAt and updatedAt fields
 });
@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { EventType, Outcome } from './TokenPriceHistory';
+
+export type TradeSide = 'BUY' | 'SELL';
+
+/**
+ * Last-trade print from the market channel (`last_trade_price` message).
+ * Stored per slug alongside TokenPriceHistory so backtests can fill limit orders on real trades.
+ */
+export interface ITradePrint extends Document {
+    slug: string;
+    timestamp: Date;
+    assetId: string;
+    outcome: Outcome; // Token traded: 'UP' or 'DOWN'
+    price: number; // in dollars
+    side: TradeSide; // Taker side
+    size: number;
+    feeRateBps: number;
+    token: string; // Coin symbol (e.g., 'BTC', 'ETH', 'SOL', 'XRP')
+    eventType: EventType;
+}
+
+const TradePrintSchema: Schema = new Schema({
+    slug: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    timestamp: {
+        type: Date,
+        required: true,
+    },
+    assetId: {
+        type: String,
+        required: true,
+    },
+    outcome: {
+        type: String,
+        required: true,
+        enum: ['UP', 'DOWN'],
+    },
+    price: {
+        type: Number,
+        required: true,
+    },
+    side: {
+        type: String,
+        required: true,
+        enum: ['BUY', 'SELL'],
+    },
+    size: {
+        type: Number,
+        required: true,
+    },
+    feeRateBps: {
+        type: Number,
+        default: 0,
+    },
+    token: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    eventType: {
+        type: String,
+        required: true,
+        enum: ['hourly', '15min'],
+        index: true,
+    },
+}, {
+    timestamps: true, // Adds createdAt and updatedAt fields
+});
+
+TradePrintSchema.index({ slug: 1, timestamp: 1 });
+
+export default mongoose.model<ITradePrint>('TradePrint', TradePrintSchema);
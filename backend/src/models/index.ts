@@ -1,3 +1,23 @@
 export { default as TokenPriceHistory } from './TokenPriceHistory';
 export type { ITokenPriceHistory } from './TokenPriceHistory';
+export { default as PaperPosition } from './PaperPosition';
+export type { IPaperPosition } from './PaperPosition';
+export { default as LedgerPosition } from './LedgerPosition';
+export type { ILedgerPosition, LedgerEndOfMarket } from './LedgerPosition';
 
+export { default as BotConfig } from './BotConfig';
+export type { IBotConfig } from './BotConfig';
+export { default as TradePrint } from './TradePrint';
+export type { ITradePrint } from './TradePrint';
+export { default as Market } from './Market';
+export type { IMarket, MarketFirstTick } from './Market';
+export { default as BacktestJob } from './BacktestJob';
+export type { IBacktestJob } from './BacktestJob';
+export { default as BacktestJobResult } from './BacktestJobResult';
+export type { IBacktestJobResult } from './BacktestJobResult';
+export { default as RiskState } from './RiskState';
+export type { IRiskState, RiskOpenOrder, RiskPosition } from './RiskState';
+export { default as Redemption } from './Redemption';
+export type { IRedemption } from './Redemption';
+export { default as BotState } from './BotState';
+export type { IBotState, BotStateFill, BotStateOrder } from './BotState';
@@ -1,6 +1,29 @@
 import { Router, Request, Response } from 'express';
 import { getPriceHistoryBySlug, getLatestPriceBySlug, getAllSlugs } from '../controllers/priceHistoryController';
-import { calculateTotalProfit, calculateTotalProfit2, calculateTotalProfit3 } from '../controllers/strategyController';
+import {
+  calculateTotalProfit,
+  calculateTotalProfit2,
+  calculateTotalProfit3,
+  startParameterSweep,
+  getParameterSweeps,
+  getParameterSweep,
+  cancelParameterSweep,
+} from '../controllers/strategyController';
+import { submitBacktestJob, getBacktestJobs, getBacktestJob } from '../controllers/backtestController';
+import {
+  getBots,
+  getBot,
+  startBot,
+  stopBot,
+  pauseBot,
+  resumeBot,
+  updateBotParams,
+  cancelAllBotOrders,
+  cancelAllOrders,
+  reloadBots,
+} from '../controllers/botController';
+import { getPnl } from '../controllers/pnlController';
+import { getRiskStatus, updateRiskLimits, engageKillSwitch, disengageKillSwitch } from '../controllers/riskController';
 
 const router = Router();
 
@@ -21,6 +44,36 @@ router.get('/price-history/:slug/latest', getLatestPriceBySlug);
 router.get('/strategy/total-profit', calculateTotalProfit);
 router.get('/strategy/total-profit-2', calculateTotalProfit2);
 router.get('/strategy/total-profit-3', calculateTotalProfit3);
+router.post('/strategy/sweep', startParameterSweep);
+router.get('/strategy/sweep', getParameterSweeps);
+router.get('/strategy/sweep/:jobId', getParameterSweep);
+router.delete('/strategy/sweep/:jobId', cancelParameterSweep);
+
+// Backtest job routes (results cached by input)
+router.post('/backtests', submitBacktestJob);
+router.get('/backtests', getBacktestJobs);
+router.get('/backtests/:jobId', getBacktestJob);
+
+// Bot control routes
+router.get('/bots', getBots);
+router.post('/bots/reload', reloadBots);
+router.post('/bots/cancel-all', cancelAllOrders);
+router.get('/bots/:botId', getBot);
+router.post('/bots/:botId/start', startBot);
+router.post('/bots/:botId/stop', stopBot);
+router.post('/bots/:botId/pause', pauseBot);
+router.post('/bots/:botId/resume', resumeBot);
+router.patch('/bots/:botId/params', updateBotParams);
+router.post('/bots/:botId/cancel-all', cancelAllBotOrders);
+
+// P&L ledger of the bots' confirmed trades
+router.get('/pnl', getPnl);
+
+// Risk manager routes (limits checked before every bot order)
+router.get('/risk', getRiskStatus);
+router.put('/risk/limits', updateRiskLimits);
+router.post('/risk/kill-switch', engageKillSwitch);
+router.delete('/risk/kill-switch', disengageKillSwitch);
 
 export default router;
 
@@ -6,9 +6,35 @@ import { logger } from '../utils/logger';
 // Load environment variables
 dotenv.config();
 
+// Bid side and top-of-book fields, which documents saved before they were recorded do not have
+const BID_AND_DEPTH_FIELDS = [
+  'upBestBid',
+  'downBestBid',
+  'upSpread',
+  'downSpread',
+  'upBidSize',
+  'upAskSize',
+  'downBidSize',
+  'downAskSize',
+];
+
+/**
+ * Backfill missing bid/spread/top-of-book fields with null, so old documents have the same shape
+ * as new ones and can be told apart from recorded values
+ */
+async function backfillBidAndDepthFields(): Promise<void> {
+  for (const field of BID_AND_DEPTH_FIELDS) {
+    const result = await TokenPriceHistory.updateMany(
+      { [field]: { $exists: false } },
+      { $set: { [field]: null } }
+    );
+    logger.info(`✅ Backfilled ${field} with null on ${result.modifiedCount} documents`);
+  }
+}
+
 /**
  * Migration script to add missing token, eventType, and outcome fields
- * to existing TokenPriceHistory documents
+ * to existing TokenPriceHistory documents, and null bid/depth fields to documents saved without them
  */
 async function migrateTokenPriceHistory() {
   try {
@@ -17,6 +43,8 @@ async function migrateTokenPriceHistory() {
     // Connect to database
     await connectDatabase();
 
+    await backfillBidAndDepthFields();
+
     // Find all documents that are missing token, eventType, or outcome
     const query = {
       $or: [
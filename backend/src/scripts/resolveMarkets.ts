@@ -0,0 +1,66 @@
+import dotenv from 'dotenv';
+import Market from '../models/Market';
+import TokenPriceHistory, { EventType } from '../models/TokenPriceHistory';
+import { connectDatabase, disconnectDatabase } from '../services/database';
+import { getMarketResolutionService } from '../services/MarketResolutionService';
+import { logger } from '../utils/logger';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Script to backfill the Market collection with every slug in TokenPriceHistory (slug listings and
+ * backtests read markets from it) and resolve the ones that are still unresolved. Condition IDs and
+ * metadata of backfilled markets are looked up from Gamma by slug.
+ */
+async function resolveMarkets() {
+  try {
+    logger.info('🚀 Starting market resolution...');
+
+    // Connect to database
+    await connectDatabase();
+
+    const slugs: Array<{ _id: string; token: string; eventType: EventType }> = await TokenPriceHistory.aggregate([
+      { $group: { _id: '$slug', token: { $first: '$token' }, eventType: { $first: '$eventType' } } },
+    ]);
+    logger.info(`📊 Found ${slugs.length} slugs in TokenPriceHistory`);
+
+    const marketResolutionService = getMarketResolutionService();
+    for (const slug of slugs) {
+      await marketResolutionService.registerMarket({
+        slug: slug._id,
+        conditionId: null,
+        token: slug.token,
+        eventType: slug.eventType,
+      });
+    }
+
+    const unresolvedCount = await Market.countDocuments({ status: 'unresolved' });
+    logger.info(`📊 ${unresolvedCount} markets to resolve`);
+
+    let resolvedCount = 0;
+    for (let checked = 0; checked < unresolvedCount; checked += 50) {
+      resolvedCount += await marketResolutionService.resolvePendingMarkets(50);
+    }
+
+    logger.info('📈 Resolution Summary:');
+    logger.info(`   Resolved: ${resolvedCount}`);
+    logger.info(`   Still unresolved: ${unresolvedCount - resolvedCount}`);
+
+    // Disconnect from database
+    await disconnectDatabase();
+    process.exit(0);
+
+  } catch (error) {
+    logger.error('❌ Market resolution failed:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+}
+
+// Run script if executed directly
+if (require.main === module) {
+  resolveMarkets();
+}
+
+export default resolveMarkets;
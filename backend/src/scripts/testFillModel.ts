@@ -0,0 +1,145 @@
+import assert from 'assert';
+import {
+  createFillModel,
+  createSeededRandom,
+  FillCandidate,
+  FillExecution,
+  IDEAL_FILL_MODEL,
+  RealisticFillModel,
+} from '../strategies/FillModel';
+import { OrderSide } from '../strategies/Strategy';
+import { logger } from '../utils/logger';
+
+const never = (): number => {
+  throw new Error('Unexpected random draw');
+};
+
+const createCandidate = (
+  side: OrderSide,
+  price: number,
+  size: number,
+  candidate: Partial<Omit<FillCandidate, 'order'>> = {}
+): FillCandidate => ({
+  order: { tokenType: 'up', side, price, size },
+  liquidity: 'taker',
+  marketPrice: price,
+  touch: false,
+  availableSize: null,
+  feeRateBps: null,
+  ...candidate,
+});
+
+/**
+ * Compare executions to the cent fraction, since prices are computed from floats
+ */
+function assertExecution(actual: FillExecution | null, expected: FillExecution): void {
+  assert.ok(actual, 'expected a fill');
+  assert.ok(
+    Math.abs(actual.price - expected.price) < 1e-9 && Math.abs(actual.fee - expected.fee) < 1e-9,
+    `expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+  );
+}
+
+const tests: Array<{ name: string; run: () => Promise<void> }> = [
+  {
+    name: 'ideal model fills at the limit price without fees',
+    run: async () => {
+      const candidate = createCandidate('BUY', 0.45, 10, { marketPrice: 0.4, touch: true, feeRateBps: 1000 });
+      assert.deepStrictEqual(IDEAL_FILL_MODEL.fill(candidate, never), { price: 0.45, fee: 0 });
+    },
+  },
+  {
+    name: 'taker fills pay fixed slippage and the fee on the cheaper side of the price',
+    run: async () => {
+      const fillModel = new RealisticFillModel({ takerFeeBps: 200, slippage: 'fixed', slippageCents: 1 });
+      // Buys execute above the ask: 0.02 * min(0.61, 0.39) * 10
+      assertExecution(fillModel.fill(createCandidate('BUY', 0.65, 10, { marketPrice: 0.6 }), never), { price: 0.61, fee: 0.078 });
+      // Sells execute below the market: 0.02 * min(0.29, 0.71) * 10
+      assertExecution(fillModel.fill(createCandidate('SELL', 0.25, 10, { marketPrice: 0.3 }), never), { price: 0.29, fee: 0.058 });
+      // Prices stay within the tick range
+      assertExecution(fillModel.fill(createCandidate('BUY', 0.99, 1, { marketPrice: 0.985 }), never), { price: 0.99, fee: 0.0002 });
+    },
+  },
+  {
+    name: 'uses the market fee rate unless a taker fee is set',
+    run: async () => {
+      const fillModel = new RealisticFillModel({ slippage: 'none' });
+      assertExecution(fillModel.fill(createCandidate('SELL', 0.2, 5, { marketPrice: 0.3, feeRateBps: 1000 }), never), { price: 0.3, fee: 0.15 });
+      assertExecution(fillModel.fill(createCandidate('SELL', 0.2, 5, { marketPrice: 0.3 }), never), { price: 0.3, fee: 0 });
+    },
+  },
+  {
+    name: 'depth slippage walks one cent per top-of-book size',
+    run: async () => {
+      const fillModel = new RealisticFillModel({ takerFeeBps: 0, slippage: 'depth', slippageCents: 3 });
+      // 10 shares at 0.50, 10 at 0.51 and 5 at 0.52: 0.2 / 25 = 0.008 average impact
+      assertExecution(fillModel.fill(createCandidate('BUY', 0.6, 25, { marketPrice: 0.5, availableSize: 10 }), never), { price: 0.508, fee: 0 });
+      assertExecution(fillModel.fill(createCandidate('BUY', 0.6, 5, { marketPrice: 0.5, availableSize: 10 }), never), { price: 0.5, fee: 0 });
+      // Without recorded sizes the fixed slippage applies
+      assertExecution(fillModel.fill(createCandidate('BUY', 0.6, 25, { marketPrice: 0.5 }), never), { price: 0.53, fee: 0 });
+    },
+  },
+  {
+    name: 'maker fills execute at the limit with the maker fee and may miss the touch',
+    run: async () => {
+      const fillModel = new RealisticFillModel({ takerFeeBps: 200, makerFeeBps: 100, slippageCents: 2, touchFillProbability: 0.4 });
+      const touch = createCandidate('BUY', 0.4, 10, { liquidity: 'maker', marketPrice: 0.4, touch: true });
+      assert.strictEqual(fillModel.fill(touch, () => 0.4), null);
+      assertExecution(fillModel.fill(touch, () => 0.39), { price: 0.4, fee: 0.04 });
+
+      // Trading through the limit always fills
+      const through = createCandidate('BUY', 0.4, 10, { liquidity: 'maker', marketPrice: 0.38 });
+      assertExecution(fillModel.fill(through, never), { price: 0.4, fee: 0.04 });
+    },
+  },
+  {
+    name: 'rebuilds the model from its description and draws reproducible random numbers',
+    run: async () => {
+      const fillModel = new RealisticFillModel({ takerFeeBps: 150, slippage: 'depth', seed: 7 });
+      const rebuilt = createFillModel(fillModel.describe());
+      assert.ok(rebuilt instanceof RealisticFillModel);
+      assert.deepStrictEqual(rebuilt.options, fillModel.options);
+      assert.strictEqual(createFillModel({ name: 'ideal' }), IDEAL_FILL_MODEL);
+
+      const draws = (seed: string) => {
+        const random = createSeededRandom(seed);
+        return [random(), random(), random()];
+      };
+      assert.deepStrictEqual(draws('7btc-updown-15m-1'), draws('7btc-updown-15m-1'));
+      assert.notDeepStrictEqual(draws('7btc-updown-15m-1'), draws('7btc-updown-15m-2'));
+      assert.ok(draws('1').every(value => value >= 0 && value < 1));
+    },
+  },
+];
+
+/**
+ * Fill model test: execution prices and fees of the ideal and realistic models
+ * (fixed and depth slippage, taker and maker fees, fills at the touch)
+ */
+async function testFillModel() {
+  let failures = 0;
+  for (const test of tests) {
+    try {
+      await test.run();
+      logger.info(`✅ ${test.name}`);
+    } catch (error) {
+      failures++;
+      logger.error(`❌ ${test.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  logger.info(`\n📊 ${tests.length} tests, ${failures} failures`);
+  if (failures > 0) {
+    logger.error('❌ Fill model test failed');
+    process.exit(1);
+  }
+  logger.info('✅ Fill model test passed');
+  process.exit(0);
+}
+
+// Run test if script is executed directly
+if (require.main === module) {
+  testFillModel();
+}
+
+export default testFillModel;
@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import Market from '../models/Market';
 import TokenPriceHistory, { Outcome } from '../models/TokenPriceHistory';
 import { connectDatabase, disconnectDatabase } from '../services/database';
 import { logger } from '../utils/logger';
@@ -70,26 +71,44 @@ async function testFollowPreviousWinner() {
 
       logger.info(`   Found ${slugs.length} slugs for ${coin}`);
 
-      // Get final outcome for each slug (outcome at the last timestamp)
+      // Get the settled outcome of each slug from the Markets collection
+      const resolvedMarkets = await Market.find(
+        { slug: { $in: slugs }, status: 'resolved' },
+        { slug: 1, outcome: 1 }
+      ).lean();
+      const resolvedOutcomes = new Map(resolvedMarkets.map(market => [market.slug, market.outcome as Outcome]));
+
       const slugOutcomes: SlugOutcome[] = [];
+      let unresolvedCount = 0;
 
       for (const slug of slugs) {
-        // Get the last record for this slug to determine final outcome
+        const outcome = resolvedOutcomes.get(slug);
+        if (!outcome) {
+          // Not settled yet (or not resolved by MarketResolutionService): skip rather than guess
+          unresolvedCount++;
+          continue;
+        }
+
+        // Get the last record for this slug to order the markets chronologically
         const lastRecord = await TokenPriceHistory.findOne(
           { slug, token: coin, eventType: eventType },
-          {},
+          { timestamp: 1 },
           { sort: { timestamp: -1 } }
         );
 
-        if (lastRecord && lastRecord.outcome) {
+        if (lastRecord) {
           slugOutcomes.push({
             slug,
-            outcome: lastRecord.outcome as Outcome,
+            outcome,
             timestamp: lastRecord.timestamp,
           });
         }
       }
 
+      if (unresolvedCount > 0) {
+        logger.info(`   ⚠️  Skipping ${unresolvedCount} unresolved slugs`);
+      }
+
       if (slugOutcomes.length === 0) {
         logger.info(`   ⚠️  No valid outcomes found for ${coin}`);
         continue;
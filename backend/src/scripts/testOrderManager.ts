@@ -0,0 +1,258 @@
+import assert from 'assert';
+import { EventEmitter } from 'events';
+import { ClobClient, Side } from '@polymarket/clob-client';
+import { OrderInfo, OrderManager, OrderManagerEvent, OrderStatus } from '../services/OrderManager';
+import { OrderMessage, OrderType, Outcome, TradeMessage, TradeStatus, UserMonitorEvents } from '../services/UserMonitor';
+import { logger } from '../utils/logger';
+
+const ASSET_ID = 'asset-up';
+
+/**
+ * Order manager fed by a plain emitter standing in for the User Channel, recording the order events
+ */
+function setup(clobClient: ClobClient | null = null): { source: EventEmitter; orderManager: OrderManager; events: string[] } {
+  const source = new EventEmitter();
+  const orderManager = new OrderManager(source, () => clobClient);
+  const events: string[] = [];
+  const record = (event: OrderManagerEvent) => (order: OrderInfo) => {
+    events.push(`${event} ${order.orderId} ${order.status} ${order.sizeMatched}`);
+  };
+  orderManager.on(OrderManagerEvent.ORDER_FILLED, record(OrderManagerEvent.ORDER_FILLED));
+  orderManager.on(OrderManagerEvent.ORDER_CANCELLED, record(OrderManagerEvent.ORDER_CANCELLED));
+  return { source, orderManager, events };
+}
+
+const trackOrder = (orderManager: OrderManager, orderId: string, size: number): OrderInfo =>
+  orderManager.trackOrder({
+    orderId,
+    assetId: ASSET_ID,
+    side: Side.BUY,
+    outcome: Outcome.UP,
+    price: 0.5,
+    size,
+    amount: 0.5 * size,
+    isMarketOrder: false,
+  });
+
+const orderMessage = (orderId: string, type: OrderType, sizeMatched: number, originalSize: number): OrderMessage => ({
+  asset_id: ASSET_ID,
+  associate_trades: null,
+  event_type: 'order',
+  id: orderId,
+  market: 'market',
+  order_owner: 'owner',
+  original_size: String(originalSize),
+  outcome: Outcome.UP,
+  owner: 'owner',
+  price: '0.5',
+  side: Side.BUY,
+  size_matched: String(sizeMatched),
+  timestamp: '1700000000000',
+  type,
+});
+
+const tradeMessage = (tradeId: string, status: TradeStatus, makerOrders: Array<{ orderId: string; size: number }>): TradeMessage => ({
+  asset_id: ASSET_ID,
+  event_type: 'trade',
+  id: tradeId,
+  last_update: '1700000000',
+  maker_orders: makerOrders.map(({ orderId, size }) => ({
+    asset_id: ASSET_ID,
+    matched_amount: String(size),
+    order_id: orderId,
+    outcome: Outcome.UP,
+    owner: 'owner',
+    price: '0.5',
+  })),
+  market: 'market',
+  matchtime: '1700000000',
+  outcome: Outcome.UP,
+  owner: 'owner',
+  price: '0.5',
+  side: Side.SELL,
+  size: String(makerOrders.reduce((sum, makerOrder) => sum + makerOrder.size, 0)),
+  status,
+  taker_order_id: 'taker-order',
+  timestamp: '1700000000',
+  trade_owner: 'owner',
+  type: 'TRADE',
+});
+
+const tests: Array<{ name: string; run: () => Promise<void> }> = [
+  {
+    name: 'follows an order through placement, partial fill and fill',
+    run: async () => {
+      const { source, orderManager, events } = setup();
+      const order = trackOrder(orderManager, 'order-1', 10);
+      assert.strictEqual(order.status, OrderStatus.PENDING);
+
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.PLACEMENT, 0, 10));
+      assert.strictEqual(order.status, OrderStatus.LIVE);
+
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.UPDATE, 4, 10));
+      assert.strictEqual(order.status, OrderStatus.PARTIALLY_FILLED);
+      assert.strictEqual(order.sizeMatched, 4);
+
+      // A stale update does not roll the matched size back
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.UPDATE, 2, 10));
+      assert.strictEqual(order.sizeMatched, 4);
+
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.UPDATE, 10, 10));
+      assert.strictEqual(order.status, OrderStatus.FILLED);
+      assert.deepStrictEqual(events, ['orderFilled order-1 FILLED 10']);
+      assert.deepStrictEqual(orderManager.getOpenOrders(), []);
+    },
+  },
+  {
+    name: 'keeps the matched size of an order cancelled after a partial fill',
+    run: async () => {
+      const { source, orderManager, events } = setup();
+      const order = trackOrder(orderManager, 'order-1', 10);
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.PLACEMENT, 0, 10));
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.UPDATE, 3, 10));
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.CANCELLATION, 3, 10));
+      assert.strictEqual(order.status, OrderStatus.CANCELLED);
+      assert.strictEqual(order.sizeMatched, 3);
+
+      // Nothing moves a cancelled order again
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.UPDATE, 10, 10));
+      assert.strictEqual(order.status, OrderStatus.CANCELLED);
+      assert.strictEqual(order.sizeMatched, 3);
+      assert.deepStrictEqual(events, ['orderCancelled order-1 CANCELLED 3']);
+    },
+  },
+  {
+    name: 'applies order and trade messages that arrive before the order is tracked',
+    run: async () => {
+      const { source, orderManager, events } = setup();
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.UPDATE, 6, 10));
+      source.emit(UserMonitorEvents.TRADE_MESSAGE, tradeMessage('trade-1', TradeStatus.MATCHED, [{ orderId: 'order-1', size: 6 }]));
+      // Messages of other orders stay buffered
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-2', OrderType.CANCELLATION, 0, 5));
+
+      const order = trackOrder(orderManager, 'order-1', 10);
+      assert.strictEqual(order.status, OrderStatus.PARTIALLY_FILLED);
+      assert.strictEqual(order.sizeMatched, 6);
+      assert.deepStrictEqual(order.tradeIds, ['trade-1']);
+      assert.deepStrictEqual(orderManager.getTrade('trade-1')?.orderSizes, { 'order-1': 6 });
+      assert.deepStrictEqual(events, []);
+    },
+  },
+  {
+    name: 'fills orders from trade sizes, confirms trades once and ignores failed ones',
+    run: async () => {
+      const { source, orderManager, events } = setup();
+      const confirmed: string[] = [];
+      orderManager.on(OrderManagerEvent.TRADE_CONFIRMED, ({ trade, orders }) => {
+        confirmed.push(`${trade.tradeId} ${orders.map(order => order.orderId).join(',')}`);
+      });
+      const order = trackOrder(orderManager, 'order-1', 10);
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.PLACEMENT, 0, 10));
+
+      source.emit(UserMonitorEvents.TRADE_MESSAGE, tradeMessage('trade-1', TradeStatus.MATCHED, [{ orderId: 'order-1', size: 4 }]));
+      source.emit(UserMonitorEvents.TRADE_MESSAGE, tradeMessage('trade-2', TradeStatus.FAILED, [{ orderId: 'order-1', size: 6 }]));
+      assert.strictEqual(order.sizeMatched, 4);
+      assert.strictEqual(order.status, OrderStatus.PARTIALLY_FILLED);
+
+      source.emit(UserMonitorEvents.TRADE_MESSAGE, tradeMessage('trade-1', TradeStatus.CONFIRMED, [{ orderId: 'order-1', size: 4 }]));
+      source.emit(UserMonitorEvents.TRADE_MESSAGE, tradeMessage('trade-1', TradeStatus.CONFIRMED, [{ orderId: 'order-1', size: 4 }]));
+      source.emit(UserMonitorEvents.TRADE_MESSAGE, tradeMessage('trade-3', TradeStatus.MATCHED, [{ orderId: 'order-1', size: 6 }]));
+      assert.strictEqual(order.status, OrderStatus.FILLED);
+      assert.strictEqual(order.sizeMatched, 10);
+      assert.deepStrictEqual(confirmed, ['trade-1 order-1']);
+      assert.deepStrictEqual(events, ['orderFilled order-1 FILLED 10']);
+    },
+  },
+  {
+    name: 'takes a failed trade back out of the matched size of an open order',
+    run: async () => {
+      const { source, orderManager, events } = setup();
+      const order = trackOrder(orderManager, 'order-1', 10);
+      source.emit(UserMonitorEvents.TRADE_MESSAGE, tradeMessage('trade-1', TradeStatus.MATCHED, [{ orderId: 'order-1', size: 3 }]));
+      source.emit(UserMonitorEvents.TRADE_MESSAGE, tradeMessage('trade-2', TradeStatus.MATCHED, [{ orderId: 'order-1', size: 4 }]));
+      assert.strictEqual(order.sizeMatched, 7);
+
+      source.emit(UserMonitorEvents.TRADE_MESSAGE, tradeMessage('trade-2', TradeStatus.FAILED, [{ orderId: 'order-1', size: 4 }]));
+      assert.strictEqual(order.sizeMatched, 3);
+      assert.strictEqual(order.status, OrderStatus.PARTIALLY_FILLED);
+
+      source.emit(UserMonitorEvents.TRADE_MESSAGE, tradeMessage('trade-1', TradeStatus.FAILED, [{ orderId: 'order-1', size: 3 }]));
+      assert.strictEqual(order.sizeMatched, 0);
+      assert.strictEqual(order.status, OrderStatus.LIVE);
+      assert.deepStrictEqual(events, []);
+    },
+  },
+  {
+    name: 'keeps only a bounded number of messages for untracked orders',
+    run: async () => {
+      const { source, orderManager } = setup();
+      for (let i = 0; i < 600; i++) {
+        source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage(`other-${i}`, OrderType.UPDATE, 1, 10));
+      }
+
+      // The oldest messages were dropped, the latest are still applied once the order is tracked
+      assert.strictEqual(trackOrder(orderManager, 'other-0', 10).status, OrderStatus.PENDING);
+      assert.strictEqual(trackOrder(orderManager, 'other-599', 10).status, OrderStatus.PARTIALLY_FILLED);
+    },
+  },
+  {
+    name: 'keeps an order open when it cannot be looked up during reconcile',
+    run: async () => {
+      let lookups = 0;
+      const clobClient = {
+        getOpenOrders: async () => [],
+        getOrder: async (orderId: string) => {
+          lookups++;
+          if (orderId === 'order-1') {
+            throw new Error('request failed');
+          }
+          return { size_matched: '2' };
+        },
+      } as unknown as ClobClient;
+      const { source, orderManager, events } = setup(clobClient);
+      const unknown = trackOrder(orderManager, 'order-1', 10);
+      const cancelled = trackOrder(orderManager, 'order-2', 10);
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-1', OrderType.PLACEMENT, 0, 10));
+      source.emit(UserMonitorEvents.ORDER_MESSAGE, orderMessage('order-2', OrderType.PLACEMENT, 0, 10));
+
+      await orderManager.reconcile();
+      assert.strictEqual(lookups, 2);
+      assert.strictEqual(unknown.status, OrderStatus.LIVE);
+      assert.strictEqual(cancelled.status, OrderStatus.CANCELLED);
+      assert.strictEqual(cancelled.sizeMatched, 2);
+      assert.deepStrictEqual(events, ['orderCancelled order-2 CANCELLED 2']);
+    },
+  },
+];
+
+/**
+ * Order manager test against scripted User Channel messages: partial fills, cancels,
+ * messages arriving before the order is tracked, trade status changes and reconciles
+ */
+async function testOrderManager() {
+  let failures = 0;
+  for (const test of tests) {
+    try {
+      await test.run();
+      logger.info(`✅ ${test.name}`);
+    } catch (error) {
+      failures++;
+      logger.error(`❌ ${test.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  logger.info(`\n📊 ${tests.length} tests, ${failures} failures`);
+  if (failures > 0) {
+    logger.error('❌ Order manager test failed');
+    process.exit(1);
+  }
+  logger.info('✅ Order manager test passed');
+  process.exit(0);
+}
+
+// Run test if script is executed directly
+if (require.main === module) {
+  testOrderManager();
+}
+
+export default testOrderManager;
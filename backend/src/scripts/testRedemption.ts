@@ -0,0 +1,159 @@
+import assert from 'assert';
+import {
+  getRedemptionState,
+  getRetryDelayMs,
+  MAX_REDEMPTION_ATTEMPTS,
+  RedeemableMarket,
+  redeemMarket,
+} from '../services/RedemptionService';
+import { MockChain, MockSigner } from '../testing/mockChain';
+import { logger } from '../utils/logger';
+
+const FUNDER = '0xfunder';
+const OTHER_OWNER = '0xother';
+
+/**
+ * Mock chain with one binary condition per market
+ */
+function setupChain(markets: RedeemableMarket[]): { chain: MockChain; signer: MockSigner } {
+  const chain = new MockChain();
+  for (const market of markets) {
+    chain.addCondition(market.conditionId, market.yesAssetId, market.noAssetId);
+  }
+  return { chain, signer: new MockSigner(chain, FUNDER) };
+}
+
+const createMarket = (name: string, outcome: 'UP' | 'DOWN'): RedeemableMarket => ({
+  slug: `btc-updown-${name}`,
+  conditionId: `0xcondition-${name}`,
+  yesAssetId: `${name}-up`,
+  noAssetId: `${name}-down`,
+  outcome,
+});
+
+const tests: Array<{ name: string; run: () => Promise<void> }> = [
+  {
+    name: 'redeems the winning tokens for collateral and burns both outcomes',
+    run: async () => {
+      const market = createMarket('a', 'UP');
+      const { chain, signer } = setupChain([market]);
+      chain.mint(FUNDER, market.yesAssetId, 12.5);
+      chain.mint(FUNDER, market.noAssetId, 3);
+      chain.mint(OTHER_OWNER, market.yesAssetId, 7);
+      chain.reportPayouts(market.conditionId, 'UP');
+
+      const attempt = await redeemMarket(market, FUNDER, chain, signer);
+      assert.deepStrictEqual(attempt, { status: 'redeemed', txHash: '0xmocktx1', upSize: 12.5, downSize: 3, payout: 12.5 });
+      assert.strictEqual(chain.collateralOf(FUNDER), 12.5);
+      assert.strictEqual(chain.balanceOf(FUNDER, market.yesAssetId), 0);
+      assert.strictEqual(chain.balanceOf(FUNDER, market.noAssetId), 0);
+      assert.strictEqual(chain.balanceOf(OTHER_OWNER, market.yesAssetId), 7);
+      assert.deepStrictEqual(getRedemptionState(attempt, 1), { status: 'redeemed', nextAttemptAt: null });
+    },
+  },
+  {
+    name: 'skips markets where only losing tokens or nothing is held',
+    run: async () => {
+      const losing = createMarket('b', 'DOWN');
+      const untouched = createMarket('c', 'UP');
+      const { chain, signer } = setupChain([losing, untouched]);
+      chain.mint(FUNDER, losing.yesAssetId, 5);
+      chain.reportPayouts(losing.conditionId, 'DOWN');
+      chain.reportPayouts(untouched.conditionId, 'UP');
+
+      assert.deepStrictEqual(await redeemMarket(losing, FUNDER, chain, signer), { status: 'empty', upSize: 5, downSize: 0 });
+      assert.deepStrictEqual(await redeemMarket(untouched, FUNDER, chain, signer), { status: 'empty', upSize: 0, downSize: 0 });
+      assert.deepStrictEqual(signer.submitted, []);
+      assert.strictEqual(chain.balanceOf(FUNDER, losing.yesAssetId), 5);
+    },
+  },
+  {
+    name: 'waits for the payouts to be reported on chain',
+    run: async () => {
+      const market = createMarket('d', 'DOWN');
+      const { chain, signer } = setupChain([market]);
+      chain.mint(FUNDER, market.noAssetId, 4);
+
+      const attempt = await redeemMarket(market, FUNDER, chain, signer);
+      assert.deepStrictEqual(attempt, { status: 'failed', error: 'Condition not resolved on chain yet' });
+      assert.deepStrictEqual(signer.submitted, []);
+
+      chain.reportPayouts(market.conditionId, 'DOWN');
+      const retried = await redeemMarket(market, FUNDER, chain, signer);
+      assert.strictEqual(retried.status, 'redeemed');
+      assert.strictEqual(chain.collateralOf(FUNDER), 4);
+    },
+  },
+  {
+    name: 'retries failed submissions with backoff until they succeed',
+    run: async () => {
+      const market = createMarket('e', 'UP');
+      const { chain, signer } = setupChain([market]);
+      chain.mint(FUNDER, market.yesAssetId, 2);
+      chain.reportPayouts(market.conditionId, 'UP');
+      signer.failNext(2, 'replacement transaction underpriced');
+
+      const now = new Date('2025-01-01T12:00:00.000Z');
+      const states = [];
+      let attempts = 0;
+      let attempt;
+      do {
+        attempt = await redeemMarket(market, FUNDER, chain, signer);
+        attempts++;
+        states.push(getRedemptionState(attempt, attempts, now));
+      } while (attempt.status === 'failed');
+
+      assert.deepStrictEqual(states, [
+        { status: 'pending', nextAttemptAt: new Date('2025-01-01T12:01:00.000Z') },
+        { status: 'pending', nextAttemptAt: new Date('2025-01-01T12:02:00.000Z') },
+        { status: 'redeemed', nextAttemptAt: null },
+      ]);
+      assert.deepStrictEqual(signer.submitted, [market.conditionId, market.conditionId, market.conditionId]);
+      assert.strictEqual(chain.collateralOf(FUNDER), 2);
+    },
+  },
+  {
+    name: 'caps the retry delay and gives up after the maximum number of attempts',
+    run: async () => {
+      assert.strictEqual(getRetryDelayMs(1), 60 * 1000);
+      assert.strictEqual(getRetryDelayMs(4), 8 * 60 * 1000);
+      assert.strictEqual(getRetryDelayMs(9), 60 * 60 * 1000);
+
+      const failed = { status: 'failed' as const, error: 'execution reverted' };
+      assert.strictEqual(getRedemptionState(failed, MAX_REDEMPTION_ATTEMPTS - 1).status, 'pending');
+      assert.deepStrictEqual(getRedemptionState(failed, MAX_REDEMPTION_ATTEMPTS), { status: 'failed', nextAttemptAt: null });
+    },
+  },
+];
+
+/**
+ * Redemption worker test against an in-memory chain and signer: which markets get redeemed,
+ * what they pay, and how failed submissions are retried
+ */
+async function testRedemption() {
+  let failures = 0;
+  for (const test of tests) {
+    try {
+      await test.run();
+      logger.info(`✅ ${test.name}`);
+    } catch (error) {
+      failures++;
+      logger.error(`❌ ${test.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  logger.info(`\n📊 ${tests.length} tests, ${failures} failures`);
+  if (failures > 0) {
+    logger.error('❌ Redemption test failed');
+    process.exit(1);
+  }
+  logger.info('✅ Redemption test passed');
+  process.exit(0);
+}
+
+// Run test if script is executed directly
+if (require.main === module) {
+  testRedemption();
+}
+
+export default testRedemption;
@@ -0,0 +1,186 @@
+import assert from 'assert';
+import { RiskLimits, RiskManager } from '../services/RiskManager';
+import { logger } from '../utils/logger';
+
+const BOT = 'bot-1';
+const OTHER_BOT = 'bot-2';
+const SLUG = 'btc-updown-15m-1';
+const OTHER_SLUG = 'btc-updown-15m-2';
+
+/**
+ * Risk manager with explicit limits (so the environment's RISK_* settings do not leak in);
+ * it is never started, so nothing is persisted
+ */
+function createRiskManager(limits: Partial<RiskLimits> = {}): RiskManager {
+  const riskManager = new RiskManager();
+  riskManager.setLimits({
+    maxNotionalPerMarket: null,
+    maxOpenOrders: null,
+    maxTotalExposure: null,
+    maxDailyLoss: null,
+    minOrderSize: 1,
+    ...limits,
+  });
+  return riskManager;
+}
+
+/**
+ * Reserve an order that must be approved and confirm it under orderId
+ */
+function placeOrder(
+  riskManager: RiskManager,
+  orderId: string,
+  order: { botId?: string; slug?: string; side?: 'BUY' | 'SELL'; price: number; size: number }
+): number {
+  const decision = riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'BUY', ...order });
+  assert.ok(decision.approved, `${orderId} should be approved`);
+  riskManager.confirmOrder(decision.reservationId, orderId);
+  return decision.size;
+}
+
+const tests: Array<{ name: string; run: () => Promise<void> }> = [
+  {
+    name: 'counts reservations as open exposure until they are cancelled',
+    run: async () => {
+      const riskManager = createRiskManager({ maxOpenOrders: 2 });
+      const first = riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'BUY', price: 0.5, size: 10 });
+      const second = riskManager.reserveOrder({ botId: BOT, slug: OTHER_SLUG, side: 'BUY', price: 0.4, size: 5 });
+      assert.ok(first.approved && second.approved);
+      assert.strictEqual(riskManager.getMarketExposure(SLUG), 5);
+      assert.strictEqual(riskManager.getTotalExposure(), 7);
+
+      const third = riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'SELL', price: 0.6, size: 1 });
+      assert.deepStrictEqual(third, { approved: false, reason: '2 open orders, limit is 2' });
+
+      riskManager.cancelReservation(first.reservationId);
+      assert.strictEqual(riskManager.getMarketExposure(SLUG), 0);
+      assert.strictEqual(riskManager.getStatus().openOrders, 1);
+      assert.ok(riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'SELL', price: 0.6, size: 1 }).approved);
+    },
+  },
+  {
+    name: 'shrinks buys to the tightest headroom and rejects them below the minimum size',
+    run: async () => {
+      const riskManager = createRiskManager({ maxNotionalPerMarket: 10, maxTotalExposure: 8, minOrderSize: 5 });
+      assert.strictEqual(placeOrder(riskManager, 'order-1', { slug: OTHER_SLUG, price: 0.5, size: 6 }), 6);
+
+      // $5 left in total exposure binds before the $10 market limit: 5 / 0.3 = 16.66 shares
+      const shrunk = riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'BUY', price: 0.3, size: 40 });
+      assert.ok(shrunk.approved);
+      assert.strictEqual(shrunk.size, 16.66);
+
+      const rejected = riskManager.reserveOrder({ botId: OTHER_BOT, slug: SLUG, side: 'BUY', price: 0.05, size: 100 });
+      assert.deepStrictEqual(rejected, { approved: false, reason: '$0 left under the total exposure limit $8' });
+
+      // Sells do not add exposure
+      const sell = riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'SELL', price: 0.9, size: 100 });
+      assert.ok(sell.approved);
+      assert.strictEqual(sell.size, 100);
+    },
+  },
+  {
+    name: 'moves filled notional to the position and releases it when the market ends',
+    run: async () => {
+      const riskManager = createRiskManager({ maxNotionalPerMarket: 10 });
+      placeOrder(riskManager, 'order-1', { price: 0.5, size: 10 });
+      placeOrder(riskManager, 'order-2', { botId: OTHER_BOT, price: 0.25, size: 8 });
+
+      riskManager.updateOrder('order-1', 4, false);
+      assert.strictEqual(riskManager.getMarketExposure(SLUG), 7);
+      // The rest of the order is cancelled: only the filled notional stays
+      riskManager.updateOrder('order-1', 4, true);
+      assert.strictEqual(riskManager.getMarketExposure(SLUG), 4);
+      assert.strictEqual(riskManager.getStatus().openOrders, 1);
+
+      // A sell fill reduces the position
+      placeOrder(riskManager, 'order-3', { side: 'SELL', price: 0.5, size: 2 });
+      riskManager.updateOrder('order-3', 2, true);
+      assert.strictEqual(riskManager.getMarketExposure(SLUG), 3);
+
+      riskManager.releaseMarket(BOT, SLUG);
+      assert.strictEqual(riskManager.getMarketExposure(SLUG), 2);
+      assert.deepStrictEqual(riskManager.getStatus().markets, [{ slug: SLUG, exposure: 2 }]);
+    },
+  },
+  {
+    name: 'keeps counting orders still resting when their market is released',
+    run: async () => {
+      const riskManager = createRiskManager();
+      placeOrder(riskManager, 'order-1', { price: 0.5, size: 10 });
+      placeOrder(riskManager, 'order-2', { price: 0.4, size: 5 });
+
+      // The cancel of order-2 failed: it stays open until an update closes it
+      riskManager.releaseMarket(BOT, SLUG, ['order-2']);
+      assert.strictEqual(riskManager.getMarketExposure(SLUG), 2);
+      riskManager.updateOrder('order-2', 0, true);
+      assert.strictEqual(riskManager.getMarketExposure(SLUG), 0);
+      assert.strictEqual(riskManager.getStatus().openOrders, 0);
+    },
+  },
+  {
+    name: 'rejects buys once the daily loss limit is reached',
+    run: async () => {
+      const riskManager = createRiskManager({ maxDailyLoss: 5 });
+      riskManager.recordRealizedPnl(-3.5);
+      riskManager.recordRealizedPnl(1);
+      assert.ok(riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'BUY', price: 0.5, size: 2 }).approved);
+
+      riskManager.recordRealizedPnl(-2.5);
+      const status = riskManager.getStatus();
+      assert.strictEqual(status.daily.realizedPnl, -5);
+      assert.strictEqual(status.daily.lossLimitReached, true);
+      assert.deepStrictEqual(
+        riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'BUY', price: 0.5, size: 2 }),
+        { approved: false, reason: 'daily loss $5 reached the limit $5' }
+      );
+      // Sells can still close positions
+      assert.ok(riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'SELL', price: 0.5, size: 2 }).approved);
+    },
+  },
+  {
+    name: 'rejects every order while the kill switch is engaged',
+    run: async () => {
+      const riskManager = createRiskManager();
+      riskManager.engageKillSwitch('manual');
+      assert.deepStrictEqual(
+        riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'SELL', price: 0.5, size: 2 }),
+        { approved: false, reason: 'kill switch engaged (manual)' }
+      );
+
+      riskManager.disengageKillSwitch();
+      assert.ok(riskManager.reserveOrder({ botId: BOT, slug: SLUG, side: 'SELL', price: 0.5, size: 2 }).approved);
+    },
+  },
+];
+
+/**
+ * Risk manager test: reservations, exposure limits and shrinking, fills and releases,
+ * the daily loss limit and the kill switch
+ */
+async function testRiskManager() {
+  let failures = 0;
+  for (const test of tests) {
+    try {
+      await test.run();
+      logger.info(`✅ ${test.name}`);
+    } catch (error) {
+      failures++;
+      logger.error(`❌ ${test.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  logger.info(`\n📊 ${tests.length} tests, ${failures} failures`);
+  if (failures > 0) {
+    logger.error('❌ Risk manager test failed');
+    process.exit(1);
+  }
+  logger.info('✅ Risk manager test passed');
+  process.exit(0);
+}
+
+// Run test if script is executed directly
+if (require.main === module) {
+  testRiskManager();
+}
+
+export default testRiskManager;
@@ -0,0 +1,102 @@
+import assert from 'assert';
+import { validateStrategyParams } from '../strategies';
+import { validateBotInstanceConfig } from '../services/BotManager';
+import { parseSweepRequest } from '../services/ParameterSweepService';
+import { logger } from '../utils/logger';
+
+const tests: Array<{ name: string; run: () => Promise<void> }> = [
+  {
+    name: 'accepts the default-like parameters of every strategy',
+    run: async () => {
+      assert.deepStrictEqual(validateStrategyParams('gridHedge', { maxTotalCost: 97, gridGap: 5, orderSize: 1, enableRebuy: false }), []);
+      assert.deepStrictEqual(validateStrategyParams('prePurchasedSell', { targetTotal: 105, sellThreshold: 65, orderSize: 2.5 }), []);
+      assert.deepStrictEqual(
+        validateStrategyParams('newHedge', { priceDiff: 100, timeTillEnd: 300, targetPrice: 50, maxTotalCent: 97, orderSize: 1 }),
+        []
+      );
+    },
+  },
+  {
+    name: 'rejects a grid gap of 0 or below, which would never end the grid',
+    run: async () => {
+      assert.deepStrictEqual(validateStrategyParams('gridHedge', { gridGap: 0 }), [
+        'gridHedge parameter gridGap must be greater than 0 and at most 50',
+      ]);
+      assert.strictEqual(validateStrategyParams('gridHedge', { gridGap: -5 }).length, 1);
+      assert.strictEqual(validateStrategyParams('gridHedge', { gridGap: 51 }).length, 1);
+    },
+  },
+  {
+    name: 'rejects sizes, prices and totals out of range',
+    run: async () => {
+      assert.deepStrictEqual(validateStrategyParams('gridHedge', { maxTotalCost: 100, orderSize: 0 }), [
+        'gridHedge parameter maxTotalCost must be greater than 0 and less than 100',
+        'gridHedge parameter orderSize must be greater than 0',
+      ]);
+      assert.deepStrictEqual(validateStrategyParams('prePurchasedSell', { targetTotal: 201, sellThreshold: 0 }), [
+        'prePurchasedSell parameter targetTotal must be greater than 0 and at most 200',
+        'prePurchasedSell parameter sellThreshold must be greater than 0 and at most 100',
+      ]);
+      assert.deepStrictEqual(validateStrategyParams('newHedge', { targetPrice: 101, timeTillEnd: -1 }), [
+        'newHedge parameter targetPrice must be greater than 0 and at most 100',
+        'newHedge parameter timeTillEnd must be greater than 0',
+      ]);
+    },
+  },
+  {
+    name: 'rejects a grid gap of 0 from bot configs and sweep ranges',
+    run: async () => {
+      assert.throws(
+        () => validateBotInstanceConfig({
+          botId: 'btc-15min-grid-hedge',
+          coin: 'BTC',
+          interval: '15min',
+          strategy: 'gridHedge',
+          strategyParams: { gridGap: 0 },
+        }, 'bots.json'),
+        /gridGap must be greater than 0/
+      );
+
+      assert.deepStrictEqual(parseSweepRequest({ strategy: 'gridHedge', ranges: { gridGap: [0, 5] } }), {
+        error: 'Invalid ranges',
+        message: 'gridHedge parameter gridGap must be greater than 0 and at most 50',
+      });
+      assert.strictEqual(
+        'error' in parseSweepRequest({ strategy: 'gridHedge', ranges: { gridGap: { min: 0, max: 10, step: 5 } } }),
+        true
+      );
+    },
+  },
+];
+
+/**
+ * Strategy parameter validation test: types and ranges of each strategy's parameters, as checked
+ * for bot configs, parameter updates, backtests and sweeps
+ */
+async function testStrategyParams() {
+  let failures = 0;
+  for (const test of tests) {
+    try {
+      await test.run();
+      logger.info(`✅ ${test.name}`);
+    } catch (error) {
+      failures++;
+      logger.error(`❌ ${test.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  logger.info(`\n📊 ${tests.length} tests, ${failures} failures`);
+  if (failures > 0) {
+    logger.error('❌ Strategy params test failed');
+    process.exit(1);
+  }
+  logger.info('✅ Strategy params test passed');
+  process.exit(0);
+}
+
+// Run test if script is executed directly
+if (require.main === module) {
+  testStrategyParams();
+}
+
+export default testStrategyParams;
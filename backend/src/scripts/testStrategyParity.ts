@@ -0,0 +1,286 @@
+import dotenv from 'dotenv';
+import {
+  calculateGridHedgeStrategy,
+  calculateNewHedgeStrategy,
+  calculatePrePurchasedSellStrategy,
+  PriceData,
+} from 'polytradingbot-shared';
+import Market from '../models/Market';
+import TokenPriceHistory from '../models/TokenPriceHistory';
+import { connectDatabase, disconnectDatabase } from '../services/database';
+import { logger } from '../utils/logger';
+import {
+  EventType,
+  GridHedgeParams,
+  GridHedgeStrategy,
+  NewHedgeParams,
+  NewHedgeStrategy,
+  PrePurchasedSellParams,
+  PrePurchasedSellStrategy,
+  runBacktest,
+  TokenSide,
+} from '../strategies';
+
+// Load environment variables
+dotenv.config();
+
+export interface ParityCase {
+  slug: string;
+  eventType: EventType;
+  priceData: PriceData[];
+  resolvedOutcome: TokenSide | null;
+}
+
+export const GRID_HEDGE_PARAMS: GridHedgeParams[] = [
+  { maxTotalCost: 97, gridGap: 5, orderSize: 1, enableRebuy: true, enableDoubleSide: true },
+  { maxTotalCost: 97, gridGap: 5, orderSize: 1, enableRebuy: false, enableDoubleSide: true },
+  { maxTotalCost: 95, gridGap: 10, orderSize: 2, enableRebuy: true, enableDoubleSide: false },
+  { maxTotalCost: 90, gridGap: 3, orderSize: 1, enableRebuy: false, enableDoubleSide: false },
+];
+
+export const PRE_PURCHASED_SELL_PARAMS: PrePurchasedSellParams[] = [
+  { targetTotal: 105, sellThreshold: 65, orderSize: 1 },
+  { targetTotal: 110, sellThreshold: 70, orderSize: 2 },
+  { targetTotal: 100, sellThreshold: 55, orderSize: 1 },
+];
+
+export const NEW_HEDGE_PARAMS: NewHedgeParams[] = [
+  { priceDiff: 100, timeTillEnd: 300, targetPrice: 50, maxTotalCent: 97, orderSize: 1 },
+  { priceDiff: 50, timeTillEnd: 120, targetPrice: 40, maxTotalCent: 95, orderSize: 2 },
+  { priceDiff: 200, timeTillEnd: 600, targetPrice: 30, maxTotalCent: 90, orderSize: 1 },
+];
+
+/**
+ * Deterministic pseudo-random generator (mulberry32) so failures can be reproduced by seed
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a synthetic market: a random walk of the UP ask with a noisy DOWN ask around 1 - up
+ */
+export function generateCase(seed: number): ParityCase {
+  const random = createRandom(seed);
+  const eventType: EventType = random() < 0.5 ? '15min' : 'hourly';
+  const durationSeconds = eventType === '15min' ? 15 * 60 : 60 * 60;
+  const tickCount = 50 + Math.floor(random() * 250);
+  const startTime = Date.UTC(2025, 0, 1) + seed * 1000 * 60 * 60;
+  const slug = `synthetic-${seed}`;
+
+  let upCents = 30 + Math.floor(random() * 40);
+  let coinPriceBias = (random() - 0.5) * 200;
+  // Half of the markets are recorded with best bids, like the history saved since bids are stored
+  const withBids = random() < 0.5;
+  const priceData: PriceData[] = [];
+
+  for (let i = 0; i < tickCount; i++) {
+    upCents = Math.min(99, Math.max(1, upCents + Math.round((random() - 0.5) * 8)));
+    const downCents = Math.min(99, Math.max(1, 100 - upCents + Math.round((random() - 0.5) * 4)));
+    coinPriceBias += (random() - 0.5) * 40;
+
+    const timestamp = new Date(startTime + Math.floor((i / tickCount) * durationSeconds * 1000)).toISOString();
+    priceData.push({
+      slug,
+      timestamp,
+      upTokenPrice: upCents / 100,
+      downTokenPrice: downCents / 100,
+      createdAt: timestamp,
+      // Some ticks come without a coin price bias, as in the stored history
+      coinPriceBias: random() < 0.1 ? undefined : Math.round(coinPriceBias * 100) / 100,
+      upBestBid: withBids ? Math.max(0, upCents - 1 - Math.floor(random() * 3)) / 100 : null,
+      downBestBid: withBids ? Math.max(0, downCents - 1 - Math.floor(random() * 3)) / 100 : null,
+    });
+  }
+
+  // Some markets are settled with an official outcome, which may differ from the last tick
+  const resolution = random();
+  const resolvedOutcome: TokenSide | null = resolution < 0.25 ? 'up' : resolution < 0.5 ? 'down' : null;
+
+  return { slug, eventType, priceData, resolvedOutcome };
+}
+
+async function loadDatabaseCases(limit: number): Promise<ParityCase[]> {
+  const slugs: string[] = await TokenPriceHistory.distinct('slug');
+  const cases: ParityCase[] = [];
+
+  for (const slug of slugs.slice(0, limit)) {
+    const priceHistory = await TokenPriceHistory.find({ slug }).sort({ timestamp: 1 }).exec();
+    if (priceHistory.length === 0) {
+      continue;
+    }
+    const market = await Market.findOne({ slug, status: 'resolved' }).lean().exec();
+
+    cases.push({
+      slug,
+      resolvedOutcome: market?.outcome ? (market.outcome === 'UP' ? 'up' : 'down') : null,
+      eventType: priceHistory[0].eventType as EventType,
+      priceData: priceHistory.map(item => {
+        const timestamp = item.timestamp.toISOString();
+        return {
+          slug: item.slug,
+          timestamp,
+          upTokenPrice: item.upTokenPrice,
+          downTokenPrice: item.downTokenPrice,
+          createdAt: timestamp,
+          coinPriceBias: item.coinPriceBias,
+          upBestBid: item.upBestBid,
+          downBestBid: item.downBestBid,
+        };
+      }),
+    });
+  }
+
+  return cases;
+}
+
+/**
+ * Compare the calculator result with the strategy run through the backtest runner
+ */
+function checkParity(label: string, expected: unknown, actual: unknown): boolean {
+  const expectedJson = JSON.stringify(expected);
+  const actualJson = JSON.stringify(actual);
+  if (expectedJson === actualJson) {
+    return true;
+  }
+
+  logger.error(`❌ Mismatch for ${label}`);
+  logger.error(`   calculator: ${expectedJson}`);
+  logger.error(`   strategy:   ${actualJson}`);
+  return false;
+}
+
+function runParityChecks(cases: ParityCase[]): { checks: number; failures: number } {
+  let checks = 0;
+  let failures = 0;
+
+  for (const parityCase of cases) {
+    const { slug, eventType, priceData, resolvedOutcome } = parityCase;
+    const market = { slug, eventType };
+    const ticks = priceData.map(({ timestamp, upTokenPrice, downTokenPrice, coinPriceBias, upBestBid, downBestBid }) => ({
+      timestamp,
+      upTokenPrice,
+      downTokenPrice,
+      coinPriceBias,
+      upBestBid,
+      downBestBid,
+    }));
+
+    for (const params of GRID_HEDGE_PARAMS) {
+      const expected = calculateGridHedgeStrategy(
+        priceData,
+        params.maxTotalCost,
+        params.gridGap,
+        params.orderSize,
+        params.enableRebuy,
+        params.enableDoubleSide,
+        resolvedOutcome
+      );
+      const actual = runBacktest(new GridHedgeStrategy(params), market, ticks, [], resolvedOutcome);
+      checks++;
+      if (!checkParity(`gridHedge ${slug} ${JSON.stringify(params)}`, expected, actual)) {
+        failures++;
+      }
+    }
+
+    for (const params of PRE_PURCHASED_SELL_PARAMS) {
+      const expected = calculatePrePurchasedSellStrategy(
+        priceData,
+        params.targetTotal,
+        params.sellThreshold,
+        params.orderSize,
+        resolvedOutcome
+      );
+      const actual = runBacktest(new PrePurchasedSellStrategy(params), market, ticks, [], resolvedOutcome);
+      checks++;
+      if (!checkParity(`prePurchasedSell ${slug} ${JSON.stringify(params)}`, expected, actual)) {
+        failures++;
+      }
+    }
+
+    for (const params of NEW_HEDGE_PARAMS) {
+      const expected = calculateNewHedgeStrategy(
+        priceData,
+        params.priceDiff,
+        params.timeTillEnd,
+        params.targetPrice,
+        params.maxTotalCent,
+        params.orderSize,
+        eventType,
+        resolvedOutcome
+      );
+      const actual = runBacktest(new NewHedgeStrategy(params), market, ticks, [], resolvedOutcome);
+      checks++;
+      if (!checkParity(`newHedge ${slug} ${JSON.stringify(params)}`, expected, actual)) {
+        failures++;
+      }
+    }
+  }
+
+  return { checks, failures };
+}
+
+/**
+ * Test script to check that the strategies run through the backtest runner produce exactly
+ * the same results as the original strategy calculators
+ *
+ * Usage:
+ *   npm run test:strategy-parity            - synthetic price paths only
+ *   npm run test:strategy-parity -- --db    - also replay stored slugs from MongoDB
+ */
+async function testStrategyParity() {
+  const useDatabase = process.argv.includes('--db');
+
+  try {
+    logger.info('🚀 Starting Strategy Parity Test...');
+
+    const cases: ParityCase[] = [];
+    for (let seed = 1; seed <= 200; seed++) {
+      cases.push(generateCase(seed));
+    }
+    // Empty price history must also match
+    cases.push({ slug: 'synthetic-empty', eventType: 'hourly', priceData: [], resolvedOutcome: null });
+
+    if (useDatabase) {
+      await connectDatabase();
+      const databaseCases = await loadDatabaseCases(200);
+      logger.info(`   Loaded ${databaseCases.length} slugs from MongoDB`);
+      cases.push(...databaseCases);
+    }
+
+    const { checks, failures } = runParityChecks(cases);
+    logger.info(`\n📊 ${cases.length} markets, ${checks} checks, ${failures} mismatches`);
+
+    if (useDatabase) {
+      await disconnectDatabase();
+    }
+
+    if (failures > 0) {
+      logger.error('❌ Strategy parity test failed');
+      process.exit(1);
+    }
+
+    logger.info('✅ Strategy parity test passed');
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Error running strategy parity test:', error);
+    if (useDatabase) {
+      await disconnectDatabase();
+    }
+    process.exit(1);
+  }
+}
+
+// Run test if script is executed directly
+if (require.main === module) {
+  testStrategyParity();
+}
+
+export default testStrategyParity;
@@ -1,10 +1,12 @@
 import createApp from './app';
 import config from './config';
 import { Server } from 'http';
-import { TradingBot } from './services/TradingBot';
-import { MarketInterval } from './services/MarketMonitor';
-import { CoinSymbol } from './services/CoinMonitor';
+import { getBacktestJobService } from './services/BacktestJobService';
+import { getBotManager } from './services/BotManager';
 import { connectDatabase, disconnectDatabase } from './services/database';
+import { getMarketResolutionService } from './services/MarketResolutionService';
+import { getPnlLedger } from './services/PnlLedger';
+import { getRiskManager } from './services/RiskManager';
 import { logger } from './utils/logger';
 
 const startServer = async () => {
@@ -19,23 +21,41 @@ const startServer = async () => {
       logger.info(`✅ Server is listening on http://localhost:${config.port}`);
     });
 
-    const tradingBot1 = new TradingBot(CoinSymbol.BTC, MarketInterval.FIFTEEN_MINUTES);
-    await tradingBot1.start();
-    const tradingBot2 = new TradingBot(CoinSymbol.ETH, MarketInterval.FIFTEEN_MINUTES);
-    await tradingBot2.start();
-    const tradingBot3 = new TradingBot(CoinSymbol.SOL, MarketInterval.FIFTEEN_MINUTES);
-    await tradingBot3.start();
-    const tradingBot4 = new TradingBot(CoinSymbol.BTC, MarketInterval.HOURLY);
-    await tradingBot4.start();
-    const tradingBot5 = new TradingBot(CoinSymbol.ETH, MarketInterval.HOURLY);
-    await tradingBot5.start();
-    const tradingBot6 = new TradingBot(CoinSymbol.SOL, MarketInterval.HOURLY);
-    await tradingBot6.start();
+    // Load the risk limits and state before any bot places an order
+    const riskManager = getRiskManager();
+    await riskManager.start();
+
+    // Start the trading bots declared in the bots config (file + BotConfig collection)
+    const botManager = getBotManager();
+    await botManager.start();
+
+    // Settle ended markets with their official outcome
+    const marketResolutionService = getMarketResolutionService();
+    marketResolutionService.start();
+
+    // Settle ledger positions of markets resolved while the server was down
+    await getPnlLedger().start();
+
+    // Resume backtest jobs interrupted by a restart
+    await getBacktestJobService().start();
+
+  // Reload the bots config without restarting the process
+  process.on('SIGHUP', async () => {
+    logger.info('SIGHUP signal received: reloading bots config');
+    try {
+      await botManager.reload();
+    } catch (error) {
+      logger.error('Failed to reload bots config:', error);
+    }
+  });
 
   // Graceful shutdown
   process.on('SIGTERM', async () => {
     logger.info('SIGTERM signal received: closing HTTP server');
     server.close(async () => {
+      marketResolutionService.stop();
+      await botManager.stopAll();
+      await riskManager.stop();
       await disconnectDatabase();
       logger.info('HTTP server closed');
       process.exit(0);
@@ -45,6 +65,9 @@ const startServer = async () => {
   process.on('SIGINT', async () => {
     logger.info('SIGINT signal received: closing HTTP server');
     server.close(async () => {
+      marketResolutionService.stop();
+      await botManager.stopAll();
+      await riskManager.stop();
       await disconnectDatabase();
       logger.info('HTTP server closed');
       process.exit(0);
@@ -0,0 +1,402 @@
+import { createHash } from 'crypto';
+import BacktestJob, { BacktestJobInput, IBacktestJob } from '../models/BacktestJob';
+import BacktestJobResult from '../models/BacktestJobResult';
+import {
+    createFillModel,
+    createStrategy,
+    DEFAULT_STRATEGY_PARAMS,
+    parseFillModelQuery,
+    runBacktest,
+    STRATEGY_NAMES,
+    StrategyName,
+    validateStrategyParams,
+} from '../strategies';
+import { logger } from '../utils/logger';
+import { calculateRiskMetrics, MarketPnl } from '../utils/riskMetrics';
+import {
+    countMarkets,
+    findMarkets,
+    MarketHistoryFilters,
+    MarketHistoryPagination,
+    parseMarketHistoryQuery,
+    streamMarketHistories,
+} from './marketHistory';
+
+// Minimum time between progress writes of a running job
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+// Per-slug results written per insert
+const RESULT_BATCH_SIZE = 1000;
+
+/**
+ * Per-slug totals stored in a job result
+ */
+interface BacktestSlugResult extends MarketPnl {
+    resolved: boolean;
+    entries: number;
+    finalValue?: number;
+    hedgesFilled?: number;
+    totalReceived?: number;
+}
+
+/**
+ * JSON with object keys sorted, so equal inputs hash equally regardless of key order
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+export function hashBacktestInput(input: BacktestJobInput): string {
+    return createHash('sha256').update(stableStringify(input)).digest('hex');
+}
+
+/**
+ * Parse and validate a backtest job request body:
+ *   { strategy, params?, token?, eventType?, startDate?, endDate?, page?, pageSize?/count?, useTradePrints?,
+ *     fillModel? (and its parameters) }
+ */
+export function parseBacktestJobRequest(
+    body: Record<string, unknown>
+): { input: BacktestJobInput } | { error: string; message: string } {
+    const strategy = body.strategy as StrategyName;
+    if (!STRATEGY_NAMES.includes(strategy)) {
+        return { error: 'Invalid strategy', message: `strategy must be one of: ${STRATEGY_NAMES.join(', ')}` };
+    }
+
+    const params = (body.params ?? {}) as Record<string, unknown>;
+    if (typeof params !== 'object' || Array.isArray(params)) {
+        return { error: 'Invalid params', message: 'params must be an object of strategy parameters' };
+    }
+    const paramErrors = validateStrategyParams(strategy, params);
+    if (paramErrors.length > 0) {
+        return { error: 'Invalid params', message: paramErrors.join('; ') };
+    }
+
+    const marketQuery = parseMarketHistoryQuery(body);
+    if ('error' in marketQuery) {
+        return marketQuery;
+    }
+    const fillModelQuery = parseFillModelQuery(body);
+    if ('error' in fillModelQuery) {
+        return fillModelQuery;
+    }
+
+    const { filters, pagination } = marketQuery;
+    return {
+        input: {
+            strategy,
+            params: { ...DEFAULT_STRATEGY_PARAMS[strategy], ...params },
+            token: filters.token ?? null,
+            eventType: filters.eventType ?? null,
+            startDate: filters.startDate ? filters.startDate.toISOString() : null,
+            endDate: filters.endDate ? filters.endDate.toISOString() : null,
+            page: pagination.page,
+            pageSize: pagination.pageSize,
+            useTradePrints: body.useTradePrints === true || body.useTradePrints === 'true',
+            fillModel: fillModelQuery.fillModel.describe(),
+        },
+    };
+}
+
+function toMarketQuery(input: BacktestJobInput): { filters: MarketHistoryFilters; pagination: MarketHistoryPagination } {
+    const filters: MarketHistoryFilters = {};
+    if (input.token) {
+        filters.token = input.token;
+    }
+    if (input.eventType) {
+        filters.eventType = input.eventType;
+    }
+    if (input.startDate) {
+        filters.startDate = new Date(input.startDate);
+    }
+    if (input.endDate) {
+        filters.endDate = new Date(input.endDate);
+    }
+    return { filters, pagination: { page: input.page, pageSize: input.pageSize } };
+}
+
+const sameSlugs = (a: string[], b: string[]): boolean => a.length === b.length && a.every((slug, index) => slug === b[index]);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * BacktestJobService - runs backtest jobs off the request thread and caches their results in the
+ * BacktestJob collection.
+ *
+ * Jobs are keyed by a hash of their normalized input: submitting an input with a completed, still
+ * valid job returns that job's result. A job stops being served from cache when new ticks, trade
+ * prints or settlements are written for one of its slugs (invalidateSlugs), or when the markets
+ * matching its filters change (e.g. a new market ended). Jobs run one at a time; jobs left queued or
+ * running by a restart are picked up again by start(). Per-slug results are stored in the
+ * BacktestJobResult collection and joined back by getJobResult().
+ */
+export class BacktestJobService {
+    private queue: string[] = [];
+    private processing: boolean = false;
+
+    /**
+     * Re-queue jobs interrupted by a restart
+     */
+    public async start(): Promise<void> {
+        const pendingJobs = await BacktestJob.find({ status: { $in: ['queued', 'running'] } })
+            .sort({ createdAt: 1 })
+            .select({ _id: 1 })
+            .exec();
+        if (pendingJobs.length === 0) {
+            return;
+        }
+
+        await BacktestJob.updateMany({ status: 'running' }, { $set: { status: 'queued', startedAt: null } });
+        this.queue.push(...pendingJobs.map(job => job.id as string));
+        logger.info(`🔁 Re-queued ${pendingJobs.length} backtest jobs`);
+        this.processQueue().catch(error => {
+            logger.error('Error processing backtest job queue:', error);
+        });
+    }
+
+    /**
+     * Return the cached (or already queued) job for the input, or queue a new one
+     */
+    public async submitJob(input: BacktestJobInput): Promise<{ job: IBacktestJob; cached: boolean }> {
+        const inputHash = hashBacktestInput(input);
+        const { filters, pagination } = toMarketQuery(input);
+        const slugs = (await findMarkets(filters, pagination)).map(market => market.slug);
+
+        const existingJob = await BacktestJob.findOne({
+            inputHash,
+            invalidatedAt: null,
+            status: { $in: ['queued', 'running', 'completed'] },
+        })
+            .sort({ createdAt: -1 })
+            .exec();
+        if (existingJob) {
+            if (sameSlugs(existingJob.slugs, slugs)) {
+                return { job: existingJob, cached: existingJob.status === 'completed' };
+            }
+            // The markets matching the filters changed since the job was submitted
+            existingJob.invalidatedAt = new Date();
+            await existingJob.save();
+        }
+
+        const job = await BacktestJob.create({
+            inputHash,
+            input,
+            status: 'queued',
+            progress: { processedMarkets: 0, totalMarkets: slugs.length },
+            slugs,
+        });
+        this.queue.push(job.id as string);
+        this.processQueue().catch(error => {
+            logger.error('Error processing backtest job queue:', error);
+        });
+        return { job, cached: false };
+    }
+
+    public async getJob(jobId: string): Promise<IBacktestJob | null> {
+        return BacktestJob.findById(jobId).exec();
+    }
+
+    /**
+     * Result of a completed job: its totals, with the risk metrics and per-slug results (most recent first)
+     */
+    public async getJobResult(job: IBacktestJob): Promise<Record<string, unknown> | null> {
+        // Jobs completed before per-slug results moved to their own collection hold them in the result
+        if (!job.result || Array.isArray(job.result.results)) {
+            return job.result;
+        }
+        const results: BacktestSlugResult[] = await BacktestJobResult.find({ jobId: job._id })
+            .sort({ index: 1 })
+            .select({ _id: 0, jobId: 0, index: 0, createdAt: 0, updatedAt: 0 })
+            .lean()
+            .exec();
+        return {
+            ...job.result,
+            riskMetrics: calculateRiskMetrics([...results].reverse()),
+            results,
+        };
+    }
+
+    /**
+     * Most recent jobs, without their results
+     */
+    public async getJobs(limit: number = 50): Promise<IBacktestJob[]> {
+        return BacktestJob.find().select({ result: 0, slugs: 0 }).sort({ createdAt: -1 }).limit(limit).exec();
+    }
+
+    /**
+     * Stop serving cached results that cover any of the slugs (called when their ticks, trade prints or
+     * settlement are written)
+     */
+    public async invalidateSlugs(slugs: string[]): Promise<number> {
+        if (slugs.length === 0) {
+            return 0;
+        }
+        const result = await BacktestJob.updateMany(
+            { slugs: { $in: slugs }, invalidatedAt: null },
+            { $set: { invalidatedAt: new Date() } }
+        );
+        if (result.modifiedCount > 0) {
+            logger.info(`🧹 Invalidated ${result.modifiedCount} cached backtests covering ${slugs.join(', ')}`);
+        }
+        return result.modifiedCount;
+    }
+
+    private async processQueue(): Promise<void> {
+        if (this.processing) {
+            return;
+        }
+        this.processing = true;
+
+        try {
+            while (this.queue.length > 0) {
+                const job = await BacktestJob.findById(this.queue.shift()!).exec();
+                if (!job || job.status !== 'queued') {
+                    continue;
+                }
+                await this.runJob(job);
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    /**
+     * Run a job over the markets captured when it was submitted (the ones its cache invalidation covers).
+     * Failures, including failures to save the job, are recorded on the job rather than thrown.
+     */
+    private async runJob(job: IBacktestJob): Promise<void> {
+        const { input } = job;
+
+        try {
+            job.status = 'running';
+            job.startedAt = new Date();
+            job.progress.processedMarkets = 0;
+            await job.save();
+            logger.info(`🧪 Backtest job ${job.id} started: ${input.strategy}, ${job.slugs.length} markets`);
+
+            // Results of a run interrupted by a restart
+            await BacktestJobResult.deleteMany({ jobId: job._id });
+
+            const { filters } = toMarketQuery(input);
+            const fillModel = createFillModel(input.fillModel);
+            const totalSlugCount = await countMarkets(filters);
+            const results: BacktestSlugResult[] = [];
+            let lastProgressSave = Date.now();
+
+            const histories = streamMarketHistories(
+                { slugs: job.slugs },
+                { page: 1, pageSize: null },
+                { includeTradePrints: input.useTradePrints }
+            );
+            for await (const { slug, eventType, endTime, resolvedOutcome, ticks, trades } of histories) {
+                if (ticks.length > 0) {
+                    try {
+                        const strategy = createStrategy(input.strategy as StrategyName, input.params);
+                        const summary = strategy.summarize(
+                            runBacktest(strategy, { slug, eventType }, ticks, trades, resolvedOutcome, fillModel)
+                        );
+                        results.push({
+                            slug,
+                            endTime,
+                            resolved: resolvedOutcome !== null,
+                            profit: summary.totalProfit,
+                            cost: summary.totalCost,
+                            entries: summary.totalEntries,
+                            finalValue: summary.finalValue,
+                            hedgesFilled: summary.totalHedgesFilled,
+                            totalReceived: summary.totalReceived,
+                        });
+                    } catch (error) {
+                        logger.error(`Error backtesting slug ${slug} in backtest job ${job.id}:`, error);
+                    }
+                }
+
+                job.progress.processedMarkets++;
+                if (Date.now() - lastProgressSave >= PROGRESS_SAVE_INTERVAL_MS) {
+                    lastProgressSave = Date.now();
+                    await BacktestJob.updateOne({ _id: job._id }, { $set: { 'progress.processedMarkets': job.progress.processedMarkets } });
+                }
+
+                // Let HTTP requests through between markets
+                await new Promise(resolve => setImmediate(resolve));
+            }
+
+            for (let start = 0; start < results.length; start += RESULT_BATCH_SIZE) {
+                await BacktestJobResult.insertMany(
+                    results.slice(start, start + RESULT_BATCH_SIZE).map((result, offset) => ({ jobId: job._id, index: start + offset, ...result }))
+                );
+            }
+
+            const sum = (key: 'profit' | 'cost' | 'entries' | 'finalValue' | 'hedgesFilled' | 'totalReceived') =>
+                results.reduce((total, result) => total + (result[key] ?? 0), 0);
+            job.result = {
+                totalProfit: round(sum('profit')),
+                totalCost: round(sum('cost')),
+                totalEntries: sum('entries'),
+                ...(input.strategy === 'prePurchasedSell'
+                    ? { totalReceived: round(sum('totalReceived')), totalFinalValue: round(sum('finalValue')) }
+                    : { totalFinalValue: round(sum('finalValue')), totalHedgesFilled: sum('hedgesFilled') }),
+                totalSlugCount,
+                processedSlugCount: job.progress.processedMarkets,
+                actualProcessedCount: results.length,
+                unresolvedCount: results.filter(result => !result.resolved).length,
+                fillModel: input.fillModel,
+            };
+            job.status = 'completed';
+            logger.info(`✅ Backtest job ${job.id} completed (${results.length} markets)`);
+        } catch (error) {
+            job.status = 'failed';
+            job.error = error instanceof Error ? error.message : String(error);
+            logger.error(`❌ Backtest job ${job.id} failed:`, error);
+        }
+
+        job.finishedAt = new Date();
+        try {
+            // Keep an invalidation written while the job was running
+            await BacktestJob.updateOne(
+                { _id: job._id },
+                {
+                    $set: {
+                        status: job.status,
+                        progress: job.progress,
+                        result: job.result,
+                        error: job.error,
+                        finishedAt: job.finishedAt,
+                    },
+                }
+            );
+        } catch (error) {
+            logger.error(`❌ Error saving backtest job ${job.id}:`, error);
+            await BacktestJob.updateOne(
+                { _id: job._id },
+                {
+                    $set: {
+                        status: 'failed',
+                        error: `Error saving the job: ${error instanceof Error ? error.message : String(error)}`,
+                        finishedAt: job.finishedAt,
+                    },
+                }
+            ).catch(saveError => {
+                logger.error(`Error marking backtest job ${job.id} as failed:`, saveError);
+            });
+        }
+    }
+}
+
+let backtestJobServiceInstance: BacktestJobService | null = null;
+
+export const getBacktestJobService = (): BacktestJobService => {
+    if (!backtestJobServiceInstance) {
+        backtestJobServiceInstance = new BacktestJobService();
+    }
+    return backtestJobServiceInstance;
+};
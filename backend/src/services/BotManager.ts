@@ -0,0 +1,328 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import config from '../config';
+import BotConfig from '../models/BotConfig';
+import { createStrategy, STRATEGY_NAMES, StrategyName, validateStrategyParams } from '../strategies';
+import { logger } from '../utils/logger';
+import { CoinSymbol } from './CoinMonitor';
+import { MarketInterval } from './MarketMonitor';
+import { TradingBot, TradingBotStatus } from './TradingBot';
+
+export type BotCoin = 'BTC' | 'ETH' | 'SOL' | 'XRP';
+
+const BOT_COINS: BotCoin[] = ['BTC', 'ETH', 'SOL', 'XRP'];
+const BOT_INTERVALS: MarketInterval[] = [MarketInterval.HOURLY, MarketInterval.FIFTEEN_MINUTES];
+
+/**
+ * One trading bot instance (from the bots config file or the BotConfig collection)
+ */
+export interface BotInstanceConfig {
+    botId: string;
+    coin: BotCoin;
+    interval: MarketInterval;
+    strategy: StrategyName;
+    strategyParams: Record<string, unknown>;
+    capitalLimit: number | null; // Maximum capital committed per market (in dollars), null for no limit
+    enabled: boolean;
+}
+
+export interface BotStatus {
+    config: BotInstanceConfig;
+    running: boolean;
+    startedAt: Date | null;
+    state: TradingBotStatus | null; // Live state of a running bot
+}
+
+interface RunningBot {
+    bot: TradingBot;
+    config: BotInstanceConfig;
+    startedAt: Date;
+}
+
+/**
+ * Validate a raw bot config entry, throwing an Error listing every problem found
+ */
+export function validateBotInstanceConfig(raw: unknown, source: string): BotInstanceConfig {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new Error(`Invalid bot config in ${source}: entry must be an object`);
+    }
+
+    const entry = raw as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof entry.botId !== 'string' || entry.botId.trim().length === 0) {
+        errors.push('botId must be a non-empty string');
+    }
+    if (!BOT_COINS.includes(entry.coin as BotCoin)) {
+        errors.push(`coin must be one of ${BOT_COINS.join(', ')}`);
+    }
+    if (!BOT_INTERVALS.includes(entry.interval as MarketInterval)) {
+        errors.push(`interval must be one of ${BOT_INTERVALS.join(', ')}`);
+    }
+    if (entry.capitalLimit !== undefined && entry.capitalLimit !== null
+        && (typeof entry.capitalLimit !== 'number' || !(entry.capitalLimit > 0))) {
+        errors.push('capitalLimit must be a positive number or null');
+    }
+    if (entry.enabled !== undefined && typeof entry.enabled !== 'boolean') {
+        errors.push('enabled must be a boolean');
+    }
+
+    const strategyParams = entry.strategyParams ?? {};
+    if (!STRATEGY_NAMES.includes(entry.strategy as StrategyName)) {
+        errors.push(`strategy must be one of ${STRATEGY_NAMES.join(', ')}`);
+    } else if (typeof strategyParams !== 'object' || strategyParams === null || Array.isArray(strategyParams)) {
+        errors.push('strategyParams must be an object');
+    } else {
+        errors.push(...validateStrategyParams(entry.strategy as StrategyName, strategyParams as Record<string, unknown>));
+    }
+
+    if (errors.length > 0) {
+        const label = typeof entry.botId === 'string' ? ` "${entry.botId}"` : '';
+        throw new Error(`Invalid bot config${label} in ${source}: ${errors.join('; ')}`);
+    }
+
+    return {
+        botId: (entry.botId as string).trim(),
+        coin: entry.coin as BotCoin,
+        interval: entry.interval as MarketInterval,
+        strategy: entry.strategy as StrategyName,
+        strategyParams: strategyParams as Record<string, unknown>,
+        capitalLimit: (entry.capitalLimit as number | null | undefined) ?? null,
+        enabled: (entry.enabled as boolean | undefined) ?? true,
+    };
+}
+
+/**
+ * BotManager - runs the TradingBot instances declared in the bots config file and the
+ * BotConfig collection, and starts/stops/reloads them at runtime
+ *
+ * At most one bot runs per coin and interval, since each bot records its market's price history
+ * and trade prints.
+ */
+export class BotManager {
+    private configs: Map<string, BotInstanceConfig> = new Map();
+    private bots: Map<string, RunningBot> = new Map();
+    private operationQueue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Load and validate bot configs. BotConfig documents override file entries with the same botId.
+     * Two enabled bots cannot share a coin and interval.
+     */
+    public async loadConfigs(): Promise<BotInstanceConfig[]> {
+        const configs: Map<string, BotInstanceConfig> = new Map();
+
+        for (const botConfig of await this.loadFileConfigs()) {
+            if (configs.has(botConfig.botId)) {
+                throw new Error(`Duplicate botId "${botConfig.botId}" in ${config.bots.configPath}`);
+            }
+            configs.set(botConfig.botId, botConfig);
+        }
+
+        const documents = await BotConfig.find({}).lean().exec();
+        for (const document of documents) {
+            const botConfig = validateBotInstanceConfig(document, 'BotConfig collection');
+            configs.set(botConfig.botId, botConfig);
+        }
+
+        const enabledByMarket: Map<string, string> = new Map();
+        for (const botConfig of configs.values()) {
+            if (!botConfig.enabled) {
+                continue;
+            }
+            const market = `${botConfig.coin} ${botConfig.interval}`;
+            const otherBotId = enabledByMarket.get(market);
+            if (otherBotId) {
+                throw new Error(`Bots "${otherBotId}" and "${botConfig.botId}" are both enabled for ${market}; enable at most one bot per coin and interval`);
+            }
+            enabledByMarket.set(market, botConfig.botId);
+        }
+
+        return Array.from(configs.values());
+    }
+
+    private async loadFileConfigs(): Promise<BotInstanceConfig[]> {
+        const filePath = path.resolve(process.cwd(), config.bots.configPath);
+
+        let content: string;
+        try {
+            content = await fs.readFile(filePath, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                logger.warn(`⚠️ Bots config file not found: ${filePath}`);
+                return [];
+            }
+            throw error;
+        }
+
+        const parsed = JSON.parse(content);
+        if (!parsed || !Array.isArray(parsed.bots)) {
+            throw new Error(`Invalid bots config file ${filePath}: expected { "bots": [...] }`);
+        }
+        return parsed.bots.map((entry: unknown) => validateBotInstanceConfig(entry, filePath));
+    }
+
+    /**
+     * Load the configs and start every enabled bot
+     */
+    public async start(): Promise<void> {
+        await this.reload();
+    }
+
+    /**
+     * Reload the configs: stop bots that were removed, disabled or changed, then start enabled bots
+     * that are not running. Nothing is stopped if the configs fail to load.
+     */
+    public reload(): Promise<BotStatus[]> {
+        return this.runExclusive(async () => {
+            const configs = await this.loadConfigs();
+            this.configs = new Map(configs.map(botConfig => [botConfig.botId, botConfig]));
+
+            for (const [botId, running] of Array.from(this.bots.entries())) {
+                const botConfig = this.configs.get(botId);
+                if (!botConfig || !botConfig.enabled || JSON.stringify(botConfig) !== JSON.stringify(running.config)) {
+                    await this.stopRunningBot(botId);
+                }
+            }
+
+            for (const botConfig of this.configs.values()) {
+                if (botConfig.enabled && !this.bots.has(botConfig.botId)) {
+                    // A bot that fails to start is logged and left stopped
+                    await this.startConfiguredBot(botConfig).catch(() => undefined);
+                }
+            }
+
+            logger.info(`🤖 Bots reloaded: ${this.bots.size} running, ${this.configs.size} configured`);
+            return this.getBots();
+        });
+    }
+
+    public startBot(botId: string): Promise<BotStatus> {
+        return this.runExclusive(async () => {
+            const botConfig = this.configs.get(botId);
+            if (!botConfig) {
+                throw new Error(`Unknown bot: ${botId}`);
+            }
+            if (!this.bots.has(botId)) {
+                await this.startConfiguredBot(botConfig);
+            }
+            return this.getBot(botId)!;
+        });
+    }
+
+    public stopBot(botId: string): Promise<BotStatus> {
+        return this.runExclusive(async () => {
+            if (!this.configs.has(botId)) {
+                throw new Error(`Unknown bot: ${botId}`);
+            }
+            await this.stopRunningBot(botId);
+            return this.getBot(botId)!;
+        });
+    }
+
+    /**
+     * Stop every bot on shutdown, leaving their markets to be resumed on the next start
+     */
+    public stopAll(): Promise<void> {
+        return this.runExclusive(async () => {
+            for (const botId of Array.from(this.bots.keys())) {
+                await this.stopRunningBot(botId, false);
+            }
+        });
+    }
+
+    public getBots(): BotStatus[] {
+        return Array.from(this.configs.keys()).map(botId => this.getBot(botId)!);
+    }
+
+    public getBot(botId: string): BotStatus | null {
+        const botConfig = this.configs.get(botId);
+        if (!botConfig) {
+            return null;
+        }
+        const running = this.bots.get(botId);
+        return {
+            config: botConfig,
+            running: running !== undefined,
+            startedAt: running?.startedAt ?? null,
+            state: running ? running.bot.getStatus() : null,
+        };
+    }
+
+    /**
+     * Running TradingBot instance, or null if the bot is not running
+     */
+    public getTradingBot(botId: string): TradingBot | null {
+        return this.bots.get(botId)?.bot ?? null;
+    }
+
+    public async cancelAllOrders(): Promise<void> {
+        for (const [botId, running] of Array.from(this.bots.entries())) {
+            try {
+                await running.bot.cancelAllOrders();
+            } catch (error) {
+                logger.error(`Error cancelling orders for bot ${botId}:`, error);
+            }
+        }
+    }
+
+    private async startConfiguredBot(botConfig: BotInstanceConfig): Promise<void> {
+        for (const [botId, running] of this.bots) {
+            if (running.config.coin === botConfig.coin && running.config.interval === botConfig.interval) {
+                throw new Error(`Bot "${botId}" is already running for ${botConfig.coin} ${botConfig.interval}`);
+            }
+        }
+
+        const bot = new TradingBot(
+            botConfig.botId,
+            CoinSymbol[botConfig.coin],
+            botConfig.interval,
+            createStrategy(botConfig.strategy, botConfig.strategyParams),
+            config.paperTrading,
+            botConfig.capitalLimit
+        );
+
+        try {
+            await bot.start();
+        } catch (error) {
+            logger.error(`Failed to start bot ${botConfig.botId}:`, error);
+            await bot.stop(false).catch(() => undefined);
+            throw error;
+        }
+
+        this.bots.set(botConfig.botId, { bot, config: botConfig, startedAt: new Date() });
+        logger.info(`▶️ Bot started: ${botConfig.botId} (${botConfig.coin} ${botConfig.interval}, ${botConfig.strategy})`);
+    }
+
+    private async stopRunningBot(botId: string, endMarket: boolean = true): Promise<void> {
+        const running = this.bots.get(botId);
+        if (!running) {
+            return;
+        }
+
+        this.bots.delete(botId);
+        try {
+            await running.bot.stop(endMarket);
+            logger.info(`⏹️ Bot stopped: ${botId}`);
+        } catch (error) {
+            logger.error(`Error stopping bot ${botId}:`, error);
+        }
+    }
+
+    /**
+     * Run bot operations one at a time so concurrent reload/start/stop calls do not interleave
+     */
+    private runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.operationQueue.then(operation);
+        this.operationQueue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+let botManagerInstance: BotManager | null = null;
+
+export const getBotManager = (): BotManager => {
+    if (!botManagerInstance) {
+        botManagerInstance = new BotManager();
+    }
+    return botManagerInstance;
+};
@@ -5,17 +5,15 @@ import cron from 'node-cron';
 import { Side } from '@polymarket/clob-client';
 import { CoinMonitor, CoinMonitorEvent, CoinPrice, CoinSymbol } from './CoinMonitor';
 import { logger } from '../utils/logger';
+import { OrderBook, OrderSummary } from './OrderBook';
+import { DEFAULT_TICK_SIZE, roundToTick } from '../utils/tickSize';
+import Market, { MarketFirstTick } from '../models/Market';
 
 export enum MarketInterval {
     HOURLY = 'hourly',
     FIFTEEN_MINUTES = '15min'
 }
 
-interface OrderSummary {
-    price: string;
-    size: string;
-}
-
 interface BookMessage {
     event_type: 'book';
     asset_id: string;
@@ -69,12 +67,29 @@ export interface TokenPrice {
     bestBid: number;
 }
 
+/**
+ * Last-trade print of an asset (from `last_trade_price` messages)
+ */
+export interface LastTradePrice {
+    assetId: string;
+    price: number;
+    side: Side; // Taker side
+    size: number;
+    feeRateBps: number;
+    timestamp: number;
+}
+
 export enum MarketMonitorEvent {
     MARKET_UPDATED = 'marketUpdated',
     PRICE_CHANGE = 'priceChange',
     COIN_PRICE_BIAS_CHANGE = 'coinPriceBiasChange',
+    ORDER_BOOK_UPDATE = 'orderBookUpdate', // Payload: asset ID of the updated book
+    LAST_TRADE_PRICE = 'lastTradePrice',
+    TICK_SIZE_CHANGE = 'tickSizeChange', // Payload: { assetId, tickSize }
 }
 
+const ORDER_BOOK_RESYNC_INTERVAL_MS = 5000;
+
 export interface MarketInfo {
     yesAssetId: string;
     noAssetId: string;
@@ -82,6 +97,9 @@ export interface MarketInfo {
     conditionId: string;
     question: string;
     interval: MarketInterval;
+    tickSize: number; // Minimum tick size when the market was loaded (see getTickSize for updates)
+    startTime: Date | null; // Event start (null if Gamma did not report it)
+    endTime: Date | null; // Event end, when the market closes
 }
 
 export class MarketMonitor extends EventEmitter {
@@ -91,8 +109,14 @@ export class MarketMonitor extends EventEmitter {
     private marketInterval: MarketInterval;
     public curMarketInfo: MarketInfo | null = null;
     private isConnecting: boolean = false;
+    private shouldReconnect: boolean = true;
     private pingCronTask?: cron.ScheduledTask;
     private marketUpdateCronTask?: cron.ScheduledTask;
+    private nextMarketCronTask?: cron.ScheduledTask;
+    private nextMarketInfo: MarketInfo | null = null; // Market after the boundary, subscribed ahead of the rollover
+    private nextMarketPreparing: Promise<void> | null = null;
+    private firstTickSlug: string | null = null; // Market entered at its boundary whose first tick is not recorded yet
+    private marketRecordWrites: Promise<void> = Promise.resolve(); // Keeps Market record writes in order
 
     public startCoinPrice: CoinPrice | null = null;
     public currentCoinPrice: CoinPrice | null = null;
@@ -100,6 +124,10 @@ export class MarketMonitor extends EventEmitter {
     public yesPrice: TokenPrice | null = null;
     public noPrice: TokenPrice | null = null;
 
+    private orderBooks: Map<string, OrderBook> = new Map(); // assetId -> L2 book
+    private orderBookResyncTimes: Map<string, number> = new Map(); // assetId -> last REST resync
+    private tickSizes: Map<string, number> = new Map(); // assetId -> current tick size
+
     constructor(symbol: CoinSymbol, marketInterval: MarketInterval) {
         super();
         this.symbol = symbol;
@@ -126,7 +154,9 @@ export class MarketMonitor extends EventEmitter {
             this.isConnecting = false;
             this.stopPingTimer();
             this.ws = undefined;
-            this.connect();
+            if (this.shouldReconnect) {
+                this.connect();
+            }
         });
 
         this.ws.on('message', (data: WebSocket.Data) => {
@@ -167,16 +197,16 @@ export class MarketMonitor extends EventEmitter {
             // Handle different message types based on event_type
             switch (message.event_type) {
                 case 'book':
-                    // this.handleBookMessage(message as BookMessage);
+                    this.handleBookMessage(message as BookMessage);
                     break;
                 case 'price_change':
                     this.handlePriceChangeMessage(message as PriceChangeMessage);
                     break;
                 case 'last_trade_price':
-                    // this.handleLastTradePriceMessage(message as LastTradeMessage);
+                    this.handleLastTradePriceMessage(message as LastTradeMessage);
                     break;
                 case 'tick_size_change':
-                    // this.handleTickSizeChangeMessage(message as TickSizeChangeMessage);
+                    this.handleTickSizeChangeMessage(message as TickSizeChangeMessage);
                     break;
                 default:
                     logger.debug('Unknown message type:', message);
@@ -186,16 +216,149 @@ export class MarketMonitor extends EventEmitter {
         }
     }
 
+    /**
+     * Current tick size of an asset (prices must be multiples of it)
+     */
+    public getTickSize(assetId: string): number {
+        return this.tickSizes.get(assetId) ?? this.curMarketInfo?.tickSize ?? DEFAULT_TICK_SIZE;
+    }
+
+    private handleLastTradePriceMessage(message: LastTradeMessage): void {
+        if (!this.isCurrentAsset(message.asset_id)) {
+            return;
+        }
+
+        const lastTradePrice: LastTradePrice = {
+            assetId: message.asset_id,
+            price: parseFloat(message.price),
+            side: message.side,
+            size: parseFloat(message.size),
+            feeRateBps: parseFloat(message.fee_rate_bps) || 0,
+            timestamp: parseInt(message.timestamp, 10) || Date.now(),
+        };
+        this.emit(MarketMonitorEvent.LAST_TRADE_PRICE, lastTradePrice);
+    }
+
+    private handleTickSizeChangeMessage(message: TickSizeChangeMessage): void {
+        if (!this.isSubscribedAsset(message.asset_id)) {
+            return;
+        }
+
+        const tickSize = parseFloat(message.new_tick_size);
+        if (!(tickSize > 0)) {
+            return;
+        }
+
+        logger.info(`📏 Tick size changed for ${message.asset_id.substring(0, 12)}...: ${message.old_tick_size} -> ${message.new_tick_size}`);
+        this.tickSizes.set(message.asset_id, tickSize);
+        if (this.isCurrentAsset(message.asset_id)) {
+            this.emit(MarketMonitorEvent.TICK_SIZE_CHANGE, { assetId: message.asset_id, tickSize });
+        }
+    }
+
+    /**
+     * L2 order book of an asset of the current market (null until its first snapshot)
+     */
+    public getOrderBook(assetId: string): OrderBook | null {
+        return this.orderBooks.get(assetId) ?? null;
+    }
+
+    private isCurrentAsset(assetId: string): boolean {
+        return assetId === this.curMarketInfo?.yesAssetId || assetId === this.curMarketInfo?.noAssetId;
+    }
+
+    /**
+     * Asset of the current market or of the next one (whose book is kept from before the rollover)
+     */
+    private isSubscribedAsset(assetId: string): boolean {
+        return this.isCurrentAsset(assetId) || assetId === this.nextMarketInfo?.yesAssetId || assetId === this.nextMarketInfo?.noAssetId;
+    }
+
+    private handleBookMessage(message: BookMessage): void {
+        if (!this.isSubscribedAsset(message.asset_id)) {
+            return;
+        }
+
+        let orderBook = this.orderBooks.get(message.asset_id);
+        if (!orderBook) {
+            orderBook = new OrderBook(message.asset_id);
+            this.orderBooks.set(message.asset_id, orderBook);
+        }
+
+        if (!orderBook.applySnapshot(message)) {
+            logger.debug(`Order book hash for ${message.asset_id} could not be reproduced, updates will not be verified`);
+        }
+        if (this.isCurrentAsset(message.asset_id)) {
+            this.emit(MarketMonitorEvent.ORDER_BOOK_UPDATE, message.asset_id);
+        }
+    }
+
+    /**
+     * Apply price_change entries to the L2 books; a book that no longer matches the
+     * CLOB hash is re-fetched from the REST API
+     */
+    private updateOrderBooks(message: PriceChangeMessage): void {
+        const updatedAssetIds: Set<string> = new Set();
+
+        for (const priceChange of message.price_changes) {
+            const orderBook = this.orderBooks.get(priceChange.asset_id);
+            if (!orderBook) {
+                continue;
+            }
+
+            const side = priceChange.side === Side.BUY ? 'bid' : 'ask';
+            const isInSync = orderBook.applyPriceChange(side, priceChange.price, priceChange.size, message.timestamp, priceChange.hash);
+            if (!isInSync) {
+                logger.warn(`⚠️ Order book hash mismatch for ${priceChange.asset_id}, resyncing`);
+                this.resyncOrderBook(priceChange.asset_id);
+            }
+            updatedAssetIds.add(priceChange.asset_id);
+        }
+
+        for (const assetId of updatedAssetIds) {
+            if (this.isCurrentAsset(assetId)) {
+                this.emit(MarketMonitorEvent.ORDER_BOOK_UPDATE, assetId);
+            }
+        }
+    }
+
+    private async resyncOrderBook(assetId: string): Promise<void> {
+        const now = Date.now();
+        if (now - (this.orderBookResyncTimes.get(assetId) ?? 0) < ORDER_BOOK_RESYNC_INTERVAL_MS) {
+            return;
+        }
+        this.orderBookResyncTimes.set(assetId, now);
+
+        try {
+            const response = await axios.get('https://clob.polymarket.com/book', {
+                params: { token_id: assetId },
+                timeout: 10000,
+            });
+            const orderBook = this.orderBooks.get(assetId);
+            if (orderBook && this.isSubscribedAsset(assetId)) {
+                orderBook.applySnapshot(response.data);
+                if (this.isCurrentAsset(assetId)) {
+                    this.emit(MarketMonitorEvent.ORDER_BOOK_UPDATE, assetId);
+                }
+            }
+        } catch (error) {
+            logger.error(`Error resyncing order book for ${assetId}:`, error);
+        }
+    }
+
     private handlePriceChangeMessage(message: PriceChangeMessage): void {
+        this.updateOrderBooks(message);
+
         let hasPriceChange = false;
         const yesPriceChange = message.price_changes.find((priceChange) => priceChange.asset_id === this.curMarketInfo?.yesAssetId);
         const noPriceChange = message.price_changes.find((priceChange) => priceChange.asset_id === this.curMarketInfo?.noAssetId);
 
         if (yesPriceChange) {
 
+            const tickSize = this.getTickSize(yesPriceChange.asset_id);
             const yesPrice = {
-                bestAsk: Math.round(parseFloat(yesPriceChange.best_ask) * 100) / 100 || 1,
-                bestBid: Math.round(parseFloat(yesPriceChange.best_bid) * 100) / 100,
+                bestAsk: roundToTick(parseFloat(yesPriceChange.best_ask), tickSize) || 1,
+                bestBid: roundToTick(parseFloat(yesPriceChange.best_bid), tickSize),
             };
             if(!this.yesPrice || (this.yesPrice && this.yesPrice.bestAsk !== yesPrice.bestAsk || this.yesPrice.bestBid !== yesPrice.bestBid)) {
                 hasPriceChange = true;
@@ -203,9 +366,10 @@ export class MarketMonitor extends EventEmitter {
             this.yesPrice = yesPrice;
         }
         if (noPriceChange) {
+            const tickSize = this.getTickSize(noPriceChange.asset_id);
             const noPrice = {
-                bestAsk: Math.round(parseFloat(noPriceChange.best_ask) * 100) / 100 || 1,
-                bestBid: Math.round(parseFloat(noPriceChange.best_bid) * 100) / 100,
+                bestAsk: roundToTick(parseFloat(noPriceChange.best_ask), tickSize) || 1,
+                bestBid: roundToTick(parseFloat(noPriceChange.best_bid), tickSize),
             };
             if(!this.noPrice || (this.noPrice && this.noPrice.bestAsk !== noPrice.bestAsk || this.noPrice.bestBid !== noPrice.bestBid)) {
                 hasPriceChange = true;
@@ -218,6 +382,7 @@ export class MarketMonitor extends EventEmitter {
                 yesPrice: this.yesPrice,
                 noPrice: this.noPrice,
             });
+            this.recordFirstTick(parseInt(message.timestamp, 10) || Date.now());
         }
     }
 
@@ -228,16 +393,37 @@ export class MarketMonitor extends EventEmitter {
             return;
         }
 
+        const marketInfos = [this.curMarketInfo, this.nextMarketInfo].filter((marketInfo): marketInfo is MarketInfo => marketInfo !== null);
         const subscribeMessage = {
-            assets_ids: [this.curMarketInfo?.yesAssetId, this.curMarketInfo?.noAssetId],
+            assets_ids: marketInfos.flatMap((marketInfo) => [marketInfo.yesAssetId, marketInfo.noAssetId]),
             type: 'market',
         };
 
-        logger.info(`📡 Subscribing to ${[this.curMarketInfo?.yesAssetId, this.curMarketInfo?.noAssetId].length} asset(s) for market: ${this.curMarketInfo?.slug}`);
+        logger.info(`📡 Subscribing to ${subscribeMessage.assets_ids.length} asset(s) for market(s): ${marketInfos.map((marketInfo) => marketInfo.slug).join(', ')}`);
         this.ws.send(JSON.stringify(subscribeMessage));
     }
 
+    /**
+     * Add or remove the assets of a market on the open socket (all current assets are subscribed
+     * again when it connects)
+     */
+    private updateSubscription(marketInfo: MarketInfo, operation: 'subscribe' | 'unsubscribe'): void {
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+            if (operation === 'subscribe' && this.shouldReconnect) {
+                this.connect();
+            }
+            return;
+        }
+
+        logger.info(`📡 ${operation === 'subscribe' ? 'Subscribing to' : 'Unsubscribing from'} market: ${marketInfo.slug}`);
+        this.ws.send(JSON.stringify({
+            assets_ids: [marketInfo.yesAssetId, marketInfo.noAssetId],
+            operation,
+        }));
+    }
+
     public async start() {
+        this.shouldReconnect = true;
         this.coinMonitor.connect();
 
         this.coinMonitor.on(CoinMonitorEvent.PRICE_UPDATE, (price: CoinPrice) => {
@@ -251,17 +437,23 @@ export class MarketMonitor extends EventEmitter {
         this.curMarketInfo = await this.getMarketInfoFromSlug(this.getCurrentSlug());
         if (this.curMarketInfo) {
             this.startCoinPrice = await this.getStartCoinPrice(this.curMarketInfo);
+            await this.saveMarketRecord(this.curMarketInfo);
             this.connect();
         }
         this.scheduleMarketUpdate();
     }
 
     public async stop() {
+        this.shouldReconnect = false;
         this.curMarketInfo = null;
         this.coinMonitor.disconnect();
         this.disconnect();
         this.marketUpdateCronTask?.stop();
         this.marketUpdateCronTask = undefined;
+        this.nextMarketCronTask?.stop();
+        this.nextMarketCronTask = undefined;
+        this.nextMarketInfo = null;
+        this.firstTickSlug = null;
     }
 
     public async getMarketInfoFromSlug(slug: string): Promise<MarketInfo | null> {
@@ -318,6 +510,9 @@ export class MarketMonitor extends EventEmitter {
                 question: market.question || '',
                 interval: this.marketInterval,
                 slug: slug,
+                tickSize: parseFloat(market.orderPriceMinTickSize) || DEFAULT_TICK_SIZE,
+                startTime: market.eventStartTime ? new Date(market.eventStartTime) : null,
+                endTime: market.endDate ? new Date(market.endDate) : null,
             };
 
 
@@ -417,19 +612,33 @@ export class MarketMonitor extends EventEmitter {
     }
 
     private getCurrentSlug(): string {
+        return this.getSlugAt(new Date());
+    }
+
+    /**
+     * Slug of the market running at a given time
+     */
+    private getSlugAt(time: Date): string {
         switch (this.marketInterval) {
             case MarketInterval.FIFTEEN_MINUTES:
-                return this.getCurrent15MinSlug();
+                return this.get15MinSlug(time);
             case MarketInterval.HOURLY:
-                return this.getCurrentHourSlug();
+                return this.getHourSlug(time);
         }
     }
-    private getCurrent15MinSlug(): string {
-        const cryptoShort = this.symbol.split('/')[0];
 
-        // Get current time in UTC (Polymarket uses UTC for 15-minute markets)
-        const now = new Date();
+    /**
+     * Start of the market after the current one (15-minute and hourly boundaries are the same in UTC and ET)
+     */
+    private getNextMarketStart(): Date {
+        const intervalMs = this.marketInterval === MarketInterval.FIFTEEN_MINUTES ? 15 * 60 * 1000 : 60 * 60 * 1000;
+        return new Date((Math.floor(Date.now() / intervalMs) + 1) * intervalMs);
+    }
 
+    private get15MinSlug(now: Date): string {
+        const cryptoShort = this.symbol.split('/')[0];
+
+        // Polymarket uses UTC for 15-minute markets
         // Round down to nearest 15-minute interval
         const minutes = now.getMinutes();
         const roundedMinutes = Math.floor(minutes / 15) * 15;
@@ -447,7 +656,7 @@ export class MarketMonitor extends EventEmitter {
         return slug;
     }
 
-    private getCurrentHourSlug(): string {
+    private getHourSlug(now: Date): string {
         let crypto = '';
         switch (this.symbol) {
             case CoinSymbol.BTC:
@@ -465,8 +674,6 @@ export class MarketMonitor extends EventEmitter {
             default:
                 throw new Error(`Invalid symbol: ${this.symbol}`);
         }
-        // Get current time in ET timezone
-        const now = new Date();
 
         // Convert to ET (UTC-5 or UTC-4 depending on DST)
         // Using toLocaleString with ET timezone
@@ -521,16 +728,30 @@ export class MarketMonitor extends EventEmitter {
             this.marketUpdateCronTask.stop();
             this.marketUpdateCronTask = undefined;
         }
+        if (this.nextMarketCronTask) {
+            this.nextMarketCronTask.stop();
+            this.nextMarketCronTask = undefined;
+        }
 
+        // The next market is subscribed one minute before each boundary
         let cronExpression: string;
+        let nextMarketCronExpression: string;
         if (this.marketInterval === MarketInterval.FIFTEEN_MINUTES) {
             cronExpression = '*/15 * * * *';
+            nextMarketCronExpression = '14,29,44,59 * * * *';
         } else if (this.marketInterval === MarketInterval.HOURLY) {
             cronExpression = '0 * * * *';
+            nextMarketCronExpression = '59 * * * *';
         } else {
             throw new Error(`Invalid market interval: ${this.marketInterval}`);
         }
 
+        this.nextMarketCronTask = cron.schedule(nextMarketCronExpression, () => {
+            this.nextMarketPreparing = this.prepareNextMarket().finally(() => {
+                this.nextMarketPreparing = null;
+            });
+        });
+
         this.marketUpdateCronTask = cron.schedule(cronExpression, () => {
             if (this.currentCoinPrice) {
                 this.startCoinPrice = this.currentCoinPrice;
@@ -539,10 +760,227 @@ export class MarketMonitor extends EventEmitter {
         });
     }
 
+    /**
+     * Fetch the market starting at the next boundary and subscribe to it alongside the current one,
+     * so its book is live when updateMarket switches to it
+     */
+    private async prepareNextMarket(): Promise<void> {
+        const slug = this.getSlugAt(this.getNextMarketStart());
+        if (this.nextMarketInfo?.slug === slug || this.curMarketInfo?.slug === slug) {
+            return;
+        }
+
+        const marketInfo = await this.getMarketInfoFromSlug(slug);
+        if (!marketInfo) {
+            logger.warn(`⚠️ Next market ${slug} is not available yet, it will be fetched at the rollover`);
+            return;
+        }
+        if (!this.shouldReconnect) {
+            return; // Stopped while fetching
+        }
+
+        this.dropNextMarket();
+        this.nextMarketInfo = marketInfo;
+        logger.info(`⏭️ Pre-subscribing to next market: ${slug}`);
+        this.updateSubscription(marketInfo, 'subscribe');
+    }
+
+    /**
+     * Forget a pre-subscribed market that did not become the current one
+     */
+    private dropNextMarket(): void {
+        const marketInfo = this.nextMarketInfo;
+        if (!marketInfo) {
+            return;
+        }
+        this.nextMarketInfo = null;
+        this.clearAssets(marketInfo);
+        this.updateSubscription(marketInfo, 'unsubscribe');
+    }
+
+    private clearAssets(marketInfo: MarketInfo): void {
+        for (const assetId of [marketInfo.yesAssetId, marketInfo.noAssetId]) {
+            this.orderBooks.delete(assetId);
+            this.orderBookResyncTimes.delete(assetId);
+            this.tickSizes.delete(assetId);
+        }
+    }
+
+    /**
+     * Roll over to the market of the current boundary: the pre-subscribed one if it was fetched in
+     * time, otherwise it is fetched and subscribed now (its first seconds may be missed)
+     */
     public async updateMarket(): Promise<void> {
-        await this.disconnect();
-        this.curMarketInfo = await this.getMarketInfoFromSlug(this.getCurrentSlug());
+        await this.nextMarketPreparing;
+
+        const slug = this.getCurrentSlug();
+        let marketInfo = this.nextMarketInfo?.slug === slug ? this.nextMarketInfo : null;
+        if (!marketInfo) {
+            this.dropNextMarket();
+            marketInfo = await this.getMarketInfoFromSlug(slug);
+        }
+
+        const previousMarketInfo = this.curMarketInfo;
+        this.switchMarket(marketInfo);
+        if (marketInfo && marketInfo !== this.nextMarketInfo) {
+            this.updateSubscription(marketInfo, 'subscribe');
+        }
+        this.nextMarketInfo = null;
+
+        if (previousMarketInfo) {
+            this.queueMarketRecordWrite(() => this.closeMarketRecord(previousMarketInfo));
+        }
+        if (marketInfo) {
+            const savedMarketInfo = marketInfo;
+            this.queueMarketRecordWrite(() => this.saveMarketRecord(savedMarketInfo));
+        }
         this.emit(MarketMonitorEvent.MARKET_UPDATED, this.curMarketInfo);
+
+        // The pre-subscribed book gives the prices at the boundary itself
+        if (this.yesPrice && this.noPrice) {
+            this.emit(MarketMonitorEvent.PRICE_CHANGE, {
+                yesPrice: this.yesPrice,
+                noPrice: this.noPrice,
+            });
+            this.recordFirstTick(this.getBookTimestamp(this.curMarketInfo));
+        }
+
+        await this.marketRecordWrites;
+    }
+
+    /**
+     * Make a market current in one synchronous step, so no message is handled between the switch of
+     * curMarketInfo, the previous market's books and the prices
+     */
+    private switchMarket(marketInfo: MarketInfo | null): void {
+        const previousMarketInfo = this.curMarketInfo;
+        this.curMarketInfo = marketInfo;
+        if (previousMarketInfo?.slug === marketInfo?.slug) {
+            return;
+        }
+        if (previousMarketInfo) {
+            this.clearAssets(previousMarketInfo);
+            this.updateSubscription(previousMarketInfo, 'unsubscribe');
+        }
+
+        this.yesPrice = marketInfo ? this.getBookPrice(marketInfo.yesAssetId) : null;
+        this.noPrice = marketInfo ? this.getBookPrice(marketInfo.noAssetId) : null;
+        this.firstTickSlug = marketInfo?.slug ?? null;
+    }
+
+    /**
+     * Best prices of an asset from its order book (null without a snapshot), rounded as in price_change messages
+     */
+    private getBookPrice(assetId: string): TokenPrice | null {
+        const orderBook = this.orderBooks.get(assetId);
+        if (!orderBook) {
+            return null;
+        }
+
+        const tickSize = this.getTickSize(assetId);
+        return {
+            bestAsk: roundToTick(orderBook.getBestAsk() ?? 0, tickSize) || 1,
+            bestBid: roundToTick(orderBook.getBestBid() ?? 0, tickSize),
+        };
+    }
+
+    /**
+     * Time (in ms) of the latest book message of a market's assets, or now without one
+     */
+    private getBookTimestamp(marketInfo: MarketInfo | null): number {
+        let timestamp = 0;
+        for (const assetId of marketInfo ? [marketInfo.yesAssetId, marketInfo.noAssetId] : []) {
+            const orderBook = this.orderBooks.get(assetId);
+            timestamp = Math.max(timestamp, orderBook ? parseInt(orderBook.getTimestamp(), 10) || 0 : 0);
+        }
+        return timestamp || Date.now();
+    }
+
+    /**
+     * Record the first prices of a market entered at its boundary (a market joined after its start,
+     * e.g. on start(), has no known first tick), at the time of the message that gave them
+     */
+    private recordFirstTick(timestamp: number): void {
+        const marketInfo = this.curMarketInfo;
+        if (!marketInfo || this.firstTickSlug !== marketInfo.slug || !this.yesPrice || !this.noPrice) {
+            return;
+        }
+        this.firstTickSlug = null;
+
+        const firstTick: MarketFirstTick = {
+            at: new Date(timestamp),
+            yesBestAsk: this.yesPrice.bestAsk,
+            yesBestBid: this.yesPrice.bestBid,
+            noBestAsk: this.noPrice.bestAsk,
+            noBestBid: this.noPrice.bestBid,
+        };
+        const delay = marketInfo.startTime ? ` (${firstTick.at.getTime() - marketInfo.startTime.getTime()} ms after start)` : '';
+        logger.info(`🎯 First tick of ${marketInfo.slug}: UP ${firstTick.yesBestBid}/${firstTick.yesBestAsk}, DOWN ${firstTick.noBestBid}/${firstTick.noBestAsk}${delay}`);
+
+        this.queueMarketRecordWrite(async () => {
+            try {
+                await Market.updateOne({ slug: marketInfo.slug, firstTick: null }, { $set: { firstTick } });
+            } catch (error) {
+                logger.error(`Error recording first tick for ${marketInfo.slug}:`, error);
+            }
+        });
+    }
+
+    /**
+     * Run a Market record write after the pending ones (the first tick must not land before the record is created)
+     */
+    private queueMarketRecordWrite(write: () => Promise<void>): void {
+        this.marketRecordWrites = this.marketRecordWrites.then(write);
+    }
+
+    /**
+     * Write the market metadata to the Market collection (a new market starts 'active')
+     */
+    private async saveMarketRecord(marketInfo: MarketInfo): Promise<void> {
+        try {
+            await Market.updateOne(
+                { slug: marketInfo.slug },
+                {
+                    $set: {
+                        conditionId: marketInfo.conditionId || null,
+                        question: marketInfo.question || null,
+                        yesAssetId: marketInfo.yesAssetId,
+                        noAssetId: marketInfo.noAssetId,
+                        token: this.symbol.split('/')[0].toUpperCase(),
+                        eventType: marketInfo.interval === MarketInterval.HOURLY ? 'hourly' : '15min',
+                        startTime: marketInfo.startTime,
+                        endTime: marketInfo.endTime,
+                        startCoinPrice: this.startCoinPrice?.price ?? null,
+                    },
+                    $setOnInsert: {
+                        status: 'active',
+                        outcome: null,
+                    },
+                },
+                { upsert: true }
+            );
+        } catch (error) {
+            logger.error(`Error saving market record for ${marketInfo.slug}:`, error);
+        }
+    }
+
+    /**
+     * Record the close coin price of a market that just ended and mark it unresolved until it settles
+     */
+    private async closeMarketRecord(marketInfo: MarketInfo): Promise<void> {
+        try {
+            await Market.updateOne(
+                { slug: marketInfo.slug, status: 'active' },
+                {
+                    $set: {
+                        status: 'unresolved',
+                        closeCoinPrice: this.currentCoinPrice?.price ?? null,
+                    },
+                }
+            );
+        } catch (error) {
+            logger.error(`Error closing market record for ${marketInfo.slug}:`, error);
+        }
     }
 
     public canStartTrading(): boolean {
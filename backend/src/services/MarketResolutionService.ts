@@ -0,0 +1,252 @@
+import axios from 'axios';
+import cron from 'node-cron';
+import Market, { IMarket } from '../models/Market';
+import { EventType, Outcome } from '../models/TokenPriceHistory';
+import { logger } from '../utils/logger';
+import { getBacktestJobService } from './BacktestJobService';
+import { settlePaperPositions } from './PaperExchange';
+import { getPnlLedger } from './PnlLedger';
+
+const CLOB_MARKETS_URL = 'https://clob.polymarket.com/markets';
+const GAMMA_MARKETS_URL = 'https://gamma-api.polymarket.com/markets';
+
+// Markets checked per resolution run (least recently checked first)
+const RESOLUTION_BATCH_SIZE = 50;
+// Markets still 'active' this long after their end time were not closed by a MarketMonitor (e.g. bot stopped)
+const STALE_ACTIVE_MARKET_MS = 5 * 60 * 1000;
+
+export interface MarketRegistration {
+    slug: string;
+    conditionId: string | null;
+    token: string;
+    eventType: EventType;
+}
+
+/**
+ * Map an outcome label ("Up"/"Down", or "Yes"/"No") or its token index to UP/DOWN.
+ * Token order follows the Polymarket convention used by MarketMonitor: index 0 = YES/UP.
+ */
+function toOutcome(label: string | undefined, index: number): Outcome {
+    const normalized = (label || '').trim().toLowerCase();
+    if (normalized === 'up' || normalized === 'yes') {
+        return 'UP';
+    }
+    if (normalized === 'down' || normalized === 'no') {
+        return 'DOWN';
+    }
+    return index === 0 ? 'UP' : 'DOWN';
+}
+
+/**
+ * Gamma returns list fields as JSON strings (e.g. outcomes: "[\"Up\", \"Down\"]")
+ */
+function parseJsonList(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.map(String);
+    }
+    if (typeof value !== 'string') {
+        return [];
+    }
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * MarketResolutionService - fills in the official resolved outcome of Market documents (from the
+ * CLOB market's winner token, or Gamma's settled outcome prices) once the market has closed and
+ * settled. Markets remain 'unresolved' until then. A resolved outcome settles the market's P&L
+ * ledger and paper-trading positions.
+ */
+export class MarketResolutionService {
+    private cronTask?: cron.ScheduledTask;
+    private resolving: boolean = false;
+
+    /**
+     * Record an ended market that no MarketMonitor wrote (e.g. slugs saved before the Market collection
+     * existed) as unresolved. No-op if it is already known, except for filling in a missing conditionId.
+     */
+    public async registerMarket(registration: MarketRegistration): Promise<void> {
+        try {
+            await Market.updateOne(
+                { slug: registration.slug },
+                {
+                    $setOnInsert: {
+                        slug: registration.slug,
+                        token: registration.token,
+                        eventType: registration.eventType,
+                        status: 'unresolved',
+                        outcome: null,
+                    },
+                },
+                { upsert: true }
+            );
+            if (registration.conditionId) {
+                await Market.updateOne(
+                    { slug: registration.slug, conditionId: null },
+                    { $set: { conditionId: registration.conditionId } }
+                );
+            }
+        } catch (error) {
+            logger.error(`Error registering market ${registration.slug}:`, error);
+        }
+    }
+
+    /**
+     * Check unresolved markets every minute
+     */
+    public start(): void {
+        if (this.cronTask) {
+            return;
+        }
+        this.cronTask = cron.schedule('* * * * *', () => {
+            this.resolvePendingMarkets().catch(error => {
+                logger.error('Error resolving markets:', error);
+            });
+        });
+        logger.info('✅ Market resolution service started');
+    }
+
+    public stop(): void {
+        this.cronTask?.stop();
+        this.cronTask = undefined;
+    }
+
+    /**
+     * Try to resolve the least recently checked unresolved markets. Returns the number resolved.
+     */
+    public async resolvePendingMarkets(limit: number = RESOLUTION_BATCH_SIZE): Promise<number> {
+        if (this.resolving) {
+            return 0;
+        }
+        this.resolving = true;
+
+        try {
+            const staleBefore = new Date(Date.now() - STALE_ACTIVE_MARKET_MS);
+            const markets = await Market.find({
+                $or: [
+                    { status: 'unresolved' },
+                    { status: 'active', endTime: { $lt: staleBefore } },
+                ],
+            })
+                .sort({ lastCheckedAt: 1, createdAt: 1 })
+                .limit(limit)
+                .exec();
+
+            let resolvedCount = 0;
+            for (const market of markets) {
+                if (await this.resolveMarket(market)) {
+                    resolvedCount++;
+                }
+            }
+            if (resolvedCount > 0) {
+                logger.info(`✅ Resolved ${resolvedCount}/${markets.length} markets`);
+            }
+            return resolvedCount;
+        } finally {
+            this.resolving = false;
+        }
+    }
+
+    /**
+     * Fetch the official outcome of one market and store it. Returns whether the market is resolved.
+     */
+    public async resolveMarket(market: IMarket): Promise<boolean> {
+        try {
+            if (!market.conditionId) {
+                await this.fillMetadata(market);
+            }
+
+            const outcome = market.conditionId ? await this.fetchResolvedOutcome(market.conditionId) : null;
+            market.lastCheckedAt = new Date();
+            if (market.status === 'active') {
+                market.status = 'unresolved';
+            }
+            if (outcome) {
+                market.status = 'resolved';
+                market.outcome = outcome;
+                market.resolvedAt = new Date();
+                logger.info(`🏁 Market resolved: ${market.slug} -> ${outcome}`);
+            }
+            await market.save();
+            if (outcome) {
+                // Backtests settled this market on its last tick
+                await getBacktestJobService().invalidateSlugs([market.slug]);
+                getPnlLedger().settleMarket(market.slug, outcome);
+                try {
+                    await settlePaperPositions(market.slug, outcome);
+                } catch (error) {
+                    logger.error(`❌ Error settling paper positions of ${market.slug}:`, error);
+                }
+            }
+            return outcome !== null;
+        } catch (error) {
+            if (axios.isAxiosError(error)) {
+                logger.error(`❌ Resolution request failed for ${market.slug}: ${error.response?.status} ${error.message}`);
+            } else {
+                logger.error(`❌ Error resolving market ${market.slug}:`, error);
+            }
+            return false;
+        }
+    }
+
+    /**
+     * Resolved outcome of a market, or null if it has not settled yet.
+     * The CLOB flags the winning token; Gamma's outcome prices are used if the CLOB does not report one.
+     */
+    private async fetchResolvedOutcome(conditionId: string): Promise<Outcome | null> {
+        const clobResponse = await axios.get(`${CLOB_MARKETS_URL}/${conditionId}`, { timeout: 10000 });
+        const tokens: Array<{ outcome?: string; winner?: boolean }> = clobResponse.data?.tokens ?? [];
+        const winnerIndex = tokens.findIndex(token => token.winner === true);
+        if (clobResponse.data?.closed && winnerIndex >= 0) {
+            return toOutcome(tokens[winnerIndex].outcome, winnerIndex);
+        }
+
+        const gammaResponse = await axios.get(GAMMA_MARKETS_URL, {
+            params: { condition_ids: conditionId },
+            timeout: 10000,
+        });
+        const gammaMarket = gammaResponse.data?.[0];
+        if (!gammaMarket || !gammaMarket.closed || gammaMarket.umaResolutionStatus !== 'resolved') {
+            return null;
+        }
+        const outcomes = parseJsonList(gammaMarket.outcomes);
+        const outcomePrices = parseJsonList(gammaMarket.outcomePrices).map(parseFloat);
+        const settledIndex = outcomePrices.findIndex(price => price === 1);
+        return settledIndex >= 0 ? toOutcome(outcomes[settledIndex], settledIndex) : null;
+    }
+
+    /**
+     * Fill in the condition ID and metadata of a market registered without them, from Gamma by slug
+     */
+    private async fillMetadata(market: IMarket): Promise<void> {
+        const response = await axios.get(GAMMA_MARKETS_URL, {
+            params: { slug: market.slug },
+            timeout: 10000,
+        });
+        const gammaMarket = response.data?.[0];
+        if (!gammaMarket) {
+            return;
+        }
+
+        const tokenIds = parseJsonList(gammaMarket.clobTokenIds);
+        market.conditionId = gammaMarket.conditionId || null;
+        market.question = market.question ?? (gammaMarket.question || null);
+        market.yesAssetId = market.yesAssetId ?? (tokenIds[0] || null);
+        market.noAssetId = market.noAssetId ?? (tokenIds[1] || null);
+        market.startTime = market.startTime ?? (gammaMarket.eventStartTime ? new Date(gammaMarket.eventStartTime) : null);
+        market.endTime = market.endTime ?? (gammaMarket.endDate ? new Date(gammaMarket.endDate) : null);
+    }
+}
+
+let marketResolutionServiceInstance: MarketResolutionService | null = null;
+
+export const getMarketResolutionService = (): MarketResolutionService => {
+    if (!marketResolutionServiceInstance) {
+        marketResolutionServiceInstance = new MarketResolutionService();
+    }
+    return marketResolutionServiceInstance;
+};
@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import { BookSide, OrderBookLevel, OrderBookView } from '../strategies';
+
+export interface OrderSummary {
+    price: string;
+    size: string;
+}
+
+/**
+ * L2 order book of one asset, built from market channel `book` snapshots and
+ * updated incrementally from `price_change` entries.
+ *
+ * Levels keep the price/size strings as received so the book hash can be recomputed
+ * the same way as the CLOB (SHA-1 of the book summary JSON with an empty hash).
+ */
+export class OrderBook implements OrderBookView {
+    private bids: Map<number, OrderSummary> = new Map();
+    private asks: Map<number, OrderSummary> = new Map();
+    private market: string = '';
+    private timestamp: string = '';
+    private hash: string = '';
+    // Level order as sent in snapshots (the hash depends on it)
+    private bidsAscending: boolean = true;
+    private asksAscending: boolean = false;
+    // Whether the snapshot hash could be reproduced, i.e. whether updates can be verified
+    private hashVerifiable: boolean = false;
+
+    constructor(public readonly assetId: string) {}
+
+    /**
+     * Replace the book with a snapshot. Returns whether the snapshot hash matched its levels.
+     */
+    public applySnapshot(snapshot: { market: string; timestamp: string; hash: string; bids: OrderSummary[]; asks: OrderSummary[] }): boolean {
+        this.market = snapshot.market;
+        this.timestamp = snapshot.timestamp;
+        this.bidsAscending = this.isAscending(snapshot.bids, this.bidsAscending);
+        this.asksAscending = this.isAscending(snapshot.asks, this.asksAscending);
+        this.bids = this.toLevels(snapshot.bids);
+        this.asks = this.toLevels(snapshot.asks);
+        this.hash = snapshot.hash;
+
+        this.hashVerifiable = this.computeHash(snapshot.bids, snapshot.asks) === snapshot.hash;
+        return this.hashVerifiable;
+    }
+
+    /**
+     * Apply one price level change (size is the new total size at that price, 0 removes the level).
+     * Returns false if the book no longer matches the expected hash.
+     */
+    public applyPriceChange(side: BookSide, price: string, size: string, timestamp: string, expectedHash?: string): boolean {
+        const levels = side === 'bid' ? this.bids : this.asks;
+        const key = parseFloat(price);
+        if (parseFloat(size) === 0) {
+            levels.delete(key);
+        } else {
+            levels.set(key, { price, size });
+        }
+        this.timestamp = timestamp;
+
+        if (!expectedHash) {
+            return true;
+        }
+        this.hash = expectedHash;
+        if (!this.hashVerifiable) {
+            return true;
+        }
+        return this.computeHash(this.getSortedLevels('bid'), this.getSortedLevels('ask')) === expectedHash;
+    }
+
+    public isHashVerifiable(): boolean {
+        return this.hashVerifiable;
+    }
+
+    public getHash(): string {
+        return this.hash;
+    }
+
+    public getTimestamp(): string {
+        return this.timestamp;
+    }
+
+    public getBestBid(): number | null {
+        return this.bids.size > 0 ? Math.max(...this.bids.keys()) : null;
+    }
+
+    public getBestAsk(): number | null {
+        return this.asks.size > 0 ? Math.min(...this.asks.keys()) : null;
+    }
+
+    public getSpread(): number | null {
+        const bestBid = this.getBestBid();
+        const bestAsk = this.getBestAsk();
+        if (bestBid === null || bestAsk === null) {
+            return null;
+        }
+        return Math.round((bestAsk - bestBid) * 10000) / 10000;
+    }
+
+    public getMid(): number | null {
+        const bestBid = this.getBestBid();
+        const bestAsk = this.getBestAsk();
+        if (bestBid === null || bestAsk === null) {
+            return null;
+        }
+        return Math.round(((bestBid + bestAsk) / 2) * 10000) / 10000;
+    }
+
+    public getDepth(side: BookSide, maxLevels?: number): OrderBookLevel[] {
+        const levels = side === 'bid' ? this.bids : this.asks;
+        const prices = Array.from(levels.keys()).sort((a, b) => side === 'bid' ? b - a : a - b);
+        return prices
+            .slice(0, maxLevels ?? prices.length)
+            .map(price => ({ price, size: parseFloat(levels.get(price)!.size) }));
+    }
+
+    public getSizeAtPrice(side: BookSide, price: number): number {
+        const levels = side === 'bid' ? this.bids : this.asks;
+        const level = levels.get(Math.round(price * 10000) / 10000);
+        return level ? parseFloat(level.size) : 0;
+    }
+
+    public getSizeUpToPrice(side: BookSide, limitPrice: number): number {
+        return this.getDepth(side)
+            .filter(level => side === 'bid' ? level.price >= limitPrice : level.price <= limitPrice)
+            .reduce((total, level) => total + level.size, 0);
+    }
+
+    private toLevels(summaries: OrderSummary[]): Map<number, OrderSummary> {
+        const levels: Map<number, OrderSummary> = new Map();
+        for (const summary of summaries) {
+            if (parseFloat(summary.size) > 0) {
+                levels.set(parseFloat(summary.price), summary);
+            }
+        }
+        return levels;
+    }
+
+    private isAscending(summaries: OrderSummary[], fallback: boolean): boolean {
+        if (summaries.length < 2) {
+            return fallback;
+        }
+        return parseFloat(summaries[0].price) < parseFloat(summaries[summaries.length - 1].price);
+    }
+
+    private getSortedLevels(side: BookSide): OrderSummary[] {
+        const levels = side === 'bid' ? this.bids : this.asks;
+        const ascending = side === 'bid' ? this.bidsAscending : this.asksAscending;
+        return Array.from(levels.entries())
+            .sort(([a], [b]) => ascending ? a - b : b - a)
+            .map(([, summary]) => summary);
+    }
+
+    private computeHash(bids: OrderSummary[], asks: OrderSummary[]): string {
+        const summary = {
+            market: this.market,
+            asset_id: this.assetId,
+            timestamp: this.timestamp,
+            hash: '',
+            bids: bids.map(({ price, size }) => ({ price, size })),
+            asks: asks.map(({ price, size }) => ({ price, size })),
+        };
+        return createHash('sha1').update(JSON.stringify(summary)).digest('hex');
+    }
+}
@@ -0,0 +1,472 @@
+import { EventEmitter } from 'events';
+import { ClobClient, OpenOrder, Side, Trade } from '@polymarket/clob-client';
+import { logger } from '../utils/logger';
+import { OrderMessage, OrderType, Outcome, TradeMessage, TradeStatus, UserMonitorEvents } from './UserMonitor';
+
+/**
+ * OrderManager event names
+ */
+export enum OrderManagerEvent {
+    ORDER_PLACED = 'orderPlaced',
+    ORDER_UPDATED = 'orderUpdated',
+    ORDER_FILLED = 'orderFilled',
+    ORDER_CANCELLED = 'orderCancelled',
+    TRADE_UPDATED = 'tradeUpdated',
+    TRADE_CONFIRMED = 'tradeConfirmed',
+    TRADE_FAILED = 'tradeFailed',
+}
+
+export enum OrderStatus {
+    PENDING = 'PENDING', // Posted, no PLACEMENT message seen yet
+    LIVE = 'LIVE',
+    PARTIALLY_FILLED = 'PARTIALLY_FILLED',
+    FILLED = 'FILLED',
+    CANCELLED = 'CANCELLED',
+}
+
+export interface OrderInfo {
+    orderId: string;
+    assetId: string;
+    side: Side;
+    outcome: Outcome;
+    price: number;
+    size: number;
+    amount: number;
+    sizeMatched: number;
+    isMarketOrder: boolean;
+    status: OrderStatus;
+    tradeIds: string[];
+}
+
+export interface TradeInfo {
+    tradeId: string;
+    assetId: string;
+    side: Side;
+    price: number;
+    status: TradeStatus;
+    // Size matched per tracked order ID in this trade
+    orderSizes: { [orderId: string]: number };
+    // Fill price per tracked order ID (makers fill at their own price, the taker at the trade price)
+    orderPrices: { [orderId: string]: number };
+    matchTime: string;
+}
+
+export interface TradeEvent {
+    trade: TradeInfo;
+    orders: OrderInfo[];
+}
+
+/**
+ * Typed payloads for each OrderManager event
+ */
+export interface OrderManagerEventMap {
+    [OrderManagerEvent.ORDER_PLACED]: OrderInfo;
+    [OrderManagerEvent.ORDER_UPDATED]: OrderInfo;
+    [OrderManagerEvent.ORDER_FILLED]: OrderInfo;
+    [OrderManagerEvent.ORDER_CANCELLED]: OrderInfo;
+    [OrderManagerEvent.TRADE_UPDATED]: TradeEvent;
+    [OrderManagerEvent.TRADE_CONFIRMED]: TradeEvent;
+    [OrderManagerEvent.TRADE_FAILED]: TradeEvent;
+}
+
+export declare interface OrderManager {
+    on<E extends keyof OrderManagerEventMap>(event: E, listener: (payload: OrderManagerEventMap[E]) => void): this;
+    emit<E extends keyof OrderManagerEventMap>(event: E, payload: OrderManagerEventMap[E]): boolean;
+}
+
+const SIZE_EPSILON = 1e-9;
+
+// Messages for untracked order IDs (mostly other bots' orders on the same account) are kept this long,
+// and at most this many of each kind, waiting for a late placement response
+const UNMATCHED_MESSAGE_TTL_MS = 60 * 1000;
+const MAX_UNMATCHED_MESSAGES = 500;
+
+// Delay before reconciling again when an order could not be looked up
+const RECONCILE_RETRY_MS = 10 * 1000;
+
+interface UnmatchedMessage<T> {
+    message: T;
+    receivedAt: number;
+}
+
+/**
+ * Buffer a message, dropping expired ones and the oldest beyond the size limit
+ */
+function bufferUnmatched<T>(buffer: Map<string, UnmatchedMessage<T>>, id: string, message: T): void {
+    const now = Date.now();
+    buffer.delete(id);
+    buffer.set(id, { message, receivedAt: now });
+    for (const [bufferedId, buffered] of buffer) {
+        if (buffer.size <= MAX_UNMATCHED_MESSAGES && now - buffered.receivedAt <= UNMATCHED_MESSAGE_TTL_MS) {
+            break;
+        }
+        buffer.delete(bufferedId);
+    }
+}
+
+export const isTerminal = (status: OrderStatus): boolean =>
+    status === OrderStatus.FILLED || status === OrderStatus.CANCELLED;
+
+/**
+ * OrderManager - Order lifecycle state machine driven by User Channel messages
+ *
+ * Tracks each order ID through PLACEMENT → UPDATE → CANCELLATION using OrderMessage.size_matched,
+ * and each trade through MATCHED → MINED → CONFIRMED (or FAILED); a failed trade no longer counts
+ * towards the matched size of open orders. After a User Channel reconnect, tracked orders are
+ * reconciled against the CLOB REST open-orders list.
+ * The message source is a UserMonitor, or a PaperExchange emitting the same events in paper-trading mode.
+ */
+export class OrderManager extends EventEmitter {
+    private orders: Map<string, OrderInfo> = new Map();
+    private trades: Map<string, TradeInfo> = new Map();
+    // Messages for order IDs we do not (yet) track: the placement response may arrive after the first message
+    private unmatchedOrderMessages: Map<string, UnmatchedMessage<OrderMessage>> = new Map();
+    private unmatchedTradeMessages: Map<string, UnmatchedMessage<TradeMessage>> = new Map();
+    // Matched size per order ID reported by ORDER messages and the REST API (trades are summed apart)
+    private reportedSizesMatched: Map<string, number> = new Map();
+    private reconcileRetry: NodeJS.Timeout | null = null;
+
+    constructor(
+        private messageSource: EventEmitter,
+        private getClobClient: () => ClobClient | null
+    ) {
+        super();
+
+        this.messageSource.on(UserMonitorEvents.ORDER_MESSAGE, (order: OrderMessage) => {
+            this.handleOrderMessage(order);
+        });
+        this.messageSource.on(UserMonitorEvents.TRADE_MESSAGE, (trade: TradeMessage) => {
+            this.handleTradeMessage(trade);
+        });
+        this.messageSource.on(UserMonitorEvents.RECONNECTED, () => {
+            this.reconcile().catch((error) => {
+                logger.error('Error reconciling orders after reconnect:', error);
+            });
+        });
+    }
+
+    /**
+     * Start tracking an order after it has been posted to the CLOB
+     */
+    public trackOrder(order: Omit<OrderInfo, 'sizeMatched' | 'status' | 'tradeIds'>): OrderInfo {
+        const orderInfo: OrderInfo = {
+            ...order,
+            sizeMatched: 0,
+            status: OrderStatus.PENDING,
+            tradeIds: [],
+        };
+        this.orders.set(orderInfo.orderId, orderInfo);
+        this.emit(OrderManagerEvent.ORDER_PLACED, orderInfo);
+
+        // Apply any messages that arrived before the placement response
+        const earlyOrderMessage = this.unmatchedOrderMessages.get(orderInfo.orderId);
+        if (earlyOrderMessage) {
+            this.unmatchedOrderMessages.delete(orderInfo.orderId);
+            this.handleOrderMessage(earlyOrderMessage.message);
+        }
+        for (const [tradeId, { message }] of this.unmatchedTradeMessages) {
+            if (this.getTrackedOrderIds(message).length > 0) {
+                this.unmatchedTradeMessages.delete(tradeId);
+                this.handleTradeMessage(message);
+            }
+        }
+
+        return orderInfo;
+    }
+
+    /**
+     * Track an order placed before a restart with its last known state (no ORDER_PLACED event).
+     * Call reconcile() and applyTrades() afterwards to catch up with what happened meanwhile.
+     */
+    public restoreOrder(order: Omit<OrderInfo, 'tradeIds'>): OrderInfo {
+        const orderInfo: OrderInfo = { ...order, tradeIds: [] };
+        this.orders.set(orderInfo.orderId, orderInfo);
+        this.reportedSizesMatched.set(orderInfo.orderId, orderInfo.sizeMatched);
+        return orderInfo;
+    }
+
+    /**
+     * Apply trades fetched from the CLOB REST API (e.g. made while the process was down).
+     * Trades already seen only emit events again if their status changed.
+     */
+    public applyTrades(trades: Trade[]): void {
+        for (const trade of trades) {
+            const message: TradeMessage = {
+                asset_id: trade.asset_id,
+                event_type: 'trade',
+                id: trade.id,
+                last_update: trade.last_update,
+                maker_orders: trade.maker_orders.map(makerOrder => ({
+                    asset_id: makerOrder.asset_id,
+                    matched_amount: makerOrder.matched_amount,
+                    order_id: makerOrder.order_id,
+                    outcome: makerOrder.outcome,
+                    owner: makerOrder.owner,
+                    price: makerOrder.price,
+                })),
+                market: trade.market,
+                matchtime: trade.match_time,
+                outcome: trade.outcome,
+                owner: trade.owner,
+                price: trade.price,
+                side: trade.side,
+                size: trade.size,
+                status: trade.status as TradeStatus,
+                taker_order_id: trade.taker_order_id,
+                timestamp: trade.last_update,
+                trade_owner: trade.owner,
+                type: 'TRADE',
+            };
+            if (this.getTrackedOrderIds(message).length > 0) {
+                this.handleTradeMessage(message);
+            }
+        }
+    }
+
+    /**
+     * Cancel a tracked order locally, when the exchange has lost it (paper orders after a restart)
+     */
+    public expireOrder(orderId: string): void {
+        const order = this.orders.get(orderId);
+        if (order) {
+            this.transition(order, OrderStatus.CANCELLED);
+        }
+    }
+
+    public getOrder(orderId: string): OrderInfo | undefined {
+        return this.orders.get(orderId);
+    }
+
+    /**
+     * Every tracked order, including completed ones (until pruneCompleted)
+     */
+    public getOrders(): OrderInfo[] {
+        return Array.from(this.orders.values());
+    }
+
+    public getOpenOrders(): OrderInfo[] {
+        return Array.from(this.orders.values()).filter(order => !isTerminal(order.status));
+    }
+
+    public getTrade(tradeId: string): TradeInfo | undefined {
+        return this.trades.get(tradeId);
+    }
+
+    /**
+     * Drop completed orders, their trades and any buffered messages (e.g. on market rollover)
+     */
+    public pruneCompleted(): void {
+        for (const [orderId, order] of this.orders) {
+            if (isTerminal(order.status)) {
+                this.orders.delete(orderId);
+                this.reportedSizesMatched.delete(orderId);
+            }
+        }
+        for (const [tradeId, trade] of this.trades) {
+            const hasOpenOrder = Object.keys(trade.orderSizes).some(orderId => this.orders.has(orderId));
+            if (!hasOpenOrder) {
+                this.trades.delete(tradeId);
+            }
+        }
+        this.unmatchedOrderMessages.clear();
+        this.unmatchedTradeMessages.clear();
+    }
+
+    private handleOrderMessage(message: OrderMessage): void {
+        const order = this.orders.get(message.id);
+        if (!order) {
+            // May belong to another bot, or arrive before our placement call returned
+            bufferUnmatched(this.unmatchedOrderMessages, message.id, message);
+            return;
+        }
+
+        if (isTerminal(order.status)) {
+            return;
+        }
+
+        const sizeMatched = parseFloat(message.size_matched);
+        if (!isNaN(sizeMatched)) {
+            this.reportSizeMatched(order, sizeMatched);
+        }
+
+        if (message.type === OrderType.CANCELLATION) {
+            this.transition(order, OrderStatus.CANCELLED);
+            return;
+        }
+
+        this.transition(order, this.getStatusFromSizeMatched(order));
+    }
+
+    private handleTradeMessage(message: TradeMessage): void {
+        const trackedOrderIds = this.getTrackedOrderIds(message);
+        if (trackedOrderIds.length === 0) {
+            bufferUnmatched(this.unmatchedTradeMessages, message.id, message);
+            return;
+        }
+
+        let trade = this.trades.get(message.id);
+        const previousStatus: TradeStatus | null = trade ? trade.status : null;
+        if (!trade) {
+            trade = {
+                tradeId: message.id,
+                assetId: message.asset_id,
+                side: message.side,
+                price: parseFloat(message.price),
+                status: message.status,
+                orderSizes: {},
+                orderPrices: {},
+                matchTime: message.matchtime,
+            };
+            this.trades.set(message.id, trade);
+        }
+
+        trade.status = message.status;
+
+        for (const orderId of trackedOrderIds) {
+            const makerOrder = message.maker_orders.find(makerOrder => makerOrder.order_id === orderId);
+            trade.orderSizes[orderId] = parseFloat(makerOrder ? makerOrder.matched_amount : message.size) || 0;
+            trade.orderPrices[orderId] = parseFloat(makerOrder ? makerOrder.price : message.price) || trade.price;
+
+            const order = this.orders.get(orderId)!;
+            if (!order.tradeIds.includes(trade.tradeId)) {
+                order.tradeIds.push(trade.tradeId);
+            }
+        }
+
+        const orders = trackedOrderIds.map(orderId => this.orders.get(orderId)!);
+        const tradeEvent: TradeEvent = { trade, orders };
+
+        // Matched size from trades covers taker fills, which may not produce ORDER updates
+        for (const order of orders) {
+            this.applyTradeMatchedSize(order);
+        }
+
+        this.emit(OrderManagerEvent.TRADE_UPDATED, tradeEvent);
+        if (trade.status === TradeStatus.CONFIRMED && previousStatus !== TradeStatus.CONFIRMED) {
+            this.emit(OrderManagerEvent.TRADE_CONFIRMED, tradeEvent);
+        } else if (trade.status === TradeStatus.FAILED && previousStatus !== TradeStatus.FAILED) {
+            logger.warn(`Trade ${trade.tradeId} failed for order(s): ${trackedOrderIds.join(', ')}`);
+            this.emit(OrderManagerEvent.TRADE_FAILED, tradeEvent);
+        }
+    }
+
+    /**
+     * Matched size of an open order: the larger of the reported size and the sum of its trades that
+     * have not failed. It goes down when a matched trade fails; terminal orders keep theirs.
+     */
+    private applyTradeMatchedSize(order: OrderInfo): void {
+        if (isTerminal(order.status)) {
+            return;
+        }
+
+        const tradeMatched = order.tradeIds.reduce((sum, tradeId) => {
+            const trade = this.trades.get(tradeId);
+            if (!trade || trade.status === TradeStatus.FAILED) {
+                return sum;
+            }
+            return sum + (trade.orderSizes[order.orderId] || 0);
+        }, 0);
+
+        const sizeMatched = Math.min(Math.max(tradeMatched, this.reportedSizesMatched.get(order.orderId) ?? 0), order.size);
+        if (Math.abs(sizeMatched - order.sizeMatched) > SIZE_EPSILON) {
+            if (sizeMatched < order.sizeMatched) {
+                logger.warn(`Order ${order.orderId} matched size reverted from ${order.sizeMatched} to ${sizeMatched} after a failed trade`);
+            }
+            order.sizeMatched = sizeMatched;
+            this.transition(order, this.getStatusFromSizeMatched(order));
+        }
+    }
+
+    /**
+     * Matched size reported by the exchange (ORDER messages, REST lookups); it only grows
+     */
+    private reportSizeMatched(order: OrderInfo, sizeMatched: number): void {
+        const reported = Math.max(this.reportedSizesMatched.get(order.orderId) ?? 0, sizeMatched);
+        this.reportedSizesMatched.set(order.orderId, reported);
+        order.sizeMatched = Math.max(order.sizeMatched, reported);
+    }
+
+    /**
+     * Reconcile tracked orders with the CLOB after a reconnect, since messages may have been missed
+     */
+    public async reconcile(): Promise<void> {
+        const clobClient = this.getClobClient();
+        const openTrackedOrders = this.getOpenOrders();
+        if (!clobClient || openTrackedOrders.length === 0) {
+            return;
+        }
+
+        logger.info(`🔄 Reconciling ${openTrackedOrders.length} tracked order(s) with CLOB open orders...`);
+
+        const openOrders: OpenOrder[] = await clobClient.getOpenOrders();
+        const openOrdersById = new Map(openOrders.map(openOrder => [openOrder.id, openOrder]));
+
+        let lookupFailed = false;
+        for (const order of openTrackedOrders) {
+            const openOrder = openOrdersById.get(order.orderId);
+            if (openOrder) {
+                this.reportSizeMatched(order, parseFloat(openOrder.size_matched) || 0);
+                this.transition(order, this.getStatusFromSizeMatched(order));
+                continue;
+            }
+
+            // No longer open: either fully matched or cancelled while we were disconnected
+            try {
+                const closedOrder = await clobClient.getOrder(order.orderId);
+                this.reportSizeMatched(order, parseFloat(closedOrder?.size_matched) || 0);
+            } catch (error) {
+                // Unknown state (it may still be resting): keep the order open and look again later
+                logger.error(`Error fetching order ${order.orderId} during reconcile, retrying in ${RECONCILE_RETRY_MS / 1000}s:`, error);
+                lookupFailed = true;
+                continue;
+            }
+
+            const isFullyMatched = order.sizeMatched >= order.size - SIZE_EPSILON;
+            this.transition(order, isFullyMatched ? OrderStatus.FILLED : OrderStatus.CANCELLED);
+        }
+
+        if (lookupFailed && !this.reconcileRetry) {
+            this.reconcileRetry = setTimeout(() => {
+                this.reconcileRetry = null;
+                this.reconcile().catch((error) => {
+                    logger.error('Error reconciling orders:', error);
+                });
+            }, RECONCILE_RETRY_MS);
+            this.reconcileRetry.unref();
+        }
+    }
+
+    private getStatusFromSizeMatched(order: OrderInfo): OrderStatus {
+        if (order.sizeMatched >= order.size - SIZE_EPSILON) {
+            return OrderStatus.FILLED;
+        }
+        if (order.sizeMatched > 0) {
+            return OrderStatus.PARTIALLY_FILLED;
+        }
+        return OrderStatus.LIVE;
+    }
+
+    private transition(order: OrderInfo, status: OrderStatus): void {
+        if (isTerminal(order.status)) {
+            return;
+        }
+
+        const previousStatus = order.status;
+        order.status = status;
+        this.emit(OrderManagerEvent.ORDER_UPDATED, order);
+
+        if (status === previousStatus) {
+            return;
+        }
+        if (status === OrderStatus.FILLED) {
+            this.emit(OrderManagerEvent.ORDER_FILLED, order);
+        } else if (status === OrderStatus.CANCELLED) {
+            this.emit(OrderManagerEvent.ORDER_CANCELLED, order);
+        }
+    }
+
+    private getTrackedOrderIds(trade: TradeMessage): string[] {
+        const orderIds = [trade.taker_order_id, ...trade.maker_orders.map(makerOrder => makerOrder.order_id)];
+        return orderIds.filter((orderId, index) => this.orders.has(orderId) && orderIds.indexOf(orderId) === index);
+    }
+}
@@ -0,0 +1,403 @@
+import { EventEmitter } from 'events';
+import { Side } from '@polymarket/clob-client';
+import { logger } from '../utils/logger';
+import Market from '../models/Market';
+import PaperPosition from '../models/PaperPosition';
+import { Outcome as MarketOutcome } from '../models/TokenPriceHistory';
+import { CoinSymbol } from './CoinMonitor';
+import { MarketInfo, MarketInterval, MarketMonitor, MarketMonitorEvent, TokenPrice } from './MarketMonitor';
+import { OrderMessage, OrderType, Outcome, TradeMessage, TradeStatus, UserMonitorEvents } from './UserMonitor';
+
+interface PaperOrder {
+    id: string;
+    slug: string;
+    market: string; // conditionId
+    assetId: string;
+    outcome: Outcome;
+    side: Side;
+    price: number;
+    size: number;
+    sizeMatched: number;
+}
+
+interface PaperPositionState {
+    upSize: number;
+    upCost: number;
+    downSize: number;
+    downCost: number;
+    totalCost: number;
+    totalReceived: number;
+    realizedPnl: number;
+    fillCount: number;
+}
+
+/**
+ * Snapshot of a position to write to the PaperPosition collection
+ */
+interface PaperPositionWrite {
+    slug: string;
+    position: PaperPositionState;
+    settleIfResolved: boolean; // Final snapshot of an ended market: settle it if its outcome is known
+}
+
+const PAPER_OWNER = 'paper-trading';
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Settle the unsettled paper positions of a market with its official outcome (every bot's, or one bot's)
+ */
+export async function settlePaperPositions(slug: string, outcome: MarketOutcome, botId?: string): Promise<number> {
+    const positions = await PaperPosition.find({ slug, settled: false, ...(botId ? { botId } : {}) });
+    for (const position of positions) {
+        const finalValue = outcome === 'UP' ? position.upSize : position.downSize;
+        const totalProfit = position.totalReceived + finalValue - position.totalCost;
+        position.set({
+            settled: true,
+            outcome,
+            finalValue: roundCents(finalValue),
+            totalProfit: roundCents(totalProfit),
+            settledAt: new Date(),
+        });
+        await position.save();
+        logger.info(`🏁 [PAPER] Settled ${slug} for ${position.botId}: outcome ${outcome}, cost ${position.totalCost.toFixed(2)}, profit ${totalProfit.toFixed(2)}`);
+    }
+    return positions.length;
+}
+
+/**
+ * PaperExchange - Simulated matching engine for paper trading
+ *
+ * Tracks the best bid/ask of the current market from MarketMonitor and fills resting limit orders
+ * when the book crosses them. Emits synthetic ORDER/TRADE messages with the same UserMonitorEvents
+ * as the User Channel, so OrderManager and strategies cannot tell the difference.
+ * Positions and P&L are persisted per bot and slug in the PaperPosition collection; writes are
+ * applied one at a time from a queue, so a position's snapshots are saved in order. Ended markets
+ * are settled with their official outcome, once the MarketResolutionService has it.
+ */
+export class PaperExchange extends EventEmitter {
+    private orders: Map<string, PaperOrder> = new Map();
+    private prices: Map<string, TokenPrice> = new Map(); // assetId -> best bid/ask
+    private positions: Map<string, PaperPositionState> = new Map(); // slug -> position
+    private currentMarket: MarketInfo | null = null;
+    private idCounter: number = 0;
+    private writeQueue: PaperPositionWrite[] = [];
+    private writing: boolean = false;
+
+    constructor(
+        private botId: string,
+        private marketMonitor: MarketMonitor,
+        private coinSymbol: CoinSymbol,
+        private marketInterval: MarketInterval
+    ) {
+        super();
+
+        this.marketMonitor.on(MarketMonitorEvent.PRICE_CHANGE, (priceChange: { yesPrice: TokenPrice | null, noPrice: TokenPrice | null }) => {
+            this.handlePriceChange(priceChange);
+        });
+        this.marketMonitor.on(MarketMonitorEvent.MARKET_UPDATED, (marketInfo: MarketInfo | null) => {
+            this.handleMarketUpdated(marketInfo);
+        });
+    }
+
+    public async placeLimitOrder(assetId: string, side: Side, price: number, size: number): Promise<string> {
+        const order = this.createOrder(assetId, side, price, size);
+        logger.info(`📝 [PAPER] Limit ${side} ${order.outcome} @ ${price} x ${size} (${order.slug})`);
+
+        this.emitOrderMessage(order, OrderType.PLACEMENT);
+        this.matchOrder(order, true);
+        return order.id;
+    }
+
+    /**
+     * Market order: BUY amount is in dollars, SELL amount is in shares (same as the CLOB).
+     * Fills immediately at the best price, or is killed if there is no price on that side.
+     */
+    public async placeMarketOrder(assetId: string, side: Side, amount: number): Promise<string> {
+        const bookPrice = this.prices.get(assetId);
+        const price = side === Side.BUY ? bookPrice?.bestAsk : bookPrice?.bestBid;
+        if (!price || price <= 0) {
+            throw new Error(`[PAPER] No ${side === Side.BUY ? 'ask' : 'bid'} available for market order`);
+        }
+
+        const size = side === Side.BUY ? amount / price : amount;
+        const order = this.createOrder(assetId, side, price, size);
+        logger.info(`📝 [PAPER] Market ${side} ${order.outcome} @ ${price} x ${size} (${order.slug})`);
+
+        this.emitOrderMessage(order, OrderType.PLACEMENT);
+        this.fillOrder(order, price, false);
+        return order.id;
+    }
+
+    /**
+     * Cancel a resting order; orders that are no longer resting (filled, cancelled or unknown) are left as they are
+     */
+    public async cancelOrder(orderId: string): Promise<void> {
+        const order = this.orders.get(orderId);
+        if (!order) {
+            logger.debug(`[PAPER] Order ${orderId} is not resting, nothing to cancel`);
+            return;
+        }
+
+        this.orders.delete(orderId);
+        this.emitOrderMessage(order, OrderType.CANCELLATION);
+        logger.info(`🚫 [PAPER] Cancelled order ${orderId}`);
+    }
+
+    /**
+     * Cancel every resting order (same as ClobClient.cancelAll), returning the cancelled order IDs
+     */
+    public async cancelAll(): Promise<string[]> {
+        const orderIds = Array.from(this.orders.keys());
+        for (const orderId of orderIds) {
+            await this.cancelOrder(orderId);
+        }
+        return orderIds;
+    }
+
+    private createOrder(assetId: string, side: Side, price: number, size: number): PaperOrder {
+        const market = this.currentMarket ?? this.marketMonitor.curMarketInfo;
+        if (!market || (assetId !== market.yesAssetId && assetId !== market.noAssetId)) {
+            throw new Error(`[PAPER] Asset ${assetId} is not part of the current market`);
+        }
+        this.currentMarket = market;
+
+        const order: PaperOrder = {
+            id: `paper-${Date.now()}-${++this.idCounter}`,
+            slug: market.slug,
+            market: market.conditionId,
+            assetId,
+            outcome: assetId === market.yesAssetId ? Outcome.UP : Outcome.DOWN,
+            side,
+            price,
+            size,
+            sizeMatched: 0,
+        };
+        this.orders.set(order.id, order);
+        return order;
+    }
+
+    private handlePriceChange(priceChange: { yesPrice: TokenPrice | null, noPrice: TokenPrice | null }): void {
+        const market = this.marketMonitor.curMarketInfo;
+        if (!market) {
+            return;
+        }
+        this.currentMarket = market;
+
+        if (priceChange.yesPrice) {
+            this.prices.set(market.yesAssetId, priceChange.yesPrice);
+        }
+        if (priceChange.noPrice) {
+            this.prices.set(market.noAssetId, priceChange.noPrice);
+        }
+
+        for (const order of Array.from(this.orders.values())) {
+            this.matchOrder(order, false);
+        }
+    }
+
+    /**
+     * Fill a resting limit order when the tracked top of book crosses it.
+     * A BUY fills when best ask <= limit, a SELL when best bid >= limit.
+     * Marketable orders fill as taker at the book price, resting orders as maker at their limit.
+     */
+    private matchOrder(order: PaperOrder, isPlacement: boolean): void {
+        const bookPrice = this.prices.get(order.assetId);
+        if (!bookPrice) {
+            return;
+        }
+
+        const crosses = order.side === Side.BUY
+            ? bookPrice.bestAsk > 0 && bookPrice.bestAsk <= order.price
+            : bookPrice.bestBid > 0 && bookPrice.bestBid >= order.price;
+        if (!crosses) {
+            return;
+        }
+
+        const fillPrice = isPlacement ? (order.side === Side.BUY ? bookPrice.bestAsk : bookPrice.bestBid) : order.price;
+        this.fillOrder(order, fillPrice, !isPlacement);
+    }
+
+    private fillOrder(order: PaperOrder, fillPrice: number, isMaker: boolean): void {
+        const fillSize = order.size - order.sizeMatched;
+        order.sizeMatched = order.size;
+        this.orders.delete(order.id);
+
+        this.applyFill(order, fillPrice, fillSize);
+        this.emitTradeMessage(order, fillPrice, fillSize, isMaker, TradeStatus.MATCHED);
+        this.emitOrderMessage(order, OrderType.UPDATE);
+        this.emitTradeMessage(order, fillPrice, fillSize, isMaker, TradeStatus.CONFIRMED);
+
+        logger.info(`💰 [PAPER] Filled ${order.side} ${order.outcome} @ ${fillPrice} x ${fillSize} (${order.slug})`);
+    }
+
+    private applyFill(order: PaperOrder, fillPrice: number, fillSize: number): void {
+        const position = this.getPosition(order.slug);
+        const isUp = order.outcome === Outcome.UP;
+        const notional = fillPrice * fillSize;
+
+        if (order.side === Side.BUY) {
+            position.totalCost += notional;
+            if (isUp) {
+                position.upSize += fillSize;
+                position.upCost += notional;
+            } else {
+                position.downSize += fillSize;
+                position.downCost += notional;
+            }
+        } else {
+            const heldSize = isUp ? position.upSize : position.downSize;
+            const heldCost = isUp ? position.upCost : position.downCost;
+            const averageCost = heldSize > 0 ? heldCost / heldSize : 0;
+            const soldCost = averageCost * Math.min(fillSize, heldSize);
+
+            position.totalReceived += notional;
+            position.realizedPnl += notional - soldCost;
+            if (isUp) {
+                position.upSize = Math.max(0, position.upSize - fillSize);
+                position.upCost = Math.max(0, position.upCost - soldCost);
+            } else {
+                position.downSize = Math.max(0, position.downSize - fillSize);
+                position.downCost = Math.max(0, position.downCost - soldCost);
+            }
+        }
+        position.fillCount++;
+
+        this.persistPosition(order.slug, position, false);
+    }
+
+    private getPosition(slug: string): PaperPositionState {
+        let position = this.positions.get(slug);
+        if (!position) {
+            position = { upSize: 0, upCost: 0, downSize: 0, downCost: 0, totalCost: 0, totalReceived: 0, realizedPnl: 0, fillCount: 0 };
+            this.positions.set(slug, position);
+        }
+        return position;
+    }
+
+    private persistPosition(slug: string, position: PaperPositionState, settleIfResolved: boolean): void {
+        this.writeQueue.push({ slug, position: { ...position }, settleIfResolved });
+        if (!this.writing) {
+            this.processWriteQueue();
+        }
+    }
+
+    private async processWriteQueue(): Promise<void> {
+        this.writing = true;
+        while (this.writeQueue.length > 0) {
+            const write = this.writeQueue.shift()!;
+            try {
+                await this.writePosition(write);
+            } catch (error) {
+                logger.error(`[PAPER] Error saving position for ${write.slug}:`, error);
+            }
+        }
+        this.writing = false;
+    }
+
+    private async writePosition({ slug, position, settleIfResolved }: PaperPositionWrite): Promise<void> {
+        await PaperPosition.findOneAndUpdate(
+            { botId: this.botId, slug },
+            {
+                $set: {
+                    botId: this.botId,
+                    slug,
+                    token: this.coinSymbol.split('/')[0].toUpperCase(),
+                    eventType: this.marketInterval === MarketInterval.HOURLY ? 'hourly' : '15min',
+                    ...position,
+                },
+            },
+            { upsert: true }
+        );
+
+        if (settleIfResolved) {
+            const market = await Market.findOne({ slug }).select('outcome').lean();
+            if (market?.outcome) {
+                await settlePaperPositions(slug, market.outcome, this.botId);
+            }
+        }
+    }
+
+    /**
+     * Close the previous market: cancel resting orders and save the final position, which is settled
+     * now if the market already has its official outcome, or by the MarketResolutionService later
+     */
+    private handleMarketUpdated(marketInfo: MarketInfo | null): void {
+        const previousMarket = this.currentMarket;
+
+        this.currentMarket = marketInfo;
+        this.prices.clear();
+
+        if (!previousMarket) {
+            return;
+        }
+
+        for (const order of Array.from(this.orders.values())) {
+            if (order.slug === previousMarket.slug) {
+                this.orders.delete(order.id);
+                this.emitOrderMessage(order, OrderType.CANCELLATION);
+            }
+        }
+
+        const position = this.positions.get(previousMarket.slug);
+        if (!position) {
+            return;
+        }
+        this.positions.delete(previousMarket.slug);
+        this.persistPosition(previousMarket.slug, position, true);
+    }
+
+    private emitOrderMessage(order: PaperOrder, type: OrderType): void {
+        const message: OrderMessage = {
+            asset_id: order.assetId,
+            associate_trades: null,
+            event_type: 'order',
+            id: order.id,
+            market: order.market,
+            order_owner: PAPER_OWNER,
+            original_size: order.size.toString(),
+            outcome: order.outcome,
+            owner: PAPER_OWNER,
+            price: order.price.toString(),
+            side: order.side,
+            size_matched: order.sizeMatched.toString(),
+            timestamp: Date.now().toString(),
+            type,
+        };
+
+        // Deliver asynchronously, like messages from the User Channel socket
+        setImmediate(() => this.emit(UserMonitorEvents.ORDER_MESSAGE, message));
+    }
+
+    private emitTradeMessage(order: PaperOrder, price: number, size: number, isMaker: boolean, status: TradeStatus): void {
+        const timestamp = Date.now().toString();
+        const message: TradeMessage = {
+            asset_id: order.assetId,
+            event_type: 'trade',
+            id: `${order.id}-trade`,
+            last_update: timestamp,
+            maker_orders: isMaker ? [{
+                asset_id: order.assetId,
+                matched_amount: size.toString(),
+                order_id: order.id,
+                outcome: order.outcome,
+                owner: PAPER_OWNER,
+                price: price.toString(),
+            }] : [],
+            market: order.market,
+            matchtime: timestamp,
+            outcome: order.outcome,
+            owner: PAPER_OWNER,
+            price: price.toString(),
+            side: order.side,
+            size: size.toString(),
+            status,
+            taker_order_id: isMaker ? `${order.id}-counterparty` : order.id,
+            timestamp,
+            trade_owner: PAPER_OWNER,
+            type: 'TRADE',
+        };
+
+        setImmediate(() => this.emit(UserMonitorEvents.TRADE_MESSAGE, message));
+    }
+}
@@ -0,0 +1,551 @@
+import { randomUUID } from 'crypto';
+import {
+    createStrategy,
+    FillModel,
+    parseFillModelQuery,
+    runBacktest,
+    STRATEGY_NAMES,
+    StrategyName,
+    validateStrategyParams,
+} from '../strategies';
+import { logger } from '../utils/logger';
+import { calculateMaxDrawdown } from '../utils/riskMetrics';
+import {
+    countMarkets,
+    MarketHistoryFilters,
+    MarketHistoryPagination,
+    parseMarketHistoryQuery,
+    streamMarketHistories,
+} from './marketHistory';
+
+// Upper bound on parameter combinations per sweep (each one is backtested on every market)
+const MAX_SWEEP_COMBINATIONS = 500;
+// Values generated from a single { min, max, step } range
+const MAX_RANGE_VALUES = 100;
+// Finished jobs kept for polling; older ones are dropped
+const MAX_FINISHED_JOBS = 20;
+// Combinations backtested on a market between yields to the event loop
+const COMBINATIONS_PER_YIELD = 10;
+
+export type SweepParameterValue = number | boolean;
+
+/**
+ * Values of one swept parameter: an inclusive numeric range, or an explicit list of values
+ */
+export type SweepParameterRange = { min: number; max: number; step: number } | SweepParameterValue[];
+
+export type SweepSortKey = 'profit' | 'winRate' | 'maxDrawdown' | 'entries';
+export type SweepJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+const SWEEP_SORT_KEYS: SweepSortKey[] = ['profit', 'winRate', 'maxDrawdown', 'entries'];
+
+export interface SweepRequest {
+    strategy: StrategyName;
+    ranges: Record<string, SweepParameterRange>;
+    values: Record<string, SweepParameterValue[]>; // Expanded ranges
+    params: Record<string, unknown>; // Fixed parameters (strategy defaults for the rest)
+    filters: MarketHistoryFilters;
+    pagination: MarketHistoryPagination;
+    useTradePrints: boolean;
+    fillModel: FillModel;
+    sortBy: SweepSortKey;
+    walkForward: WalkForwardOptions | null;
+}
+
+/**
+ * Rolling walk-forward windows, in numbers of markets (chronological order)
+ */
+export interface WalkForwardOptions {
+    trainSize: number; // Markets the parameters are chosen on
+    testSize: number; // Following markets they are evaluated on (also the step between windows)
+}
+
+/**
+ * Backtest totals of one parameter combination over a set of markets
+ */
+export interface SweepMetrics {
+    profit: number;
+    cost: number;
+    entries: number;
+    tradedMarkets: number; // Markets with a position
+    winningMarkets: number;
+    winRate: number; // winningMarkets / tradedMarkets (0 when nothing was traded)
+    maxDrawdown: number; // Largest drop of cumulative profit, markets in chronological order
+}
+
+export interface SweepResultRow extends SweepMetrics {
+    rank: number;
+    params: Record<string, SweepParameterValue>; // Swept parameter values only
+}
+
+export interface WalkForwardWindow {
+    index: number;
+    trainSlugs: string[];
+    testSlugs: string[];
+    params: Record<string, SweepParameterValue>; // Best combination on the training markets
+    train: SweepMetrics; // In-sample totals of the chosen combination
+    test: SweepMetrics; // Out-of-sample totals of the chosen combination
+}
+
+export interface WalkForwardResult extends WalkForwardOptions {
+    windows: WalkForwardWindow[];
+    // Out-of-sample profit of each test market, stitched across windows
+    equityCurve: Array<{ slug: string; endedAt: string | null; window: number; profit: number; cumulativeProfit: number }>;
+    outOfSample: SweepMetrics; // Totals over all test markets
+}
+
+export interface SweepJob {
+    id: string;
+    status: SweepJobStatus;
+    request: SweepRequest;
+    combinations: number;
+    progress: {
+        processedMarkets: number;
+        totalMarkets: number;
+    };
+    createdAt: Date;
+    startedAt: Date | null;
+    finishedAt: Date | null;
+    error: string | null;
+    results: SweepResultRow[];
+    walkForward: WalkForwardResult | null;
+}
+
+interface MarketBacktest {
+    profit: number;
+    cost: number;
+    entries: number;
+}
+
+interface SweptMarket {
+    slug: string;
+    endedAt: string | null; // Last tick
+}
+
+interface SweepAccumulator {
+    params: Record<string, SweepParameterValue>;
+    strategyParams: Record<string, unknown>;
+    markets: MarketBacktest[]; // One per swept market, in chronological order
+}
+
+/**
+ * Values of one swept parameter. Range values are rounded to avoid float steps like 0.30000000000000004.
+ */
+function expandRange(key: string, range: SweepParameterRange): SweepParameterValue[] | string {
+    if (Array.isArray(range)) {
+        return range.length > 0 ? range : `${key} must list at least one value`;
+    }
+
+    const { min, max, step } = range;
+    if (![min, max, step].every(value => typeof value === 'number' && Number.isFinite(value))) {
+        return `${key} range needs numeric min, max and step`;
+    }
+    if (step <= 0 || max < min) {
+        return `${key} range needs step > 0 and max >= min`;
+    }
+    const valueCount = Math.floor((max - min) / step + 1e-9) + 1;
+    if (valueCount > MAX_RANGE_VALUES) {
+        return `${key} range has more than ${MAX_RANGE_VALUES} values`;
+    }
+    return Array.from({ length: valueCount }, (_, index) => Math.round((min + index * step) * 1e6) / 1e6);
+}
+
+/**
+ * Every combination of the swept parameter values (cartesian product, in parameter order)
+ */
+export function expandSweepGrid(
+    ranges: Record<string, SweepParameterValue[]>
+): Array<Record<string, SweepParameterValue>> {
+    let combinations: Array<Record<string, SweepParameterValue>> = [{}];
+    for (const [key, values] of Object.entries(ranges)) {
+        combinations = combinations.flatMap(combination => values.map(value => ({ ...combination, [key]: value })));
+    }
+    return combinations;
+}
+
+/**
+ * Parse and validate a sweep request body:
+ *   { strategy, ranges: { param: { min, max, step } | [values] }, params?, sortBy?, useTradePrints?,
+ *     walkForward?, fillModel? (and its parameters), token?, eventType?, startDate?, endDate?, page?, pageSize?/count? }
+ */
+export function parseSweepRequest(
+    body: Record<string, unknown>
+): { request: SweepRequest } | { error: string; message: string } {
+    const strategy = body.strategy as StrategyName;
+    if (!STRATEGY_NAMES.includes(strategy)) {
+        return { error: 'Invalid strategy', message: `strategy must be one of: ${STRATEGY_NAMES.join(', ')}` };
+    }
+
+    const ranges = body.ranges as Record<string, SweepParameterRange> | undefined;
+    if (!ranges || typeof ranges !== 'object' || Array.isArray(ranges) || Object.keys(ranges).length === 0) {
+        return { error: 'Invalid ranges', message: 'ranges must map at least one strategy parameter to a range or list of values' };
+    }
+
+    const values: Record<string, SweepParameterValue[]> = {};
+    for (const [key, range] of Object.entries(ranges)) {
+        if (!range || typeof range !== 'object') {
+            return { error: 'Invalid ranges', message: `${key} must be { min, max, step } or a list of values` };
+        }
+        const expanded = expandRange(key, range);
+        if (typeof expanded === 'string') {
+            return { error: 'Invalid ranges', message: expanded };
+        }
+        const errors = expanded.flatMap(value => validateStrategyParams(strategy, { [key]: value }));
+        if (errors.length > 0) {
+            return { error: 'Invalid ranges', message: errors[0] };
+        }
+        values[key] = expanded;
+    }
+
+    const combinations = Object.values(values).reduce((product, list) => product * list.length, 1);
+    if (combinations > MAX_SWEEP_COMBINATIONS) {
+        return {
+            error: 'Too many combinations',
+            message: `Sweep has ${combinations} parameter combinations (maximum ${MAX_SWEEP_COMBINATIONS})`,
+        };
+    }
+
+    const params = (body.params ?? {}) as Record<string, unknown>;
+    if (typeof params !== 'object' || Array.isArray(params)) {
+        return { error: 'Invalid params', message: 'params must be an object of fixed strategy parameters' };
+    }
+    const paramErrors = validateStrategyParams(strategy, params);
+    if (paramErrors.length > 0) {
+        return { error: 'Invalid params', message: paramErrors.join('; ') };
+    }
+
+    const sortBy = (body.sortBy ?? 'profit') as SweepSortKey;
+    if (!SWEEP_SORT_KEYS.includes(sortBy)) {
+        return { error: 'Invalid sortBy', message: `sortBy must be one of: ${SWEEP_SORT_KEYS.join(', ')}` };
+    }
+
+    const marketQuery = parseMarketHistoryQuery(body);
+    if ('error' in marketQuery) {
+        return marketQuery;
+    }
+
+    const fillModelQuery = parseFillModelQuery(body);
+    if ('error' in fillModelQuery) {
+        return fillModelQuery;
+    }
+
+    let walkForward: WalkForwardOptions | null = null;
+    if (body.walkForward !== undefined && body.walkForward !== null) {
+        const options = body.walkForward as Record<string, unknown>;
+        const trainSize = Number(options.trainSize);
+        const testSize = Number(options.testSize);
+        if (!Number.isInteger(trainSize) || trainSize <= 0 || !Number.isInteger(testSize) || testSize <= 0) {
+            return { error: 'Invalid walkForward', message: 'walkForward needs positive integer trainSize and testSize (in markets)' };
+        }
+        walkForward = { trainSize, testSize };
+    }
+
+    return {
+        request: {
+            strategy,
+            ranges,
+            values,
+            params,
+            filters: marketQuery.filters,
+            pagination: marketQuery.pagination,
+            useTradePrints: body.useTradePrints === true || body.useTradePrints === 'true',
+            fillModel: fillModelQuery.fillModel,
+            sortBy,
+            walkForward,
+        },
+    };
+}
+
+/**
+ * Totals of one combination over markets in chronological order
+ */
+function summarizeMarkets(markets: MarketBacktest[]): SweepMetrics {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const traded = markets.filter(market => market.cost > 0 || market.entries > 0);
+    const winningMarkets = traded.filter(market => market.profit > 0).length;
+    return {
+        profit: round(markets.reduce((sum, market) => sum + market.profit, 0)),
+        cost: round(markets.reduce((sum, market) => sum + market.cost, 0)),
+        entries: markets.reduce((sum, market) => sum + market.entries, 0),
+        tradedMarkets: traded.length,
+        winningMarkets,
+        winRate: traded.length > 0 ? Math.round((winningMarkets / traded.length) * 10000) / 10000 : 0,
+        maxDrawdown: round(calculateMaxDrawdown(markets.map(market => market.profit))),
+    };
+}
+
+/**
+ * Order by the sort key: highest profit/win rate/entries first, or lowest drawdown first (ties by profit)
+ */
+function compareMetrics(a: SweepMetrics, b: SweepMetrics, sortBy: SweepSortKey): number {
+    const difference = sortBy === 'maxDrawdown' ? a.maxDrawdown - b.maxDrawdown : b[sortBy] - a[sortBy];
+    return difference !== 0 ? difference : b.profit - a.profit;
+}
+
+function rankResults(accumulators: SweepAccumulator[], sortBy: SweepSortKey): SweepResultRow[] {
+    const rows: SweepResultRow[] = accumulators.map(accumulator => ({
+        rank: 0,
+        params: accumulator.params,
+        ...summarizeMarkets(accumulator.markets),
+    }));
+    rows.sort((a, b) => compareMetrics(a, b, sortBy));
+    rows.forEach((row, index) => {
+        row.rank = index + 1;
+    });
+    return rows;
+}
+
+/**
+ * Walk-forward evaluation: for each rolling window, pick the best combination on trainSize markets and
+ * record its profit on the next testSize markets. Windows advance by testSize, so test windows do not
+ * overlap and their profits stitch into one out-of-sample equity curve. A final window with fewer than
+ * testSize markets is still evaluated; no windows are produced with trainSize or fewer markets.
+ */
+function runWalkForward(
+    accumulators: SweepAccumulator[],
+    markets: SweptMarket[],
+    options: WalkForwardOptions,
+    sortBy: SweepSortKey
+): WalkForwardResult {
+    const windows: WalkForwardWindow[] = [];
+    const equityCurve: WalkForwardResult['equityCurve'] = [];
+    const outOfSampleMarkets: MarketBacktest[] = [];
+    let cumulativeProfit = 0;
+
+    for (let trainStart = 0; trainStart + options.trainSize < markets.length; trainStart += options.testSize) {
+        const testStart = trainStart + options.trainSize;
+        const testEnd = Math.min(testStart + options.testSize, markets.length);
+
+        let best: { accumulator: SweepAccumulator; train: SweepMetrics } | null = null;
+        for (const accumulator of accumulators) {
+            const train = summarizeMarkets(accumulator.markets.slice(trainStart, testStart));
+            if (!best || compareMetrics(train, best.train, sortBy) < 0) {
+                best = { accumulator, train };
+            }
+        }
+        if (!best) {
+            break;
+        }
+
+        const testMarkets = best.accumulator.markets.slice(testStart, testEnd);
+        testMarkets.forEach((market, offset) => {
+            cumulativeProfit += market.profit;
+            equityCurve.push({
+                ...markets[testStart + offset],
+                window: windows.length,
+                profit: Math.round(market.profit * 100) / 100,
+                cumulativeProfit: Math.round(cumulativeProfit * 100) / 100,
+            });
+        });
+        outOfSampleMarkets.push(...testMarkets);
+
+        windows.push({
+            index: windows.length,
+            trainSlugs: markets.slice(trainStart, testStart).map(market => market.slug),
+            testSlugs: markets.slice(testStart, testEnd).map(market => market.slug),
+            params: best.accumulator.params,
+            train: best.train,
+            test: summarizeMarkets(testMarkets),
+        });
+    }
+
+    return {
+        ...options,
+        windows,
+        equityCurve,
+        outOfSample: summarizeMarkets(outOfSampleMarkets),
+    };
+}
+
+/**
+ * ParameterSweepService - runs parameter sweeps (grid searches) of a strategy over stored markets as
+ * background jobs. Jobs run one at a time; each streams the selected markets once and backtests every
+ * parameter combination on each market, so progress is reported per market.
+ * With walkForward options the per-market results are also evaluated out of sample (runWalkForward).
+ */
+export class ParameterSweepService {
+    private jobs: Map<string, SweepJob> = new Map();
+    private queue: string[] = [];
+    private processing: boolean = false;
+
+    /**
+     * Queue a sweep and return its job (poll getJob for progress and results)
+     */
+    public createJob(request: SweepRequest): SweepJob {
+        const job: SweepJob = {
+            id: randomUUID(),
+            status: 'queued',
+            request,
+            combinations: expandSweepGrid(request.values).length,
+            progress: { processedMarkets: 0, totalMarkets: 0 },
+            createdAt: new Date(),
+            startedAt: null,
+            finishedAt: null,
+            error: null,
+            results: [],
+            walkForward: null,
+        };
+        this.jobs.set(job.id, job);
+        this.queue.push(job.id);
+        this.pruneFinishedJobs();
+
+        this.processQueue().catch(error => {
+            logger.error('Error processing parameter sweep queue:', error);
+        });
+        return job;
+    }
+
+    public getJob(jobId: string): SweepJob | null {
+        return this.jobs.get(jobId) ?? null;
+    }
+
+    /**
+     * All known jobs, newest first
+     */
+    public getJobs(): SweepJob[] {
+        return Array.from(this.jobs.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    /**
+     * Cancel a queued or running job. Returns false if it has already finished.
+     */
+    public cancelJob(jobId: string): boolean {
+        const job = this.jobs.get(jobId);
+        if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+            return false;
+        }
+        job.status = 'cancelled';
+        job.finishedAt = new Date();
+        this.queue = this.queue.filter(id => id !== jobId);
+        return true;
+    }
+
+    private async processQueue(): Promise<void> {
+        if (this.processing) {
+            return;
+        }
+        this.processing = true;
+
+        try {
+            while (this.queue.length > 0) {
+                const job = this.jobs.get(this.queue.shift()!);
+                if (!job || job.status !== 'queued') {
+                    continue;
+                }
+                await this.runJob(job);
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    private async runJob(job: SweepJob): Promise<void> {
+        const { request } = job;
+        job.status = 'running';
+        job.startedAt = new Date();
+        logger.info(`🔎 Parameter sweep ${job.id} started: ${request.strategy}, ${job.combinations} combinations`);
+
+        try {
+            const accumulators: SweepAccumulator[] = expandSweepGrid(request.values).map(params => ({
+                params,
+                strategyParams: { ...request.params, ...params },
+                markets: [],
+            }));
+            const sweptMarkets: SweptMarket[] = [];
+
+            const totalCount = await countMarkets(request.filters);
+            const { page, pageSize } = request.pagination;
+            job.progress.totalMarkets = pageSize !== null
+                ? Math.max(0, Math.min(pageSize, totalCount - (page - 1) * pageSize))
+                : totalCount;
+
+            const histories = streamMarketHistories(request.filters, request.pagination, {
+                includeTradePrints: request.useTradePrints,
+            });
+            for await (const { slug, eventType, resolvedOutcome, ticks, trades } of histories) {
+                // Status can change to cancelled while the job awaits the next market
+                if (this.isCancelled(job)) {
+                    logger.info(`🛑 Parameter sweep ${job.id} cancelled`);
+                    return;
+                }
+
+                if (ticks.length > 0) {
+                    sweptMarkets.push({ slug, endedAt: ticks[ticks.length - 1].timestamp });
+                    for (const [index, accumulator] of accumulators.entries()) {
+                        // Let requests through between chunks of combinations, so a large sweep does not block the server
+                        if (index > 0 && index % COMBINATIONS_PER_YIELD === 0) {
+                            await new Promise(resolve => setImmediate(resolve));
+                            if (this.isCancelled(job)) {
+                                logger.info(`🛑 Parameter sweep ${job.id} cancelled`);
+                                return;
+                            }
+                        }
+
+
+                        // Failed backtests count as no trade, so every combination has one result per market
+                        let marketBacktest: MarketBacktest = { profit: 0, cost: 0, entries: 0 };
+                        try {
+                            const strategy = createStrategy(request.strategy, accumulator.strategyParams);
+                            const summary = strategy.summarize(
+                                runBacktest(strategy, { slug, eventType }, ticks, trades, resolvedOutcome, request.fillModel)
+                            );
+                            marketBacktest = {
+                                profit: summary.totalProfit,
+                                cost: summary.totalCost,
+                                entries: summary.totalEntries,
+                            };
+                        } catch (error) {
+                            logger.error(`Error backtesting slug ${slug} in parameter sweep ${job.id}:`, error);
+                        }
+                        accumulator.markets.push(marketBacktest);
+                    }
+                }
+                job.progress.processedMarkets++;
+
+                // Let requests (e.g. progress polling) through between markets
+                await new Promise(resolve => setImmediate(resolve));
+            }
+
+            if (this.isCancelled(job)) {
+                return;
+            }
+
+            // Markets were streamed most recent first
+            sweptMarkets.reverse();
+            accumulators.forEach(accumulator => accumulator.markets.reverse());
+
+            job.results = rankResults(accumulators, request.sortBy);
+            if (request.walkForward) {
+                job.walkForward = runWalkForward(accumulators, sweptMarkets, request.walkForward, request.sortBy);
+            }
+            job.status = 'completed';
+            logger.info(`✅ Parameter sweep ${job.id} completed (${job.progress.processedMarkets} markets)`);
+        } catch (error) {
+            job.status = 'failed';
+            job.error = error instanceof Error ? error.message : String(error);
+            logger.error(`❌ Parameter sweep ${job.id} failed:`, error);
+        } finally {
+            job.finishedAt = job.finishedAt ?? new Date();
+        }
+    }
+
+    private isCancelled(job: SweepJob): boolean {
+        return job.status === 'cancelled';
+    }
+
+    private pruneFinishedJobs(): void {
+        const finishedJobs = this.getJobs().filter(job => job.status !== 'queued' && job.status !== 'running');
+        for (const job of finishedJobs.slice(MAX_FINISHED_JOBS)) {
+            this.jobs.delete(job.id);
+        }
+    }
+}
+
+let parameterSweepServiceInstance: ParameterSweepService | null = null;
+
+export const getParameterSweepService = (): ParameterSweepService => {
+    if (!parameterSweepServiceInstance) {
+        parameterSweepServiceInstance = new ParameterSweepService();
+    }
+    return parameterSweepServiceInstance;
+};
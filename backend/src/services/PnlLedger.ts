@@ -0,0 +1,450 @@
+import LedgerPosition, { ILedgerPosition, LedgerEndOfMarket } from '../models/LedgerPosition';
+import Market from '../models/Market';
+import { EventType, Outcome } from '../models/TokenPriceHistory';
+import { logger } from '../utils/logger';
+import { getRiskManager } from './RiskManager';
+
+/**
+ * Confirmed fill of one of a bot's orders
+ */
+export interface LedgerFill {
+    fillId: string; // tradeId:orderId
+    botId: string;
+    slug: string;
+    token: string;
+    eventType: EventType;
+    assetId: string;
+    outcome: Outcome;
+    paperTrading: boolean;
+    side: 'BUY' | 'SELL';
+    price: number;
+    size: number;
+    timestamp: Date;
+}
+
+/**
+ * End-of-market action of a bot on one asset (cancelled orders, unhedged tokens held or flattened)
+ */
+export interface LedgerMarketClose extends Omit<LedgerEndOfMarket, 'at'> {
+    botId: string;
+    slug: string;
+    token: string;
+    eventType: EventType;
+    assetId: string;
+    outcome: Outcome;
+    paperTrading: boolean;
+    timestamp: Date;
+}
+
+type LedgerOperation =
+    | { type: 'fill'; fill: LedgerFill }
+    | { type: 'close'; close: LedgerMarketClose }
+    | { type: 'settle'; slug: string; outcome: Outcome }
+    | { type: 'redeem'; slug: string; txHash: string };
+
+export interface PnlFilters {
+    botId?: string;
+    token?: string;
+    slug?: string;
+    startDate?: string; // UTC day (YYYY-MM-DD), inclusive
+    endDate?: string; // UTC day (YYYY-MM-DD), inclusive
+    paperTrading?: boolean;
+}
+
+/**
+ * P&L totals of a group of positions (all amounts in dollars)
+ */
+export interface PnlTotals {
+    realizedPnl: number; // From sells
+    settlementPnl: number; // From settled markets
+    totalPnl: number;
+    totalCost: number;
+    totalReceived: number;
+    openCost: number; // Cost basis of tokens held in unsettled markets
+    fillCount: number;
+}
+
+export interface PnlSummary {
+    filters: PnlFilters;
+    totals: PnlTotals;
+    bySlug: Array<PnlTotals & { slug: string; token: string; eventType: EventType; settled: boolean; settlementOutcome: Outcome | null }>;
+    byBot: Array<PnlTotals & { botId: string }>;
+    byCoin: Array<PnlTotals & { token: string }>;
+    byDay: Array<PnlTotals & { date: string }>;
+    openPositions: Array<{
+        botId: string;
+        slug: string;
+        outcome: Outcome;
+        size: number;
+        averageCost: number;
+        cost: number;
+    }>;
+}
+
+// Slugs per page of the bySlug breakdown (most recent first)
+const SLUG_LIMIT = 100;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Parse GET /api/pnl query parameters: botId, token, slug, startDate, endDate, paperTrading
+ */
+export function parsePnlQuery(query: Record<string, unknown>): { filters: PnlFilters } | { error: string; message: string } {
+    // Repeated parameters (e.g. ?token=BTC&token=ETH) arrive as arrays
+    for (const key of ['botId', 'token', 'slug', 'startDate', 'endDate', 'paperTrading']) {
+        if (query[key] !== undefined && typeof query[key] !== 'string') {
+            return { error: `Invalid ${key}`, message: `${key} must be given once, as a single value` };
+        }
+    }
+
+    const filters: PnlFilters = {};
+    if (query.botId) {
+        filters.botId = query.botId as string;
+    }
+    if (query.token) {
+        filters.token = (query.token as string).toUpperCase();
+    }
+    if (query.slug) {
+        filters.slug = query.slug as string;
+    }
+
+    for (const key of ['startDate', 'endDate'] as const) {
+        if (query[key]) {
+            const date = new Date(query[key] as string);
+            if (isNaN(date.getTime())) {
+                return { error: `Invalid ${key}`, message: `${key} must be a valid date (e.g. 2025-01-31 or an ISO timestamp)` };
+            }
+            filters[key] = toDay(date);
+        }
+    }
+    if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+        return { error: 'Invalid date range', message: 'startDate must be before endDate' };
+    }
+
+    if (query.paperTrading !== undefined) {
+        if (query.paperTrading !== 'true' && query.paperTrading !== 'false') {
+            return { error: 'Invalid paperTrading', message: 'paperTrading must be true or false' };
+        }
+        filters.paperTrading = query.paperTrading === 'true';
+    }
+
+    return { filters };
+}
+
+function buildMatch(filters: PnlFilters): Record<string, unknown> {
+    const match: Record<string, unknown> = {};
+    if (filters.botId) {
+        match.botId = filters.botId;
+    }
+    if (filters.token) {
+        match.token = filters.token;
+    }
+    if (filters.slug) {
+        match.slug = filters.slug;
+    }
+    if (filters.startDate || filters.endDate) {
+        match.date = {
+            ...(filters.startDate ? { $gte: filters.startDate } : {}),
+            ...(filters.endDate ? { $lte: filters.endDate } : {}),
+        };
+    }
+    if (filters.paperTrading !== undefined) {
+        match.paperTrading = filters.paperTrading;
+    }
+    return match;
+}
+
+/**
+ * $group accumulators of PnlTotals
+ */
+const TOTALS_GROUP = {
+    realizedPnl: { $sum: '$realizedPnl' },
+    settlementPnl: { $sum: { $ifNull: ['$settlementPnl', 0] } },
+    totalCost: { $sum: '$totalCost' },
+    totalReceived: { $sum: '$totalReceived' },
+    openCost: { $sum: { $cond: ['$settled', 0, '$cost'] } },
+    fillCount: { $sum: '$fillCount' },
+};
+
+type TotalsGroup = Record<keyof typeof TOTALS_GROUP, number>;
+
+/**
+ * Output of the getSummary() $facet stage (_id is the grouping key)
+ */
+interface SummaryFacets {
+    totals: TotalsGroup[];
+    bySlug: Array<TotalsGroup & {
+        _id: string;
+        token: string;
+        eventType: EventType;
+        settled: boolean;
+        settlementOutcome: Outcome | null;
+        lastFillAt: Date;
+    }>;
+    byBot: Array<TotalsGroup & { _id: string }>;
+    byCoin: Array<TotalsGroup & { _id: string }>;
+    byDay: Array<TotalsGroup & { _id: string }>;
+    openPositions: Array<Pick<ILedgerPosition, 'botId' | 'slug' | 'outcome' | 'size' | 'cost'>>;
+}
+
+function toTotals(group: Partial<TotalsGroup>): PnlTotals {
+    return {
+        realizedPnl: round(group.realizedPnl ?? 0),
+        settlementPnl: round(group.settlementPnl ?? 0),
+        totalPnl: round((group.realizedPnl ?? 0) + (group.settlementPnl ?? 0)),
+        totalCost: round(group.totalCost ?? 0),
+        totalReceived: round(group.totalReceived ?? 0),
+        openCost: round(group.openCost ?? 0),
+        fillCount: group.fillCount ?? 0,
+    };
+}
+
+/**
+ * PnlLedger - persistent positions and P&L of the bots, built from confirmed trades
+ *
+ * Each bot's position per asset keeps its size and average cost; sells realize P&L against the
+ * average cost, and the held size is settled (1 per winning token, 0 otherwise) once the
+ * MarketResolutionService has the official outcome. End-of-market actions are kept on the position.
+ * Operations are applied one at a time from a queue, so read-modify-writes of a position never interleave.
+ * Realized and settlement P&L of live positions count towards the RiskManager's daily loss once saved.
+ */
+export class PnlLedger {
+    private queue: LedgerOperation[] = [];
+    private processing: boolean = false;
+
+    /**
+     * Settle positions of markets resolved while the ledger was not running
+     */
+    public async start(): Promise<void> {
+        const slugs: string[] = await LedgerPosition.distinct('slug', { settled: false });
+        if (slugs.length === 0) {
+            return;
+        }
+        const markets = await Market.find({ slug: { $in: slugs }, status: 'resolved' }).select('slug outcome').lean();
+        for (const market of markets) {
+            if (market.outcome) {
+                this.settleMarket(market.slug, market.outcome);
+            }
+        }
+    }
+
+    public recordFill(fill: LedgerFill): void {
+        this.enqueue({ type: 'fill', fill });
+    }
+
+    public recordMarketClose(close: LedgerMarketClose): void {
+        this.enqueue({ type: 'close', close });
+    }
+
+    /**
+     * Settle every bot's position in a market with its resolved outcome
+     */
+    public settleMarket(slug: string, outcome: Outcome): void {
+        this.enqueue({ type: 'settle', slug, outcome });
+    }
+
+    /**
+     * Mark every bot's live position in a market as redeemed on chain (paper positions are not on chain)
+     */
+    public recordRedemption(slug: string, txHash: string): void {
+        this.enqueue({ type: 'redeem', slug, txHash });
+    }
+
+    private enqueue(operation: LedgerOperation): void {
+        this.queue.push(operation);
+        if (!this.processing) {
+            this.processQueue();
+        }
+    }
+
+    private async processQueue(): Promise<void> {
+        this.processing = true;
+        while (this.queue.length > 0) {
+            const operation = this.queue.shift()!;
+            try {
+                if (operation.type === 'fill') {
+                    await this.applyFill(operation.fill);
+                } else if (operation.type === 'close') {
+                    await this.applyMarketClose(operation.close);
+                } else if (operation.type === 'settle') {
+                    await this.applySettlement(operation.slug, operation.outcome);
+                } else {
+                    await LedgerPosition.updateMany(
+                        { slug: operation.slug, paperTrading: false },
+                        { $set: { redemptionTxHash: operation.txHash, redeemedAt: new Date() } }
+                    );
+                }
+            } catch (error) {
+                const target = operation.type === 'fill' ? `fill ${operation.fill.fillId}`
+                    : operation.type === 'close' ? `end of market ${operation.close.slug}`
+                    : `${operation.type === 'settle' ? 'settlement' : 'redemption'} of ${operation.slug}`;
+                logger.error(`Error applying ${target} to the P&L ledger:`, error);
+            }
+        }
+        this.processing = false;
+    }
+
+    private async applyFill(fill: LedgerFill): Promise<void> {
+        let position = await LedgerPosition.findOne({ botId: fill.botId, slug: fill.slug, assetId: fill.assetId });
+        if (!position) {
+            position = new LedgerPosition({
+                botId: fill.botId,
+                slug: fill.slug,
+                token: fill.token,
+                eventType: fill.eventType,
+                assetId: fill.assetId,
+                outcome: fill.outcome,
+                paperTrading: fill.paperTrading,
+                date: toDay(fill.timestamp),
+            });
+        }
+        if (position.fillIds.includes(fill.fillId)) {
+            return;
+        }
+
+        const previousPnl = position.realizedPnl + (position.settlementPnl ?? 0);
+        const notional = fill.price * fill.size;
+        if (fill.side === 'BUY') {
+            position.size += fill.size;
+            position.cost += notional;
+            position.boughtSize += fill.size;
+            position.totalCost += notional;
+        } else {
+            const averageCost = position.size > 0 ? position.cost / position.size : 0;
+            const soldCost = averageCost * Math.min(fill.size, position.size);
+            position.size = Math.max(0, position.size - fill.size);
+            position.cost = Math.max(0, position.cost - soldCost);
+            position.soldSize += fill.size;
+            position.totalReceived += notional;
+            position.realizedPnl += notional - soldCost;
+        }
+        position.fillIds.push(fill.fillId);
+        position.fillCount++;
+
+        // A fill confirmed after the market was settled changes its settlement
+        if (position.settled && position.settlementOutcome) {
+            this.settle(position, position.settlementOutcome);
+        }
+        await position.save();
+        this.recordRiskPnl(position, position.realizedPnl + (position.settlementPnl ?? 0) - previousPnl);
+    }
+
+    /**
+     * Keep the end-of-market action on the position (created empty if the asset was never filled,
+     * so fills confirmed later are added to it)
+     */
+    private async applyMarketClose(close: LedgerMarketClose): Promise<void> {
+        const { botId, slug, token, eventType, assetId, outcome, paperTrading, timestamp, ...endOfMarket } = close;
+        await LedgerPosition.updateOne(
+            { botId, slug, assetId },
+            {
+                $set: { endOfMarket: { ...endOfMarket, at: timestamp } },
+                $setOnInsert: { token, eventType, outcome, paperTrading, date: toDay(timestamp) },
+            },
+            { upsert: true }
+        );
+    }
+
+    private async applySettlement(slug: string, outcome: Outcome): Promise<void> {
+        const positions = await LedgerPosition.find({ slug, settled: false });
+        for (const position of positions) {
+            this.settle(position, outcome);
+            await position.save();
+            this.recordRiskPnl(position, position.settlementPnl ?? 0);
+        }
+        if (positions.length > 0) {
+            const settlementPnl = positions.reduce((sum, position) => sum + (position.settlementPnl ?? 0), 0);
+            logger.info(`🏁 Ledger settled ${positions.length} position(s) in ${slug} (${outcome}): ${round(settlementPnl)}`);
+        }
+    }
+
+    /**
+     * Count live P&L towards the risk manager's daily loss (paper trading must not halt or unblock live trading)
+     */
+    private recordRiskPnl(position: ILedgerPosition, pnl: number): void {
+        if (!position.paperTrading && pnl !== 0) {
+            getRiskManager().recordRealizedPnl(pnl);
+        }
+    }
+
+    private settle(position: ILedgerPosition, outcome: Outcome): void {
+        const payout = position.outcome === outcome ? position.size : 0;
+        position.settled = true;
+        position.settlementOutcome = outcome;
+        position.settlementPnl = round(payout - position.cost);
+        position.settledAt = position.settledAt ?? new Date();
+    }
+
+    /**
+     * P&L totals, broken down per slug, bot, coin and day, plus the open positions
+     */
+    public async getSummary(filters: PnlFilters = {}): Promise<PnlSummary> {
+        const match = buildMatch(filters);
+        const [result] = await LedgerPosition.aggregate<SummaryFacets>([
+            { $match: match },
+            {
+                $facet: {
+                    totals: [{ $group: { _id: null, ...TOTALS_GROUP } }],
+                    bySlug: [
+                        {
+                            $group: {
+                                _id: '$slug',
+                                token: { $first: '$token' },
+                                eventType: { $first: '$eventType' },
+                                settled: { $min: '$settled' },
+                                settlementOutcome: { $max: '$settlementOutcome' },
+                                lastFillAt: { $max: '$updatedAt' },
+                                ...TOTALS_GROUP,
+                            },
+                        },
+                        { $sort: { lastFillAt: -1 } },
+                        { $limit: SLUG_LIMIT },
+                    ],
+                    byBot: [{ $group: { _id: '$botId', ...TOTALS_GROUP } }, { $sort: { _id: 1 } }],
+                    byCoin: [{ $group: { _id: '$token', ...TOTALS_GROUP } }, { $sort: { _id: 1 } }],
+                    byDay: [{ $group: { _id: '$date', ...TOTALS_GROUP } }, { $sort: { _id: 1 } }],
+                    openPositions: [
+                        { $match: { settled: false, size: { $gt: 0 } } },
+                        { $sort: { updatedAt: -1 } },
+                        { $project: { botId: 1, slug: 1, outcome: 1, size: 1, cost: 1 } },
+                    ],
+                },
+            },
+        ]);
+
+        return {
+            filters,
+            totals: toTotals(result.totals[0] ?? {}),
+            bySlug: result.bySlug.map(group => ({
+                slug: group._id,
+                token: group.token,
+                eventType: group.eventType,
+                settled: group.settled,
+                settlementOutcome: group.settlementOutcome ?? null,
+                ...toTotals(group),
+            })),
+            byBot: result.byBot.map(group => ({ botId: group._id, ...toTotals(group) })),
+            byCoin: result.byCoin.map(group => ({ token: group._id, ...toTotals(group) })),
+            byDay: result.byDay.map(group => ({ date: group._id, ...toTotals(group) })),
+            openPositions: result.openPositions.map(position => ({
+                botId: position.botId,
+                slug: position.slug,
+                outcome: position.outcome,
+                size: round(position.size),
+                averageCost: position.size > 0 ? Math.round((position.cost / position.size) * 10000) / 10000 : 0,
+                cost: round(position.cost),
+            })),
+        };
+    }
+}
+
+let pnlLedgerInstance: PnlLedger | null = null;
+
+export const getPnlLedger = (): PnlLedger => {
+    if (!pnlLedgerInstance) {
+        pnlLedgerInstance = new PnlLedger();
+    }
+    return pnlLedgerInstance;
+};
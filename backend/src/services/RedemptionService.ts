@@ -0,0 +1,260 @@
+import config from '../config';
+import Market from '../models/Market';
+import Redemption, { IRedemption, RedemptionStatus } from '../models/Redemption';
+import { Outcome } from '../models/TokenPriceHistory';
+import { logger } from '../utils/logger';
+import { getPnlLedger } from './PnlLedger';
+import { createRedemptionBackend, RedemptionChain, RedemptionSigner } from './RedemptionSigner';
+
+// Resolved markets checked for held tokens (older ones were checked by earlier runs)
+const REDEMPTION_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+// Markets redeemed per run (most recently resolved first)
+const REDEMPTION_BATCH_SIZE = 50;
+// Failed redemptions are retried with exponential backoff, then given up
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+export const MAX_REDEMPTION_ATTEMPTS = 10;
+
+/**
+ * Resolved market whose tokens may be redeemed
+ */
+export interface RedeemableMarket {
+    slug: string;
+    conditionId: string;
+    yesAssetId: string; // UP token
+    noAssetId: string; // DOWN token
+    outcome: Outcome;
+}
+
+export type RedemptionAttempt =
+    | { status: 'redeemed'; txHash: string; upSize: number; downSize: number; payout: number }
+    | { status: 'empty'; upSize: number; downSize: number } // No winning tokens held
+    | { status: 'failed'; error: string };
+
+/**
+ * Delay before retrying a redemption after its nth failed attempt
+ */
+export function getRetryDelayMs(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Status of a redemption after its nth attempt, and when to retry it
+ */
+export function getRedemptionState(
+    attempt: RedemptionAttempt,
+    attempts: number,
+    now: Date = new Date()
+): { status: RedemptionStatus; nextAttemptAt: Date | null } {
+    if (attempt.status !== 'failed') {
+        return { status: attempt.status, nextAttemptAt: null };
+    }
+    if (attempts >= MAX_REDEMPTION_ATTEMPTS) {
+        return { status: 'failed', nextAttemptAt: null };
+    }
+    return { status: 'pending', nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(attempts)) };
+}
+
+/**
+ * Redeem the winning tokens an address holds in one resolved market. Markets where only
+ * losing tokens are held are not redeemed (the transaction would pay nothing).
+ */
+export async function redeemMarket(
+    market: RedeemableMarket,
+    owner: string,
+    chain: RedemptionChain,
+    signer: RedemptionSigner
+): Promise<RedemptionAttempt> {
+    try {
+        const [upSize, downSize] = await Promise.all([
+            chain.getTokenBalance(owner, market.yesAssetId),
+            chain.getTokenBalance(owner, market.noAssetId),
+        ]);
+        const payout = market.outcome === 'UP' ? upSize : downSize;
+        if (payout <= 0) {
+            return { status: 'empty', upSize, downSize };
+        }
+
+        // Gamma and the CLOB may report the outcome before the payouts are reported on chain
+        if (!(await chain.isConditionResolved(market.conditionId))) {
+            return { status: 'failed', error: 'Condition not resolved on chain yet' };
+        }
+
+        const txHash = await signer.redeemPositions(market.conditionId);
+        return { status: 'redeemed', txHash, upSize, downSize, payout };
+    } catch (error) {
+        return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+/**
+ * RedemptionService - redeems the funder's winning tokens of resolved markets for collateral
+ *
+ * Runs after each market rollover (bots roll over together, so runs are coalesced). Every resolved
+ * market of the last day is checked once for held tokens; redemptions are recorded in the
+ * Redemption collection and the P&L ledger, and failed ones are retried with backoff on later runs.
+ * Disabled in paper trading and without a wallet.
+ */
+export class RedemptionService {
+    private running: boolean = false;
+    private runPending: boolean = false;
+
+    constructor(
+        private chain: RedemptionChain | null,
+        private signer: RedemptionSigner | null,
+        private owner: string
+    ) {}
+
+    public get enabled(): boolean {
+        return this.chain !== null && this.signer !== null;
+    }
+
+    /**
+     * Run the worker in the background (again once the current run ends, if one is running)
+     */
+    public schedule(): void {
+        if (!this.enabled) {
+            return;
+        }
+        if (this.running) {
+            this.runPending = true;
+            return;
+        }
+
+        this.running = true;
+        this.run()
+            .catch(error => logger.error('Error redeeming resolved markets:', error))
+            .finally(() => {
+                this.running = false;
+                if (this.runPending) {
+                    this.runPending = false;
+                    this.schedule();
+                }
+            });
+    }
+
+    /**
+     * Redeem the resolved markets due for a (first or retried) attempt. Returns the number redeemed.
+     */
+    public async run(): Promise<number> {
+        if (!this.chain || !this.signer) {
+            return 0;
+        }
+
+        const markets = await this.findDueMarkets();
+        let redeemedCount = 0;
+        for (const market of markets) {
+            const redemption = await Redemption.findOne({ conditionId: market.conditionId });
+            const attempt = await redeemMarket(market, this.owner, this.chain, this.signer);
+            await this.recordAttempt(market, redemption, attempt);
+            if (attempt.status === 'redeemed') {
+                redeemedCount++;
+            }
+        }
+        if (redeemedCount > 0) {
+            logger.info(`✅ Redeemed ${redeemedCount}/${markets.length} resolved markets`);
+        }
+        return redeemedCount;
+    }
+
+    /**
+     * Resolved markets of the lookback window never attempted, plus pending retries whose backoff elapsed
+     */
+    private async findDueMarkets(): Promise<RedeemableMarket[]> {
+        const now = new Date();
+        const retries = await Redemption.find({ status: 'pending', nextAttemptAt: { $lte: now } }).select('conditionId').lean();
+        const retryConditionIds = retries.map(redemption => redemption.conditionId);
+
+        const markets = await Market.find({
+            status: 'resolved',
+            conditionId: { $ne: null },
+            yesAssetId: { $ne: null },
+            noAssetId: { $ne: null },
+            $or: [
+                { resolvedAt: { $gte: new Date(now.getTime() - REDEMPTION_LOOKBACK_MS) } },
+                { conditionId: { $in: retryConditionIds } },
+            ],
+        })
+            .sort({ resolvedAt: -1 })
+            .lean();
+
+        const attempted = await Redemption.find({ conditionId: { $in: markets.map(market => market.conditionId) } })
+            .select('conditionId')
+            .lean();
+        const skipped = new Set(attempted.map(redemption => redemption.conditionId));
+        for (const conditionId of retryConditionIds) {
+            skipped.delete(conditionId);
+        }
+
+        return markets
+            .filter(market => market.outcome && !skipped.has(market.conditionId!))
+            .slice(0, REDEMPTION_BATCH_SIZE)
+            .map(market => ({
+                slug: market.slug,
+                conditionId: market.conditionId!,
+                yesAssetId: market.yesAssetId!,
+                noAssetId: market.noAssetId!,
+                outcome: market.outcome!,
+            }));
+    }
+
+    private async recordAttempt(market: RedeemableMarket, redemption: IRedemption | null, attempt: RedemptionAttempt): Promise<void> {
+        const attempts = (redemption?.attempts ?? 0) + 1;
+        const { status, nextAttemptAt } = getRedemptionState(attempt, attempts);
+        const update: Partial<IRedemption> = {
+            slug: market.slug,
+            outcome: market.outcome,
+            status,
+            attempts,
+            signer: this.signer!.name,
+            nextAttemptAt,
+        };
+
+        if (attempt.status === 'redeemed') {
+            Object.assign(update, {
+                txHash: attempt.txHash,
+                upSize: attempt.upSize,
+                downSize: attempt.downSize,
+                payout: Math.round(attempt.payout * 100) / 100,
+                lastError: null,
+                redeemedAt: new Date(),
+            });
+            logger.info(`💵 Redeemed ${market.slug} (${market.outcome}): $${update.payout} in ${attempt.txHash}`);
+            getPnlLedger().recordRedemption(market.slug, attempt.txHash);
+        } else if (attempt.status === 'empty') {
+            Object.assign(update, { upSize: attempt.upSize, downSize: attempt.downSize });
+        } else if (status === 'failed') {
+            update.lastError = attempt.error;
+            logger.error(`❌ Giving up redeeming ${market.slug} after ${attempts} attempts: ${attempt.error}`);
+        } else {
+            update.lastError = attempt.error;
+            logger.warn(`⚠️ Redemption of ${market.slug} failed (attempt ${attempts}), retrying after ${nextAttemptAt!.toISOString()}: ${attempt.error}`);
+        }
+
+        await Redemption.updateOne({ conditionId: market.conditionId }, { $set: update }, { upsert: true });
+    }
+}
+
+let redemptionServiceInstance: RedemptionService | null = null;
+
+export const getRedemptionService = (): RedemptionService => {
+    if (!redemptionServiceInstance) {
+        const { redemption, wallet } = config;
+        if (!redemption.enabled || config.paperTrading || !wallet.privateKey) {
+            redemptionServiceInstance = new RedemptionService(null, null, '');
+        } else if (redemption.signer === 'safe' && !wallet.funderAddress) {
+            logger.warn('⚠️ WALLET_FUNDER_ADDRESS not set, winning tokens will not be redeemed');
+            redemptionServiceInstance = new RedemptionService(null, null, '');
+        } else {
+            const { chain, signer, owner } = createRedemptionBackend(
+                redemption.signer,
+                redemption.rpcUrl,
+                wallet.privateKey,
+                wallet.funderAddress
+            );
+            redemptionServiceInstance = new RedemptionService(chain, signer, owner);
+            logger.info(`✅ Redemption worker enabled for ${owner} (${signer.name} signer)`);
+        }
+    }
+    return redemptionServiceInstance;
+};
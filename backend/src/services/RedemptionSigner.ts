@@ -0,0 +1,145 @@
+import { Interface } from '@ethersproject/abi';
+import { hexConcat, hexZeroPad } from '@ethersproject/bytes';
+import { AddressZero, HashZero } from '@ethersproject/constants';
+import { Contract } from '@ethersproject/contracts';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { Wallet } from '@ethersproject/wallet';
+
+// Polymarket contracts on Polygon
+const CTF_ADDRESS = '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045'; // Gnosis ConditionalTokens
+const USDC_ADDRESS = '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174'; // USDC.e collateral
+
+// Outcome tokens and collateral both use 6 decimals
+const TOKEN_DECIMALS = 6;
+
+// Index sets of the two outcomes of a binary condition (redeeming both burns all held tokens)
+const BINARY_INDEX_SETS = [1, 2];
+
+const CTF_ABI = [
+    'function balanceOf(address owner, uint256 id) view returns (uint256)',
+    'function payoutDenominator(bytes32 conditionId) view returns (uint256)',
+    'function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)',
+];
+
+const SAFE_ABI = [
+    'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool)',
+];
+
+export type RedemptionSignerName = 'safe' | 'wallet';
+
+/**
+ * Read access to the outcome tokens held on chain
+ */
+export interface RedemptionChain {
+    // Outcome tokens (shares) of a token ID held by an address
+    getTokenBalance(owner: string, tokenId: string): Promise<number>;
+    // The condition's payouts have been reported on chain, so it can be redeemed
+    isConditionResolved(conditionId: string): Promise<boolean>;
+}
+
+/**
+ * Submits redemption transactions for the funder address
+ */
+export interface RedemptionSigner {
+    readonly name: string;
+    // Redeem all held tokens of a resolved condition for collateral; resolves with the transaction hash once mined
+    redeemPositions(conditionId: string): Promise<string>;
+}
+
+const ctfInterface = new Interface(CTF_ABI);
+
+const encodeRedeemPositions = (conditionId: string): string =>
+    ctfInterface.encodeFunctionData('redeemPositions', [USDC_ADDRESS, HashZero, conditionId, BINARY_INDEX_SETS]);
+
+/**
+ * ConditionalTokens reads through a Polygon JSON-RPC endpoint
+ */
+export class CtfRedemptionChain implements RedemptionChain {
+    private ctf: Contract;
+
+    constructor(provider: JsonRpcProvider) {
+        this.ctf = new Contract(CTF_ADDRESS, CTF_ABI, provider);
+    }
+
+    public async getTokenBalance(owner: string, tokenId: string): Promise<number> {
+        const balance = await this.ctf.balanceOf(owner, tokenId);
+        return Number(balance.toString()) / 10 ** TOKEN_DECIMALS;
+    }
+
+    public async isConditionResolved(conditionId: string): Promise<boolean> {
+        const denominator = await this.ctf.payoutDenominator(conditionId);
+        return !denominator.isZero();
+    }
+}
+
+/**
+ * Redeems from the wallet itself (funder address = wallet address, signature type 0)
+ */
+export class WalletRedemptionSigner implements RedemptionSigner {
+    public readonly name = 'wallet';
+
+    constructor(private wallet: Wallet) {}
+
+    public async redeemPositions(conditionId: string): Promise<string> {
+        const tx = await this.wallet.sendTransaction({ to: CTF_ADDRESS, data: encodeRedeemPositions(conditionId) });
+        const receipt = await tx.wait();
+        if (receipt.status !== 1) {
+            throw new Error(`Redemption transaction ${tx.hash} reverted`);
+        }
+        return tx.hash;
+    }
+}
+
+/**
+ * Redeems from the funder's Gnosis Safe proxy (signature type 2), with the wallet as its owner.
+ * The wallet calls execTransaction itself, so the Safe accepts its pre-validated signature.
+ */
+export class SafeRedemptionSigner implements RedemptionSigner {
+    public readonly name = 'safe';
+    private safe: Contract;
+
+    constructor(private wallet: Wallet, safeAddress: string) {
+        this.safe = new Contract(safeAddress, SAFE_ABI, wallet);
+    }
+
+    public async redeemPositions(conditionId: string): Promise<string> {
+        // Pre-validated signature: r = owner address, s = 0, v = 1
+        const signature = hexConcat([hexZeroPad(this.wallet.address, 32), HashZero, '0x01']);
+        const tx = await this.safe.execTransaction(
+            CTF_ADDRESS,
+            0,
+            encodeRedeemPositions(conditionId),
+            0, // Call
+            0,
+            0,
+            0,
+            AddressZero,
+            AddressZero,
+            signature
+        );
+        const receipt = await tx.wait();
+        if (receipt.status !== 1) {
+            throw new Error(`Redemption transaction ${tx.hash} reverted`);
+        }
+        return tx.hash;
+    }
+}
+
+/**
+ * Build the chain reader and the configured signer for a Polygon RPC endpoint
+ */
+export function createRedemptionBackend(
+    signerName: RedemptionSignerName,
+    rpcUrl: string,
+    privateKey: string,
+    funderAddress: string
+): { chain: RedemptionChain; signer: RedemptionSigner; owner: string } {
+    const provider = new JsonRpcProvider(rpcUrl);
+    const wallet = new Wallet(privateKey, provider);
+    const chain = new CtfRedemptionChain(provider);
+
+    if (signerName === 'wallet') {
+        return { chain, signer: new WalletRedemptionSigner(wallet), owner: wallet.address };
+    }
+    return { chain, signer: new SafeRedemptionSigner(wallet, funderAddress), owner: funderAddress };
+}
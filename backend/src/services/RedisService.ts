@@ -7,6 +7,25 @@ export interface TokenPrice {
     upTokenPrice: number; // bestAskPrice for YES/UP token
     downTokenPrice: number; // bestAskPrice for NO/DOWN token
     coinPriceBias?: number; // Difference between current coin price and start coin price
+    upBestBid?: number | null; // bestBidPrice for YES/UP token
+    downBestBid?: number | null; // bestBidPrice for NO/DOWN token
+    upSpread?: number | null;
+    downSpread?: number | null;
+    upBidSize?: number | null; // Top-of-book sizes (null when the order book is not available)
+    upAskSize?: number | null;
+    downBidSize?: number | null;
+    downAskSize?: number | null;
+}
+
+export interface TradePrint {
+    slug: string;
+    timestamp: number;
+    assetId: string;
+    outcome: 'UP' | 'DOWN';
+    price: number;
+    side: 'BUY' | 'SELL'; // Taker side
+    size: number;
+    feeRateBps: number;
 }
 
 export class RedisService {
@@ -108,6 +127,14 @@ export class RedisService {
                 upTokenPrice: price.upTokenPrice,
                 downTokenPrice: price.downTokenPrice,
                 coinPriceBias: price.coinPriceBias,
+                upBestBid: price.upBestBid ?? null,
+                downBestBid: price.downBestBid ?? null,
+                upSpread: price.upSpread ?? null,
+                downSpread: price.downSpread ?? null,
+                upBidSize: price.upBidSize ?? null,
+                upAskSize: price.upAskSize ?? null,
+                downBidSize: price.downBidSize ?? null,
+                downAskSize: price.downAskSize ?? null,
             });
 
             await this.client!.set(key, value);
@@ -132,6 +159,14 @@ export class RedisService {
                 upTokenPrice: price.upTokenPrice,
                 downTokenPrice: price.downTokenPrice,
                 coinPriceBias: price.coinPriceBias,
+                upBestBid: price.upBestBid ?? null,
+                downBestBid: price.downBestBid ?? null,
+                upSpread: price.upSpread ?? null,
+                downSpread: price.downSpread ?? null,
+                upBidSize: price.upBidSize ?? null,
+                upAskSize: price.upAskSize ?? null,
+                downBidSize: price.downBidSize ?? null,
+                downAskSize: price.downAskSize ?? null,
             });
 
             await this.client!.set(key, value);
@@ -260,6 +295,52 @@ export class RedisService {
         }
     }
 
+    /**
+     * Append a last-trade print for a slug
+     * Key format: trade_prints:{slug} (list, in arrival order)
+     */
+    public async saveTradePrint(trade: TradePrint): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            await this.client!.rPush(`trade_prints:${trade.slug}`, JSON.stringify(trade));
+        } catch (error) {
+            logger.error('Error saving trade print to Redis:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get all trade prints for a slug, sorted by timestamp
+     */
+    public async getTradePrintsBySlug(slug: string): Promise<TradePrint[]> {
+        this.ensureConnected();
+
+        try {
+            const values = await this.client!.lRange(`trade_prints:${slug}`, 0, -1);
+            return values
+                .map(value => JSON.parse(value) as TradePrint)
+                .sort((a, b) => a.timestamp - b.timestamp);
+        } catch (error) {
+            logger.error('Error getting trade prints by slug from Redis:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Delete all trade prints for a slug
+     */
+    public async deleteTradePrintsBySlug(slug: string): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            await this.client!.del(`trade_prints:${slug}`);
+        } catch (error) {
+            logger.error('Error deleting trade prints by slug from Redis:', error);
+            throw error;
+        }
+    }
+
     /**
      * Check if Redis is connected
      */
@@ -0,0 +1,436 @@
+import config from '../config';
+import RiskState, { RiskOpenOrder, RiskPosition } from '../models/RiskState';
+import { logger } from '../utils/logger';
+
+// Key of the single persisted RiskState document
+const STATE_KEY = 'global';
+
+// Tolerance when comparing notionals and sizes computed from floats
+const EPSILON = 1e-9;
+
+export interface RiskLimits {
+    maxNotionalPerMarket: number | null; // Buy notional (open + filled) per market, in dollars
+    maxOpenOrders: number | null; // Open orders across all bots
+    maxTotalExposure: number | null; // Buy notional (open + filled) across all bots, in dollars
+    maxDailyLoss: number | null; // Realized loss per UTC day after which buys are rejected, in dollars
+    minOrderSize: number; // Orders shrunk below this size are rejected instead
+}
+
+export const RISK_LIMIT_NAMES: Array<keyof RiskLimits> = [
+    'maxNotionalPerMarket',
+    'maxOpenOrders',
+    'maxTotalExposure',
+    'maxDailyLoss',
+    'minOrderSize',
+];
+
+/**
+ * Order about to be sent to the exchange. Market orders are checked at the best price they take.
+ */
+export interface RiskOrderRequest {
+    botId: string;
+    slug: string;
+    side: 'BUY' | 'SELL';
+    price: number;
+    size: number;
+}
+
+export type RiskDecision =
+    | { approved: true; reservationId: string; size: number } // size may be smaller than requested
+    | { approved: false; reason: string };
+
+export interface RiskKillSwitch {
+    engaged: boolean;
+    reason: string | null;
+    engagedAt: Date | null;
+}
+
+/**
+ * Snapshot of the risk manager for the risk API
+ */
+export interface RiskStatus {
+    limits: RiskLimits;
+    killSwitch: RiskKillSwitch;
+    daily: {
+        date: string;
+        realizedPnl: number;
+        lossLimitReached: boolean;
+    };
+    openOrders: number;
+    totalExposure: number;
+    markets: Array<{ slug: string; exposure: number }>;
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const roundDownSize = (size: number): number => Math.floor(size * 100 + EPSILON) / 100;
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Validate a limits update body: each limit must be a non-negative number, or null to remove it
+ * (minOrderSize cannot be null)
+ */
+export function parseRiskLimitsUpdate(
+    body: Record<string, unknown>
+): { limits: Partial<RiskLimits> } | { error: string; message: string } {
+    const limits: Partial<RiskLimits> = {};
+    for (const [name, value] of Object.entries(body)) {
+        if (!RISK_LIMIT_NAMES.includes(name as keyof RiskLimits)) {
+            return { error: 'Invalid limit', message: `Unknown limit "${name}"; expected one of: ${RISK_LIMIT_NAMES.join(', ')}` };
+        }
+        if (value === null && name !== 'minOrderSize') {
+            (limits as Record<string, number | null>)[name] = null;
+            continue;
+        }
+        if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+            return { error: 'Invalid limit', message: `${name} must be a non-negative number${name !== 'minOrderSize' ? ' or null' : ''}` };
+        }
+        (limits as Record<string, number | null>)[name] = value;
+    }
+    if (Object.keys(limits).length === 0) {
+        return { error: 'Invalid limits', message: `Body must set at least one of: ${RISK_LIMIT_NAMES.join(', ')}` };
+    }
+    return { limits };
+}
+
+/**
+ * RiskManager - checks every order of every bot before it reaches the exchange
+ *
+ * Buys count towards the per-market and total exposure limits (open notional plus filled notional,
+ * released when the bot's market ends) and are rejected once the day's realized loss reaches the
+ * daily limit. Orders that would break an exposure limit are shrunk to the remaining headroom, or
+ * rejected if that leaves less than minOrderSize. The kill switch rejects every order.
+ *
+ * Checks are synchronous, so concurrent orders of different bots cannot both use the same headroom.
+ * State is persisted to the RiskState collection and reloaded on start.
+ */
+export class RiskManager {
+    private limitOverrides: Partial<RiskLimits> = {};
+    private killSwitch: RiskKillSwitch = { engaged: false, reason: null, engagedAt: null };
+    private daily = { date: today(), realizedPnl: 0 };
+    private positions: RiskPosition[] = [];
+    private openOrders: Map<string, RiskOpenOrder> = new Map(); // order (or reservation) ID -> order
+    private nextReservationId: number = 0;
+    private started: boolean = false;
+    private saving: Promise<void> | null = null;
+    private savePending: boolean = false;
+
+    /**
+     * Load the persisted state; changes are only persisted once started
+     */
+    public async start(): Promise<void> {
+        const state = await RiskState.findOne({ key: STATE_KEY }).lean();
+        if (state) {
+            this.limitOverrides = (state.limits ?? {}) as Partial<RiskLimits>;
+            this.killSwitch = {
+                engaged: state.killSwitch?.engaged ?? false,
+                reason: state.killSwitch?.reason ?? null,
+                engagedAt: state.killSwitch?.engagedAt ?? null,
+            };
+            this.daily = { date: state.daily?.date || today(), realizedPnl: state.daily?.realizedPnl ?? 0 };
+            this.positions = (state.positions ?? []).map(position => ({ ...position }));
+            this.openOrders = new Map((state.openOrders ?? []).map(order => [order.orderId, { ...order }]));
+        }
+        this.started = true;
+
+        logger.info(`🛡️ Risk manager started: ${JSON.stringify(this.getLimits())}`);
+        if (this.killSwitch.engaged) {
+            logger.warn(`🚨 Kill switch is engaged${this.killSwitch.reason ? `: ${this.killSwitch.reason}` : ''}`);
+        }
+    }
+
+    /**
+     * Wait for pending state writes
+     */
+    public async stop(): Promise<void> {
+        while (this.saving) {
+            await this.saving;
+        }
+    }
+
+    public getLimits(): RiskLimits {
+        return { ...config.risk, ...this.limitOverrides };
+    }
+
+    public setLimits(limits: Partial<RiskLimits>): RiskLimits {
+        this.limitOverrides = { ...this.limitOverrides, ...limits };
+        this.persist();
+        logger.info(`🛡️ Risk limits updated: ${JSON.stringify(this.getLimits())}`);
+        return this.getLimits();
+    }
+
+    public isKillSwitchEngaged(): boolean {
+        return this.killSwitch.engaged;
+    }
+
+    public engageKillSwitch(reason: string | null = null): void {
+        this.killSwitch = { engaged: true, reason, engagedAt: new Date() };
+        this.persist();
+        logger.warn(`🚨 Kill switch engaged${reason ? `: ${reason}` : ''}`);
+    }
+
+    public disengageKillSwitch(): void {
+        this.killSwitch = { engaged: false, reason: null, engagedAt: null };
+        this.persist();
+        logger.info('🛡️ Kill switch disengaged');
+    }
+
+    /**
+     * Check an order against the limits. An approved order is counted as open right away under
+     * a reservation ID; call confirmOrder() once the exchange accepted it, or cancelReservation().
+     */
+    public reserveOrder(request: RiskOrderRequest): RiskDecision {
+        const label = `${request.side} ${request.size} @ ${request.price} (${request.botId}, ${request.slug})`;
+        const reject = (reason: string): RiskDecision => {
+            logger.warn(`🛑 Risk check rejected ${label}: ${reason}`);
+            return { approved: false, reason };
+        };
+
+        if (this.killSwitch.engaged) {
+            return reject(`kill switch engaged${this.killSwitch.reason ? ` (${this.killSwitch.reason})` : ''}`);
+        }
+
+        const limits = this.getLimits();
+        if (limits.maxOpenOrders !== null && this.openOrders.size >= limits.maxOpenOrders) {
+            return reject(`${this.openOrders.size} open orders, limit is ${limits.maxOpenOrders}`);
+        }
+
+        let size = request.size;
+        if (request.side === 'BUY') {
+            this.rollDailyPnl();
+            const dailyLoss = -this.daily.realizedPnl;
+            if (limits.maxDailyLoss !== null && dailyLoss >= limits.maxDailyLoss - EPSILON) {
+                return reject(`daily loss $${roundCents(dailyLoss)} reached the limit $${limits.maxDailyLoss}`);
+            }
+
+            const headrooms: Array<{ limit: string; headroom: number }> = [];
+            if (limits.maxNotionalPerMarket !== null) {
+                headrooms.push({
+                    limit: `market notional limit $${limits.maxNotionalPerMarket}`,
+                    headroom: limits.maxNotionalPerMarket - this.getMarketExposure(request.slug),
+                });
+            }
+            if (limits.maxTotalExposure !== null) {
+                headrooms.push({
+                    limit: `total exposure limit $${limits.maxTotalExposure}`,
+                    headroom: limits.maxTotalExposure - this.getTotalExposure(),
+                });
+            }
+
+            // The smallest headroom binds
+            const binding = headrooms.sort((a, b) => a.headroom - b.headroom)[0];
+            if (binding && request.price * size > binding.headroom + EPSILON) {
+                const maxSize = binding.headroom > 0 ? roundDownSize(binding.headroom / request.price) : 0;
+                const reason = `$${roundCents(Math.max(binding.headroom, 0))} left under the ${binding.limit}`;
+                if (maxSize <= 0 || maxSize < limits.minOrderSize) {
+                    return reject(reason);
+                }
+                logger.warn(`✂️ Risk check shrank ${label} to ${maxSize}: ${reason}`);
+                size = maxSize;
+            }
+        }
+
+        const reservationId = `reservation-${Date.now()}-${++this.nextReservationId}`;
+        this.openOrders.set(reservationId, {
+            orderId: reservationId,
+            botId: request.botId,
+            slug: request.slug,
+            side: request.side,
+            price: request.price,
+            size,
+            sizeMatched: 0,
+        });
+        this.persist();
+        return { approved: true, reservationId, size };
+    }
+
+    /**
+     * The reserved order was accepted by the exchange under orderId
+     */
+    public confirmOrder(reservationId: string, orderId: string): void {
+        const order = this.openOrders.get(reservationId);
+        if (!order) {
+            return;
+        }
+        this.openOrders.delete(reservationId);
+        this.openOrders.set(orderId, { ...order, orderId });
+        this.persist();
+    }
+
+    /**
+     * The reserved order was not placed
+     */
+    public cancelReservation(reservationId: string): void {
+        if (this.openOrders.delete(reservationId)) {
+            this.persist();
+        }
+    }
+
+    /**
+     * Order update from a bot's OrderManager: fills move notional from the open order to the
+     * market position; closed orders stop counting as open
+     */
+    public updateOrder(orderId: string, sizeMatched: number, closed: boolean): void {
+        const order = this.openOrders.get(orderId);
+        if (!order) {
+            return;
+        }
+
+        const matched = Math.min(sizeMatched, order.size);
+        if (matched > order.sizeMatched) {
+            this.applyFill(order, matched - order.sizeMatched);
+            order.sizeMatched = matched;
+        }
+        if (closed) {
+            this.openOrders.delete(orderId);
+        }
+        this.persist();
+    }
+
+    /**
+     * Add realized P&L to the day's total: confirmed sells and settlements, from the P&L ledger
+     */
+    public recordRealizedPnl(pnl: number): void {
+        this.rollDailyPnl();
+        this.daily.realizedPnl = roundCents(this.daily.realizedPnl + pnl);
+        this.persist();
+
+        const maxDailyLoss = this.getLimits().maxDailyLoss;
+        if (maxDailyLoss !== null && -this.daily.realizedPnl >= maxDailyLoss - EPSILON) {
+            logger.warn(`🛑 Daily loss $${-this.daily.realizedPnl} reached the limit $${maxDailyLoss}: buys are rejected until tomorrow (UTC)`);
+        }
+    }
+
+    /**
+     * Stop counting a bot's position and orders in a market once the market has ended. Orders in
+     * openOrderIds may still be resting (e.g. their cancel failed): they keep counting until an
+     * update closes them.
+     */
+    public releaseMarket(botId: string, slug: string, openOrderIds: string[] = []): void {
+        this.positions = this.positions.filter(position => position.botId !== botId || position.slug !== slug);
+        for (const [orderId, order] of this.openOrders) {
+            if (order.botId === botId && order.slug === slug && !openOrderIds.includes(orderId)) {
+                this.openOrders.delete(orderId);
+            }
+        }
+        this.persist();
+    }
+
+    public getMarketExposure(slug: string): number {
+        const filled = this.positions
+            .filter(position => position.slug === slug)
+            .reduce((sum, position) => sum + position.notional, 0);
+        let open = 0;
+        for (const order of this.openOrders.values()) {
+            if (order.slug === slug) {
+                open += this.getOpenNotional(order);
+            }
+        }
+        return filled + open;
+    }
+
+    public getTotalExposure(): number {
+        const filled = this.positions.reduce((sum, position) => sum + position.notional, 0);
+        let open = 0;
+        for (const order of this.openOrders.values()) {
+            open += this.getOpenNotional(order);
+        }
+        return filled + open;
+    }
+
+    public getStatus(): RiskStatus {
+        this.rollDailyPnl();
+        const limits = this.getLimits();
+        const slugs = new Set([
+            ...this.positions.map(position => position.slug),
+            ...Array.from(this.openOrders.values()).map(order => order.slug),
+        ]);
+
+        return {
+            limits,
+            killSwitch: { ...this.killSwitch },
+            daily: {
+                ...this.daily,
+                lossLimitReached: limits.maxDailyLoss !== null && -this.daily.realizedPnl >= limits.maxDailyLoss - EPSILON,
+            },
+            openOrders: this.openOrders.size,
+            totalExposure: roundCents(this.getTotalExposure()),
+            markets: Array.from(slugs)
+                .sort()
+                .map(slug => ({ slug, exposure: roundCents(this.getMarketExposure(slug)) })),
+        };
+    }
+
+    private getOpenNotional(order: RiskOpenOrder): number {
+        return order.side === 'BUY' ? order.price * (order.size - order.sizeMatched) : 0;
+    }
+
+    /**
+     * Buys add to the bot's position in the market, sells reduce it
+     */
+    private applyFill(order: RiskOpenOrder, size: number): void {
+        let position = this.positions.find(p => p.botId === order.botId && p.slug === order.slug);
+        if (!position) {
+            position = { botId: order.botId, slug: order.slug, notional: 0 };
+            this.positions.push(position);
+        }
+        const notional = order.price * size;
+        position.notional = Math.max(position.notional + (order.side === 'BUY' ? notional : -notional), 0);
+    }
+
+    /**
+     * Start a new day's P&L after midnight (UTC)
+     */
+    private rollDailyPnl(): void {
+        const date = today();
+        if (this.daily.date !== date) {
+            this.daily = { date, realizedPnl: 0 };
+            this.persist();
+        }
+    }
+
+    /**
+     * Write the state in the background; writes are serialized and coalesced
+     */
+    private persist(): void {
+        if (!this.started) {
+            return;
+        }
+        if (this.saving) {
+            this.savePending = true;
+            return;
+        }
+
+        this.saving = (async () => {
+            try {
+                await RiskState.updateOne({ key: STATE_KEY }, {
+                    $set: {
+                        limits: this.limitOverrides,
+                        killSwitch: this.killSwitch,
+                        daily: this.daily,
+                        positions: this.positions,
+                        openOrders: Array.from(this.openOrders.values()),
+                    },
+                }, { upsert: true });
+            } catch (error) {
+                logger.error('Error saving risk state:', error);
+            }
+        })().finally(() => {
+            this.saving = null;
+            if (this.savePending) {
+                this.savePending = false;
+                this.persist();
+            }
+        });
+    }
+}
+
+let riskManagerInstance: RiskManager | null = null;
+
+export const getRiskManager = (): RiskManager => {
+    if (!riskManagerInstance) {
+        riskManagerInstance = new RiskManager();
+    }
+    return riskManagerInstance;
+};
@@ -2,44 +2,150 @@ import config from "../config";
 import { logger } from "../utils/logger";
 import { getPolymarketCredentials } from "../utils/polymarketCredentials";
 import { CoinSymbol } from "./CoinMonitor";
-import { MarketInterval, MarketMonitor, MarketMonitorEvent, MarketInfo, TokenPrice } from "./MarketMonitor";
-import { OrderMessage, Outcome, TradeMessage, UserMonitor, UserMonitorEvents } from "./UserMonitor";
+import { LastTradePrice, MarketInterval, MarketMonitor, MarketMonitorEvent, MarketInfo, TokenPrice } from "./MarketMonitor";
+import { Outcome, UserMonitor } from "./UserMonitor";
+import { isTerminal, OrderInfo, OrderManager, OrderManagerEvent, OrderStatus, TradeEvent } from "./OrderManager";
+import { PaperExchange } from "./PaperExchange";
 import { Chain, ClobClient, Side, OrderType, OrderResponse } from "@polymarket/clob-client";
 import { Wallet } from '@ethersproject/wallet';
 import { getRedisService, TokenPrice as RedisTokenPrice } from "./RedisService";
 import TokenPriceHistory from "../models/TokenPriceHistory";
+import TradePrint from "../models/TradePrint";
+import BotState, { BotStateFill } from "../models/BotState";
+import { getBacktestJobService } from "./BacktestJobService";
+import { getRiskManager } from "./RiskManager";
+import { getPnlLedger } from "./PnlLedger";
+import { getRedemptionService } from "./RedemptionService";
+import { roundDownToTick, roundUpToTick, toClobTickSize } from "../utils/tickSize";
+import { createStrategy, GridHedgeStrategy, Strategy, StrategyContext, StrategyFill, StrategyMarket, StrategyName, StrategyOrder, StrategyTick, TokenSide, validateStrategyParams } from "../strategies";
 
-interface OrderInfo {
-    assetId: string;
-    side: Side;
-    outcome: Outcome;
-    price: number;
-    size: number;
-    amount: number;
-    sizeMatched: number;
-    isMarketOrder: boolean;
+/**
+ * Snapshot of a running bot for the bot control API
+ */
+export interface TradingBotStatus {
+    coinSymbol: CoinSymbol;
+    marketInterval: MarketInterval;
+    strategy: StrategyName;
+    strategyParams: object;
+    pendingStrategyParams: object | null; // Applied when the next market starts
+    paperTrading: boolean;
+    paused: boolean;
+    currentSlug: string | null;
+    marketInfo: MarketInfo | null;
+    startCoinPrice: number | null;
+    coinPriceBias: number | null;
+    capitalLimit: number | null;
+    committedCapital: number;
+    openOrders: OrderInfo[];
+}
+
+/**
+ * Order accepted by the exchange, with the size approved by the risk manager
+ */
+export interface PlacedOrder {
+    orderId: string;
+    size: number; // Shares for limit orders, the amount for market orders
+}
+
+interface StrategyOrderRef {
+    strategyOrderId: string;
+    tokenType: TokenSide;
+    reservedCapital: number; // Capital reserved against the capital limit (in dollars)
+}
+
+/**
+ * Time a trade matched: the User Channel and the CLOB REST API send Unix seconds, the paper
+ * exchange milliseconds. Falls back to now when the value cannot be parsed.
+ */
+function parseMatchTime(matchTime: string): Date {
+    const value = Number(matchTime);
+    if (!matchTime || isNaN(value)) {
+        const date = new Date(matchTime);
+        return isNaN(date.getTime()) ? new Date() : date;
+    }
+    // 1e12 seconds is the year 33658, 1e12 milliseconds is 2001
+    return new Date(value < 1e12 ? value * 1000 : value);
 }
 
 export class TradingBot {
+    public readonly botId: string;
     private userMonitor: UserMonitor;
+    public readonly orderManager: OrderManager;
     private marketMonitor: MarketMonitor;
     private clobClient: ClobClient | null = null;
-    private firstOrder: OrderInfo | null = null;
-    private secondOrder: OrderInfo | null = null;
-    private firstOrderCount: number = 0;
-    private secondOrderCount: number = 0;
+    private paperExchange: PaperExchange | null = null;
+    private strategy: Strategy;
+    private pendingStrategy: Strategy | null = null;
+    private paused: boolean = false;
+    private strategyContext: StrategyContext;
+    private strategyMarket: StrategyMarket | null = null;
+    private lastTick: StrategyTick | null = null;
+    private nextStrategyOrderId: number = 0;
+    private strategyOrderIds: Map<string, string> = new Map(); // strategy order ID -> exchange order ID
+    private strategyOrders: Map<string, StrategyOrderRef> = new Map(); // exchange order ID -> strategy order
+    private pendingCancels: Set<string> = new Set();
+    private capitalLimit: number | null;
+    private committedCapital: number = 0; // Capital committed to buys in the current market (in dollars)
     private redisService = getRedisService();
     private currentSlug: string | null = null;
     private coinSymbol: CoinSymbol;
     private marketInterval: MarketInterval;
     private currentCoinPriceBias: number | null = null;
+    private riskManager = getRiskManager();
+    private pnlLedger = getPnlLedger();
+    private marketsByAsset: Map<string, MarketInfo> = new Map(); // Current and previous market, for late trade confirmations
+    private clobClientReady: Promise<void> = Promise.resolve();
+    private strategyFills: BotStateFill[] = []; // Fills reported to the strategy in the current market
+    // BotState persistence (only once the saved state has been loaded, so it is not overwritten before it is resumed)
+    private stateLoaded: boolean = false;
+    private stateSaving: Promise<void> | null = null;
+    private stateSavePending: boolean = false;
+    private lastSavedState: string | null = null;
+    private marketCloseTimer: NodeJS.Timeout | null = null;
+    private closingSlug: string | null = null; // Market whose end-of-market policy has run (no new orders)
+    private marketClosing: Promise<void> | null = null; // End-of-market policy in progress
+    // Market being started while the previous one finishes closing, and its ticks received meanwhile
+    private rolloverSlug: string | null = null;
+    private rolloverTicks: Array<{ marketInfo: MarketInfo; priceChange: { yesPrice: TokenPrice, noPrice: TokenPrice }; receivedAt: Date }> = [];
 
-    constructor(symbol: CoinSymbol, marketInterval: MarketInterval) {
+    constructor(
+        botId: string,
+        symbol: CoinSymbol,
+        marketInterval: MarketInterval,
+        strategy: Strategy = new GridHedgeStrategy(),
+        paperTrading: boolean = config.paperTrading,
+        capitalLimit: number | null = null
+    ) {
+        this.botId = botId;
         this.coinSymbol = symbol;
         this.marketInterval = marketInterval;
+        this.strategy = strategy;
+        this.capitalLimit = capitalLimit;
+        this.strategyContext = {
+            placeOrder: (order: StrategyOrder) => this.placeStrategyOrder(order),
+            cancelOrder: (orderId: string) => this.cancelStrategyOrder(orderId),
+            getOrderBook: (tokenType: TokenSide) => {
+                const marketInfo = this.marketMonitor.curMarketInfo;
+                if (!marketInfo) {
+                    return null;
+                }
+                return this.marketMonitor.getOrderBook(tokenType === 'up' ? marketInfo.yesAssetId : marketInfo.noAssetId);
+            },
+        };
         this.userMonitor = new UserMonitor();
         this.marketMonitor = new MarketMonitor(symbol, marketInterval);
-        this.initClobClient();
+
+        if (paperTrading) {
+            // Orders go to the simulated exchange, which also emits the order/trade messages
+            this.paperExchange = new PaperExchange(botId, this.marketMonitor, symbol, marketInterval);
+            this.orderManager = new OrderManager(this.paperExchange, () => null);
+            logger.info(`📝 Paper trading enabled for ${symbol} (${marketInterval})`);
+        } else {
+            this.orderManager = new OrderManager(this.userMonitor, () => this.clobClient);
+            this.clobClientReady = this.initClobClient().catch(error => {
+                logger.error('Failed to initialize ClobClient:', error);
+            });
+        }
     }
 
     public async start(): Promise<void> {
@@ -52,11 +158,8 @@ export class TradingBot {
         }
 
         await this.marketMonitor.start();
-        await this.userMonitor.connect();
-
-        // Initialize current slug from initial market info
-        if (this.marketMonitor.curMarketInfo) {
-            this.currentSlug = this.marketMonitor.curMarketInfo.slug;
+        if (!this.paperExchange) {
+            await this.userMonitor.connect();
         }
 
         this.marketMonitor.on(MarketMonitorEvent.PRICE_CHANGE, (priceChange: { yesPrice: TokenPrice, noPrice: TokenPrice }) => {
@@ -69,21 +172,141 @@ export class TradingBot {
         this.marketMonitor.on(MarketMonitorEvent.MARKET_UPDATED, (marketInfo: MarketInfo | null) => {
             this.handleMarketUpdated(marketInfo);
         });
-
-        // Handle raw ORDER messages from WebSocket
-        this.userMonitor.on(UserMonitorEvents.ORDER_MESSAGE, (order: OrderMessage) => {
-            this.handleOrderMessage(order);
+        this.marketMonitor.on(MarketMonitorEvent.LAST_TRADE_PRICE, (lastTradePrice: LastTradePrice) => {
+            this.handleLastTradePrice(lastTradePrice);
         });
 
-        // Handle raw TRADE messages from WebSocket
-        this.userMonitor.on(UserMonitorEvents.TRADE_MESSAGE, (trade: TradeMessage) => {
-            this.handleTradeMessage(trade);
+        // Order lifecycle events (driven by User Channel ORDER/TRADE messages)
+        this.orderManager.on(OrderManagerEvent.ORDER_FILLED, (order) => {
+            this.handleOrderFilled(order);
+        });
+        this.orderManager.on(OrderManagerEvent.ORDER_CANCELLED, (order) => {
+            this.handleOrderCancelled(order);
+        });
+        this.orderManager.on(OrderManagerEvent.ORDER_UPDATED, (order) => {
+            this.riskManager.updateOrder(order.orderId, order.sizeMatched, isTerminal(order.status));
+            this.persistState();
+        });
+        this.orderManager.on(OrderManagerEvent.TRADE_CONFIRMED, (tradeEvent) => {
+            this.handleTradeConfirmed(tradeEvent);
         });
+
+        // Resume the market saved before a restart, or start the strategy on the current market
+        const marketInfo = this.marketMonitor.curMarketInfo;
+        if (marketInfo) {
+            this.currentSlug = marketInfo.slug;
+            await this.resumeStrategyMarket(marketInfo);
+        } else {
+            this.stateLoaded = true;
+        }
     }
 
-    public async stop(): Promise<void> {
+    /**
+     * Stop the bot. With endMarket true its resting orders are cancelled (and the cancels confirmed)
+     * before the strategy's market ends. With endMarket false (process shutdown) the strategy and its
+     * orders are left running on the market and its saved state is kept, so the next start resumes it.
+     */
+    public async stop(endMarket: boolean = true): Promise<void> {
+        this.clearMarketCloseTimer();
+        if (endMarket) {
+            if (this.marketClosing) {
+                await this.marketClosing;
+            }
+            // No new orders while the resting ones are cancelled
+            this.paused = true;
+            await this.cancelOpenOrders('on stop');
+            this.endStrategyMarket();
+        }
         await this.marketMonitor.stop();
-        await this.userMonitor.disconnect();
+        if (!this.paperExchange) {
+            await this.userMonitor.disconnect();
+        }
+
+        // Wait for pending state writes
+        while (this.stateSaving) {
+            await this.stateSaving;
+        }
+    }
+
+    /**
+     * Pause the strategy: price ticks are ignored and no new orders are placed until resumed
+     */
+    public pause(): void {
+        this.paused = true;
+        logger.info(`⏸️ ${this.strategy.name} strategy paused for ${this.coinSymbol} (${this.marketInterval})`);
+    }
+
+    public resume(): void {
+        this.paused = false;
+        logger.info(`▶️ ${this.strategy.name} strategy resumed for ${this.coinSymbol} (${this.marketInterval})`);
+    }
+
+    /**
+     * Change strategy parameters. The strategy keeps its state for the current market, so the new
+     * parameters are applied when the next market starts (immediately if no market is running).
+     */
+    public updateStrategyParams(params: Record<string, unknown>): object {
+        const errors = validateStrategyParams(this.strategy.name, params);
+        if (errors.length > 0) {
+            throw new Error(errors.join('; '));
+        }
+
+        const currentParams = (this.pendingStrategy ?? this.strategy).params;
+        const strategy = createStrategy(this.strategy.name, { ...currentParams, ...params });
+        if (this.strategyMarket) {
+            this.pendingStrategy = strategy;
+        } else {
+            this.strategy = strategy;
+        }
+
+        logger.info(`⚙️ ${this.strategy.name} params updated for ${this.coinSymbol} (${this.marketInterval}): ${JSON.stringify(strategy.params)}`);
+        return strategy.params;
+    }
+
+    /**
+     * Emergency cancel-all: pauses the strategy and cancels every open order on the account
+     * (or on the paper exchange). Orders still being placed are cancelled once acknowledged.
+     */
+    public async cancelAllOrders(): Promise<void> {
+        this.pause();
+
+        if (this.paperExchange) {
+            const orderIds = await this.paperExchange.cancelAll();
+            logger.warn(`🚨 Cancelled ${orderIds.length} paper orders`);
+            return;
+        }
+
+        if (!this.clobClient) {
+            throw new Error('ClobClient not initialized');
+        }
+
+        try {
+            const response = await this.clobClient.cancelAll();
+            logger.warn(`🚨 Cancelled all orders: ${JSON.stringify(response)}`);
+        } catch (error) {
+            logger.error('Error canceling all orders:', error);
+            throw error;
+        }
+    }
+
+    public getStatus(): TradingBotStatus {
+        const { curMarketInfo, startCoinPrice } = this.marketMonitor;
+        return {
+            coinSymbol: this.coinSymbol,
+            marketInterval: this.marketInterval,
+            strategy: this.strategy.name,
+            strategyParams: this.strategy.params,
+            pendingStrategyParams: this.pendingStrategy?.params ?? null,
+            paperTrading: this.paperExchange !== null,
+            paused: this.paused,
+            currentSlug: this.currentSlug,
+            marketInfo: curMarketInfo,
+            startCoinPrice: startCoinPrice?.price ?? null,
+            coinPriceBias: this.currentCoinPriceBias,
+            capitalLimit: this.capitalLimit,
+            committedCapital: Math.round(this.committedCapital * 100) / 100,
+            openOrders: this.orderManager.getOpenOrders(),
+        };
     }
 
     private async initClobClient(): Promise<void> {
@@ -119,7 +342,50 @@ export class TradingBot {
         price: number,
         size: number,
         orderType: OrderType.GTC | OrderType.GTD = OrderType.GTC
+    ): Promise<PlacedOrder> {
+        // Round to the asset's current tick: buys round down and sells round up, so the limit is never worse
+        const tickSize = this.marketMonitor.getTickSize(assetId);
+        price = side === Side.BUY ? roundDownToTick(price, tickSize) : roundUpToTick(price, tickSize);
+        if (price <= 0 || price >= 1) {
+            throw new Error(`Price ${price} is outside the valid range for tick size ${tickSize}`);
+        }
+
+        // The risk manager may shrink the order or reject it
+        const decision = this.riskManager.reserveOrder({
+            botId: this.botId,
+            slug: this.getSlugForAsset(assetId),
+            side: side === Side.BUY ? 'BUY' : 'SELL',
+            price,
+            size,
+        });
+        if (!decision.approved) {
+            throw new Error(`Order rejected by risk manager: ${decision.reason}`);
+        }
+        size = decision.size;
+
+        let orderId: string;
+        try {
+            orderId = await this.postLimitOrder(assetId, side, price, size, tickSize, orderType);
+        } catch (error) {
+            this.riskManager.cancelReservation(decision.reservationId);
+            throw error;
+        }
+        this.riskManager.confirmOrder(decision.reservationId, orderId);
+        return { orderId, size };
+    }
+
+    private async postLimitOrder(
+        assetId: string,
+        side: Side,
+        price: number,
+        size: number,
+        tickSize: number,
+        orderType: OrderType.GTC | OrderType.GTD
     ): Promise<string> {
+        if (this.paperExchange) {
+            return this.paperExchange.placeLimitOrder(assetId, side, price, size);
+        }
+
         if (!this.clobClient) {
             throw new Error('ClobClient not initialized');
         }
@@ -132,7 +398,7 @@ export class TradingBot {
                     price: price,
                     size: size
                 },
-                {},
+                { tickSize: toClobTickSize(tickSize) },
                 orderType,
                 false
             );
@@ -149,12 +415,58 @@ export class TradingBot {
         }
     }
 
+    /**
+     * Place a market order: amount is in dollars for buys and in shares for sells. The caller tracks
+     * the returned order with the OrderManager, whose updates report its matched size to the risk manager.
+     */
     public async placeMarketOrder(
         assetId: string,
         side: Side,
         amount: number,
         orderType: OrderType.FOK | OrderType.FAK = OrderType.FOK
+    ): Promise<PlacedOrder> {
+        // Checked in shares at the best price the order takes
+        const orderBook = this.marketMonitor.getOrderBook(assetId);
+        const price = side === Side.BUY ? orderBook?.getBestAsk() : orderBook?.getBestBid();
+        if (!price) {
+            throw new Error(`No best ${side === Side.BUY ? 'ask' : 'bid'} for ${assetId} to place a market order`);
+        }
+        const size = side === Side.BUY ? amount / price : amount;
+        const decision = this.riskManager.reserveOrder({
+            botId: this.botId,
+            slug: this.getSlugForAsset(assetId),
+            side: side === Side.BUY ? 'BUY' : 'SELL',
+            price,
+            size,
+        });
+        if (!decision.approved) {
+            throw new Error(`Order rejected by risk manager: ${decision.reason}`);
+        }
+        if (decision.size < size) {
+            amount = side === Side.BUY ? Math.floor(decision.size * price * 100) / 100 : decision.size;
+        }
+
+        let orderId: string;
+        try {
+            orderId = await this.postMarketOrder(assetId, side, amount, orderType);
+        } catch (error) {
+            this.riskManager.cancelReservation(decision.reservationId);
+            throw error;
+        }
+        this.riskManager.confirmOrder(decision.reservationId, orderId);
+        return { orderId, size: amount };
+    }
+
+    private async postMarketOrder(
+        assetId: string,
+        side: Side,
+        amount: number,
+        orderType: OrderType.FOK | OrderType.FAK
     ): Promise<string> {
+        if (this.paperExchange) {
+            return this.paperExchange.placeMarketOrder(assetId, side, amount);
+        }
+
         if (!this.clobClient) {
             throw new Error('ClobClient not initialized');
         }
@@ -184,7 +496,22 @@ export class TradingBot {
         }
     }
 
+    /**
+     * Slug of the market an asset belongs to (the asset ID if it is not the current or previous market's)
+     */
+    private getSlugForAsset(assetId: string): string {
+        const marketInfo = this.marketsByAsset.get(assetId) ?? this.marketMonitor.curMarketInfo;
+        if (marketInfo && (marketInfo.yesAssetId === assetId || marketInfo.noAssetId === assetId)) {
+            return marketInfo.slug;
+        }
+        return assetId;
+    }
+
     public async cancelOrder(orderHash: string): Promise<void> {
+        if (this.paperExchange) {
+            return this.paperExchange.cancelOrder(orderHash);
+        }
+
         if (!this.clobClient) {
             throw new Error('ClobClient not initialized');
         }
@@ -213,12 +540,22 @@ export class TradingBot {
 
         try {
             const timestamp = Date.now();
+            const upTopOfBook = this.getTopOfBookSizes(marketInfo.yesAssetId, priceChange.yesPrice);
+            const downTopOfBook = this.getTopOfBookSizes(marketInfo.noAssetId, priceChange.noPrice);
             const redisPrice: RedisTokenPrice = {
                 slug: marketInfo.slug,
                 timestamp: timestamp,
                 upTokenPrice: priceChange.yesPrice.bestAsk,
                 downTokenPrice: priceChange.noPrice.bestAsk,
                 coinPriceBias: this.currentCoinPriceBias ?? undefined,
+                upBestBid: priceChange.yesPrice.bestBid,
+                downBestBid: priceChange.noPrice.bestBid,
+                upSpread: Math.round((priceChange.yesPrice.bestAsk - priceChange.yesPrice.bestBid) * 10000) / 10000,
+                downSpread: Math.round((priceChange.noPrice.bestAsk - priceChange.noPrice.bestBid) * 10000) / 10000,
+                upBidSize: upTopOfBook.bidSize,
+                upAskSize: upTopOfBook.askSize,
+                downBidSize: downTopOfBook.bidSize,
+                downAskSize: downTopOfBook.askSize,
             };
 
             // Save to Redis (both with timestamp and as latest)
@@ -227,24 +564,727 @@ export class TradingBot {
         } catch (error) {
             logger.error('Error saving token price to Redis:', error);
         }
+
+        this.runStrategy(marketInfo, priceChange);
+    }
+
+    /**
+     * Sizes resting at the best bid/ask of a token, or null if its order book has not been received
+     */
+    private getTopOfBookSizes(assetId: string, price: TokenPrice): { bidSize: number | null; askSize: number | null } {
+        const orderBook = this.marketMonitor.getOrderBook(assetId);
+        if (!orderBook) {
+            return { bidSize: null, askSize: null };
+        }
+        return {
+            bidSize: orderBook.getSizeAtPrice('bid', price.bestBid),
+            askSize: orderBook.getSizeAtPrice('ask', price.bestAsk),
+        };
+    }
+
+    /**
+     * Feed a price tick to the strategy (best ask and best bid of each token, as in the backtests).
+     * Ticks of a market that is not started yet because the previous one is still closing are
+     * delivered once it starts.
+     */
+    private runStrategy(marketInfo: MarketInfo, priceChange: { yesPrice: TokenPrice, noPrice: TokenPrice }, receivedAt: Date = new Date()): void {
+        if (this.paused || (!this.clobClient && !this.paperExchange)) {
+            return;
+        }
+        if (this.rolloverSlug === marketInfo.slug) {
+            this.rolloverTicks.push({ marketInfo, priceChange, receivedAt });
+            return;
+        }
+        if (!this.strategyMarket || this.strategyMarket.slug !== marketInfo.slug) {
+            return;
+        }
+        if (!priceChange.yesPrice || !priceChange.noPrice) {
+            return;
+        }
+
+        const tick: StrategyTick = {
+            timestamp: receivedAt.toISOString(),
+            upTokenPrice: priceChange.yesPrice.bestAsk,
+            downTokenPrice: priceChange.noPrice.bestAsk,
+            coinPriceBias: this.currentCoinPriceBias ?? undefined,
+            upBestBid: priceChange.yesPrice.bestBid,
+            downBestBid: priceChange.noPrice.bestBid,
+        };
+        this.lastTick = tick;
+        if (this.closingSlug === marketInfo.slug) {
+            return;
+        }
+
+        try {
+            this.strategy.onTick(tick, this.strategyContext);
+        } catch (error) {
+            logger.error(`Error running ${this.strategy.name} strategy on tick:`, error);
+        }
+        this.persistState();
+    }
+
+    private startStrategyMarket(marketInfo: MarketInfo): void {
+        // Parameter changes made during the previous market take effect now
+        if (this.pendingStrategy) {
+            this.strategy = this.pendingStrategy;
+            this.pendingStrategy = null;
+        }
+
+        this.rememberMarketAssets(marketInfo);
+        this.strategyMarket = {
+            slug: marketInfo.slug,
+            eventType: this.marketInterval === MarketInterval.HOURLY ? 'hourly' : '15min',
+        };
+        this.lastTick = null;
+        this.strategyOrderIds.clear();
+        this.strategyOrders.clear();
+        this.pendingCancels.clear();
+        this.strategyFills = [];
+        this.committedCapital = 0;
+        this.strategy.onMarketStart(this.strategyMarket, this.strategyContext);
+        logger.info(`▶️ ${this.strategy.name} strategy started for ${marketInfo.slug}`);
+        this.scheduleMarketClose(marketInfo);
+        this.persistState();
+    }
+
+    /**
+     * Keep the previous market's assets (the oldest entries) for trades confirmed after the rollover
+     */
+    private rememberMarketAssets(marketInfo: MarketInfo): void {
+        this.marketsByAsset.set(marketInfo.yesAssetId, marketInfo);
+        this.marketsByAsset.set(marketInfo.noAssetId, marketInfo);
+        for (const assetId of this.marketsByAsset.keys()) {
+            if (this.marketsByAsset.size <= 4) {
+                break;
+            }
+            this.marketsByAsset.delete(assetId);
+        }
+    }
+
+    /**
+     * Resume the strategy where it stopped if the saved state is for the current market (and the
+     * same strategy), otherwise start it on the market. Resumed orders are reconciled with the
+     * exchange: fills made while the bot was down are reported to the strategy and the P&L ledger.
+     * Orders that were still being placed when the bot stopped cannot be recovered.
+     */
+    private async resumeStrategyMarket(marketInfo: MarketInfo): Promise<void> {
+        const state = await BotState.findOne({ botId: this.botId }).lean();
+        this.stateLoaded = true;
+        await this.clobClientReady;
+
+        // The market rolled over meanwhile and was started by handleMarketUpdated
+        if (this.strategyMarket || this.marketMonitor.curMarketInfo?.slug !== marketInfo.slug) {
+            if (state?.slug) {
+                this.riskManager.releaseMarket(this.botId, state.slug);
+            }
+            this.persistState();
+            return;
+        }
+
+        const resumable = state?.slug === marketInfo.slug
+            && state.strategy === this.strategy.name
+            && JSON.stringify(state.strategyParams) === JSON.stringify(this.strategy.params)
+            && state.strategyState !== null
+            && this.strategy.restoreState !== undefined;
+        if (!state || !resumable) {
+            // The saved market ended (or the strategy changed) while the bot was stopped
+            if (state?.slug) {
+                logger.info(`Saved ${state.strategy} state for ${state.slug} not resumed`);
+                this.riskManager.releaseMarket(this.botId, state.slug);
+            }
+            this.startStrategyMarket(marketInfo);
+            return;
+        }
+
+        this.rememberMarketAssets(marketInfo);
+        this.strategyMarket = {
+            slug: marketInfo.slug,
+            eventType: this.marketInterval === MarketInterval.HOURLY ? 'hourly' : '15min',
+        };
+        this.strategy.restoreState!(this.strategyMarket, state.strategyState!);
+        this.nextStrategyOrderId = state.nextStrategyOrderId;
+        this.committedCapital = state.committedCapital;
+        this.strategyFills = state.fills.map(fill => ({ ...fill }));
+
+        for (const order of state.orders) {
+            this.strategyOrderIds.set(order.strategyOrderId, order.orderId);
+            this.strategyOrders.set(order.orderId, {
+                strategyOrderId: order.strategyOrderId,
+                tokenType: order.tokenType,
+                reservedCapital: order.reservedCapital,
+            });
+            this.orderManager.restoreOrder({
+                orderId: order.orderId,
+                assetId: order.assetId,
+                side: order.side === 'BUY' ? Side.BUY : Side.SELL,
+                outcome: order.tokenType === 'up' ? Outcome.UP : Outcome.DOWN,
+                price: order.price,
+                size: order.size,
+                amount: order.price * order.size,
+                sizeMatched: order.sizeMatched,
+                isMarketOrder: false,
+                status: order.sizeMatched > 0 ? OrderStatus.PARTIALLY_FILLED : OrderStatus.LIVE,
+            });
+        }
+        // Filled orders are tracked again for trades confirmed after the restart
+        for (const fill of state.fills) {
+            this.orderManager.restoreOrder({
+                orderId: fill.orderId,
+                assetId: fill.assetId,
+                side: fill.side === 'BUY' ? Side.BUY : Side.SELL,
+                outcome: fill.tokenType === 'up' ? Outcome.UP : Outcome.DOWN,
+                price: fill.price,
+                size: fill.size,
+                amount: fill.price * fill.size,
+                sizeMatched: fill.size,
+                isMarketOrder: false,
+                status: OrderStatus.FILLED,
+            });
+        }
+        logger.info(`🔁 ${this.strategy.name} strategy resumed for ${marketInfo.slug} with ${state.orders.length} open orders`);
+        this.scheduleMarketClose(marketInfo);
+
+        await this.reconcileResumedOrders(marketInfo, state.orders.map(order => order.orderId));
+        this.persistState();
+    }
+
+    private async reconcileResumedOrders(marketInfo: MarketInfo, orderIds: string[]): Promise<void> {
+        if (this.paperExchange) {
+            // Paper orders only lived in memory: cancel them, reporting partial fills to the strategy
+            for (const orderId of orderIds) {
+                this.orderManager.expireOrder(orderId);
+            }
+            return;
+        }
+
+        if (!this.clobClient) {
+            logger.warn('ClobClient not initialized, resumed orders are reconciled on the next reconnect');
+            return;
+        }
+
+        try {
+            await this.orderManager.reconcile();
+            const trades = await this.clobClient.getTrades({ market: marketInfo.conditionId });
+            this.orderManager.applyTrades(trades);
+        } catch (error) {
+            logger.error(`Error reconciling resumed orders for ${marketInfo.slug}:`, error);
+        }
+    }
+
+    /**
+     * Run the end-of-market policy cancelBeforeExpirySeconds before the market closes
+     * (immediately if the market is already that close to its end)
+     */
+    private scheduleMarketClose(marketInfo: MarketInfo): void {
+        this.clearMarketCloseTimer();
+        const { cancelBeforeExpirySeconds } = config.endOfMarket;
+        if (cancelBeforeExpirySeconds <= 0) {
+            return;
+        }
+
+        const intervalMs = this.marketInterval === MarketInterval.HOURLY ? 60 * 60 * 1000 : 15 * 60 * 1000;
+        const endTime = marketInfo.endTime?.getTime() ?? (marketInfo.startTime ? marketInfo.startTime.getTime() + intervalMs : null);
+        if (endTime === null) {
+            logger.warn(`End time of ${marketInfo.slug} unknown, its orders will not be cancelled before expiry`);
+            return;
+        }
+
+        const delay = Math.max(endTime - cancelBeforeExpirySeconds * 1000 - Date.now(), 0);
+        this.marketCloseTimer = setTimeout(() => {
+            this.marketCloseTimer = null;
+            this.marketClosing = this.closeStrategyMarket(marketInfo).catch(error => {
+                logger.error(`Error running the end-of-market policy for ${marketInfo.slug}:`, error);
+            }).finally(() => {
+                this.marketClosing = null;
+            });
+        }, delay);
+    }
+
+    private clearMarketCloseTimer(): void {
+        if (this.marketCloseTimer) {
+            clearTimeout(this.marketCloseTimer);
+            this.marketCloseTimer = null;
+        }
+    }
+
+    /**
+     * End-of-market policy: stop placing orders, cancel the resting ones, then keep the unhedged
+     * tokens (held beyond the opposite side's holding) to settlement or sell them at market.
+     * Each action is logged and recorded on the bot's ledger positions.
+     */
+    private async closeStrategyMarket(marketInfo: MarketInfo): Promise<void> {
+        if (this.strategyMarket?.slug !== marketInfo.slug) {
+            return;
+        }
+        this.closingSlug = marketInfo.slug;
+        const { unhedgedPolicy } = config.endOfMarket;
+        const assetIds = [marketInfo.yesAssetId, marketInfo.noAssetId];
+
+        logger.info(`⏰ ${marketInfo.slug} is closing: cancelling resting orders, ${unhedgedPolicy === 'flatten' ? 'flattening' : 'holding'} unhedged tokens`);
+        const openOrders = await this.cancelOpenOrders('before expiry', assetIds);
+
+        const holdings = assetIds.map(assetId => Math.max(this.getHolding(assetId), 0));
+        const hedgedSize = Math.min(...holdings);
+        for (const [index, assetId] of assetIds.entries()) {
+            const cancelledOrders = openOrders.filter(order => order.assetId === assetId).length;
+            const unhedgedSize = Math.floor((holdings[index] - hedgedSize) * 100) / 100;
+            if (cancelledOrders === 0 && unhedgedSize <= 0) {
+                continue;
+            }
+
+            const outcome = index === 0 ? 'UP' : 'DOWN';
+            let flattenOrderId: string | null = null;
+            let flattenedSize = 0;
+            if (unhedgedSize > 0 && unhedgedPolicy === 'flatten') {
+                flattenOrderId = await this.flattenPosition(marketInfo, assetId, unhedgedSize);
+                flattenedSize = flattenOrderId ? unhedgedSize : 0;
+            } else if (unhedgedSize > 0) {
+                logger.info(`📌 Holding ${unhedgedSize} unhedged ${outcome} tokens of ${marketInfo.slug} to settlement`);
+            }
+
+            this.pnlLedger.recordMarketClose({
+                botId: this.botId,
+                slug: marketInfo.slug,
+                token: this.coinSymbol.split('/')[0].toUpperCase(),
+                eventType: this.marketInterval === MarketInterval.HOURLY ? 'hourly' : '15min',
+                assetId,
+                outcome,
+                paperTrading: this.paperExchange !== null,
+                timestamp: new Date(),
+                policy: unhedgedPolicy,
+                cancelledOrders,
+                unhedgedSize,
+                flattenedSize,
+                flattenOrderId,
+            });
+        }
+    }
+
+    /**
+     * Cancel the bot's resting orders (of the given assets, or all of them), then reconcile with the
+     * CLOB so their matched sizes are final. Returns the orders that were open.
+     */
+    private async cancelOpenOrders(reason: string, assetIds?: string[]): Promise<OrderInfo[]> {
+        const openOrders = this.orderManager.getOpenOrders().filter(order => !assetIds || assetIds.includes(order.assetId));
+        if (openOrders.length === 0) {
+            return openOrders;
+        }
+
+        await Promise.all(openOrders.map(async order => {
+            try {
+                await this.cancelOrder(order.orderId);
+                logger.info(`🚫 Cancelled ${order.side} ${order.outcome} @ ${order.price} x ${order.size} (${order.sizeMatched} matched) ${reason}`);
+            } catch (error) {
+                logger.error(`Failed to cancel order ${order.orderId} ${reason}:`, error);
+            }
+        }));
+
+        // Matched sizes are final once the cancels are reconciled with the CLOB
+        try {
+            await this.orderManager.reconcile();
+        } catch (error) {
+            logger.error(`Error reconciling orders cancelled ${reason}:`, error);
+        }
+        return openOrders;
+    }
+
+    /**
+     * Tokens of an asset held from this market's tracked orders (bought minus sold)
+     */
+    private getHolding(assetId: string): number {
+        return this.orderManager.getOrders()
+            .filter(order => order.assetId === assetId)
+            .reduce((sum, order) => sum + (order.side === Side.BUY ? order.sizeMatched : -order.sizeMatched), 0);
+    }
+
+    /**
+     * Sell unhedged tokens at market (FAK), returning the order ID or null if it could not be placed
+     */
+    private async flattenPosition(marketInfo: MarketInfo, assetId: string, size: number): Promise<string | null> {
+        const outcome = assetId === marketInfo.yesAssetId ? Outcome.UP : Outcome.DOWN;
+        if (this.paused) {
+            logger.warn(`Not flattening ${size} unhedged ${outcome} tokens of ${marketInfo.slug}: bot is paused`);
+            return null;
+        }
+
+        try {
+            const { orderId, size: soldSize } = await this.placeMarketOrder(assetId, Side.SELL, size, OrderType.FAK);
+            const bestBid = this.marketMonitor.getOrderBook(assetId)?.getBestBid() ?? 0;
+            this.orderManager.trackOrder({
+                orderId,
+                assetId,
+                side: Side.SELL,
+                outcome,
+                price: bestBid,
+                size: soldSize,
+                amount: bestBid * soldSize,
+                isMarketOrder: true,
+            });
+            logger.info(`📤 Flattened ${soldSize} unhedged ${outcome} tokens of ${marketInfo.slug} at market (order ${orderId})`);
+            return orderId;
+        } catch (error) {
+            logger.error(`Failed to flatten ${size} unhedged ${outcome} tokens of ${marketInfo.slug}:`, error);
+            return null;
+        }
+    }
+
+    private endStrategyMarket(): void {
+        this.clearMarketCloseTimer();
+        if (!this.strategyMarket) {
+            return;
+        }
+
+        this.expireStrategyOrders();
+        const result = this.strategy.onMarketEnd({ lastTick: this.lastTick }, this.strategyContext);
+        logger.info(`⏹️ ${this.strategy.name} strategy ended for ${this.strategyMarket.slug}: ${JSON.stringify(result)}`);
+
+        // The market's exposure is released, except for orders still open (a failed cancel); its P&L
+        // reaches the daily loss limit from the P&L ledger
+        const openOrderIds = this.orderManager.getOpenOrders().map(order => order.orderId);
+        this.riskManager.releaseMarket(this.botId, this.strategyMarket.slug, openOrderIds);
+        this.strategyMarket = null;
+        this.persistState();
+    }
+
+    /**
+     * StrategyContext.placeOrder - returns a strategy order ID immediately and places the limit
+     * order asynchronously; the strategy is told through onOrderRejected if placement fails
+     */
+    private placeStrategyOrder(order: StrategyOrder): string {
+        const strategyOrderId = `${this.strategy.name}-${++this.nextStrategyOrderId}`;
+        const market = this.strategyMarket;
+        const marketInfo = this.marketMonitor.curMarketInfo;
+
+        setImmediate(async () => {
+            if (!market || !marketInfo || marketInfo.slug !== market.slug) {
+                logger.warn(`Cannot place ${this.strategy.name} order: market has changed`);
+                this.rejectStrategyOrder(strategyOrderId, market);
+                return;
+            }
+            if (this.paused) {
+                logger.warn(`Skipping ${this.strategy.name} order ${order.side} ${order.tokenType.toUpperCase()} @ ${order.price}: bot is paused`);
+                this.rejectStrategyOrder(strategyOrderId, market);
+                return;
+            }
+            if (this.closingSlug === market.slug) {
+                logger.warn(`Skipping ${this.strategy.name} order ${order.side} ${order.tokenType.toUpperCase()} @ ${order.price}: market is closing`);
+                this.rejectStrategyOrder(strategyOrderId, market);
+                return;
+            }
+            if (order.price <= 0 || order.price >= 1) {
+                logger.warn(`Skipping ${this.strategy.name} order ${order.side} ${order.tokenType.toUpperCase()} @ ${order.price}: invalid price`);
+                this.rejectStrategyOrder(strategyOrderId, market);
+                return;
+            }
+
+            // Buys are reserved against the capital limit until they fill or are cancelled
+            const reservedCapital = order.side === 'BUY' ? order.price * order.size : 0;
+            if (this.capitalLimit !== null && this.committedCapital + reservedCapital > this.capitalLimit) {
+                logger.warn(`Skipping ${this.strategy.name} order ${order.side} ${order.tokenType.toUpperCase()} @ ${order.price}: capital limit $${this.capitalLimit} reached`);
+                this.rejectStrategyOrder(strategyOrderId, market);
+                return;
+            }
+            this.committedCapital += reservedCapital;
+
+            const assetId = order.tokenType === 'up' ? marketInfo.yesAssetId : marketInfo.noAssetId;
+            const side = order.side === 'BUY' ? Side.BUY : Side.SELL;
+            let placedOrder: PlacedOrder;
+            try {
+                placedOrder = await this.placeLimitOrder(assetId, side, order.price, order.size);
+            } catch (error) {
+                logger.error(`Failed to place ${this.strategy.name} order ${order.side} ${order.tokenType.toUpperCase()} @ ${order.price}:`, error);
+                if (this.strategyMarket === market) {
+                    this.committedCapital -= reservedCapital;
+                }
+                this.rejectStrategyOrder(strategyOrderId, market);
+                return;
+            }
+
+            const { orderId, size } = placedOrder;
+            logger.info(`📥 ${this.strategy.name} order placed: ${order.side} ${order.tokenType.toUpperCase()} @ ${order.price} x ${size} (${market.slug})`);
+
+            const trackedOrder = {
+                orderId,
+                assetId,
+                side,
+                outcome: order.tokenType === 'up' ? Outcome.UP : Outcome.DOWN,
+                price: order.price,
+                size,
+                amount: order.price * size,
+                isMarketOrder: false,
+            };
+
+            // The market rolled over while the order was being placed: track it (so the risk manager
+            // and cancel-on-stop see it) without the strategy, and cancel it
+            if (this.strategyMarket !== market) {
+                logger.warn(`Cancelling ${this.strategy.name} order ${orderId}: market ${market.slug} ended while it was being placed`);
+                this.orderManager.trackOrder(trackedOrder);
+                this.cancelOrder(orderId).catch(error => {
+                    logger.error(`Failed to cancel order ${orderId} of ended market ${market.slug}:`, error);
+                });
+                return;
+            }
+
+            // Register the mapping first: trackOrder() may replay messages that already filled the order
+            this.strategyOrderIds.set(strategyOrderId, orderId);
+            this.strategyOrders.set(orderId, { strategyOrderId, tokenType: order.tokenType, reservedCapital });
+            this.orderManager.trackOrder(trackedOrder);
+            this.persistState();
+
+            // Cancelled while the order was being placed (or the bot was paused or the market started closing meanwhile)
+            if (this.pendingCancels.delete(strategyOrderId) || this.paused || this.closingSlug === market.slug) {
+                this.cancelStrategyOrder(strategyOrderId);
+            }
+        });
+
+        return strategyOrderId;
+    }
+
+    private rejectStrategyOrder(strategyOrderId: string, market: StrategyMarket | null): void {
+        if (this.strategyMarket !== market || !this.strategy.onOrderRejected) {
+            return;
+        }
+        this.strategy.onOrderRejected(strategyOrderId, this.strategyContext);
+        this.persistState();
+    }
+
+    private cancelStrategyOrder(strategyOrderId: string): void {
+        const orderId = this.strategyOrderIds.get(strategyOrderId);
+        if (!orderId) {
+            // Not placed yet: cancel once the exchange order ID is known
+            this.pendingCancels.add(strategyOrderId);
+            return;
+        }
+
+        this.cancelOrder(orderId).catch(error => {
+            logger.error(`Failed to cancel ${this.strategy.name} order ${strategyOrderId}:`, error);
+        });
+    }
+
+    private handleOrderFilled(order: OrderInfo): void {
+        this.notifyStrategyFill(order);
+    }
+
+    private handleOrderCancelled(order: OrderInfo): void {
+        const ref = this.strategyOrders.get(order.orderId);
+        if (!ref) {
+            return;
+        }
+
+        // Release the capital reserved for the unfilled size
+        this.committedCapital -= ref.reservedCapital * (1 - Math.min(order.sizeMatched, order.size) / order.size);
+
+        // A partially filled order is reported to the strategy with its filled size
+        if (order.sizeMatched > 0) {
+            this.notifyStrategyFill(order);
+        } else {
+            this.notifyStrategyCancel(order.orderId);
+        }
+    }
+
+    private notifyStrategyCancel(orderId: string): void {
+        const ref = this.strategyOrders.get(orderId);
+        if (!ref) {
+            return;
+        }
+        this.strategyOrders.delete(orderId);
+        this.strategyOrderIds.delete(ref.strategyOrderId);
+
+        logger.warn(`${this.strategy.name} order ${ref.strategyOrderId} cancelled without fills`);
+        try {
+            this.strategy.onOrderCancelled?.(ref.strategyOrderId, this.strategyContext);
+        } catch (error) {
+            logger.error(`Error handling ${this.strategy.name} order cancellation:`, error);
+        }
+        this.persistState();
+    }
+
+    /**
+     * Strategy orders still resting when the market ends can no longer fill (e.g. their pre-expiry
+     * cancel failed): report them as cancelled, with their partial fills, before the strategy settles
+     */
+    private expireStrategyOrders(): void {
+        for (const orderId of Array.from(this.strategyOrders.keys())) {
+            const order = this.orderManager.getOrder(orderId);
+            if (order && order.sizeMatched > 0) {
+                this.notifyStrategyFill(order);
+            } else {
+                this.notifyStrategyCancel(orderId);
+            }
+        }
+    }
+
+    private notifyStrategyFill(order: OrderInfo): void {
+        const ref = this.strategyOrders.get(order.orderId);
+        if (!ref) {
+            return;
+        }
+        this.strategyOrders.delete(order.orderId);
+        this.strategyOrderIds.delete(ref.strategyOrderId);
+
+        logger.info(`✅ ${this.strategy.name} order filled: ${order.side} ${order.outcome} @ ${order.price} x ${order.sizeMatched}`);
+        const fill: StrategyFill = {
+            orderId: ref.strategyOrderId,
+            tokenType: ref.tokenType,
+            side: order.side === Side.BUY ? 'BUY' : 'SELL',
+            price: order.price,
+            size: order.sizeMatched,
+            timestamp: new Date().toISOString(),
+        };
+        this.strategyFills.push({ ...fill, orderId: order.orderId, strategyOrderId: ref.strategyOrderId, assetId: order.assetId });
+        try {
+            this.strategy.onFill(fill, this.strategyContext);
+        } catch (error) {
+            logger.error(`Error handling ${this.strategy.name} fill:`, error);
+        }
+        this.persistState();
+    }
+
+    /**
+     * Write the bot state in the background; writes are serialized and coalesced, and skipped
+     * when nothing changed (most price ticks do not change the strategy state)
+     */
+    private persistState(): void {
+        if (!this.stateLoaded) {
+            return;
+        }
+        if (this.stateSaving) {
+            this.stateSavePending = true;
+            return;
+        }
+
+        const market = this.strategyMarket;
+        const state = {
+            slug: market?.slug ?? null,
+            strategy: this.strategy.name,
+            strategyParams: this.strategy.params,
+            strategyState: market && this.strategy.saveState ? this.strategy.saveState() : null,
+            nextStrategyOrderId: this.nextStrategyOrderId,
+            committedCapital: this.committedCapital,
+            orders: Array.from(this.strategyOrders.entries()).flatMap(([orderId, ref]) => {
+                const order = this.orderManager.getOrder(orderId);
+                return order ? [{
+                    orderId,
+                    strategyOrderId: ref.strategyOrderId,
+                    tokenType: ref.tokenType,
+                    assetId: order.assetId,
+                    side: order.side === Side.BUY ? 'BUY' : 'SELL',
+                    price: order.price,
+                    size: order.size,
+                    sizeMatched: order.sizeMatched,
+                    reservedCapital: ref.reservedCapital,
+                }] : [];
+            }),
+            fills: this.strategyFills,
+        };
+        const serializedState = JSON.stringify(state);
+        if (serializedState === this.lastSavedState) {
+            return;
+        }
+
+        this.stateSaving = (async () => {
+            try {
+                await BotState.updateOne({ botId: this.botId }, { $set: state }, { upsert: true });
+                this.lastSavedState = serializedState;
+            } catch (error) {
+                logger.error(`Error saving state of bot ${this.botId}:`, error);
+            }
+        })().finally(() => {
+            this.stateSaving = null;
+            if (this.stateSavePending) {
+                this.stateSavePending = false;
+                this.persistState();
+            }
+        });
+    }
+
+    /**
+     * Record confirmed fills of this bot's orders in the P&L ledger
+     */
+    private handleTradeConfirmed({ trade, orders }: TradeEvent): void {
+        for (const order of orders) {
+            const marketInfo = this.marketsByAsset.get(order.assetId);
+            const size = trade.orderSizes[order.orderId] ?? 0;
+            if (!marketInfo || size <= 0) {
+                logger.warn(`Trade ${trade.tradeId} of order ${order.orderId} not recorded in the P&L ledger: unknown market or empty fill`);
+                continue;
+            }
+
+            this.pnlLedger.recordFill({
+                fillId: `${trade.tradeId}:${order.orderId}`,
+                botId: this.botId,
+                slug: marketInfo.slug,
+                token: this.coinSymbol.split('/')[0].toUpperCase(),
+                eventType: this.marketInterval === MarketInterval.HOURLY ? 'hourly' : '15min',
+                assetId: order.assetId,
+                outcome: order.assetId === marketInfo.yesAssetId ? 'UP' : 'DOWN',
+                paperTrading: this.paperExchange !== null,
+                side: order.side === Side.BUY ? 'BUY' : 'SELL',
+                price: trade.orderPrices[order.orderId] ?? trade.price,
+                size,
+                timestamp: parseMatchTime(trade.matchTime),
+            });
+        }
+    }
+
+    private async handleLastTradePrice(lastTradePrice: LastTradePrice): Promise<void> {
+        const marketInfo = this.marketMonitor.curMarketInfo;
+        if (!marketInfo) {
+            return;
+        }
+
+        try {
+            await this.redisService.saveTradePrint({
+                slug: marketInfo.slug,
+                timestamp: lastTradePrice.timestamp,
+                assetId: lastTradePrice.assetId,
+                outcome: lastTradePrice.assetId === marketInfo.yesAssetId ? 'UP' : 'DOWN',
+                price: lastTradePrice.price,
+                side: lastTradePrice.side === Side.BUY ? 'BUY' : 'SELL',
+                size: lastTradePrice.size,
+                feeRateBps: lastTradePrice.feeRateBps,
+            });
+        } catch (error) {
+            logger.error('Error saving trade print to Redis:', error);
+        }
     }
 
     private handleCoinPriceBiasChange(coinPriceBias: number): void {
     }
 
     private async handleMarketUpdated(marketInfo: MarketInfo | null): Promise<void> {
-        logger.info(`first order count: ${this.firstOrderCount}, second order count: ${this.secondOrderCount}`);
-        
         // Check if marketInfo is null
         if (!marketInfo) {
             logger.warn('Market updated event received but marketInfo is null');
             return;
         }
+
+        // Get the previous market slug (before price ticks of the new market update it)
+        const previousSlug = this.currentSlug;
+
+        // Settle the strategy on the previous market once its end-of-market cancels are reconciled,
+        // then start it on the new one with the ticks received meanwhile
+        if (this.marketClosing) {
+            this.rolloverSlug = marketInfo.slug;
+            try {
+                await this.marketClosing;
+            } finally {
+                this.rolloverSlug = null;
+            }
+        }
+        this.endStrategyMarket();
+        this.orderManager.pruneCompleted();
+        this.startStrategyMarket(marketInfo);
+        const rolloverTicks = this.rolloverTicks;
+        this.rolloverTicks = [];
+        for (const { marketInfo: tickMarketInfo, priceChange, receivedAt } of rolloverTicks) {
+            this.runStrategy(tickMarketInfo, priceChange, receivedAt);
+        }
+
+        // Redeem winning tokens of markets resolved since the last rollover
+        getRedemptionService().schedule();
         
         logger.info(`Market updated: ${marketInfo.question}`);
-        
-        // Get the previous market slug (before it was updated)
-        const previousSlug = this.currentSlug;
 
         if (previousSlug) {
             try {
@@ -283,11 +1323,20 @@ export class TradingBot {
                             eventType: eventType,
                             outcome: outcome,
                             coinPriceBias: price.coinPriceBias,
+                            upBestBid: price.upBestBid ?? null,
+                            downBestBid: price.downBestBid ?? null,
+                            upSpread: price.upSpread ?? null,
+                            downSpread: price.downSpread ?? null,
+                            upBidSize: price.upBidSize ?? null,
+                            upAskSize: price.upAskSize ?? null,
+                            downBidSize: price.downBidSize ?? null,
+                            downAskSize: price.downAskSize ?? null,
                         };
                     });
 
                     await TokenPriceHistory.insertMany(documents);
                     logger.info(`✅ Successfully saved ${documents.length} token prices to MongoDB`);
+                    await getBacktestJobService().invalidateSlugs([previousSlug]);
 
                     // Delete all token prices from Redis for the previous market
                     await this.redisService.deleteTokenPricesBySlug(previousSlug);
@@ -298,18 +1347,30 @@ export class TradingBot {
             } catch (error) {
                 logger.error('Error saving Redis data to MongoDB:', error);
             }
+
+            try {
+                // Move the previous market's trade prints to MongoDB
+                const tradePrints = await this.redisService.getTradePrintsBySlug(previousSlug);
+                if (tradePrints.length > 0) {
+                    const tokenSymbol = this.coinSymbol.split('/')[0].toUpperCase();
+                    const eventType = this.marketInterval === MarketInterval.HOURLY ? 'hourly' : '15min';
+
+                    await TradePrint.insertMany(tradePrints.map(trade => ({
+                        ...trade,
+                        timestamp: new Date(trade.timestamp),
+                        token: tokenSymbol,
+                        eventType: eventType,
+                    })));
+                    await this.redisService.deleteTradePrintsBySlug(previousSlug);
+                    logger.info(`✅ Saved ${tradePrints.length} trade prints to MongoDB for slug: ${previousSlug}`);
+                    await getBacktestJobService().invalidateSlugs([previousSlug]);
+                }
+            } catch (error) {
+                logger.error('Error saving trade prints to MongoDB:', error);
+            }
         }
 
         // Update current slug to the new market
         this.currentSlug = marketInfo.slug;
-
-        this.firstOrder = null;
-        this.secondOrder = null;
-    }
-
-    private handleOrderMessage(order: OrderMessage): void {
-    }
-
-    private handleTradeMessage(trade: TradeMessage): void {
     }
 }
\ No newline at end of file
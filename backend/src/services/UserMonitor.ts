@@ -11,6 +11,7 @@ import config from '../config';
 export enum UserMonitorEvents {
     ORDER_MESSAGE = 'orderMessage', // Raw ORDER message from WebSocket
     TRADE_MESSAGE = 'tradeMessage', // Raw TRADE message from WebSocket
+    RECONNECTED = 'reconnected', // WebSocket re-opened after a disconnect (messages may have been missed)
 }
 
 export enum TradeStatus {
@@ -96,6 +97,7 @@ export class UserMonitor extends EventEmitter {
   private pingTimer: NodeJS.Timeout | null = null;
   private isConnecting: boolean = false;
   private shouldReconnect: boolean = true;
+  private hasConnected: boolean = false;
 
   // Track orders by order ID (hash)
   // private orders: Map<string, OrderInfo> = new Map();
@@ -133,6 +135,11 @@ export class UserMonitor extends EventEmitter {
         logger.info('✅ User Channel WebSocket connected');
         this.authenticate(creds);
         this.startPing();
+
+        if (this.hasConnected) {
+          this.emit(UserMonitorEvents.RECONNECTED);
+        }
+        this.hasConnected = true;
       });
 
       this.ws.on('message', (data: WebSocket.Data) => {
@@ -1,3 +1,3 @@
 export { RedisService, getRedisService } from './RedisService';
-export type { TokenPrice } from './RedisService';
+export type { TokenPrice, TradePrint } from './RedisService';
 
@@ -0,0 +1,251 @@
+import { PipelineStage } from 'mongoose';
+import Market, { MarketStatus } from '../models/Market';
+import TokenPriceHistory, { EventType, Outcome } from '../models/TokenPriceHistory';
+import TradePrint from '../models/TradePrint';
+import { StrategyTick, StrategyTradePrint, TokenSide } from '../strategies';
+
+export interface MarketHistoryFilters {
+    token?: string;
+    eventType?: string;
+    startDate?: Date; // Markets ending at or after this date
+    endDate?: Date; // Markets ending at or before this date
+    slugs?: string[]; // Only these markets
+}
+
+export interface MarketHistoryPagination {
+    page: number; // 1-based
+    pageSize: number | null; // null for all markets
+}
+
+/**
+ * Price history of one ended market, ready for the backtest runner
+ */
+export interface MarketHistory {
+    slug: string;
+    eventType: EventType;
+    status: MarketStatus;
+    endTime: Date | null;
+    resolvedOutcome: TokenSide | null; // Official outcome, null while unresolved
+    ticks: StrategyTick[];
+    trades: StrategyTradePrint[]; // Empty unless trade prints were requested
+}
+
+interface MarketHistoryDocument {
+    slug: string;
+    eventType: EventType;
+    status: MarketStatus;
+    endTime: Date | null;
+    outcome: Outcome | null;
+    ticks: Array<{
+        timestamp: Date;
+        upTokenPrice: number;
+        downTokenPrice: number;
+        coinPriceBias?: number;
+        upBestBid?: number | null;
+        downBestBid?: number | null;
+        upAskSize?: number | null;
+        downAskSize?: number | null;
+        upBidSize?: number | null;
+        downBidSize?: number | null;
+    }>;
+    trades?: Array<{ timestamp: Date; outcome: Outcome; price: number; size: number; feeRateBps?: number }>;
+}
+
+/**
+ * Parse the token/eventType/startDate/endDate and page/pageSize query parameters shared by the
+ * slug listing and strategy endpoints. `count` (latest N markets) is accepted as a page size.
+ */
+export function parseMarketHistoryQuery(
+    query: Record<string, unknown>
+): { filters: MarketHistoryFilters; pagination: MarketHistoryPagination } | { error: string; message: string } {
+    const filters: MarketHistoryFilters = {};
+    if (query.token) {
+        filters.token = query.token as string;
+    }
+    if (query.eventType) {
+        filters.eventType = query.eventType as string;
+    }
+
+    for (const key of ['startDate', 'endDate'] as const) {
+        if (query[key]) {
+            const date = new Date(query[key] as string);
+            if (isNaN(date.getTime())) {
+                return { error: `Invalid ${key}`, message: `${key} must be a valid date (e.g. 2025-01-31 or an ISO timestamp)` };
+            }
+            filters[key] = date;
+        }
+    }
+    if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+        return { error: 'Invalid date range', message: 'startDate must be before endDate' };
+    }
+
+    const page = query.page ? parseInt(query.page as string, 10) : 1;
+    if (isNaN(page) || page <= 0) {
+        return { error: 'Invalid page', message: 'page must be a positive number' };
+    }
+
+    const pageSizeParam = query.pageSize ?? query.count;
+    const pageSize = pageSizeParam ? parseInt(pageSizeParam as string, 10) : null;
+    if (pageSize !== null && (isNaN(pageSize) || pageSize <= 0)) {
+        return {
+            error: query.pageSize ? 'Invalid pageSize' : 'Invalid count',
+            message: `${query.pageSize ? 'pageSize' : 'count'} must be a positive number`,
+        };
+    }
+
+    return { filters, pagination: { page, pageSize } };
+}
+
+/**
+ * Pagination summary returned with paginated responses
+ */
+export function describePagination(pagination: MarketHistoryPagination, totalCount: number) {
+    return {
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        totalPages: pagination.pageSize !== null ? Math.ceil(totalCount / pagination.pageSize) : 1,
+    };
+}
+
+/**
+ * Match stage for ended markets (active markets have no stored price history yet)
+ */
+function buildMarketMatch(filters: MarketHistoryFilters): Record<string, unknown> {
+    const match: Record<string, unknown> = { status: { $ne: 'active' } };
+    if (filters.slugs) {
+        match.slug = { $in: filters.slugs };
+    }
+    if (filters.token) {
+        match.token = filters.token;
+    }
+    if (filters.eventType) {
+        match.eventType = filters.eventType;
+    }
+    if (filters.startDate || filters.endDate) {
+        const endTime: Record<string, Date> = {};
+        if (filters.startDate) {
+            endTime.$gte = filters.startDate;
+        }
+        if (filters.endDate) {
+            endTime.$lte = filters.endDate;
+        }
+        match.endTime = endTime;
+    }
+    return match;
+}
+
+/**
+ * Number of ended markets matching the filters
+ */
+export async function countMarkets(filters: MarketHistoryFilters): Promise<number> {
+    return Market.countDocuments(buildMarketMatch(filters)).exec();
+}
+
+/**
+ * Ended markets matching the filters, most recent first, for one page
+ */
+export async function findMarkets(filters: MarketHistoryFilters, pagination: MarketHistoryPagination) {
+    let query = Market.find(buildMarketMatch(filters), { slug: 1, status: 1, outcome: 1, endTime: 1 })
+        .sort({ endTime: -1, createdAt: -1 });
+    if (pagination.pageSize !== null) {
+        query = query.skip((pagination.page - 1) * pagination.pageSize).limit(pagination.pageSize);
+    }
+    return query.lean().exec();
+}
+
+/**
+ * Stream the price history of one page of ended markets, most recent first.
+ *
+ * A single aggregation selects the markets and joins their ticks (and optionally trade prints)
+ * in timestamp order, and the cursor yields one market at a time so only a batch of markets
+ * is held in memory.
+ */
+export async function* streamMarketHistories(
+    filters: MarketHistoryFilters,
+    pagination: MarketHistoryPagination,
+    options: { includeTradePrints?: boolean } = {}
+): AsyncGenerator<MarketHistory> {
+    const pipeline: PipelineStage[] = [
+        { $match: buildMarketMatch(filters) },
+        { $sort: { endTime: -1, createdAt: -1 } },
+    ];
+    if (pagination.pageSize !== null) {
+        pipeline.push({ $skip: (pagination.page - 1) * pagination.pageSize }, { $limit: pagination.pageSize });
+    }
+    pipeline.push({
+        $lookup: {
+            from: TokenPriceHistory.collection.name,
+            localField: 'slug',
+            foreignField: 'slug',
+            pipeline: [
+                { $sort: { timestamp: 1 } },
+                {
+                    $project: {
+                        _id: 0,
+                        timestamp: 1,
+                        upTokenPrice: 1,
+                        downTokenPrice: 1,
+                        coinPriceBias: 1,
+                        upBestBid: 1,
+                        downBestBid: 1,
+                        upAskSize: 1,
+                        downAskSize: 1,
+                        upBidSize: 1,
+                        downBidSize: 1,
+                    },
+                },
+            ],
+            as: 'ticks',
+        },
+    });
+    if (options.includeTradePrints) {
+        pipeline.push({
+            $lookup: {
+                from: TradePrint.collection.name,
+                localField: 'slug',
+                foreignField: 'slug',
+                pipeline: [
+                    { $sort: { timestamp: 1 } },
+                    { $project: { _id: 0, timestamp: 1, outcome: 1, price: 1, size: 1, feeRateBps: 1 } },
+                ],
+                as: 'trades',
+            },
+        });
+    }
+    pipeline.push({ $project: { _id: 0, slug: 1, eventType: 1, status: 1, endTime: 1, outcome: 1, ticks: 1, trades: 1 } });
+
+    const cursor: AsyncIterable<MarketHistoryDocument> = Market.aggregate<MarketHistoryDocument>(pipeline)
+        .allowDiskUse(true)
+        .cursor({ batchSize: 20 });
+
+    for await (const document of cursor) {
+        yield {
+            slug: document.slug,
+            eventType: document.eventType,
+            status: document.status,
+            endTime: document.endTime ?? null,
+            resolvedOutcome: document.status === 'resolved' && document.outcome
+                ? (document.outcome === 'UP' ? 'up' : 'down')
+                : null,
+            ticks: document.ticks.map(tick => ({
+                timestamp: tick.timestamp.toISOString(),
+                upTokenPrice: tick.upTokenPrice,
+                downTokenPrice: tick.downTokenPrice,
+                coinPriceBias: tick.coinPriceBias,
+                upBestBid: tick.upBestBid,
+                downBestBid: tick.downBestBid,
+                upAskSize: tick.upAskSize,
+                downAskSize: tick.downAskSize,
+                upBidSize: tick.upBidSize,
+                downBidSize: tick.downBidSize,
+            })),
+            trades: (document.trades ?? []).map(trade => ({
+                timestamp: trade.timestamp.toISOString(),
+                tokenType: trade.outcome === 'UP' ? 'up' : 'down',
+                price: trade.price,
+                size: trade.size,
+                feeRateBps: trade.feeRateBps,
+            })),
+        };
+    }
+}
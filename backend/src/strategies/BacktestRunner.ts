@@ -0,0 +1,172 @@
+import { getSellPriceCents } from 'polytradingbot-shared';
+import { createSeededRandom, FillCandidate, FillModel, IDEAL_FILL_MODEL } from './FillModel';
+import { Strategy, StrategyContext, StrategyFill, StrategyMarket, StrategyOrder, StrategyTick, StrategyTradePrint, TokenSide } from './Strategy';
+
+interface BacktestOrder extends StrategyOrder {
+    id: string;
+    placedAtTick: number; // Index of the tick the order was placed on (-1 before the first tick)
+}
+
+/**
+ * Price (in cents) an order can execute at on a tick: the token's ask for a BUY, its sell price
+ * (best bid, or 100 - ask without one) for a SELL
+ */
+function getMarketPriceCents(order: BacktestOrder, tick: StrategyTick): number {
+    const askPrice = order.tokenType === 'up' ? tick.upTokenPrice : tick.downTokenPrice;
+    if (order.side === 'BUY') {
+        return Math.round(askPrice * 100);
+    }
+    const bestBid = order.tokenType === 'up' ? tick.upBestBid : tick.downBestBid;
+    return getSellPriceCents(askPrice, bestBid);
+}
+
+/**
+ * Whether a market price (in cents) reaches an order's limit: at or below it for a BUY, at or above
+ * it for a SELL. Prices are compared in whole cents, as the strategy calculators do.
+ */
+function reachesLimit(order: BacktestOrder, marketPriceCents: number): boolean {
+    const limitCents = Math.round(order.price * 100);
+    return order.side === 'BUY' ? marketPriceCents <= limitCents : marketPriceCents >= limitCents;
+}
+
+/**
+ * Top-of-book size an order takes from on a tick (asks for a BUY, bids for a SELL), when recorded
+ */
+function getAvailableSize(order: BacktestOrder, tick: StrategyTick): number | null {
+    if (order.side === 'BUY') {
+        return (order.tokenType === 'up' ? tick.upAskSize : tick.downAskSize) ?? null;
+    }
+    return (order.tokenType === 'up' ? tick.upBidSize : tick.downBidSize) ?? null;
+}
+
+/**
+ * Run a strategy over the price history of one market.
+ *
+ * For each tick the strategy's onTick runs first, then resting orders are matched against the tick.
+ * Orders fill in full once the market reaches their limit price; the fill model decides whether an
+ * order filling at the touch fills yet, and its execution price and fee. Orders are takers when they
+ * fill on the tick they were placed on (including orders placed from onFill), makers otherwise.
+ *
+ * If trade prints are given, orders resting before a tick are first matched against the trades
+ * printed since the previous tick, so a limit order can fill on a trade between two price ticks.
+ *
+ * resolvedOutcome is the market's official settlement, passed to onMarketEnd for strategies that
+ * hold tokens to expiry (null for unresolved markets).
+ *
+ * The default fill model fills at the limit price without fees, as the original calculators did.
+ */
+export function runBacktest<TResult>(
+    strategy: Strategy<TResult>,
+    market: StrategyMarket,
+    priceData: StrategyTick[],
+    trades: StrategyTradePrint[] = [],
+    resolvedOutcome: TokenSide | null = null,
+    fillModel: FillModel = IDEAL_FILL_MODEL
+): TResult {
+    const openOrders: Map<string, BacktestOrder> = new Map();
+    let nextOrderId = 0;
+    let tickIndex = -1;
+    let feeRateBps: number | null = null;
+    const random = createSeededRandom(`${JSON.stringify(fillModel.describe())}:${market.slug}`);
+
+    const context: StrategyContext = {
+        placeOrder: (order: StrategyOrder): string => {
+            const id = `backtest-${++nextOrderId}`;
+            openOrders.set(id, { ...order, id, placedAtTick: tickIndex });
+            return id;
+        },
+        cancelOrder: (orderId: string): void => {
+            openOrders.delete(orderId);
+        },
+        getOrderBook: () => null,
+    };
+
+    // Keep matching until no order fills, since fills can place new orders (e.g. hedges)
+    const matchOrders = (getCandidate: (order: BacktestOrder) => FillCandidate | null, timestamp: string): void => {
+        // Orders left resting by the fill model are only considered once per tick or trade
+        const skipped: Set<string> = new Set();
+        let hasFill = true;
+        while (hasFill) {
+            hasFill = false;
+            for (const order of Array.from(openOrders.values())) {
+                if (!openOrders.has(order.id) || skipped.has(order.id)) {
+                    continue;
+                }
+                const candidate = getCandidate(order);
+                if (!candidate) {
+                    continue;
+                }
+                const execution = fillModel.fill(candidate, random);
+                if (!execution) {
+                    skipped.add(order.id);
+                    continue;
+                }
+
+                openOrders.delete(order.id);
+                hasFill = true;
+                const fill: StrategyFill = {
+                    orderId: order.id,
+                    tokenType: order.tokenType,
+                    side: order.side,
+                    price: execution.price,
+                    size: order.size,
+                    timestamp,
+                    fee: execution.fee,
+                };
+                strategy.onFill(fill, context);
+            }
+        }
+    };
+
+    const tickCandidate = (tick: StrategyTick) => (order: BacktestOrder): FillCandidate | null => {
+        const marketPriceCents = getMarketPriceCents(order, tick);
+        if (!reachesLimit(order, marketPriceCents)) {
+            return null;
+        }
+        return {
+            order,
+            liquidity: order.placedAtTick === tickIndex ? 'taker' : 'maker',
+            marketPrice: marketPriceCents / 100,
+            touch: marketPriceCents === Math.round(order.price * 100),
+            availableSize: getAvailableSize(order, tick),
+            feeRateBps,
+        };
+    };
+
+    // A resting order fills on a trade of its token at or through its limit
+    const tradeCandidate = (trade: StrategyTradePrint) => (order: BacktestOrder): FillCandidate | null => {
+        const tradeCents = Math.round(trade.price * 100);
+        if (order.tokenType !== trade.tokenType || !reachesLimit(order, tradeCents)) {
+            return null;
+        }
+        return {
+            order,
+            liquidity: 'maker',
+            marketPrice: trade.price,
+            touch: tradeCents === Math.round(order.price * 100),
+            availableSize: trade.size,
+            feeRateBps,
+        };
+    };
+
+    const sortedTrades = [...trades].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    let tradeIndex = 0;
+
+    strategy.onMarketStart(market, context);
+
+    for (const tick of priceData) {
+        const tickTime = new Date(tick.timestamp).getTime();
+        while (tradeIndex < sortedTrades.length && new Date(sortedTrades[tradeIndex].timestamp).getTime() <= tickTime) {
+            const trade = sortedTrades[tradeIndex++];
+            feeRateBps = trade.feeRateBps ?? feeRateBps;
+            matchOrders(tradeCandidate(trade), trade.timestamp);
+        }
+
+        tickIndex++;
+        strategy.onTick(tick, context);
+        matchOrders(tickCandidate(tick), tick.timestamp);
+    }
+
+    const lastTick = priceData.length > 0 ? priceData[priceData.length - 1] : null;
+    return strategy.onMarketEnd({ lastTick, resolvedOutcome }, context);
+}
@@ -0,0 +1,222 @@
+import { StrategyOrder } from './Strategy';
+
+// Price step assumed between order book levels for depth-based slippage (one cent)
+const DEPTH_LEVEL_STEP = 0.01;
+
+export type Liquidity = 'maker' | 'taker';
+export type SlippageMode = 'none' | 'fixed' | 'depth';
+
+/**
+ * A backtest order whose limit price was reached, as seen by the fill model
+ */
+export interface FillCandidate {
+    order: StrategyOrder;
+    // Taker when the order was marketable on the tick it was placed at; maker when it rested first
+    liquidity: Liquidity;
+    marketPrice: number; // Ask (BUY) or sell price (SELL) of the tick, or the trade print price
+    touch: boolean; // Market price is exactly at the limit, not through it
+    availableSize: number | null; // Top-of-book size on the side the order takes, when recorded
+    feeRateBps: number | null; // Latest fee rate of the market (from trade prints), when known
+}
+
+export interface FillExecution {
+    price: number; // Execution price (in dollars), including slippage
+    fee: number; // Fee (in dollars)
+}
+
+/**
+ * Decides whether and how a backtest order fills once the market reaches its limit price
+ */
+export interface FillModel {
+    readonly name: string;
+    // Parameters of the model, reported with backtest results
+    describe(): Record<string, unknown>;
+    // null leaves the order resting (e.g. not reached in the queue at the touch)
+    fill(candidate: FillCandidate, random: () => number): FillExecution | null;
+}
+
+/**
+ * Fills every order in full at its limit price the moment the market touches it, without fees
+ * (the behavior of the original calculators)
+ */
+export class IdealFillModel implements FillModel {
+    public readonly name = 'ideal';
+
+    public describe(): Record<string, unknown> {
+        return { name: this.name };
+    }
+
+    public fill(candidate: FillCandidate): FillExecution {
+        return { price: candidate.order.price, fee: 0 };
+    }
+}
+
+export interface RealisticFillModelOptions {
+    takerFeeBps: number | null; // null uses the market's fee_rate_bps from trade prints
+    makerFeeBps: number;
+    slippage: SlippageMode;
+    slippageCents: number; // Fixed slippage per taker fill (also used by depth mode when sizes are missing)
+    touchFillProbability: number; // Chance a resting order fills when the market only touches its limit
+    seed: number; // Seed of the random draws, so runs are reproducible
+}
+
+export const DEFAULT_REALISTIC_FILL_MODEL_OPTIONS: RealisticFillModelOptions = {
+    takerFeeBps: null,
+    makerFeeBps: 0,
+    slippage: 'fixed',
+    slippageCents: 0,
+    touchFillProbability: 0.5,
+    seed: 1,
+};
+
+/**
+ * Fill model with fees, slippage and queue position:
+ * - Taker fills execute at the market price moved against the order by the slippage (fixed cents, or
+ *   walking one cent per level for sizes beyond the top of book); maker fills execute at the limit.
+ * - Fees follow Polymarket's formula: feeRate * min(price, 1 - price) * size.
+ * - A resting order fills with touchFillProbability when the market only touches its limit, and
+ *   always when it trades through it (probability 0 requires a trade through the level).
+ */
+export class RealisticFillModel implements FillModel {
+    public readonly name = 'realistic';
+    public readonly options: RealisticFillModelOptions;
+
+    constructor(options: Partial<RealisticFillModelOptions> = {}) {
+        this.options = { ...DEFAULT_REALISTIC_FILL_MODEL_OPTIONS, ...options };
+    }
+
+    public describe(): Record<string, unknown> {
+        return { name: this.name, ...this.options };
+    }
+
+    public fill(candidate: FillCandidate, random: () => number): FillExecution | null {
+        const { order, liquidity } = candidate;
+        if (liquidity === 'maker' && candidate.touch && random() >= this.options.touchFillProbability) {
+            return null;
+        }
+
+        let price = order.price;
+        if (liquidity === 'taker') {
+            const direction = order.side === 'BUY' ? 1 : -1;
+            price = Math.min(0.99, Math.max(0.01, candidate.marketPrice + direction * this.getSlippage(candidate)));
+        }
+
+        const feeRateBps = liquidity === 'maker'
+            ? this.options.makerFeeBps
+            : (this.options.takerFeeBps ?? candidate.feeRateBps ?? 0);
+        const fee = (feeRateBps / 10000) * Math.min(price, 1 - price) * order.size;
+
+        return { price, fee };
+    }
+
+    /**
+     * Average price impact (in dollars) of a taker fill
+     */
+    private getSlippage(candidate: FillCandidate): number {
+        const fixedSlippage = this.options.slippageCents / 100;
+        if (this.options.slippage === 'none') {
+            return 0;
+        }
+        if (this.options.slippage === 'fixed' || !candidate.availableSize || candidate.availableSize <= 0) {
+            return fixedSlippage;
+        }
+
+        // Each deeper level is assumed to hold the top-of-book size, one cent further away
+        const levelSize = candidate.availableSize;
+        let remaining = candidate.order.size;
+        let level = 0;
+        let impact = 0;
+        while (remaining > 0) {
+            const size = Math.min(remaining, levelSize);
+            impact += size * level * DEPTH_LEVEL_STEP;
+            remaining -= size;
+            level++;
+        }
+        return impact / candidate.order.size;
+    }
+}
+
+export const IDEAL_FILL_MODEL: FillModel = new IdealFillModel();
+
+/**
+ * Deterministic random numbers in [0, 1) (mulberry32), seeded from a string such as seed + slug
+ */
+export function createSeededRandom(seed: string): () => number {
+    let state = 0;
+    for (let i = 0; i < seed.length; i++) {
+        state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+    }
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Rebuild a fill model from its describe() output (e.g. stored with a backtest job)
+ */
+export function createFillModel(description: Record<string, unknown>): FillModel {
+    if (description.name === 'realistic') {
+        const { name, ...options } = description;
+        return new RealisticFillModel(options as Partial<RealisticFillModelOptions>);
+    }
+    return IDEAL_FILL_MODEL;
+}
+
+/**
+ * Build a fill model from query/body parameters:
+ *   fillModel=ideal|realistic, takerFeeBps (number or 'market'), makerFeeBps, slippage=none|fixed|depth,
+ *   slippageCents, touchFillProbability (0-1), fillSeed
+ */
+export function parseFillModelQuery(query: Record<string, unknown>): { fillModel: FillModel } | { error: string; message: string } {
+    const name = (query.fillModel as string | undefined) ?? 'ideal';
+    if (name === 'ideal') {
+        return { fillModel: IDEAL_FILL_MODEL };
+    }
+    if (name !== 'realistic') {
+        return { error: 'Invalid fillModel', message: 'fillModel must be ideal or realistic' };
+    }
+
+    const options: Partial<RealisticFillModelOptions> = {};
+    const parseNumber = (key: string, min: number, max: number): number | undefined | string => {
+        if (query[key] === undefined || query[key] === '') {
+            return undefined;
+        }
+        const value = parseFloat(String(query[key]));
+        return isNaN(value) || value < min || value > max ? `${key} must be a number between ${min} and ${max}` : value;
+    };
+
+    if (query.takerFeeBps !== undefined && query.takerFeeBps !== 'market') {
+        const takerFeeBps = parseNumber('takerFeeBps', 0, 10000);
+        if (typeof takerFeeBps === 'string') {
+            return { error: 'Invalid takerFeeBps', message: takerFeeBps };
+        }
+        options.takerFeeBps = takerFeeBps;
+    }
+    const numericOptions: Array<[keyof RealisticFillModelOptions, string, number, number]> = [
+        ['makerFeeBps', 'makerFeeBps', 0, 10000],
+        ['slippageCents', 'slippageCents', 0, 100],
+        ['touchFillProbability', 'touchFillProbability', 0, 1],
+        ['seed', 'fillSeed', -Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+    ];
+    for (const [option, key, min, max] of numericOptions) {
+        const value = parseNumber(key, min, max);
+        if (typeof value === 'string') {
+            return { error: `Invalid ${key}`, message: value };
+        }
+        if (value !== undefined) {
+            (options as Record<string, number>)[option] = value;
+        }
+    }
+
+    if (query.slippage !== undefined) {
+        if (!['none', 'fixed', 'depth'].includes(query.slippage as string)) {
+            return { error: 'Invalid slippage', message: 'slippage must be none, fixed or depth' };
+        }
+        options.slippage = query.slippage as SlippageMode;
+    }
+
+    return { fillModel: new RealisticFillModel(options) };
+}
@@ -0,0 +1,363 @@
+import { getCurrentGridLevel, getGridLevels, GridHedgeOrder, GridHedgeResult, HedgeOrder, OrderPair } from 'polytradingbot-shared';
+import { Strategy, StrategyContext, StrategyFill, StrategyMarket, StrategyMarketEnd, StrategyParamRanges, StrategyState, StrategySummary, StrategyTick, TokenSide } from './Strategy';
+
+/**
+ * Grid Hedge strategy parameters (same units as the dashboard / calculateGridHedgeStrategy)
+ */
+export interface GridHedgeParams {
+    maxTotalCost: number; // in cents
+    gridGap: number; // in cents
+    orderSize: number;
+    enableRebuy: boolean;
+    enableDoubleSide: boolean;
+}
+
+export const DEFAULT_GRID_HEDGE_PARAMS: GridHedgeParams = {
+    maxTotalCost: 97,
+    gridGap: 5,
+    orderSize: 1,
+    enableRebuy: true,
+    enableDoubleSide: true,
+};
+
+// Grid levels step by gridGap from 50c up to maxTotalCost, so a gap of 0 would never end
+export const GRID_HEDGE_PARAM_RANGES: StrategyParamRanges<GridHedgeParams> = {
+    maxTotalCost: { greaterThan: 0, lessThan: 100 },
+    gridGap: { greaterThan: 0, atMost: 50 },
+    orderSize: { greaterThan: 0 },
+};
+
+interface GridLevelState {
+    hasEntered: boolean;
+    hedgeFilled: boolean;
+    orderPairs: OrderPair[];
+}
+
+interface SideState {
+    previousGridLevel: number | null;
+    levels: Map<number, GridLevelState>;
+}
+
+interface GridOrderRef {
+    role: 'entry' | 'hedge';
+    side: TokenSide; // Side of the entry order
+    gridLevel: number;
+    pair: OrderPair;
+    wasEntered: boolean;
+}
+
+/**
+ * Saved state: order refs point at their pair by index in the level's orderPairs
+ */
+interface GridHedgeState {
+    sides: Record<TokenSide, { previousGridLevel: number | null; levels: Array<[number, GridLevelState]> }>;
+    activeSide: TokenSide | null;
+    orders: Array<[string, Omit<GridOrderRef, 'pair'> & { pairIndex: number }]>;
+    hasTicks: boolean;
+    executionCost: number;
+}
+
+/**
+ * Grid Hedge strategy (port of calculateGridHedgeStrategy)
+ *
+ * Buys a side when its ask reaches a grid level from below, then hedges the filled entry with a
+ * limit buy on the opposite side at maxTotalCost - entry. Re-entry at a level requires rebuy to be
+ * enabled and the level's hedges to be filled. With double side disabled, only the first side to
+ * reach a grid level is traded.
+ */
+export class GridHedgeStrategy implements Strategy<GridHedgeResult> {
+    public readonly name = 'gridHedge';
+    public readonly params: GridHedgeParams;
+    private gridLevels: number[];
+    private sides!: Record<TokenSide, SideState>;
+    private activeSide: TokenSide | null = null;
+    private orders: Map<string, GridOrderRef> = new Map();
+    private hasTicks: boolean = false;
+    // Fees and execution price differences of fills, on top of the order prices
+    private executionCost: number = 0;
+
+    constructor(params: Partial<GridHedgeParams> = {}) {
+        this.params = { ...DEFAULT_GRID_HEDGE_PARAMS, ...params };
+        this.gridLevels = getGridLevels(this.params.gridGap, this.params.maxTotalCost);
+        this.reset();
+    }
+
+    private reset(): void {
+        const createSideState = (): SideState => ({
+            previousGridLevel: null,
+            levels: new Map(this.gridLevels.map(level => [level, { hasEntered: false, hedgeFilled: false, orderPairs: [] }])),
+        });
+        this.sides = { up: createSideState(), down: createSideState() };
+        this.activeSide = null;
+        this.orders.clear();
+        this.hasTicks = false;
+        this.executionCost = 0;
+    }
+
+    public onMarketStart(): void {
+        this.reset();
+    }
+
+    public onTick(tick: StrategyTick, context: StrategyContext): void {
+        this.hasTicks = true;
+
+        // With double side disabled, only the first side to reach a grid level is traded (UP wins ties)
+        if (!this.params.enableDoubleSide && this.activeSide === null) {
+            if (getCurrentGridLevel(tick.upTokenPrice, this.gridLevels) !== null) {
+                this.activeSide = 'up';
+            } else if (getCurrentGridLevel(tick.downTokenPrice, this.gridLevels) !== null) {
+                this.activeSide = 'down';
+            }
+        }
+
+        for (const side of ['up', 'down'] as TokenSide[]) {
+            if (!this.params.enableDoubleSide && this.activeSide !== side) {
+                continue;
+            }
+
+            const sideState = this.sides[side];
+            const price = side === 'up' ? tick.upTokenPrice : tick.downTokenPrice;
+            const matchedGridLevel = getCurrentGridLevel(price, this.gridLevels);
+            if (matchedGridLevel === null) {
+                continue;
+            }
+
+            const previousGridLevel = sideState.previousGridLevel;
+            sideState.previousGridLevel = matchedGridLevel;
+
+            // Only enter when the level is reached from below (or it is the first level reached)
+            if (previousGridLevel !== null && matchedGridLevel <= previousGridLevel) {
+                continue;
+            }
+
+            const levelState = sideState.levels.get(matchedGridLevel)!;
+            const shouldEnter = !levelState.hasEntered || (this.params.enableRebuy && levelState.hedgeFilled);
+            if (shouldEnter) {
+                this.enter(side, matchedGridLevel, levelState, tick, context);
+            }
+        }
+    }
+
+    private enter(side: TokenSide, gridLevel: number, levelState: GridLevelState, tick: StrategyTick, context: StrategyContext): void {
+        const hedgePriceCents = Math.max(0, this.params.maxTotalCost - gridLevel);
+
+        const entryOrder: GridHedgeOrder = {
+            price: gridLevel / 100,
+            timestamp: tick.timestamp,
+            size: this.params.orderSize,
+            tokenType: side,
+            isReEntry: levelState.hasEntered,
+        };
+        const hedgeOrder: HedgeOrder = {
+            price: hedgePriceCents / 100,
+            timestamp: null,
+            size: this.params.orderSize,
+            tokenType: side === 'up' ? 'down' : 'up',
+            isFilled: false,
+        };
+        const pair: OrderPair = { entryOrder, hedgeOrder };
+        const wasEntered = levelState.hasEntered;
+
+        levelState.orderPairs.push(pair);
+        levelState.hasEntered = true;
+
+        const orderId = context.placeOrder({
+            tokenType: side,
+            side: 'BUY',
+            price: entryOrder.price,
+            size: entryOrder.size,
+        });
+        this.orders.set(orderId, { role: 'entry', side, gridLevel, pair, wasEntered });
+    }
+
+    public onFill(fill: StrategyFill, context: StrategyContext): void {
+        const ref = this.orders.get(fill.orderId);
+        if (!ref) {
+            return;
+        }
+        this.orders.delete(fill.orderId);
+
+        const orderPrice = ref.role === 'entry' ? ref.pair.entryOrder.price : ref.pair.hedgeOrder.price;
+        this.executionCost += (fill.price - orderPrice) * fill.size + (fill.fee ?? 0);
+
+        if (ref.role === 'entry') {
+            // Hedge the filled size on the opposite side (less than the entry if it was cancelled after a partial fill)
+            ref.pair.entryOrder.size = fill.size;
+            ref.pair.hedgeOrder.size = fill.size;
+            const hedgeOrderId = context.placeOrder({
+                tokenType: ref.pair.hedgeOrder.tokenType,
+                side: 'BUY',
+                price: ref.pair.hedgeOrder.price,
+                size: fill.size,
+            });
+            this.orders.set(hedgeOrderId, { ...ref, role: 'hedge' });
+            return;
+        }
+
+        ref.pair.hedgeOrder.isFilled = true;
+        ref.pair.hedgeOrder.timestamp = fill.timestamp;
+        ref.pair.hedgeOrder.size = fill.size;
+
+        const levelState = this.sides[ref.side].levels.get(ref.gridLevel)!;
+        if (levelState.orderPairs.every(pair => pair.hedgeOrder.isFilled)) {
+            levelState.hedgeFilled = true;
+        }
+    }
+
+    public onOrderRejected(orderId: string): void {
+        const ref = this.orders.get(orderId);
+        if (!ref || ref.role !== 'entry') {
+            return;
+        }
+        this.orders.delete(orderId);
+        this.undoEntry(ref);
+    }
+
+    public onOrderCancelled(orderId: string): void {
+        const ref = this.orders.get(orderId);
+        if (!ref) {
+            return;
+        }
+        this.orders.delete(orderId);
+
+        // A cancelled hedge leaves its filled entry unhedged (and the level closed to rebuys)
+        if (ref.role === 'entry') {
+            this.undoEntry(ref);
+        }
+    }
+
+    /**
+     * Remove an entry that never traded, so the level can be entered again on the next crossing
+     */
+    private undoEntry(ref: GridOrderRef): void {
+        const levelState = this.sides[ref.side].levels.get(ref.gridLevel)!;
+        levelState.orderPairs.splice(levelState.orderPairs.indexOf(ref.pair), 1);
+        levelState.hasEntered = ref.wasEntered;
+    }
+
+    public saveState(): StrategyState {
+        const state: GridHedgeState = {
+            sides: {
+                up: { previousGridLevel: this.sides.up.previousGridLevel, levels: Array.from(this.sides.up.levels.entries()) },
+                down: { previousGridLevel: this.sides.down.previousGridLevel, levels: Array.from(this.sides.down.levels.entries()) },
+            },
+            activeSide: this.activeSide,
+            orders: Array.from(this.orders.entries()).map(([orderId, { pair, ...ref }]) => [
+                orderId,
+                { ...ref, pairIndex: this.sides[ref.side].levels.get(ref.gridLevel)!.orderPairs.indexOf(pair) },
+            ]),
+            hasTicks: this.hasTicks,
+            executionCost: this.executionCost,
+        };
+        // Copy, so the saved state does not share the live order pairs
+        return JSON.parse(JSON.stringify(state));
+    }
+
+    public restoreState(_market: StrategyMarket, saved: StrategyState): void {
+        const state = saved as unknown as GridHedgeState;
+        this.reset();
+        for (const side of ['up', 'down'] as TokenSide[]) {
+            this.sides[side].previousGridLevel = state.sides[side].previousGridLevel;
+            for (const [level, levelState] of state.sides[side].levels) {
+                this.sides[side].levels.set(level, levelState);
+            }
+        }
+        this.activeSide = state.activeSide;
+        for (const [orderId, { pairIndex, ...ref }] of state.orders) {
+            const pair = this.sides[ref.side].levels.get(ref.gridLevel)!.orderPairs[pairIndex];
+            this.orders.set(orderId, { ...ref, pair });
+        }
+        this.hasTicks = state.hasTicks;
+        this.executionCost = state.executionCost;
+    }
+
+    public onMarketEnd(marketEnd: StrategyMarketEnd): GridHedgeResult {
+        const lastTick = marketEnd.lastTick;
+        if (!this.hasTicks || !lastTick) {
+            return {
+                totalProfit: 0,
+                totalCost: 0,
+                finalValue: 0,
+                totalEntries: 0,
+                totalHedgesFilled: 0,
+                gridLevelsUsed: [],
+                orderPoints: {},
+            };
+        }
+
+        const orderPoints: { [key: string]: OrderPair[] } = {};
+        let totalEntries = 0;
+        let totalHedgesFilled = 0;
+        let totalCost = 0;
+        const gridLevelsUsed: number[] = [];
+
+        // Settle on the official outcome; otherwise at the last tick, where the pricier token wins
+        const winner = marketEnd.resolvedOutcome
+            ?? (lastTick.upTokenPrice > lastTick.downTokenPrice ? 'up' : 'down');
+        const lastUpTokenPrice = winner === 'up' ? 1 : 0;
+        const lastDownTokenPrice = lastUpTokenPrice === 1 ? 0 : 1;
+        let finalValue = 0;
+
+        // Aggregate UP then DOWN entries, per grid level (same order as the calculator)
+        for (const side of ['up', 'down'] as TokenSide[]) {
+            this.gridLevels.forEach(level => {
+                const state = this.sides[side].levels.get(level)!;
+                if (state.orderPairs.length === 0) {
+                    return;
+                }
+
+                const levelKey = level.toString();
+                if (!orderPoints[levelKey]) {
+                    orderPoints[levelKey] = [];
+                    if (!gridLevelsUsed.includes(level)) {
+                        gridLevelsUsed.push(level);
+                    }
+                }
+                orderPoints[levelKey].push(...state.orderPairs);
+                totalEntries += state.orderPairs.length;
+                state.orderPairs.forEach(pair => {
+                    totalCost += pair.entryOrder.price * pair.entryOrder.size;
+                    if (pair.hedgeOrder.isFilled) {
+                        totalHedgesFilled++;
+                        totalCost += pair.hedgeOrder.price * pair.hedgeOrder.size;
+                    }
+                });
+            });
+        }
+
+        this.gridLevels.forEach(level => {
+            for (const side of ['up', 'down'] as TokenSide[]) {
+                this.sides[side].levels.get(level)!.orderPairs.forEach(pair => {
+                    finalValue += (pair.entryOrder.tokenType === 'up' ? lastUpTokenPrice : lastDownTokenPrice) * pair.entryOrder.size;
+                    if (pair.hedgeOrder.isFilled) {
+                        finalValue += (pair.hedgeOrder.tokenType === 'up' ? lastUpTokenPrice : lastDownTokenPrice) * pair.hedgeOrder.size;
+                    }
+                });
+            }
+        });
+
+        totalCost += this.executionCost;
+        const totalProfit = finalValue - totalCost;
+        gridLevelsUsed.sort((a, b) => a - b);
+
+        return {
+            totalProfit: Math.round(totalProfit * 100) / 100,
+            totalCost: Math.round(totalCost * 100) / 100,
+            finalValue: Math.round(finalValue * 100) / 100,
+            totalEntries,
+            totalHedgesFilled,
+            gridLevelsUsed,
+            orderPoints,
+        };
+    }
+
+    public summarize(result: GridHedgeResult): StrategySummary {
+        return {
+            totalProfit: result.totalProfit,
+            totalCost: result.totalCost,
+            totalEntries: result.totalEntries,
+            finalValue: result.finalValue,
+            totalHedgesFilled: result.totalHedgesFilled,
+        };
+    }
+}
@@ -0,0 +1,262 @@
+import { NewHedgeOrder, NewHedgeResult } from 'polytradingbot-shared';
+import { EventType, Strategy, StrategyContext, StrategyFill, StrategyMarket, StrategyMarketEnd, StrategyParamRanges, StrategyState, StrategySummary, StrategyTick, TokenSide } from './Strategy';
+
+/**
+ * New Hedge strategy parameters (same units as the dashboard / calculateNewHedgeStrategy)
+ */
+export interface NewHedgeParams {
+    priceDiff: number; // Maximum absolute coin price bias (in dollars)
+    timeTillEnd: number; // Minimum time remaining until event end (in seconds)
+    targetPrice: number; // Maximum losing side price (in cents)
+    maxTotalCent: number; // Maximum total cost for both orders (in cents)
+    orderSize: number;
+}
+
+export const DEFAULT_NEW_HEDGE_PARAMS: NewHedgeParams = {
+    priceDiff: 100,
+    timeTillEnd: 300,
+    targetPrice: 50,
+    maxTotalCent: 97,
+    orderSize: 1,
+};
+
+export const NEW_HEDGE_PARAM_RANGES: StrategyParamRanges<NewHedgeParams> = {
+    priceDiff: { greaterThan: 0 },
+    timeTillEnd: { greaterThan: 0 },
+    targetPrice: { greaterThan: 0, atMost: 100 },
+    maxTotalCent: { greaterThan: 0, atMost: 200 },
+    orderSize: { greaterThan: 0 },
+};
+
+/**
+ * New Hedge strategy (port of calculateNewHedgeStrategy)
+ *
+ * Buys the losing side once |coinPriceBias| < priceDiff, more than timeTillEnd seconds remain and
+ * the losing side is below targetPrice, then hedges the winning side at maxTotalCent - entry.
+ * The hedge is posted from the tick after the entry, as in the calculator.
+ */
+export class NewHedgeStrategy implements Strategy<NewHedgeResult> {
+    public readonly name = 'newHedge';
+    public readonly params: NewHedgeParams;
+    private eventType: EventType = 'hourly';
+    private firstTimestamp: number | null = null;
+    private order: NewHedgeOrder | null = null;
+    private hedgeOrder: NewHedgeOrder | null = null;
+    private entryOrderId: string | null = null;
+    private hedgeOrderId: string | null = null;
+    private hedgePending: boolean = false;
+    private totalCostCents: number = 0;
+    private totalEntries: number = 0;
+    private totalHedgesFilled: number = 0;
+
+    constructor(params: Partial<NewHedgeParams> = {}) {
+        this.params = { ...DEFAULT_NEW_HEDGE_PARAMS, ...params };
+    }
+
+    public onMarketStart(market: StrategyMarket): void {
+        this.eventType = market.eventType;
+        this.firstTimestamp = null;
+        this.order = null;
+        this.hedgeOrder = null;
+        this.entryOrderId = null;
+        this.hedgeOrderId = null;
+        this.hedgePending = false;
+        this.totalCostCents = 0;
+        this.totalEntries = 0;
+        this.totalHedgesFilled = 0;
+    }
+
+    public onTick(tick: StrategyTick, context: StrategyContext): void {
+        const currentTimestamp = new Date(tick.timestamp).getTime();
+        if (this.firstTimestamp === null) {
+            this.firstTimestamp = currentTimestamp;
+        }
+
+        // Already entered: only the hedge remains to be posted
+        if (this.order) {
+            if (this.hedgePending && this.hedgeOrder) {
+                this.hedgePending = false;
+                this.hedgeOrderId = context.placeOrder({
+                    tokenType: this.hedgeOrder.tokenType,
+                    side: 'BUY',
+                    price: this.hedgeOrder.price / 100,
+                    size: this.hedgeOrder.size,
+                });
+            }
+            return;
+        }
+
+        if (tick.coinPriceBias === undefined || tick.coinPriceBias === null) {
+            return;
+        }
+
+        const eventDurationSeconds = this.eventType === '15min' ? 15 * 60 : 60 * 60;
+        const remainingSeconds = eventDurationSeconds - (currentTimestamp - this.firstTimestamp) / 1000;
+
+        // Lower priced token is the losing side
+        const losingSide: TokenSide = tick.upTokenPrice <= tick.downTokenPrice ? 'up' : 'down';
+        const winningSide: TokenSide = losingSide === 'up' ? 'down' : 'up';
+        const losingSidePriceCents = Math.round((losingSide === 'up' ? tick.upTokenPrice : tick.downTokenPrice) * 100);
+
+        const condition1 = Math.abs(tick.coinPriceBias) < this.params.priceDiff;
+        const condition2 = remainingSeconds > this.params.timeTillEnd;
+        const condition3 = losingSidePriceCents < this.params.targetPrice;
+        if (!condition1 || !condition2 || !condition3) {
+            return;
+        }
+
+        this.order = {
+            price: losingSidePriceCents,
+            timestamp: tick.timestamp,
+            size: this.params.orderSize,
+            tokenType: losingSide,
+            isFilled: true,
+        };
+        this.hedgeOrder = {
+            price: this.params.maxTotalCent - losingSidePriceCents,
+            timestamp: tick.timestamp, // initial placement time; updated on fill
+            size: this.params.orderSize,
+            tokenType: winningSide,
+            isFilled: false,
+        };
+        this.totalEntries++;
+        this.hedgePending = true;
+        this.entryOrderId = context.placeOrder({
+            tokenType: losingSide,
+            side: 'BUY',
+            price: losingSidePriceCents / 100,
+            size: this.params.orderSize,
+        });
+    }
+
+    public onFill(fill: StrategyFill): void {
+        if (fill.orderId === this.entryOrderId && this.order) {
+            this.order.size = fill.size;
+            this.totalCostCents += this.order.price * this.order.size + this.getExecutionCostCents(fill, this.order);
+        } else if (fill.orderId === this.hedgeOrderId && this.hedgeOrder) {
+            this.hedgeOrder.size = fill.size;
+            this.totalCostCents += this.hedgeOrder.price * this.hedgeOrder.size + this.getExecutionCostCents(fill, this.hedgeOrder);
+            this.totalHedgesFilled++;
+            this.hedgeOrder.timestamp = fill.timestamp;
+            this.hedgeOrder.isFilled = true;
+        }
+    }
+
+    public onOrderCancelled(orderId: string, context: StrategyContext): void {
+        if (orderId === this.hedgeOrderId) {
+            this.hedgeOrderId = null;
+            return;
+        }
+        if (orderId !== this.entryOrderId || !this.order) {
+            return;
+        }
+
+        this.entryOrderId = null;
+        this.totalEntries--;
+        if (this.hedgePending) {
+            // Hedge not posted yet: undo the entry, so the strategy can enter again
+            this.order = null;
+            this.hedgeOrder = null;
+            this.hedgePending = false;
+            return;
+        }
+
+        // The hedge is already resting: keep the entry as never filled (no re-entry) and cancel
+        // the hedge, which is still booked if it fills meanwhile
+        this.order.size = 0;
+        this.order.isFilled = false;
+        if (this.hedgeOrderId) {
+            context.cancelOrder(this.hedgeOrderId);
+        }
+    }
+
+    /**
+     * Fee and execution price difference of a fill (in cents), on top of the order price
+     */
+    private getExecutionCostCents(fill: StrategyFill, order: NewHedgeOrder): number {
+        return (fill.price * 100 - order.price) * fill.size + (fill.fee ?? 0) * 100;
+    }
+
+    public saveState(): StrategyState {
+        return {
+            firstTimestamp: this.firstTimestamp,
+            order: this.order && { ...this.order },
+            hedgeOrder: this.hedgeOrder && { ...this.hedgeOrder },
+            entryOrderId: this.entryOrderId,
+            hedgeOrderId: this.hedgeOrderId,
+            hedgePending: this.hedgePending,
+            totalCostCents: this.totalCostCents,
+            totalEntries: this.totalEntries,
+            totalHedgesFilled: this.totalHedgesFilled,
+        };
+    }
+
+    public restoreState(market: StrategyMarket, state: StrategyState): void {
+        this.eventType = market.eventType;
+        this.firstTimestamp = state.firstTimestamp as number | null;
+        this.order = state.order as NewHedgeOrder | null;
+        this.hedgeOrder = state.hedgeOrder as NewHedgeOrder | null;
+        this.entryOrderId = state.entryOrderId as string | null;
+        this.hedgeOrderId = state.hedgeOrderId as string | null;
+        this.hedgePending = state.hedgePending as boolean;
+        this.totalCostCents = state.totalCostCents as number;
+        this.totalEntries = state.totalEntries as number;
+        this.totalHedgesFilled = state.totalHedgesFilled as number;
+    }
+
+    public onMarketEnd(marketEnd: StrategyMarketEnd): NewHedgeResult {
+        const lastTick = marketEnd.lastTick;
+        if (!lastTick) {
+            return {
+                totalProfit: 0,
+                totalCost: 0,
+                finalValue: 0,
+                totalEntries: 0,
+                totalHedgesFilled: 0,
+                order: null,
+                hedgeOrder: null,
+            };
+        }
+
+        // Settle on the official outcome if the market has resolved, otherwise estimate it from
+        // the final coin price bias, or the pricier token if there is none
+        let outcomeSide: TokenSide;
+        if (marketEnd.resolvedOutcome) {
+            outcomeSide = marketEnd.resolvedOutcome;
+        } else if (lastTick.coinPriceBias !== undefined && lastTick.coinPriceBias !== null) {
+            outcomeSide = lastTick.coinPriceBias >= 0 ? 'up' : 'down';
+        } else {
+            outcomeSide = lastTick.upTokenPrice >= lastTick.downTokenPrice ? 'up' : 'down';
+        }
+
+        let totalFinalValue = 0;
+        if (this.order) {
+            totalFinalValue += ((this.order.tokenType === outcomeSide ? 100 : 0) * this.order.size) / 100;
+        }
+        if (this.hedgeOrder && this.hedgeOrder.isFilled) {
+            totalFinalValue += ((this.hedgeOrder.tokenType === outcomeSide ? 100 : 0) * this.hedgeOrder.size) / 100;
+        }
+
+        const totalProfit = totalFinalValue - (this.totalCostCents / 100);
+
+        return {
+            totalProfit: Math.round(totalProfit * 100) / 100,
+            totalCost: Math.round((this.totalCostCents / 100) * 100) / 100,
+            finalValue: Math.round(totalFinalValue * 100) / 100,
+            totalEntries: this.totalEntries,
+            totalHedgesFilled: this.totalHedgesFilled,
+            order: this.order,
+            hedgeOrder: this.hedgeOrder,
+        };
+    }
+
+    public summarize(result: NewHedgeResult): StrategySummary {
+        return {
+            totalProfit: result.totalProfit,
+            totalCost: result.totalCost,
+            totalEntries: result.totalEntries,
+            finalValue: result.finalValue,
+            totalHedgesFilled: result.totalHedgesFilled,
+        };
+    }
+}
@@ -0,0 +1,235 @@
+import { FirstSellOrder, getSellPriceCents, PrePurchasedSellResult, SecondSellLimitOrder } from 'polytradingbot-shared';
+import { Strategy, StrategyContext, StrategyFill, StrategyMarket, StrategyMarketEnd, StrategyParamRanges, StrategyState, StrategySummary, StrategyTick, TokenSide } from './Strategy';
+
+/**
+ * Pre-Purchased Sell strategy parameters (same units as the dashboard / calculatePrePurchasedSellStrategy)
+ */
+export interface PrePurchasedSellParams {
+    targetTotal: number; // in cents
+    sellThreshold: number; // in cents
+    orderSize: number;
+}
+
+export const DEFAULT_PRE_PURCHASED_SELL_PARAMS: PrePurchasedSellParams = {
+    targetTotal: 105,
+    sellThreshold: 65,
+    orderSize: 1,
+};
+
+export const PRE_PURCHASED_SELL_PARAM_RANGES: StrategyParamRanges<PrePurchasedSellParams> = {
+    targetTotal: { greaterThan: 0, atMost: 200 },
+    sellThreshold: { greaterThan: 0, atMost: 100 },
+    orderSize: { greaterThan: 0 },
+};
+
+/**
+ * Pre-Purchased Dual Token Sell strategy (port of calculatePrePurchasedSellStrategy)
+ *
+ * Buys both tokens at 50c on market start. When one side's sell price (best bid, or 100 - ask
+ * for ticks recorded without bids) reaches sellThreshold it is sold, and the other side is sold
+ * once its sell price reaches targetTotal - sellThreshold.
+ */
+export class PrePurchasedSellStrategy implements Strategy<PrePurchasedSellResult> {
+    public readonly name = 'prePurchasedSell';
+    public readonly params: PrePurchasedSellParams;
+    private firstSellOrder: FirstSellOrder | null = null;
+    private secondSellLimitOrder: SecondSellLimitOrder | null = null;
+    private secondSellPlaced: boolean = false;
+    private sellOrderIds: Set<string> = new Set();
+    private purchaseOrderIds: Map<string, TokenSide> = new Map();
+    private unfilledPurchaseSize: number = 0; // Pre-purchased shares cancelled before they filled
+    // Shares of each token held to expiry: pre-purchased minus unfilled and sold shares
+    private heldShares: Record<TokenSide, number> = { up: 0, down: 0 };
+    private totalReceivedCents: number = 0;
+    // Fees and execution price differences of the pre-purchase fills
+    private purchaseExecutionCost: number = 0;
+    private hasTicks: boolean = false;
+
+    constructor(params: Partial<PrePurchasedSellParams> = {}) {
+        this.params = { ...DEFAULT_PRE_PURCHASED_SELL_PARAMS, ...params };
+    }
+
+    public onMarketStart(_market: StrategyMarket, context: StrategyContext): void {
+        this.firstSellOrder = null;
+        this.secondSellLimitOrder = null;
+        this.secondSellPlaced = false;
+        this.sellOrderIds.clear();
+        this.purchaseOrderIds.clear();
+        this.unfilledPurchaseSize = 0;
+        this.heldShares = { up: this.params.orderSize, down: this.params.orderSize };
+        this.totalReceivedCents = 0;
+        this.purchaseExecutionCost = 0;
+        this.hasTicks = false;
+
+        // Pre-purchase both tokens at 50c
+        for (const tokenType of ['up', 'down'] as TokenSide[]) {
+            const orderId = context.placeOrder({ tokenType, side: 'BUY', price: 0.5, size: this.params.orderSize });
+            this.purchaseOrderIds.set(orderId, tokenType);
+        }
+    }
+
+    public onTick(tick: StrategyTick, context: StrategyContext): void {
+        this.hasTicks = true;
+        const upSellPriceCents = getSellPriceCents(tick.upTokenPrice, tick.upBestBid);
+        const downSellPriceCents = getSellPriceCents(tick.downTokenPrice, tick.downBestBid);
+
+        // Sell the first side that reaches the threshold, then wait for the other side
+        if (this.firstSellOrder === null) {
+            let firstSide: TokenSide | null = null;
+            if (upSellPriceCents >= this.params.sellThreshold) {
+                firstSide = 'up';
+            } else if (downSellPriceCents >= this.params.sellThreshold) {
+                firstSide = 'down';
+            }
+
+            if (firstSide) {
+                this.firstSellOrder = {
+                    price: firstSide === 'up' ? upSellPriceCents : downSellPriceCents,
+                    timestamp: tick.timestamp,
+                    size: this.params.orderSize,
+                    tokenType: firstSide,
+                };
+                this.secondSellLimitOrder = {
+                    price: this.params.targetTotal - this.params.sellThreshold,
+                    timestamp: null,
+                    size: this.params.orderSize,
+                    tokenType: firstSide === 'up' ? 'down' : 'up',
+                    isFilled: false,
+                };
+                this.placeSell(firstSide, this.firstSellOrder.price, context);
+            }
+        }
+
+        // Sell the other side at the touch once it reaches the limit price
+        if (this.secondSellLimitOrder && !this.secondSellPlaced) {
+            const currentPriceCents = this.secondSellLimitOrder.tokenType === 'up' ? upSellPriceCents : downSellPriceCents;
+            if (currentPriceCents >= Math.round(this.secondSellLimitOrder.price)) {
+                this.secondSellPlaced = true;
+                this.placeSell(this.secondSellLimitOrder.tokenType, currentPriceCents, context);
+            }
+        }
+    }
+
+    private placeSell(tokenType: TokenSide, priceCents: number, context: StrategyContext): void {
+        const orderId = context.placeOrder({
+            tokenType,
+            side: 'SELL',
+            price: priceCents / 100,
+            size: this.params.orderSize,
+        });
+        this.sellOrderIds.add(orderId);
+    }
+
+    public onFill(fill: StrategyFill): void {
+        // Pre-purchase fills only provide inventory (bought at 50c)
+        if (!this.sellOrderIds.has(fill.orderId)) {
+            this.purchaseOrderIds.delete(fill.orderId);
+            this.unfilledPurchaseSize += this.params.orderSize - fill.size;
+            this.heldShares[fill.tokenType] -= this.params.orderSize - fill.size;
+            this.purchaseExecutionCost += (fill.price - 0.5) * fill.size + (fill.fee ?? 0);
+            return;
+        }
+        this.sellOrderIds.delete(fill.orderId);
+        this.heldShares[fill.tokenType] -= fill.size;
+
+        const priceCents = Math.round(fill.price * 100);
+        this.totalReceivedCents += priceCents * fill.size - (fill.fee ?? 0) * 100;
+
+        const secondSell = this.secondSellLimitOrder;
+        if (secondSell && this.secondSellPlaced && fill.tokenType === secondSell.tokenType) {
+            secondSell.isFilled = true;
+            secondSell.timestamp = fill.timestamp;
+            secondSell.price = priceCents;
+        }
+    }
+
+    public onOrderCancelled(orderId: string): void {
+        const purchaseSide = this.purchaseOrderIds.get(orderId);
+        if (purchaseSide) {
+            this.purchaseOrderIds.delete(orderId);
+            this.unfilledPurchaseSize += this.params.orderSize;
+            this.heldShares[purchaseSide] -= this.params.orderSize;
+            return;
+        }
+        this.onOrderRejected(orderId);
+    }
+
+    public onOrderRejected(orderId: string): void {
+        // Allow the second sell to trigger again on the next tick
+        if (this.sellOrderIds.delete(orderId) && this.secondSellLimitOrder && !this.secondSellLimitOrder.isFilled) {
+            this.secondSellPlaced = false;
+        }
+    }
+
+    public saveState(): StrategyState {
+        return {
+            firstSellOrder: this.firstSellOrder && { ...this.firstSellOrder },
+            secondSellLimitOrder: this.secondSellLimitOrder && { ...this.secondSellLimitOrder },
+            secondSellPlaced: this.secondSellPlaced,
+            sellOrderIds: Array.from(this.sellOrderIds),
+            purchaseOrderIds: Array.from(this.purchaseOrderIds.entries()),
+            unfilledPurchaseSize: this.unfilledPurchaseSize,
+            heldShares: { ...this.heldShares },
+            totalReceivedCents: this.totalReceivedCents,
+            purchaseExecutionCost: this.purchaseExecutionCost,
+            hasTicks: this.hasTicks,
+        };
+    }
+
+    /**
+     * Resume without placing the pre-purchase orders again
+     */
+    public restoreState(_market: StrategyMarket, state: StrategyState): void {
+        this.firstSellOrder = state.firstSellOrder as FirstSellOrder | null;
+        this.secondSellLimitOrder = state.secondSellLimitOrder as SecondSellLimitOrder | null;
+        this.secondSellPlaced = state.secondSellPlaced as boolean;
+        this.sellOrderIds = new Set(state.sellOrderIds as string[]);
+        this.purchaseOrderIds = new Map(state.purchaseOrderIds as [string, TokenSide][]);
+        this.unfilledPurchaseSize = state.unfilledPurchaseSize as number;
+        this.heldShares = state.heldShares as Record<TokenSide, number>;
+        this.totalReceivedCents = state.totalReceivedCents as number;
+        this.purchaseExecutionCost = state.purchaseExecutionCost as number;
+        this.hasTicks = state.hasTicks as boolean;
+    }
+
+    public onMarketEnd(marketEnd: StrategyMarketEnd): PrePurchasedSellResult {
+        if (!this.hasTicks) {
+            return {
+                totalProfit: 0,
+                totalCost: 0,
+                firstSellOrder: null,
+                secondSellLimitOrder: null,
+                totalReceived: 0,
+                finalValue: 0,
+            };
+        }
+
+        const initialCost = 0.5 * (this.params.orderSize * 2 - this.unfilledPurchaseSize) + this.purchaseExecutionCost;
+        const totalReceived = this.totalReceivedCents / 100;
+        // Held tokens settle on the official outcome; they are not valued while the market is unresolved
+        const finalValue = marketEnd.resolvedOutcome ? this.heldShares[marketEnd.resolvedOutcome] : 0;
+        const totalProfit = totalReceived + finalValue - initialCost;
+
+        return {
+            totalProfit: Math.round(totalProfit * 100) / 100,
+            totalCost: Math.round(initialCost * 100) / 100,
+            firstSellOrder: this.firstSellOrder,
+            secondSellLimitOrder: this.secondSellLimitOrder,
+            totalReceived: Math.round(totalReceived * 100) / 100,
+            finalValue: Math.round(finalValue * 100) / 100,
+        };
+    }
+
+    /**
+     * Entering the market means selling the first side (both sides are always pre-purchased)
+     */
+    public summarize(result: PrePurchasedSellResult): StrategySummary {
+        return {
+            totalProfit: result.totalProfit,
+            totalCost: result.totalCost,
+            totalEntries: result.firstSellOrder ? 1 : 0,
+            finalValue: result.finalValue,
+            totalReceived: result.totalReceived,
+        };
+    }
+}
@@ -0,0 +1,156 @@
+export type TokenSide = 'up' | 'down';
+export type OrderSide = 'BUY' | 'SELL';
+export type EventType = 'hourly' | '15min';
+
+export type StrategyName = 'gridHedge' | 'prePurchasedSell' | 'newHedge';
+
+/**
+ * Market a strategy is trading
+ */
+export interface StrategyMarket {
+    slug: string;
+    eventType: EventType;
+}
+
+/**
+ * Price tick (best ask of each token, in dollars)
+ */
+export interface StrategyTick {
+    timestamp: string;
+    upTokenPrice: number;
+    downTokenPrice: number;
+    coinPriceBias?: number;
+    // Best bids, when recorded (sells are priced at 100 - ask without them)
+    upBestBid?: number | null;
+    downBestBid?: number | null;
+    // Top-of-book sizes, when recorded (used by depth-based slippage)
+    upAskSize?: number | null;
+    downAskSize?: number | null;
+    upBidSize?: number | null;
+    downBidSize?: number | null;
+}
+
+/**
+ * Trade print of one token (from the market channel `last_trade_price` messages)
+ */
+export interface StrategyTradePrint {
+    timestamp: string;
+    tokenType: TokenSide;
+    price: number; // in dollars
+    size: number;
+    feeRateBps?: number;
+}
+
+/**
+ * Limit order requested by a strategy (price in dollars)
+ */
+export interface StrategyOrder {
+    tokenType: TokenSide;
+    side: OrderSide;
+    price: number;
+    size: number;
+}
+
+/**
+ * Fill of a strategy order, reported once per order with its filled size (less than the order
+ * size if the order was cancelled after a partial fill)
+ */
+export interface StrategyFill {
+    orderId: string;
+    tokenType: TokenSide;
+    side: OrderSide;
+    price: number; // Execution price, which can differ from the order price (e.g. backtest slippage)
+    size: number;
+    timestamp: string;
+    fee?: number; // in dollars
+}
+
+export interface StrategyMarketEnd {
+    lastTick: StrategyTick | null;
+    // Official settled outcome, when known (backtests of resolved markets); otherwise estimated from the last tick
+    resolvedOutcome?: TokenSide | null;
+}
+
+export type BookSide = 'bid' | 'ask';
+
+export interface OrderBookLevel {
+    price: number; // in dollars
+    size: number; // in shares
+}
+
+/**
+ * Read-only L2 order book of one token
+ */
+export interface OrderBookView {
+    readonly assetId: string;
+    getBestBid(): number | null;
+    getBestAsk(): number | null;
+    getSpread(): number | null;
+    getMid(): number | null;
+    // Levels from the top of book, best price first
+    getDepth(side: BookSide, maxLevels?: number): OrderBookLevel[];
+    getSizeAtPrice(side: BookSide, price: number): number;
+    // Total size at prices at least as good as limitPrice (bids >= limit, asks <= limit)
+    getSizeUpToPrice(side: BookSide, limitPrice: number): number;
+}
+
+/**
+ * Totals of a market result shared by every strategy, for aggregating backtests of any strategy
+ */
+export interface StrategySummary {
+    totalProfit: number;
+    totalCost: number;
+    totalEntries: number;
+    finalValue?: number; // Settlement value of the tokens held at the end
+    totalHedgesFilled?: number; // Hedging strategies only
+    totalReceived?: number; // Strategies that sell their tokens
+}
+
+/**
+ * Order execution provided by the driver (backtest runner or live TradingBot)
+ */
+export interface StrategyContext {
+    placeOrder(order: StrategyOrder): string;
+    cancelOrder(orderId: string): void;
+    // Live L2 order book of a token (null in backtests, which only have top-of-book prices)
+    getOrderBook(tokenType: TokenSide): OrderBookView | null;
+}
+
+/**
+ * Strategy - lifecycle hooks driven by both the backtest runner and the live TradingBot
+ *
+ * A strategy only decides which orders to place; fills always come from the driver
+ * (simulated against price ticks in backtests, from the exchange in live/paper trading).
+ */
+export interface Strategy<TResult = unknown> {
+    readonly name: StrategyName;
+    readonly params: object;
+    onMarketStart(market: StrategyMarket, context: StrategyContext): void;
+    onTick(tick: StrategyTick, context: StrategyContext): void;
+    onFill(fill: StrategyFill, context: StrategyContext): void;
+    onMarketEnd(marketEnd: StrategyMarketEnd, context: StrategyContext): TResult;
+    // Totals of a result returned by onMarketEnd
+    summarize(result: TResult): StrategySummary;
+    // Called when the driver could not place an order (live trading only)
+    onOrderRejected?(orderId: string, context: StrategyContext): void;
+    // Called when an order is cancelled before any fill (live trading only); a partly filled
+    // order is reported through onFill with its filled size instead
+    onOrderCancelled?(orderId: string, context: StrategyContext): void;
+    // JSON-serializable state of the current market, persisted so a restarted bot can resume it (live trading only)
+    saveState?(): StrategyState;
+    // Resume a market from saveState() instead of onMarketStart (same params), without placing orders
+    restoreState?(market: StrategyMarket, state: StrategyState): void;
+}
+
+export type StrategyState = Record<string, unknown>;
+
+/**
+ * Accepted values of a numeric strategy parameter
+ */
+export interface StrategyParamRange {
+    greaterThan: number;
+    atMost?: number;
+    lessThan?: number;
+}
+
+export type StrategyParamRanges<TParams> = Partial<Record<keyof TParams, StrategyParamRange>>;
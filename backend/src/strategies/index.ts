@@ -0,0 +1,90 @@
+import { DEFAULT_GRID_HEDGE_PARAMS, GRID_HEDGE_PARAM_RANGES, GridHedgeParams, GridHedgeStrategy } from './GridHedgeStrategy';
+import { DEFAULT_NEW_HEDGE_PARAMS, NEW_HEDGE_PARAM_RANGES, NewHedgeParams, NewHedgeStrategy } from './NewHedgeStrategy';
+import { DEFAULT_PRE_PURCHASED_SELL_PARAMS, PRE_PURCHASED_SELL_PARAM_RANGES, PrePurchasedSellParams, PrePurchasedSellStrategy } from './PrePurchasedSellStrategy';
+import { Strategy, StrategyName, StrategyParamRange } from './Strategy';
+
+export * from './Strategy';
+export { runBacktest } from './BacktestRunner';
+export {
+    IdealFillModel,
+    RealisticFillModel,
+    IDEAL_FILL_MODEL,
+    DEFAULT_REALISTIC_FILL_MODEL_OPTIONS,
+    createFillModel,
+    createSeededRandom,
+    parseFillModelQuery,
+} from './FillModel';
+export type { FillModel, FillCandidate, FillExecution, Liquidity, SlippageMode, RealisticFillModelOptions } from './FillModel';
+export { GridHedgeStrategy, DEFAULT_GRID_HEDGE_PARAMS, GRID_HEDGE_PARAM_RANGES } from './GridHedgeStrategy';
+export type { GridHedgeParams } from './GridHedgeStrategy';
+export { PrePurchasedSellStrategy, DEFAULT_PRE_PURCHASED_SELL_PARAMS, PRE_PURCHASED_SELL_PARAM_RANGES } from './PrePurchasedSellStrategy';
+export type { PrePurchasedSellParams } from './PrePurchasedSellStrategy';
+export { NewHedgeStrategy, DEFAULT_NEW_HEDGE_PARAMS, NEW_HEDGE_PARAM_RANGES } from './NewHedgeStrategy';
+export type { NewHedgeParams } from './NewHedgeStrategy';
+
+export const STRATEGY_NAMES: StrategyName[] = ['gridHedge', 'prePurchasedSell', 'newHedge'];
+
+/**
+ * Default parameters of each strategy (also defines the accepted parameter names and types)
+ */
+export const DEFAULT_STRATEGY_PARAMS: Record<StrategyName, object> = {
+    gridHedge: DEFAULT_GRID_HEDGE_PARAMS,
+    prePurchasedSell: DEFAULT_PRE_PURCHASED_SELL_PARAMS,
+    newHedge: DEFAULT_NEW_HEDGE_PARAMS,
+};
+
+/**
+ * Accepted range of each numeric strategy parameter
+ */
+export const STRATEGY_PARAM_RANGES: Record<StrategyName, Partial<Record<string, StrategyParamRange>>> = {
+    gridHedge: GRID_HEDGE_PARAM_RANGES,
+    prePurchasedSell: PRE_PURCHASED_SELL_PARAM_RANGES,
+    newHedge: NEW_HEDGE_PARAM_RANGES,
+};
+
+const isInRange = (value: number, range: StrategyParamRange): boolean =>
+    value > range.greaterThan
+    && (range.atMost === undefined || value <= range.atMost)
+    && (range.lessThan === undefined || value < range.lessThan);
+
+const describeRange = (range: StrategyParamRange): string =>
+    `greater than ${range.greaterThan}`
+    + (range.atMost !== undefined ? ` and at most ${range.atMost}` : '')
+    + (range.lessThan !== undefined ? ` and less than ${range.lessThan}` : '');
+
+/**
+ * Check strategy parameters against the strategy defaults and parameter ranges, returning one
+ * message per problem
+ */
+export function validateStrategyParams(name: StrategyName, params: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    const defaults = DEFAULT_STRATEGY_PARAMS[name] as Record<string, unknown>;
+    const ranges = STRATEGY_PARAM_RANGES[name];
+    for (const [key, value] of Object.entries(params)) {
+        const range = ranges[key];
+        if (!(key in defaults)) {
+            errors.push(`unknown ${name} parameter: ${key}`);
+        } else if (typeof value !== typeof defaults[key] || (typeof value === 'number' && !Number.isFinite(value))) {
+            errors.push(`${name} parameter ${key} must be a ${typeof defaults[key]}`);
+        } else if (typeof value === 'number' && range && !isInRange(value, range)) {
+            errors.push(`${name} parameter ${key} must be ${describeRange(range)}`);
+        }
+    }
+    return errors;
+}
+
+/**
+ * Create a strategy by name (unspecified parameters use the strategy defaults)
+ */
+export function createStrategy(name: StrategyName, params: Record<string, unknown> = {}): Strategy {
+    switch (name) {
+        case 'gridHedge':
+            return new GridHedgeStrategy(params as Partial<GridHedgeParams>);
+        case 'prePurchasedSell':
+            return new PrePurchasedSellStrategy(params as Partial<PrePurchasedSellParams>);
+        case 'newHedge':
+            return new NewHedgeStrategy(params as Partial<NewHedgeParams>);
+        default:
+            throw new Error(`Unknown strategy: ${name}`);
+    }
+}
@@ -0,0 +1,101 @@
+import { Outcome } from '../models/TokenPriceHistory';
+import { RedemptionChain, RedemptionSigner } from '../services/RedemptionSigner';
+
+interface MockCondition {
+    upTokenId: string;
+    downTokenId: string;
+    outcome: Outcome | null; // Payouts reported on chain
+}
+
+/**
+ * In-memory ConditionalTokens: outcome token balances per owner, binary conditions and collateral.
+ * Redeeming burns both outcome tokens of a resolved condition and pays 1 per winning token.
+ */
+export class MockChain implements RedemptionChain {
+    private conditions: Map<string, MockCondition> = new Map();
+    private balances: Map<string, number> = new Map(); // owner:tokenId -> balance
+    private collateral: Map<string, number> = new Map(); // owner -> balance
+    private txCount: number = 0;
+
+    public addCondition(conditionId: string, upTokenId: string, downTokenId: string): void {
+        this.conditions.set(conditionId, { upTokenId, downTokenId, outcome: null });
+    }
+
+    /**
+     * Report the payouts of a condition on chain
+     */
+    public reportPayouts(conditionId: string, outcome: Outcome): void {
+        this.getCondition(conditionId).outcome = outcome;
+    }
+
+    public mint(owner: string, tokenId: string, size: number): void {
+        this.balances.set(`${owner}:${tokenId}`, this.balanceOf(owner, tokenId) + size);
+    }
+
+    public balanceOf(owner: string, tokenId: string): number {
+        return this.balances.get(`${owner}:${tokenId}`) ?? 0;
+    }
+
+    public collateralOf(owner: string): number {
+        return this.collateral.get(owner) ?? 0;
+    }
+
+    public async getTokenBalance(owner: string, tokenId: string): Promise<number> {
+        return this.balanceOf(owner, tokenId);
+    }
+
+    public async isConditionResolved(conditionId: string): Promise<boolean> {
+        return this.getCondition(conditionId).outcome !== null;
+    }
+
+    /**
+     * redeemPositions of the owner: reverts if the payouts are not reported yet
+     */
+    public redeem(owner: string, conditionId: string): string {
+        const condition = this.getCondition(conditionId);
+        if (!condition.outcome) {
+            throw new Error('execution reverted: result for condition not received yet');
+        }
+
+        const winningTokenId = condition.outcome === 'UP' ? condition.upTokenId : condition.downTokenId;
+        const payout = this.balanceOf(owner, winningTokenId);
+        this.balances.set(`${owner}:${condition.upTokenId}`, 0);
+        this.balances.set(`${owner}:${condition.downTokenId}`, 0);
+        this.collateral.set(owner, this.collateralOf(owner) + payout);
+        return `0xmocktx${++this.txCount}`;
+    }
+
+    private getCondition(conditionId: string): MockCondition {
+        const condition = this.conditions.get(conditionId);
+        if (!condition) {
+            throw new Error(`Unknown condition ${conditionId}`);
+        }
+        return condition;
+    }
+}
+
+/**
+ * Signer redeeming on a MockChain for one owner; failNext() makes the next submissions fail
+ */
+export class MockSigner implements RedemptionSigner {
+    public readonly name = 'mock';
+    public readonly submitted: string[] = []; // Condition IDs of every submission, including failed ones
+    private failures: string[] = [];
+
+    constructor(private chain: MockChain, private owner: string) {}
+
+    public failNext(count: number, message: string = 'nonce too low'): void {
+        for (let i = 0; i < count; i++) {
+            this.failures.push(message);
+        }
+    }
+
+    public async redeemPositions(conditionId: string): Promise<string> {
+        this.submitted.push(conditionId);
+        const failure = this.failures.shift();
+        if (failure) {
+            throw new Error(failure);
+        }
+        return this.chain.redeem(this.owner, conditionId);
+    }
+}
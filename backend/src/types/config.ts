@@ -12,5 +12,26 @@ export interface Config {
   mongodb?: {
     uri: string;
   };
+  paperTrading: boolean;
+  bots: {
+    configPath: string; // JSON file listing the trading bot instances
+  };
+  risk: {
+    // Default limits of the risk manager (null = no limit); can be overridden through /api/risk/limits
+    maxNotionalPerMarket: number | null; // Buy notional (open + filled) per market, in dollars
+    maxOpenOrders: number | null; // Open orders across all bots
+    maxTotalExposure: number | null; // Buy notional (open + filled) across all bots, in dollars
+    maxDailyLoss: number | null; // Realized loss per UTC day after which buys are rejected, in dollars
+    minOrderSize: number; // Orders shrunk below this size are rejected instead
+  };
+  redemption: {
+    enabled: boolean; // Redeem winning tokens of resolved markets after each market rollover (never in paper trading); off unless REDEMPTION_ENABLED=true
+    rpcUrl: string; // Polygon JSON-RPC endpoint
+    signer: 'safe' | 'wallet'; // 'safe': funder is a Gnosis Safe owned by the wallet; 'wallet': funder is the wallet
+  };
+  endOfMarket: {
+    cancelBeforeExpirySeconds: number; // Resting orders are cancelled this long before the market closes (0 = never)
+    unhedgedPolicy: 'hold' | 'flatten'; // Unhedged tokens left after the cancel: keep to settlement, or sell at market
+  };
 }
 
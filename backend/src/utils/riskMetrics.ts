@@ -0,0 +1,104 @@
+/**
+ * Backtest result of one market, as used for risk metrics
+ */
+export interface MarketPnl {
+    slug: string;
+    endTime: Date | null;
+    profit: number;
+    cost: number;
+}
+
+export interface EquityCurvePoint {
+    slug: string;
+    endTime: Date | null;
+    profit: number;
+    cumulativeProfit: number;
+}
+
+export interface RiskMetrics {
+    equityCurve: EquityCurvePoint[]; // Cumulative P&L after each market, in chronological order
+    maxDrawdown: number; // Largest peak-to-trough drop of the cumulative P&L
+    winCount: number;
+    lossCount: number;
+    maxLosingStreak: number; // Consecutive losing markets (markets without a position are skipped)
+    profitFactor: number | null; // Gross profit / gross loss, null without losses
+    averageReturnOnCost: number | null; // Mean per-market profit / cost, null without positions
+    sharpeRatio: number | null; // Mean / standard deviation of per-market return on cost (not annualized)
+}
+
+const round = (value: number, decimals: number = 2): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+/**
+ * Largest peak-to-trough drop of the cumulative profit
+ */
+export const calculateMaxDrawdown = (profits: number[]): number => {
+    let cumulative = 0;
+    let peak = 0;
+    let maxDrawdown = 0;
+    for (const profit of profits) {
+        cumulative += profit;
+        peak = Math.max(peak, cumulative);
+        maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+    }
+    return maxDrawdown;
+};
+
+/**
+ * Risk metrics of per-market backtest results given in chronological order.
+ * Win/loss counts, streaks and returns only consider markets where a position was taken (cost > 0).
+ */
+export const calculateRiskMetrics = (markets: MarketPnl[]): RiskMetrics => {
+    let cumulativeProfit = 0;
+    const equityCurve = markets.map(market => {
+        cumulativeProfit += market.profit;
+        return {
+            slug: market.slug,
+            endTime: market.endTime,
+            profit: round(market.profit),
+            cumulativeProfit: round(cumulativeProfit),
+        };
+    });
+
+    const traded = markets.filter(market => market.cost > 0);
+    let winCount = 0;
+    let lossCount = 0;
+    let grossProfit = 0;
+    let grossLoss = 0;
+    let losingStreak = 0;
+    let maxLosingStreak = 0;
+    for (const market of traded) {
+        if (market.profit > 0) {
+            winCount++;
+            grossProfit += market.profit;
+            losingStreak = 0;
+        } else if (market.profit < 0) {
+            lossCount++;
+            grossLoss -= market.profit;
+            losingStreak++;
+            maxLosingStreak = Math.max(maxLosingStreak, losingStreak);
+        }
+    }
+
+    const returns = traded.map(market => market.profit / market.cost);
+    const averageReturn = returns.length > 0 ? returns.reduce((sum, value) => sum + value, 0) / returns.length : null;
+    let sharpeRatio: number | null = null;
+    if (averageReturn !== null && returns.length > 1) {
+        const variance = returns.reduce((sum, value) => sum + Math.pow(value - averageReturn, 2), 0) / (returns.length - 1);
+        const standardDeviation = Math.sqrt(variance);
+        sharpeRatio = standardDeviation > 0 ? round(averageReturn / standardDeviation, 4) : null;
+    }
+
+    return {
+        equityCurve,
+        maxDrawdown: round(calculateMaxDrawdown(markets.map(market => market.profit))),
+        winCount,
+        lossCount,
+        maxLosingStreak,
+        profitFactor: grossLoss > 0 ? round(grossProfit / grossLoss, 4) : null,
+        averageReturnOnCost: averageReturn !== null ? round(averageReturn, 4) : null,
+        sharpeRatio,
+    };
+};
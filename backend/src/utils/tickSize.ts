@@ -0,0 +1,41 @@
+import { TickSize } from '@polymarket/clob-client';
+
+export const DEFAULT_TICK_SIZE = 0.01;
+
+const TICK_SIZES: TickSize[] = ['0.1', '0.01', '0.001', '0.0001'];
+
+/**
+ * Number of decimals of a tick size (e.g. 0.001 -> 3), used to strip floating point noise
+ */
+const getTickDecimals = (tickSize: number): number => {
+    return Math.max(0, Math.round(-Math.log10(tickSize)));
+};
+
+/**
+ * Round a price to the nearest tick
+ */
+export const roundToTick = (price: number, tickSize: number = DEFAULT_TICK_SIZE): number => {
+    return parseFloat((Math.round(price / tickSize) * tickSize).toFixed(getTickDecimals(tickSize)));
+};
+
+/**
+ * Round a price down to a tick (limit buys never pay more than requested)
+ */
+export const roundDownToTick = (price: number, tickSize: number = DEFAULT_TICK_SIZE): number => {
+    // The epsilon keeps prices already on a tick (e.g. 0.29 / 0.01 = 28.999...) unchanged
+    return parseFloat((Math.floor(price / tickSize + 1e-9) * tickSize).toFixed(getTickDecimals(tickSize)));
+};
+
+/**
+ * Round a price up to a tick (limit sells never receive less than requested)
+ */
+export const roundUpToTick = (price: number, tickSize: number = DEFAULT_TICK_SIZE): number => {
+    return parseFloat((Math.ceil(price / tickSize - 1e-9) * tickSize).toFixed(getTickDecimals(tickSize)));
+};
+
+/**
+ * Tick size as accepted by ClobClient order options, or undefined if it is not a CLOB tick size
+ */
+export const toClobTickSize = (tickSize: number): TickSize | undefined => {
+    return TICK_SIZES.find(size => parseFloat(size) === tickSize);
+};
@@ -8,23 +8,21 @@ import Strategy3Results from './components/Strategy3Results'
 import TotalProfitCalculator from './components/TotalProfitCalculator'
 import TotalProfitCalculator2 from './components/TotalProfitCalculator2'
 import TotalProfitCalculator3 from './components/TotalProfitCalculator3'
+import ParameterSweep from './components/ParameterSweep'
+import PnlPanel from './components/PnlPanel'
 import CoinSymbolSelector, { CoinSymbol } from './components/CoinSymbolSelector'
 import MarketIntervalSelector, { MarketInterval } from './components/MarketIntervalSelector'
-import { fetchAllSlugs, fetchPriceHistory, SlugWithOutcome } from './services/api'
-import { calculateGridHedgeStrategy, StrategyResult as Strategy1Result } from './utils/strategyCalculator1'
-import { calculatePrePurchasedSellStrategy, StrategyResult as Strategy2Result } from './utils/strategyCalculator2'
-import { calculateNewHedgeStrategy, StrategyResult as Strategy3Result } from './utils/strategyCalculater3'
+import { fetchAllSlugs, fetchPriceHistory, PriceData, SlugWithOutcome } from './services/api'
+import {
+  calculateGridHedgeStrategy,
+  calculateNewHedgeStrategy,
+  calculatePrePurchasedSellStrategy,
+  GridHedgeResult,
+  NewHedgeResult,
+  PrePurchasedSellResult,
+} from 'polytradingbot-shared'
 import './App.css'
 
-interface PriceData {
-  slug: string
-  timestamp: string
-  upTokenPrice: number
-  downTokenPrice: number
-  createdAt: string
-  coinPriceBias?: number
-}
-
 function App() {
   const [slugs, setSlugs] = useState<string[]>([])
   const [slugsWithOutcome, setSlugsWithOutcome] = useState<SlugWithOutcome[]>([])
@@ -56,25 +54,29 @@ function App() {
   // Selected strategy
   const [selectedStrategy, setSelectedStrategy] = useState<'strategy1' | 'strategy2' | 'strategy3'>('strategy1')
   
-  const [strategyResult, setStrategyResult] = useState<Strategy1Result | null>(null)
-  const [strategy2Result, setStrategy2Result] = useState<Strategy2Result | null>(null)
-  const [strategy3Result, setStrategy3Result] = useState<Strategy3Result | null>(null)
+  const [strategyResult, setStrategyResult] = useState<GridHedgeResult | null>(null)
+  const [strategy2Result, setStrategy2Result] = useState<PrePurchasedSellResult | null>(null)
+  const [strategy3Result, setStrategy3Result] = useState<NewHedgeResult | null>(null)
+
+  // Settle positions held to expiry on the official outcome once resolved, as the /api/strategy/total-profit endpoints do
+  const outcome = slugsWithOutcome.find(item => item.slug === selectedSlug)?.outcome ?? null
+  const resolvedOutcome = outcome === 'UP' ? 'up' : outcome === 'DOWN' ? 'down' : null
 
   // Calculate strategy 1 results
   useEffect(() => {
-    setStrategyResult(calculateGridHedgeStrategy(priceData, maxTotalCost, gridGap, orderSize, enableRebuy, enableDoubleSide))
-  }, [priceData, maxTotalCost, gridGap, orderSize, enableRebuy, enableDoubleSide])
+    setStrategyResult(calculateGridHedgeStrategy(priceData, maxTotalCost, gridGap, orderSize, enableRebuy, enableDoubleSide, resolvedOutcome))
+  }, [priceData, maxTotalCost, gridGap, orderSize, enableRebuy, enableDoubleSide, resolvedOutcome])
 
   // Calculate strategy 2 results
   useEffect(() => {
-    setStrategy2Result(calculatePrePurchasedSellStrategy(priceData, targetTotal, sellThreshold, orderSize))
-  }, [priceData, targetTotal, sellThreshold, orderSize])
+    setStrategy2Result(calculatePrePurchasedSellStrategy(priceData, targetTotal, sellThreshold, orderSize, resolvedOutcome))
+  }, [priceData, targetTotal, sellThreshold, orderSize, resolvedOutcome])
 
   // Calculate strategy 3 results
   useEffect(() => {
     const eventType = selectedInterval === 'hourly' ? 'hourly' : '15min'
-    setStrategy3Result(calculateNewHedgeStrategy(priceData, priceDiff, timeTillEnd, targetPrice, maxTotalCent, orderSize, eventType))
-  }, [priceData, priceDiff, timeTillEnd, targetPrice, maxTotalCent, orderSize, selectedInterval])
+    setStrategy3Result(calculateNewHedgeStrategy(priceData, priceDiff, timeTillEnd, targetPrice, maxTotalCent, orderSize, eventType, resolvedOutcome))
+  }, [priceData, priceDiff, timeTillEnd, targetPrice, maxTotalCent, orderSize, selectedInterval, resolvedOutcome])
 
   useEffect(() => {
     loadSlugs()
@@ -206,6 +208,25 @@ function App() {
             />
           )}
 
+          {/* Live bot P&L from confirmed trades, next to the backtest figures above */}
+          <PnlPanel selectedCoin={selectedCoin} />
+
+          {/* Remount on strategy change so the sweep axes and job reset */}
+          <ParameterSweep
+            key={selectedStrategy}
+            strategy={selectedStrategy === 'strategy1' ? 'gridHedge' : selectedStrategy === 'strategy2' ? 'prePurchasedSell' : 'newHedge'}
+            params={
+              selectedStrategy === 'strategy1'
+                ? { maxTotalCost, gridGap, orderSize, enableRebuy, enableDoubleSide }
+                : selectedStrategy === 'strategy2'
+                  ? { targetTotal, sellThreshold, orderSize }
+                  : { priceDiff, timeTillEnd, targetPrice, maxTotalCent, orderSize }
+            }
+            count={count}
+            selectedCoin={selectedCoin}
+            selectedInterval={selectedInterval}
+          />
+
           {selectedSlug && (
             <div className="chart-container">
               {loading ? (
@@ -0,0 +1,77 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts'
+import { RiskMetrics } from '../services/api'
+
+interface EquityCurveChartProps {
+  riskMetrics: RiskMetrics
+}
+
+const formatRatio = (value: number | null, digits: number = 2) => (value !== null ? value.toFixed(digits) : 'N/A')
+
+export default function EquityCurveChart({ riskMetrics }: EquityCurveChartProps) {
+  const chartData = riskMetrics.equityCurve.map((point, index) => ({
+    index: index + 1,
+    slug: point.slug,
+    time: point.endTime ? new Date(point.endTime).toLocaleString() : point.slug,
+    profit: point.profit,
+    cumulativeProfit: point.cumulativeProfit
+  }))
+
+  return (
+    <div className="equity-curve">
+      <h4>Risk Metrics</h4>
+      <div className="strategy-stats">
+        <div className="stat">
+          <span className="stat-label">Max Drawdown:</span>
+          <span className="stat-value negative">{riskMetrics.maxDrawdown.toFixed(2)}</span>
+        </div>
+        <div className="stat">
+          <span className="stat-label">Wins / Losses:</span>
+          <span className="stat-value">{riskMetrics.winCount} / {riskMetrics.lossCount}</span>
+        </div>
+        <div className="stat">
+          <span className="stat-label">Max Losing Streak:</span>
+          <span className="stat-value">{riskMetrics.maxLosingStreak}</span>
+        </div>
+        <div className="stat">
+          <span className="stat-label">Profit Factor:</span>
+          <span className="stat-value">{formatRatio(riskMetrics.profitFactor)}</span>
+        </div>
+        <div className="stat">
+          <span className="stat-label">Avg Return on Cost:</span>
+          <span className="stat-value">
+            {riskMetrics.averageReturnOnCost !== null ? `${(riskMetrics.averageReturnOnCost * 100).toFixed(2)}%` : 'N/A'}
+          </span>
+        </div>
+        <div className="stat">
+          <span className="stat-label">Sharpe (per market):</span>
+          <span className="stat-value">{formatRatio(riskMetrics.sharpeRatio, 3)}</span>
+        </div>
+      </div>
+
+      {chartData.length > 0 && (
+        <div className="equity-curve-chart">
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis dataKey="index" stroke="#666" />
+              <YAxis stroke="#666" tickFormatter={(value) => value.toFixed(2)} />
+              <Tooltip
+                labelFormatter={(_, payload) => (payload && payload.length ? `${payload[0].payload.slug} (${payload[0].payload.time})` : '')}
+                formatter={(value: number, name: string) => [value.toFixed(2), name]}
+              />
+              <ReferenceLine y={0} stroke="#999" />
+              <Line
+                type="monotone"
+                dataKey="cumulativeProfit"
+                stroke="#667eea"
+                strokeWidth={2}
+                dot={false}
+                name="Cumulative P&L"
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
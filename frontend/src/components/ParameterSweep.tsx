@@ -0,0 +1,286 @@
+import { useEffect, useState } from 'react'
+import {
+  SweepJobResponse,
+  SweepParameterValue,
+  SweepResultRow,
+  SweepStrategy,
+  cancelParameterSweep,
+  fetchParameterSweep,
+  startParameterSweep
+} from '../services/api'
+import { CoinSymbol } from './CoinSymbolSelector'
+import { MarketInterval } from './MarketIntervalSelector'
+import './ParameterSweep.css'
+
+type HeatmapMetric = 'profit' | 'winRate' | 'maxDrawdown'
+
+interface SweepRange {
+  min: number
+  max: number
+  step: number
+}
+
+interface SweepableParam {
+  key: string
+  label: string
+  defaultRange: SweepRange
+}
+
+// Numeric parameters that can be swept, with a starting range for each
+const SWEEPABLE_PARAMS: Record<SweepStrategy, SweepableParam[]> = {
+  gridHedge: [
+    { key: 'gridGap', label: 'Grid Gap (cents)', defaultRange: { min: 2, max: 10, step: 1 } },
+    { key: 'maxTotalCost', label: 'Max Total Cost (cents)', defaultRange: { min: 90, max: 99, step: 1 } }
+  ],
+  prePurchasedSell: [
+    { key: 'sellThreshold', label: 'Sell Threshold (cents)', defaultRange: { min: 55, max: 75, step: 2 } },
+    { key: 'targetTotal', label: 'Target Total (cents)', defaultRange: { min: 100, max: 110, step: 1 } }
+  ],
+  newHedge: [
+    { key: 'priceDiff', label: 'Price Diff (dollars)', defaultRange: { min: 50, max: 200, step: 25 } },
+    { key: 'timeTillEnd', label: 'Time Till End (seconds)', defaultRange: { min: 60, max: 600, step: 60 } },
+    { key: 'targetPrice', label: 'Target Price (cents)', defaultRange: { min: 30, max: 60, step: 5 } },
+    { key: 'maxTotalCent', label: 'Max Total Cent (cents)', defaultRange: { min: 90, max: 100, step: 2 } }
+  ]
+}
+
+const METRIC_LABELS: Record<HeatmapMetric, string> = {
+  profit: 'Profit',
+  winRate: 'Win Rate',
+  maxDrawdown: 'Max Drawdown'
+}
+
+const POLL_INTERVAL_MS = 1000
+
+interface ParameterSweepProps {
+  strategy: SweepStrategy
+  params: Record<string, SweepParameterValue> // Current calculator values (fixed for unswept parameters)
+  count: number | undefined
+  selectedCoin: CoinSymbol
+  selectedInterval: MarketInterval
+}
+
+const formatMetric = (metric: HeatmapMetric, value: number) =>
+  metric === 'winRate' ? `${(value * 100).toFixed(1)}%` : value.toFixed(2)
+
+export default function ParameterSweep({
+  strategy,
+  params,
+  count,
+  selectedCoin,
+  selectedInterval
+}: ParameterSweepProps) {
+  const sweepable = SWEEPABLE_PARAMS[strategy]
+  const [xParam, setXParam] = useState<string>(sweepable[0].key)
+  const [yParam, setYParam] = useState<string>(sweepable[1].key)
+  const [ranges, setRanges] = useState<Record<string, SweepRange>>({})
+  const [metric, setMetric] = useState<HeatmapMetric>('profit')
+  const [job, setJob] = useState<SweepJobResponse | null>(null)
+  const [sweepError, setSweepError] = useState<string | null>(null)
+
+  const isRunning = job !== null && (job.status === 'queued' || job.status === 'running')
+
+  // Poll the job until it finishes
+  useEffect(() => {
+    if (!job || !isRunning) {
+      return
+    }
+    const timer = setTimeout(async () => {
+      try {
+        setJob(await fetchParameterSweep(job.jobId))
+      } catch (err) {
+        setSweepError('Failed to load sweep progress')
+        console.error('Error loading sweep progress:', err)
+      }
+    }, POLL_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [job])
+
+  const getRange = (key: string): SweepRange =>
+    ranges[key] || sweepable.find((param) => param.key === key)!.defaultRange
+
+  const updateRange = (key: string, field: keyof SweepRange, value: number) => {
+    setRanges({ ...ranges, [key]: { ...getRange(key), [field]: value } })
+  }
+
+  const handleStartSweep = async () => {
+    setSweepError(null)
+    try {
+      const fixedParams = { ...params }
+      delete fixedParams[xParam]
+      delete fixedParams[yParam]
+      const response = await startParameterSweep({
+        strategy,
+        ranges: { [xParam]: getRange(xParam), [yParam]: getRange(yParam) },
+        params: fixedParams,
+        sortBy: metric,
+        token: selectedCoin,
+        eventType: selectedInterval,
+        count
+      })
+      setJob(response)
+    } catch (err: any) {
+      setSweepError(err?.response?.data?.message || 'Failed to start parameter sweep')
+      console.error('Error starting parameter sweep:', err)
+    }
+  }
+
+  const handleCancelSweep = async () => {
+    if (!job) return
+    try {
+      setJob(await cancelParameterSweep(job.jobId))
+    } catch (err) {
+      console.error('Error cancelling parameter sweep:', err)
+    }
+  }
+
+  const results: SweepResultRow[] = job?.status === 'completed' ? job.results || [] : []
+  const xValues = Array.from(new Set(results.map((row) => row.params[xParam] as number))).sort((a, b) => a - b)
+  const yValues = Array.from(new Set(results.map((row) => row.params[yParam] as number))).sort((a, b) => b - a)
+  const metricValues = results.map((row) => row[metric])
+  const minValue = Math.min(...metricValues)
+  const maxValue = Math.max(...metricValues)
+
+  // Green for the best cells, red for the worst (lower drawdown is better)
+  const getCellColor = (value: number) => {
+    const ratio = maxValue > minValue ? (value - minValue) / (maxValue - minValue) : 1
+    const score = metric === 'maxDrawdown' ? 1 - ratio : ratio
+    return `hsl(${Math.round(score * 120)}, 70%, 80%)`
+  }
+
+  const findCell = (x: number, y: number) =>
+    results.find((row) => row.params[xParam] === x && row.params[yParam] === y)
+
+  return (
+    <div className="total-profit-section parameter-sweep">
+      <h3>Parameter Sweep (All Slugs)</h3>
+      <div className="strategy-params">
+        {[
+          { label: 'X Axis', value: xParam, onChange: setXParam, other: yParam },
+          { label: 'Y Axis', value: yParam, onChange: setYParam, other: xParam }
+        ].map((axis) => (
+          <div key={axis.label} className="sweep-axis">
+            <label>
+              {axis.label}:
+              <select value={axis.value} onChange={(e) => axis.onChange(e.target.value)} disabled={isRunning}>
+                {sweepable.filter((param) => param.key !== axis.other).map((param) => (
+                  <option key={param.key} value={param.key}>{param.label}</option>
+                ))}
+              </select>
+            </label>
+            {(['min', 'max', 'step'] as const).map((field) => (
+              <label key={field}>
+                {field.charAt(0).toUpperCase() + field.slice(1)}:
+                <input
+                  type="number"
+                  value={getRange(axis.value)[field]}
+                  onChange={(e) => updateRange(axis.value, field, parseFloat(e.target.value) || 0)}
+                  disabled={isRunning}
+                />
+              </label>
+            ))}
+          </div>
+        ))}
+        <label>
+          Heatmap Metric:
+          <select value={metric} onChange={(e) => setMetric(e.target.value as HeatmapMetric)}>
+            {(Object.keys(METRIC_LABELS) as HeatmapMetric[]).map((key) => (
+              <option key={key} value={key}>{METRIC_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+        {isRunning ? (
+          <button className="calculate-total-profit-btn" onClick={handleCancelSweep}>
+            Cancel Sweep
+          </button>
+        ) : (
+          <button className="calculate-total-profit-btn" onClick={handleStartSweep}>
+            Run Sweep
+          </button>
+        )}
+      </div>
+
+      {sweepError && (
+        <div className="error-message">
+          {sweepError}
+        </div>
+      )}
+
+      {job && (
+        <div className="info-note">
+          {job.combinations} combination(s) - {job.status}
+          {isRunning && ` (${job.progress.processedMarkets}/${job.progress.totalMarkets} markets, ${job.progress.percent}%)`}
+          {job.error && `: ${job.error}`}
+          {isRunning && (
+            <div className="sweep-progress">
+              <div className="sweep-progress-bar" style={{ width: `${job.progress.percent}%` }} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="total-profit-results">
+          <h4>{METRIC_LABELS[metric]} by {xParam} / {yParam}</h4>
+          <div className="sweep-heatmap-wrapper">
+            <table className="sweep-heatmap">
+              <thead>
+                <tr>
+                  <th>{yParam} \ {xParam}</th>
+                  {xValues.map((x) => <th key={x}>{x}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {yValues.map((y) => (
+                  <tr key={y}>
+                    <th>{y}</th>
+                    {xValues.map((x) => {
+                      const cell = findCell(x, y)
+                      return (
+                        <td
+                          key={x}
+                          style={cell ? { background: getCellColor(cell[metric]) } : undefined}
+                          title={cell ? `Profit ${cell.profit.toFixed(2)}, win rate ${(cell.winRate * 100).toFixed(1)}%, drawdown ${cell.maxDrawdown.toFixed(2)}, entries ${cell.entries}` : ''}
+                        >
+                          {cell ? formatMetric(metric, cell[metric]) : '-'}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h4>Top Combinations</h4>
+          <table className="sweep-results-table">
+            <thead>
+              <tr>
+                <th>Rank</th>
+                <th>{xParam}</th>
+                <th>{yParam}</th>
+                <th>Profit</th>
+                <th>Win Rate</th>
+                <th>Max Drawdown</th>
+                <th>Entries</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.slice(0, 10).map((row) => (
+                <tr key={row.rank}>
+                  <td>{row.rank}</td>
+                  <td>{String(row.params[xParam])}</td>
+                  <td>{String(row.params[yParam])}</td>
+                  <td className={row.profit >= 0 ? 'positive' : 'negative'}>{row.profit.toFixed(2)}</td>
+                  <td>{(row.winRate * 100).toFixed(1)}%</td>
+                  <td>{row.maxDrawdown.toFixed(2)}</td>
+                  <td>{row.entries}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
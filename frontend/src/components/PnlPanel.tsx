@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react'
+import { PnlResponse, PnlTotals, fetchPnl } from '../services/api'
+import { CoinSymbol } from './CoinSymbolSelector'
+import './PnlPanel.css'
+
+const POLL_INTERVAL_MS = 10000
+
+// Most recent markets shown in the per-market table
+const RECENT_MARKETS = 10
+
+interface PnlPanelProps {
+  selectedCoin: CoinSymbol
+}
+
+const pnlClass = (value: number) => (value >= 0 ? 'positive' : 'negative')
+
+/**
+ * Live P&L of the bots from the ledger of confirmed trades (/api/pnl), for the selected coin
+ */
+export default function PnlPanel({ selectedCoin }: PnlPanelProps) {
+  const [pnl, setPnl] = useState<PnlResponse | null>(null)
+  const [pnlError, setPnlError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout>
+
+    const load = async () => {
+      try {
+        const response = await fetchPnl(selectedCoin)
+        if (!cancelled) {
+          setPnl(response)
+          setPnlError(null)
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setPnlError('Failed to load live P&L')
+        }
+        console.error('Error loading P&L:', err)
+      }
+      if (!cancelled) {
+        timer = setTimeout(load, POLL_INTERVAL_MS)
+      }
+    }
+
+    setPnl(null)
+    load()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [selectedCoin])
+
+  const renderTotals = (totals: PnlTotals) => (
+    <>
+      <td className={pnlClass(totals.totalPnl)}>{totals.totalPnl.toFixed(2)}</td>
+      <td>{totals.realizedPnl.toFixed(2)}</td>
+      <td>{totals.settlementPnl.toFixed(2)}</td>
+      <td>{totals.totalCost.toFixed(2)}</td>
+      <td>{totals.openCost.toFixed(2)}</td>
+      <td>{totals.fillCount}</td>
+    </>
+  )
+
+  const totalsHeaders = (
+    <>
+      <th>P&L</th>
+      <th>Realized</th>
+      <th>Settlement</th>
+      <th>Cost</th>
+      <th>Open Cost</th>
+      <th>Fills</th>
+    </>
+  )
+
+  return (
+    <div className="total-profit-section pnl-panel">
+      <h3>Live P&L ({selectedCoin})</h3>
+
+      {pnlError && (
+        <div className="error-message">
+          {pnlError}
+        </div>
+      )}
+
+      {pnl && pnl.totals.fillCount === 0 && (
+        <div className="info-note">No confirmed bot trades for {selectedCoin} yet</div>
+      )}
+
+      {pnl && pnl.totals.fillCount > 0 && (
+        <div className="total-profit-results">
+          <div className="strategy-stats">
+            <div className="stat">
+              <span className="stat-label">Total P&L:</span>
+              <span className={`stat-value ${pnlClass(pnl.totals.totalPnl)}`}>{pnl.totals.totalPnl.toFixed(2)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Realized (sells):</span>
+              <span className="stat-value">{pnl.totals.realizedPnl.toFixed(2)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Settlement:</span>
+              <span className="stat-value">{pnl.totals.settlementPnl.toFixed(2)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Total Cost:</span>
+              <span className="stat-value">{pnl.totals.totalCost.toFixed(2)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Open Cost:</span>
+              <span className="stat-value">{pnl.totals.openCost.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <h4>Per Bot</h4>
+          <table className="pnl-table">
+            <thead>
+              <tr>
+                <th>Bot</th>
+                {totalsHeaders}
+              </tr>
+            </thead>
+            <tbody>
+              {pnl.byBot.map((row) => (
+                <tr key={row.botId}>
+                  <td>{row.botId}</td>
+                  {renderTotals(row)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h4>Per Day (UTC)</h4>
+          <table className="pnl-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                {totalsHeaders}
+              </tr>
+            </thead>
+            <tbody>
+              {pnl.byDay.slice().reverse().map((row) => (
+                <tr key={row.date}>
+                  <td>{row.date}</td>
+                  {renderTotals(row)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h4>Recent Markets</h4>
+          <table className="pnl-table">
+            <thead>
+              <tr>
+                <th>Slug</th>
+                <th>Outcome</th>
+                {totalsHeaders}
+              </tr>
+            </thead>
+            <tbody>
+              {pnl.bySlug.slice(0, RECENT_MARKETS).map((row) => (
+                <tr key={row.slug}>
+                  <td>{row.slug}</td>
+                  <td>{row.settled ? row.settlementOutcome : 'open'}</td>
+                  {renderTotals(row)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {pnl.openPositions.length > 0 && (
+            <>
+              <h4>Open Positions</h4>
+              <table className="pnl-table">
+                <thead>
+                  <tr>
+                    <th>Bot</th>
+                    <th>Slug</th>
+                    <th>Token</th>
+                    <th>Size</th>
+                    <th>Avg Cost</th>
+                    <th>Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pnl.openPositions.map((position) => (
+                    <tr key={`${position.botId}-${position.slug}-${position.outcome}`}>
+                      <td>{position.botId}</td>
+                      <td>{position.slug}</td>
+                      <td>{position.outcome}</td>
+                      <td>{position.size.toFixed(2)}</td>
+                      <td>{position.averageCost.toFixed(4)}</td>
+                      <td>{position.cost.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -12,14 +12,19 @@ interface SlugSelectorProps {
 const SlugSelector = ({ slugs, slugsWithOutcome, selectedSlug, onSlugChange, loading }: SlugSelectorProps) => {
   // Create a map for quick lookup of outcome by slug
   const outcomeMap = new Map<string, 'UP' | 'DOWN' | null>()
+  const unresolvedSlugs = new Set<string>()
   slugsWithOutcome.forEach(item => {
     outcomeMap.set(item.slug, item.outcome)
+    if (item.status === 'unresolved') {
+      unresolvedSlugs.add(item.slug)
+    }
   })
 
   const getOutcomeDisplay = (slug: string): string => {
     const outcome = outcomeMap.get(slug)
     if (outcome === 'UP') return '🟢 UP'
     if (outcome === 'DOWN') return '🔴 DOWN'
+    if (unresolvedSlugs.has(slug)) return '⏳ unresolved'
     return ''
   }
 
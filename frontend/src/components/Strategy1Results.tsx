@@ -1,8 +1,8 @@
 import { useState } from 'react'
-import { StrategyResult } from '../utils/strategyCalculator1'
+import { GridHedgeResult } from 'polytradingbot-shared'
 
 interface Strategy1ResultsProps {
-  strategyResult: StrategyResult
+  strategyResult: GridHedgeResult
   maxTotalCost: number
   gridGap: number
   orderSize: number
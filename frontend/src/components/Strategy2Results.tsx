@@ -1,7 +1,7 @@
-import { StrategyResult } from '../utils/strategyCalculator2'
+import { PrePurchasedSellResult } from 'polytradingbot-shared'
 
 interface Strategy2ResultsProps {
-  strategyResult: StrategyResult
+  strategyResult: PrePurchasedSellResult
   targetTotal: number
   sellThreshold: number
   orderSize: number
@@ -71,6 +71,10 @@ export default function Strategy2Results({
           <span className="stat-label">Total Received:</span>
           <span className="stat-value">{strategyResult.totalReceived.toFixed(2)}</span>
         </div>
+        <div className="stat">
+          <span className="stat-label">Final Value:</span>
+          <span className="stat-value">{strategyResult.finalValue.toFixed(2)}</span>
+        </div>
       </div>
       
       {(strategyResult.firstSellOrder || strategyResult.secondSellLimitOrder) && (
@@ -1,7 +1,7 @@
-import { StrategyResult } from '../utils/strategyCalculater3'
+import { NewHedgeResult } from 'polytradingbot-shared'
 
 interface Strategy3ResultsProps {
-  strategyResult: StrategyResult
+  strategyResult: NewHedgeResult
   priceDiff: number
   timeTillEnd: number
   targetPrice: number
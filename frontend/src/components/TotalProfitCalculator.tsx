@@ -2,6 +2,7 @@ import { useState } from 'react'
 import { TotalProfitResponse, fetchTotalProfit } from '../services/api'
 import { CoinSymbol } from './CoinSymbolSelector'
 import { MarketInterval } from './MarketIntervalSelector'
+import EquityCurveChart from './EquityCurveChart'
 
 interface TotalProfitCalculatorProps {
   maxTotalCost: number
@@ -194,6 +195,9 @@ export default function TotalProfitCalculator({
               <span className="stat-value">{totalProfitData.actualProcessedCount}</span>
             </div>
           </div>
+          {totalProfitData.riskMetrics && (
+            <EquityCurveChart riskMetrics={totalProfitData.riskMetrics} />
+          )}
           {totalProfitData.parameters.count && (
             <div className="info-note">
               Calculated for last {totalProfitData.parameters.count} slug(s)
@@ -2,6 +2,7 @@ import { useState } from 'react'
 import { TotalProfit2Response, fetchTotalProfit2 } from '../services/api'
 import { CoinSymbol } from './CoinSymbolSelector'
 import { MarketInterval } from './MarketIntervalSelector'
+import EquityCurveChart from './EquityCurveChart'
 
 interface TotalProfitCalculator2Props {
   targetTotal: number
@@ -139,6 +140,9 @@ export default function TotalProfitCalculator2({
               <span className="stat-value">{totalProfitData.actualProcessedCount}</span>
             </div>
           </div>
+          {totalProfitData.riskMetrics && (
+            <EquityCurveChart riskMetrics={totalProfitData.riskMetrics} />
+          )}
           {totalProfitData.parameters.count && (
             <div className="info-note">
               Calculated for last {totalProfitData.parameters.count} slug(s)
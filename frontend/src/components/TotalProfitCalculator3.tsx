@@ -2,6 +2,7 @@ import { useState } from 'react'
 import { TotalProfit3Response, fetchTotalProfit3 } from '../services/api'
 import { CoinSymbol } from './CoinSymbolSelector'
 import { MarketInterval } from './MarketIntervalSelector'
+import EquityCurveChart from './EquityCurveChart'
 
 interface TotalProfitCalculator3Props {
   priceDiff: number
@@ -186,6 +187,9 @@ export default function TotalProfitCalculator3({
               <span className="stat-value">{totalProfitData.actualProcessedCount}</span>
             </div>
           </div>
+          {totalProfitData.riskMetrics && (
+            <EquityCurveChart riskMetrics={totalProfitData.riskMetrics} />
+          )}
           {totalProfitData.parameters.count && (
             <div className="info-note">
               Calculated for last {totalProfitData.parameters.count} slug(s)
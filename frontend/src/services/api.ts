@@ -1,10 +1,12 @@
 import axios from 'axios'
+import type { PriceData } from 'polytradingbot-shared'
 
 const API_BASE_URL = '/api'
 
 export interface SlugWithOutcome {
   slug: string
-  outcome: 'UP' | 'DOWN' | null
+  outcome: 'UP' | 'DOWN' | null // Settled outcome, null until the market is resolved
+  status: 'resolved' | 'unresolved'
 }
 
 export interface SlugResponse {
@@ -13,14 +15,7 @@ export interface SlugResponse {
   slugsWithOutcome?: SlugWithOutcome[]
 }
 
-export interface PriceData {
-  slug: string
-  timestamp: string
-  upTokenPrice: number
-  downTokenPrice: number
-  createdAt: string
-  coinPriceBias?: number
-}
+export type { PriceData }
 
 export interface PriceHistoryResponse {
   slug: string
@@ -65,6 +60,22 @@ export const fetchPriceHistory = async (
   return response.data
 }
 
+export interface RiskMetrics {
+  equityCurve: Array<{
+    slug: string
+    endTime: string | null
+    profit: number
+    cumulativeProfit: number
+  }>
+  maxDrawdown: number
+  winCount: number
+  lossCount: number
+  maxLosingStreak: number
+  profitFactor: number | null
+  averageReturnOnCost: number | null
+  sharpeRatio: number | null
+}
+
 export interface TotalProfitResponse {
   totalProfit: number
   totalCost: number
@@ -84,6 +95,8 @@ export interface TotalProfitResponse {
     eventType: string | null
     count: number | null
   }
+  riskMetrics?: RiskMetrics
+  fillModel?: { name: 'ideal' | 'realistic'; [option: string]: unknown }
   results: Array<{
     slug: string
     profit: number
@@ -135,6 +148,8 @@ export interface TotalProfit2Response {
     eventType: string | null
     count: number | null
   }
+  riskMetrics?: RiskMetrics
+  fillModel?: { name: 'ideal' | 'realistic'; [option: string]: unknown }
   results: Array<{
     slug: string
     profit: number
@@ -184,6 +199,8 @@ export interface TotalProfit3Response {
     eventType: string | null
     count: number | null
   }
+  riskMetrics?: RiskMetrics
+  fillModel?: { name: 'ideal' | 'realistic'; [option: string]: unknown }
   results: Array<{
     slug: string
     profit: number
@@ -220,3 +237,114 @@ export const fetchTotalProfit3 = async (
   return response.data
 }
 
+
+export type SweepStrategy = 'gridHedge' | 'prePurchasedSell' | 'newHedge'
+export type SweepParameterValue = number | boolean
+export type SweepParameterRange = { min: number; max: number; step: number } | SweepParameterValue[]
+export type SweepSortKey = 'profit' | 'winRate' | 'maxDrawdown' | 'entries'
+
+export interface SweepRequest {
+  strategy: SweepStrategy
+  ranges: Record<string, SweepParameterRange>
+  params?: Record<string, SweepParameterValue>
+  sortBy?: SweepSortKey
+  token?: string
+  eventType?: string
+  count?: number
+}
+
+export interface SweepResultRow {
+  rank: number
+  params: Record<string, SweepParameterValue>
+  profit: number
+  cost: number
+  entries: number
+  tradedMarkets: number
+  winningMarkets: number
+  winRate: number
+  maxDrawdown: number
+}
+
+export interface SweepJobResponse {
+  jobId: string
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  strategy: SweepStrategy
+  ranges: Record<string, SweepParameterRange>
+  params: Record<string, SweepParameterValue>
+  sortBy: SweepSortKey
+  combinations: number
+  progress: {
+    processedMarkets: number
+    totalMarkets: number
+    percent: number
+  }
+  createdAt: string
+  startedAt: string | null
+  finishedAt: string | null
+  error: string | null
+  results?: SweepResultRow[]
+}
+
+export const startParameterSweep = async (request: SweepRequest): Promise<SweepJobResponse> => {
+  const response = await axios.post<SweepJobResponse>(`${API_BASE_URL}/strategy/sweep`, request)
+  return response.data
+}
+
+export const fetchParameterSweep = async (jobId: string): Promise<SweepJobResponse> => {
+  const response = await axios.get<SweepJobResponse>(`${API_BASE_URL}/strategy/sweep/${jobId}`)
+  return response.data
+}
+
+export const cancelParameterSweep = async (jobId: string): Promise<SweepJobResponse> => {
+  const response = await axios.delete<SweepJobResponse>(`${API_BASE_URL}/strategy/sweep/${jobId}`)
+  return response.data
+}
+
+export interface PnlTotals {
+  realizedPnl: number
+  settlementPnl: number
+  totalPnl: number
+  totalCost: number
+  totalReceived: number
+  openCost: number
+  fillCount: number
+}
+
+export interface PnlResponse {
+  totals: PnlTotals
+  bySlug: Array<PnlTotals & {
+    slug: string
+    token: string
+    eventType: 'hourly' | '15min'
+    settled: boolean
+    settlementOutcome: 'UP' | 'DOWN' | null
+  }>
+  byBot: Array<PnlTotals & { botId: string }>
+  byCoin: Array<PnlTotals & { token: string }>
+  byDay: Array<PnlTotals & { date: string }>
+  openPositions: Array<{
+    botId: string
+    slug: string
+    outcome: 'UP' | 'DOWN'
+    size: number
+    averageCost: number
+    cost: number
+  }>
+}
+
+export const fetchPnl = async (
+  token?: string,
+  botId?: string,
+  startDate?: string,
+  endDate?: string
+): Promise<PnlResponse> => {
+  const params = new URLSearchParams()
+  if (token) params.append('token', token)
+  if (botId) params.append('botId', botId)
+  if (startDate) params.append('startDate', startDate)
+  if (endDate) params.append('endDate', endDate)
+
+  const queryString = params.toString()
+  const response = await axios.get<PnlResponse>(`${API_BASE_URL}/pnl${queryString ? `?${queryString}` : ''}`)
+  return response.data
+}
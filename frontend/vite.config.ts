@@ -4,9 +4,16 @@ import path from 'path'
 
 export default defineConfig({
   plugins: [react()],
+  // polytradingbot-shared is a linked CommonJS workspace package, so it has to be pre-bundled
+  optimizeDeps: {
+    include: ['polytradingbot-shared'],
+  },
   build: {
     outDir: '../backend/frontend_build',
     emptyOutDir: true,
+    commonjsOptions: {
+      include: [/shared[\\/]dist/, /node_modules/],
+    },
   },
   server: {
     port: 5173,
@@ -1,13 +1,6 @@
-export interface PriceData {
-  slug: string
-  timestamp: string
-  upTokenPrice: number
-  downTokenPrice: number
-  createdAt: string
-  coinPriceBias?: number
-}
+import { PriceData } from './priceData'
 
-export interface Order {
+export interface GridHedgeOrder {
   price: number
   timestamp: string
   size: number
@@ -24,11 +17,11 @@ export interface HedgeOrder {
 }
 
 export interface OrderPair {
-  entryOrder: Order
+  entryOrder: GridHedgeOrder
   hedgeOrder: HedgeOrder
 }
 
-export interface StrategyResult {
+export interface GridHedgeResult {
   totalProfit: number
   totalCost: number
   finalValue: number
@@ -57,7 +50,7 @@ interface GridLevelState {
  * Pattern: start = 50 + gridGap
  * End calculation: for gridGap <= 3, end = 99, otherwise end = 100 - gridGap
  */
-function getGridLevels(gridGap: number, maxTotalCost: number = 97): number[] {
+export function getGridLevels(gridGap: number, maxTotalCost: number = 97): number[] {
   const startLevel = gridGap + 50
   const endLevel = maxTotalCost
   const levels: number[] = []
@@ -73,7 +66,7 @@ function getGridLevels(gridGap: number, maxTotalCost: number = 97): number[] {
  * Find which grid level the current price is at
  * Returns the grid level if price exactly matches a grid level, null otherwise
  */
-function getCurrentGridLevel(currentPrice: number, gridLevels: number[]): number | null {
+export function getCurrentGridLevel(currentPrice: number, gridLevels: number[]): number | null {
   const currentPriceCents = Math.round(currentPrice * 100)
   
   for (const gridLevel of gridLevels) {
@@ -200,7 +193,7 @@ function processToken(
               const hedgePrice = hedgePriceCents / 100
 
               // Create entry order
-              const entryOrder: Order = {
+              const entryOrder: GridHedgeOrder = {
                 price: entryPrice,
                 timestamp: data.timestamp,
                 size: orderSize,
@@ -247,7 +240,7 @@ function processToken(
           const hedgePrice = hedgePriceCents / 100
 
           // Create entry order
-          const entryOrder: Order = {
+          const entryOrder: GridHedgeOrder = {
             price: entryPrice,
             timestamp: data.timestamp,
             size: orderSize,
@@ -308,6 +301,8 @@ function processToken(
 
 /**
  * Calculate Grid Hedge Strategy results
+ *
+ * @param resolvedOutcome - Official settled outcome, or null to settle on the pricier token of the last price data point
  */
 export function calculateGridHedgeStrategy(
   priceData: PriceData[],
@@ -315,8 +310,9 @@ export function calculateGridHedgeStrategy(
   gridGap: number = 5,
   orderSize: number = 1,
   enableRebuy: boolean = true,
-  enableDoubleSide: boolean = true
-): StrategyResult {
+  enableDoubleSide: boolean = true,
+  resolvedOutcome: 'up' | 'down' | null = null
+): GridHedgeResult {
   if (priceData.length === 0) {
     return {
       totalProfit: 0,
@@ -418,7 +414,11 @@ export function calculateGridHedgeStrategy(
   let lastUpTokenPrice = 0;
   let lastDownTokenPrice = 0;
 
-  if(lastData.upTokenPrice > lastData.downTokenPrice) {
+  // The winning token is worth 1: the official outcome if the market has resolved, otherwise the pricier token
+  if (resolvedOutcome) {
+    lastUpTokenPrice = resolvedOutcome === 'up' ? 1 : 0;
+    lastDownTokenPrice = resolvedOutcome === 'down' ? 1 : 0;
+  } else if(lastData.upTokenPrice > lastData.downTokenPrice) {
     lastUpTokenPrice = 1;
   } else {
     lastDownTokenPrice = 1;
@@ -0,0 +1,4 @@
+export type { PriceData } from './priceData'
+export * from './gridHedgeCalculator'
+export * from './prePurchasedSellCalculator'
+export * from './newHedgeCalculator'
@@ -1,13 +1,6 @@
-export interface PriceData {
-  slug: string
-  timestamp: string
-  upTokenPrice: number
-  downTokenPrice: number
-  createdAt: string
-  coinPriceBias?: number
-}
+import { PriceData } from './priceData'
 
-export interface Order {
+export interface NewHedgeOrder {
   price: number // in cents
   timestamp: string
   size: number
@@ -15,14 +8,14 @@ export interface Order {
   isFilled: boolean
 }
 
-export interface StrategyResult {
+export interface NewHedgeResult {
   totalProfit: number
   totalCost: number
   finalValue: number
   totalEntries: number
   totalHedgesFilled: number
-  order: Order | null
-  hedgeOrder: Order | null
+  order: NewHedgeOrder | null
+  hedgeOrder: NewHedgeOrder | null
 }
 
 /**
@@ -43,6 +36,7 @@ export interface StrategyResult {
  * @param maxTotalCent - Maximum total cost for both orders (in cents)
  * @param orderSize - Size of each order (default 1)
  * @param eventType - Event type: 'hourly' or '15min' (default 'hourly')
+ * @param resolvedOutcome - Official settled outcome, or null to estimate it from the last price data point
  */
 export function calculateNewHedgeStrategy(
   priceData: PriceData[],
@@ -51,8 +45,9 @@ export function calculateNewHedgeStrategy(
   targetPrice: number,
   maxTotalCent: number,
   orderSize: number = 1,
-  eventType: 'hourly' | '15min' = 'hourly'
-): StrategyResult {
+  eventType: 'hourly' | '15min' = 'hourly',
+  resolvedOutcome: 'up' | 'down' | null = null
+): NewHedgeResult {
   if (priceData.length === 0) {
     return {
       totalProfit: 0,
@@ -76,8 +71,8 @@ export function calculateNewHedgeStrategy(
   let totalEntries = 0
   let totalHedgesFilled = 0
   
-  let order: Order | null = null
-  let hedgeOrder: Order | null = null
+  let order: NewHedgeOrder | null = null
+  let hedgeOrder: NewHedgeOrder | null = null
   let hedgeFilled = false
   
   // Track if we've already entered
@@ -167,10 +162,13 @@ export function calculateNewHedgeStrategy(
     }
   }
 
-  // Determine outcome side at event end based on final coinPriceBias or final prices
+  // Determine outcome side at event end: the official outcome if the market has resolved,
+  // otherwise based on final coinPriceBias or final prices
   const lastData = priceData[priceData.length - 1]
   let outcomeSide: 'up' | 'down'
-  if (lastData.coinPriceBias !== undefined && lastData.coinPriceBias !== null) {
+  if (resolvedOutcome) {
+    outcomeSide = resolvedOutcome
+  } else if (lastData.coinPriceBias !== undefined && lastData.coinPriceBias !== null) {
     outcomeSide = lastData.coinPriceBias >= 0 ? 'up' : 'down'
   } else {
     outcomeSide = lastData.upTokenPrice >= lastData.downTokenPrice ? 'up' : 'down'
@@ -1,11 +1,4 @@
-export interface PriceData {
-  slug: string
-  timestamp: string
-  upTokenPrice: number
-  downTokenPrice: number
-  createdAt: string
-  coinPriceBias?: number
-}
+import { PriceData } from './priceData'
 
 export interface FirstSellOrder {
   price: number
@@ -22,12 +15,24 @@ export interface SecondSellLimitOrder {
   isFilled: boolean
 }
 
-export interface StrategyResult {
+export interface PrePurchasedSellResult {
   totalProfit: number
   totalCost: number
   firstSellOrder: FirstSellOrder | null
   secondSellLimitOrder: SecondSellLimitOrder | null
   totalReceived: number
+  finalValue: number // Settlement value of the tokens still held at the end (0 while unresolved)
+}
+
+/**
+ * Price (in cents) a token can be sold at: the best bid when it was recorded,
+ * otherwise 100 - best ask as in the original price history
+ */
+export function getSellPriceCents(askPrice: number, bestBid?: number | null): number {
+  if (bestBid !== undefined && bestBid !== null) {
+    return Math.round(bestBid * 100)
+  }
+  return 100 - Math.round(askPrice * 100)
 }
 
 /**
@@ -39,25 +44,30 @@ export interface StrategyResult {
  * 3. Place limit order for the other side at (targetTotal - sellThreshold) to ensure total >= targetTotal
  *    Example: If UP sold at 65c, place DOWN limit at 40c (105 - 65 = 40)
  * 4. Wait for the opposite side to reach the limit price, then sell it
+ * 5. Tokens still held at the end settle on the official outcome; they are not valued while the
+ *    market is unresolved
  * 
  * @param priceData - Array of price data points
  * @param targetTotal - Target total sell price (in cents, default 105)
  * @param sellThreshold - Price threshold for immediate sell (in cents, default 65)
  * @param orderSize - Size of each token position (default 1)
+ * @param resolvedOutcome - Official settled outcome, or null if the market has not resolved
  */
 export function calculatePrePurchasedSellStrategy(
   priceData: PriceData[],
   targetTotal: number = 105,
   sellThreshold: number = 65,
-  orderSize: number = 1
-): StrategyResult {
+  orderSize: number = 1,
+  resolvedOutcome: 'up' | 'down' | null = null
+): PrePurchasedSellResult {
   if (priceData.length === 0) {
     return {
       totalProfit: 0,
       totalCost: 0,
       firstSellOrder: null,
       secondSellLimitOrder: null,
-      totalReceived: 0
+      totalReceived: 0,
+      finalValue: 0
     }
   }
 
@@ -72,8 +82,8 @@ export function calculatePrePurchasedSellStrategy(
   // Process price data chronologically
   for (let i = 0; i < priceData.length; i++) {
     const data = priceData[i]
-    const upSellPriceCents = 100 -Math.round(data.upTokenPrice * 100)
-    const downSellPriceCents = 100 -Math.round(data.downTokenPrice * 100)
+    const upSellPriceCents = getSellPriceCents(data.upTokenPrice, data.upBestBid)
+    const downSellPriceCents = getSellPriceCents(data.downTokenPrice, data.downBestBid)
 
     // If we haven't sold yet, check if either token reaches sell threshold
     if (firstSellOrder === null) {
@@ -143,14 +153,25 @@ export function calculatePrePurchasedSellStrategy(
 
   totalReceived /= 100
 
-  const totalProfit = totalReceived - initialCost
+  // Held tokens: both if nothing was sold (one of them wins), otherwise the unfilled second sell's side
+  let finalValue = 0
+  if (resolvedOutcome) {
+    if (firstSellOrder === null) {
+      finalValue = orderSize
+    } else if (secondSellLimitOrder && !secondSellLimitOrder.isFilled && secondSellLimitOrder.tokenType === resolvedOutcome) {
+      finalValue = secondSellLimitOrder.size
+    }
+  }
+
+  const totalProfit = totalReceived + finalValue - initialCost
 
   return {
     totalProfit: Math.round(totalProfit * 100) / 100,
     totalCost: Math.round(initialCost * 100) / 100,
     firstSellOrder,
     secondSellLimitOrder,
-    totalReceived: Math.round(totalReceived * 100) / 100
+    totalReceived: Math.round(totalReceived * 100) / 100,
+    finalValue: Math.round(finalValue * 100) / 100
   }
 }
 
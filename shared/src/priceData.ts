@@ -0,0 +1,14 @@
+/**
+ * One point of a market's price history, as returned by /api/price-history and fed to the
+ * strategy calculators (prices in dollars)
+ */
+export interface PriceData {
+  slug: string
+  timestamp: string
+  upTokenPrice: number // Best ask of the UP token
+  downTokenPrice: number // Best ask of the DOWN token
+  createdAt: string
+  coinPriceBias?: number // Coin price minus the market's start price, when recorded
+  upBestBid?: number | null
+  downBestBid?: number | null
+}
@@ -0,0 +1,459 @@
+import {
+  calculateGridHedgeStrategy,
+  calculateNewHedgeStrategy,
+  calculatePrePurchasedSellStrategy,
+  getGridLevels,
+  GridHedgeResult,
+  NewHedgeResult,
+  OrderPair,
+  PrePurchasedSellResult,
+} from '..'
+import { describe, expectEqual, runTests, test } from '../testing/harness'
+import { PricePath, pricePath } from '../testing/pricePath'
+
+type Side = 'up' | 'down'
+
+const opposite = (side: Side): Side => side === 'up' ? 'down' : 'up'
+
+/**
+ * Expected grid hedge order pair: entry on a side at a tick, hedge on the other side filled at a tick (or not)
+ */
+function orderPair(
+  path: PricePath,
+  entry: { side: Side; price: number; tick: number; isReEntry?: boolean },
+  hedge: { price: number; filledAt: number | null },
+  size: number = 1
+): OrderPair {
+  return {
+    entryOrder: {
+      price: entry.price,
+      timestamp: path.timestamp(entry.tick),
+      size,
+      tokenType: entry.side,
+      isReEntry: entry.isReEntry ?? false,
+    },
+    hedgeOrder: {
+      price: hedge.price,
+      timestamp: hedge.filledAt === null ? null : path.timestamp(hedge.filledAt),
+      size,
+      tokenType: opposite(entry.side),
+      isFilled: hedge.filledAt !== null,
+    },
+  }
+}
+
+describe('gridHedge', () => {
+  // maxTotalCost 97, gridGap 5: levels 55, 60, ..., 95
+  const run = (
+    path: PricePath,
+    options: { enableRebuy?: boolean; enableDoubleSide?: boolean; resolvedOutcome?: Side | null } = {}
+  ): GridHedgeResult =>
+    calculateGridHedgeStrategy(
+      path.build(),
+      97,
+      5,
+      1,
+      options.enableRebuy ?? true,
+      options.enableDoubleSide ?? true,
+      options.resolvedOutcome ?? null
+    )
+
+  test('grid levels start one gap above 50c and end at maxTotalCost', () => {
+    expectEqual(getGridLevels(5, 97), [55, 60, 65, 70, 75, 80, 85, 90, 95])
+    expectEqual(getGridLevels(3, 62), [53, 56, 59, 62])
+  })
+
+  test('empty price data', () => {
+    expectEqual(calculateGridHedgeStrategy([], 97, 5), {
+      totalProfit: 0,
+      totalCost: 0,
+      finalValue: 0,
+      totalEntries: 0,
+      totalHedgesFilled: 0,
+      gridLevelsUsed: [],
+      orderPoints: {},
+    })
+  })
+
+  test('enters at each level reached from below and fills the hedge at maxTotalCost - level', () => {
+    // DOWN mirrors: 50 → 45 → 40, so the 42c hedge of the 55c entry fills on the last tick
+    const path = pricePath('50 → 55 → 60')
+    expectEqual(run(path), {
+      totalProfit: 0.43,
+      totalCost: 1.57,
+      finalValue: 2,
+      totalEntries: 2,
+      totalHedgesFilled: 1,
+      gridLevelsUsed: [55, 60],
+      orderPoints: {
+        '55': [orderPair(path, { side: 'up', price: 0.55, tick: 1 }, { price: 0.42, filledAt: 2 })],
+        '60': [orderPair(path, { side: 'up', price: 0.6, tick: 2 }, { price: 0.37, filledAt: null })],
+      },
+    })
+  })
+
+  test('does not enter a level crossed downward', () => {
+    // The first level reached counts as crossed from below; 60 and 55 are then reached from above
+    const path = pricePath('50 → 65 → 60 → 55')
+    expectEqual(run(path), {
+      totalProfit: 0.35,
+      totalCost: 0.65,
+      finalValue: 1,
+      totalEntries: 1,
+      totalHedgesFilled: 0,
+      gridLevelsUsed: [65],
+      orderPoints: {
+        '65': [orderPair(path, { side: 'up', price: 0.65, tick: 1 }, { price: 0.32, filledAt: null })],
+      },
+    })
+  })
+
+  describe('rebuy', () => {
+    // 60 is re-crossed upward on tick 5 after its hedge filled on tick 2; 65 is re-crossed on tick 6
+    // with its hedge still open
+    const path = pricePath('55 → 60 → 65 → 60 → 55 → 60 → 65')
+
+    test('re-enters a level only after its hedge filled', () => {
+      expectEqual(run(path), {
+        totalProfit: 0.44,
+        totalCost: 3.56,
+        finalValue: 4,
+        totalEntries: 4,
+        totalHedgesFilled: 3,
+        gridLevelsUsed: [55, 60, 65],
+        orderPoints: {
+          '55': [orderPair(path, { side: 'up', price: 0.55, tick: 0 }, { price: 0.42, filledAt: 1 })],
+          '60': [
+            orderPair(path, { side: 'up', price: 0.6, tick: 1 }, { price: 0.37, filledAt: 2 }),
+            orderPair(path, { side: 'up', price: 0.6, tick: 5, isReEntry: true }, { price: 0.37, filledAt: 6 }),
+          ],
+          '65': [orderPair(path, { side: 'up', price: 0.65, tick: 2 }, { price: 0.32, filledAt: null })],
+        },
+      })
+    })
+
+    test('enters each level once when disabled', () => {
+      expectEqual(run(path, { enableRebuy: false }), {
+        totalProfit: 0.41,
+        totalCost: 2.59,
+        finalValue: 3,
+        totalEntries: 3,
+        totalHedgesFilled: 2,
+        gridLevelsUsed: [55, 60, 65],
+        orderPoints: {
+          '55': [orderPair(path, { side: 'up', price: 0.55, tick: 0 }, { price: 0.42, filledAt: 1 })],
+          '60': [orderPair(path, { side: 'up', price: 0.6, tick: 1 }, { price: 0.37, filledAt: 2 })],
+          '65': [orderPair(path, { side: 'up', price: 0.65, tick: 2 }, { price: 0.32, filledAt: null })],
+        },
+      })
+    })
+  })
+
+  describe('double side', () => {
+    // DOWN (50 → 55 → 60 → 40) reaches a level first; UP only reaches 60 on the last tick
+    const path = pricePath('50 → 45 → 40 → 60')
+
+    test('trades only the first side to reach a level when disabled', () => {
+      expectEqual(run(path, { enableDoubleSide: false }), {
+        totalProfit: -0.57,
+        totalCost: 1.57,
+        finalValue: 1,
+        totalEntries: 2,
+        totalHedgesFilled: 1,
+        gridLevelsUsed: [55, 60],
+        orderPoints: {
+          '55': [orderPair(path, { side: 'down', price: 0.55, tick: 1 }, { price: 0.42, filledAt: 2 })],
+          '60': [orderPair(path, { side: 'down', price: 0.6, tick: 2 }, { price: 0.37, filledAt: null })],
+        },
+      })
+    })
+
+    test('trades both sides when enabled, UP entries first', () => {
+      expectEqual(run(path), {
+        totalProfit: -0.17,
+        totalCost: 2.17,
+        finalValue: 2,
+        totalEntries: 3,
+        totalHedgesFilled: 1,
+        gridLevelsUsed: [55, 60],
+        orderPoints: {
+          '55': [orderPair(path, { side: 'down', price: 0.55, tick: 1 }, { price: 0.42, filledAt: 2 })],
+          '60': [
+            orderPair(path, { side: 'up', price: 0.6, tick: 3 }, { price: 0.37, filledAt: null }),
+            orderPair(path, { side: 'down', price: 0.6, tick: 2 }, { price: 0.37, filledAt: null }),
+          ],
+        },
+      })
+    })
+
+    test('picks UP when both sides reach a level on the same tick, and settles equal last asks as DOWN', () => {
+      const tiedPath = pricePath('50 → 55').down('50 → 55')
+      expectEqual(run(tiedPath, { enableDoubleSide: false }), {
+        totalProfit: -0.55,
+        totalCost: 0.55,
+        finalValue: 0,
+        totalEntries: 1,
+        totalHedgesFilled: 0,
+        gridLevelsUsed: [55],
+        orderPoints: {
+          '55': [orderPair(tiedPath, { side: 'up', price: 0.55, tick: 1 }, { price: 0.42, filledAt: null })],
+        },
+      })
+    })
+  })
+
+  describe('settlement', () => {
+    test('uses the resolved outcome over the last asks when given', () => {
+      // UP is pricier on the last tick, but the market resolved DOWN
+      const path = pricePath('50 → 55')
+      expectEqual(run(path, { resolvedOutcome: 'down' }), {
+        totalProfit: -0.55,
+        totalCost: 0.55,
+        finalValue: 0,
+        totalEntries: 1,
+        totalHedgesFilled: 0,
+        gridLevelsUsed: [55],
+        orderPoints: {
+          '55': [orderPair(path, { side: 'up', price: 0.55, tick: 1 }, { price: 0.42, filledAt: null })],
+        },
+      })
+    })
+  })
+})
+
+describe('prePurchasedSell', () => {
+  // Both tokens bought at 50c; targetTotal 105, sellThreshold 65
+  const run = (path: PricePath, orderSize: number = 1, resolvedOutcome: Side | null = null): PrePurchasedSellResult =>
+    calculatePrePurchasedSellStrategy(path.build(), 105, 65, orderSize, resolvedOutcome)
+
+  test('empty price data', () => {
+    expectEqual(calculatePrePurchasedSellStrategy([]), {
+      totalProfit: 0,
+      totalCost: 0,
+      firstSellOrder: null,
+      secondSellLimitOrder: null,
+      totalReceived: 0,
+      finalValue: 0,
+    })
+  })
+
+  test('sells at 100 - ask once a side reaches the threshold, then the other side at or above the limit', () => {
+    // UP sells at 100 - 35 = 65 on tick 2; the DOWN limit is 105 - 65 = 40, reached at 100 - 45 = 55 on tick 4
+    const path = pricePath('50 → 40 → 35 → 30 → 55 → 62')
+    expectEqual(run(path), {
+      totalProfit: 0.2,
+      totalCost: 1,
+      firstSellOrder: { price: 65, timestamp: path.timestamp(2), size: 1, tokenType: 'up' },
+      secondSellLimitOrder: { price: 55, timestamp: path.timestamp(4), size: 1, tokenType: 'down', isFilled: true },
+      totalReceived: 1.2,
+      finalValue: 0,
+    })
+  })
+
+  test('sells DOWN first and keeps an unreached limit open', () => {
+    const path = pricePath('50 → 65 → 70')
+    expectEqual(run(path), {
+      totalProfit: -0.35,
+      totalCost: 1,
+      firstSellOrder: { price: 65, timestamp: path.timestamp(1), size: 1, tokenType: 'down' },
+      secondSellLimitOrder: { price: 40, timestamp: null, size: 1, tokenType: 'up', isFilled: false },
+      totalReceived: 0.65,
+      finalValue: 0,
+    })
+  })
+
+  test('sells UP when both sides reach the threshold, and fills the limit on the same tick', () => {
+    const path = pricePath('50 → 30').down('50 → 30')
+    expectEqual(run(path, 2), {
+      totalProfit: 0.8,
+      totalCost: 2,
+      firstSellOrder: { price: 70, timestamp: path.timestamp(1), size: 2, tokenType: 'up' },
+      secondSellLimitOrder: { price: 70, timestamp: path.timestamp(1), size: 2, tokenType: 'down', isFilled: true },
+      totalReceived: 2.8,
+      finalValue: 0,
+    })
+  })
+
+  test('sells at the best bid when one is recorded', () => {
+    const path = pricePath('50 → 60').bids('48 → 66', '48 → 41')
+    expectEqual(run(path), {
+      totalProfit: 0.07,
+      totalCost: 1,
+      firstSellOrder: { price: 66, timestamp: path.timestamp(1), size: 1, tokenType: 'up' },
+      secondSellLimitOrder: { price: 41, timestamp: path.timestamp(1), size: 1, tokenType: 'down', isFilled: true },
+      totalReceived: 1.07,
+      finalValue: 0,
+    })
+  })
+
+  test('holds both tokens when no side reaches the threshold', () => {
+    expectEqual(run(pricePath('50 → 45 → 40')), {
+      totalProfit: -1,
+      totalCost: 1,
+      firstSellOrder: null,
+      secondSellLimitOrder: null,
+      totalReceived: 0,
+      finalValue: 0,
+    })
+  })
+
+  describe('settlement', () => {
+    test('values both held tokens at the resolved outcome when nothing was sold', () => {
+      expectEqual(run(pricePath('50 → 45 → 40'), 1, 'down'), {
+        totalProfit: 0,
+        totalCost: 1,
+        firstSellOrder: null,
+        secondSellLimitOrder: null,
+        totalReceived: 0,
+        finalValue: 1,
+      })
+    })
+
+    test('values the unsold side only if it wins', () => {
+      const path = pricePath('50 → 65 → 70')
+      const settledAs = (outcome: Side): PrePurchasedSellResult => ({
+        totalProfit: outcome === 'up' ? 0.65 : -0.35,
+        totalCost: 1,
+        firstSellOrder: { price: 65, timestamp: path.timestamp(1), size: 1, tokenType: 'down' },
+        secondSellLimitOrder: { price: 40, timestamp: null, size: 1, tokenType: 'up', isFilled: false },
+        totalReceived: 0.65,
+        finalValue: outcome === 'up' ? 1 : 0,
+      })
+      expectEqual(run(path, 1, 'up'), settledAs('up'))
+      expectEqual(run(path, 1, 'down'), settledAs('down'))
+    })
+  })
+})
+
+describe('newHedge', () => {
+  // priceDiff $100, timeTillEnd 300s, targetPrice 50c, maxTotalCent 97
+  const run = (
+    path: PricePath,
+    options: { targetPrice?: number; eventType?: 'hourly' | '15min'; resolvedOutcome?: Side | null } = {}
+  ): NewHedgeResult =>
+    calculateNewHedgeStrategy(
+      path.build(),
+      100,
+      300,
+      options.targetPrice ?? 50,
+      97,
+      1,
+      options.eventType ?? 'hourly',
+      options.resolvedOutcome ?? null
+    )
+
+  const NO_ENTRY: NewHedgeResult = {
+    totalProfit: 0,
+    totalCost: 0,
+    finalValue: 0,
+    totalEntries: 0,
+    totalHedgesFilled: 0,
+    order: null,
+    hedgeOrder: null,
+  }
+
+  // Entry at 45c on UP at a tick, with the 97 - 45 = 52c DOWN hedge left open, settled as UP
+  const openHedgeEntry = (path: PricePath, tick: number): NewHedgeResult => ({
+    totalProfit: 0.55,
+    totalCost: 0.45,
+    finalValue: 1,
+    totalEntries: 1,
+    totalHedgesFilled: 0,
+    order: { price: 45, timestamp: path.timestamp(tick), size: 1, tokenType: 'up', isFilled: true },
+    hedgeOrder: { price: 52, timestamp: path.timestamp(tick), size: 1, tokenType: 'down', isFilled: false },
+  })
+
+  test('empty price data', () => {
+    expectEqual(calculateNewHedgeStrategy([], 100, 300, 50, 97), NO_ENTRY)
+  })
+
+  test('buys the losing side below targetPrice and fills the hedge at maxTotalCent - entry', () => {
+    // UP at 50c is not below targetPrice; at 45c it is. DOWN mirrors back to 50c on tick 2, under the 52c hedge
+    const path = pricePath('50 → 45 → 50').bias('0 → -10 → 5')
+    expectEqual(run(path), {
+      totalProfit: 0.03,
+      totalCost: 0.97,
+      finalValue: 1,
+      totalEntries: 1,
+      totalHedgesFilled: 1,
+      order: { price: 45, timestamp: path.timestamp(1), size: 1, tokenType: 'up', isFilled: true },
+      hedgeOrder: { price: 52, timestamp: path.timestamp(2), size: 1, tokenType: 'down', isFilled: true },
+    })
+  })
+
+  test('checks the hedge from the tick after the entry', () => {
+    // DOWN is already at 50c (under the 52c hedge) on the entry tick
+    const path = pricePath('45 → 60').down('50 → 60').bias('0')
+    expectEqual(run(path), openHedgeEntry(path, 0))
+  })
+
+  test('buys DOWN when it is the cheaper side', () => {
+    const path = pricePath('55 → 60').bias('0')
+    expectEqual(run(path, { targetPrice: 45 }), {
+      totalProfit: -0.4,
+      totalCost: 0.4,
+      finalValue: 0,
+      totalEntries: 1,
+      totalHedgesFilled: 0,
+      order: { price: 40, timestamp: path.timestamp(1), size: 1, tokenType: 'down', isFilled: true },
+      hedgeOrder: { price: 57, timestamp: path.timestamp(1), size: 1, tokenType: 'up', isFilled: false },
+    })
+  })
+
+  describe('remainingSeconds window', () => {
+    test('hourly markets enter only with more than timeTillEnd left', () => {
+      // Ticks are timed from the first one: the second tick is 3300s (300s left) or 3299s in
+      expectEqual(run(pricePath('50 → 45', { stepSeconds: 3300 }).bias('0')), NO_ENTRY)
+      const path = pricePath('50 → 45', { stepSeconds: 3299 }).bias('0')
+      expectEqual(run(path), openHedgeEntry(path, 1))
+    })
+
+    test('15-minute markets last 900s', () => {
+      expectEqual(run(pricePath('50 → 45', { stepSeconds: 600 }).bias('0'), { eventType: '15min' }), NO_ENTRY)
+      const path = pricePath('50 → 45', { stepSeconds: 599 }).bias('0')
+      expectEqual(run(path, { eventType: '15min' }), openHedgeEntry(path, 1))
+    })
+  })
+
+  test('requires a recorded coin price bias below priceDiff', () => {
+    expectEqual(run(pricePath('50 → 45')), NO_ENTRY)
+    expectEqual(run(pricePath('50 → 45').bias('100')), NO_ENTRY)
+    const path = pricePath('50 → 45').bias('-99.5 → 99.5')
+    expectEqual(run(path), openHedgeEntry(path, 1))
+  })
+
+  describe('settlement', () => {
+    // UP bought at 45c on tick 0, hedge open; the coin ends below its start price
+    const path = pricePath('45 → 60').down('50 → 60').bias('0 → -5')
+    const settledAs = (outcome: Side): NewHedgeResult => ({
+      ...openHedgeEntry(path, 0),
+      totalProfit: outcome === 'up' ? 0.55 : -0.45,
+      finalValue: outcome === 'up' ? 1 : 0,
+    })
+
+    test('uses the resolved outcome when given', () => {
+      expectEqual(run(path, { resolvedOutcome: 'up' }), settledAs('up'))
+    })
+
+    test('otherwise uses the sign of the last coin price bias', () => {
+      expectEqual(run(path), settledAs('down'))
+    })
+
+    test('otherwise the side with the higher last ask, UP on a tie', () => {
+      const priceData = path.build()
+      delete priceData[priceData.length - 1].coinPriceBias
+      const result = calculateNewHedgeStrategy(priceData, 100, 300, 50, 97, 1, 'hourly', null)
+      expectEqual(result, settledAs('up'))
+    })
+  })
+})
+
+/**
+ * Unit tests of the strategy calculators on synthetic price paths
+ *
+ * Usage:
+ *   npm run test:calculators
+ */
+if (require.main === module) {
+  runTests()
+}
@@ -0,0 +1,165 @@
+import fs from 'fs'
+import path from 'path'
+import {
+  calculateGridHedgeStrategy,
+  calculateNewHedgeStrategy,
+  calculatePrePurchasedSellStrategy,
+  PriceData,
+} from '..'
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../fixtures')
+const GOLDEN_DIR = path.join(FIXTURES_DIR, 'golden')
+
+interface Fixture {
+  description: string
+  eventType: 'hourly' | '15min'
+  resolvedOutcome: 'up' | 'down' | null
+  priceData: PriceData[]
+}
+
+interface GoldenCase {
+  params: Record<string, number | boolean>
+  result: unknown
+}
+
+interface GoldenFile {
+  gridHedge: GoldenCase[]
+  prePurchasedSell: GoldenCase[]
+  newHedge: GoldenCase[]
+}
+
+const GRID_HEDGE_PARAMS = [
+  { maxTotalCost: 97, gridGap: 5, orderSize: 1, enableRebuy: true, enableDoubleSide: true },
+  { maxTotalCost: 97, gridGap: 5, orderSize: 1, enableRebuy: false, enableDoubleSide: false },
+  { maxTotalCost: 90, gridGap: 3, orderSize: 2, enableRebuy: true, enableDoubleSide: false },
+]
+
+const PRE_PURCHASED_SELL_PARAMS = [
+  { targetTotal: 105, sellThreshold: 65, orderSize: 1 },
+  { targetTotal: 110, sellThreshold: 70, orderSize: 2 },
+]
+
+const NEW_HEDGE_PARAMS = [
+  { priceDiff: 100, timeTillEnd: 300, targetPrice: 50, maxTotalCent: 97, orderSize: 1 },
+  { priceDiff: 20, timeTillEnd: 600, targetPrice: 40, maxTotalCent: 95, orderSize: 2 },
+]
+
+/**
+ * Run every calculator with every parameter set over a fixture
+ */
+function runFixture(fixture: Fixture): GoldenFile {
+  const { priceData, eventType, resolvedOutcome } = fixture
+  return {
+    gridHedge: GRID_HEDGE_PARAMS.map(params => ({
+      params,
+      result: calculateGridHedgeStrategy(
+        priceData,
+        params.maxTotalCost,
+        params.gridGap,
+        params.orderSize,
+        params.enableRebuy,
+        params.enableDoubleSide,
+        resolvedOutcome
+      ),
+    })),
+    prePurchasedSell: PRE_PURCHASED_SELL_PARAMS.map(params => ({
+      params,
+      result: calculatePrePurchasedSellStrategy(
+        priceData,
+        params.targetTotal,
+        params.sellThreshold,
+        params.orderSize,
+        resolvedOutcome
+      ),
+    })),
+    newHedge: NEW_HEDGE_PARAMS.map(params => ({
+      params,
+      result: calculateNewHedgeStrategy(
+        priceData,
+        params.priceDiff,
+        params.timeTillEnd,
+        params.targetPrice,
+        params.maxTotalCent,
+        params.orderSize,
+        eventType,
+        resolvedOutcome
+      ),
+    })),
+  }
+}
+
+const toJson = (value: unknown): string => `${JSON.stringify(value, null, 2)}\n`
+
+/**
+ * Golden-file test of the strategy calculators: runs the price histories in fixtures/*.json
+ * through every calculator and compares the results with fixtures/golden/*.json.
+ *
+ * The backend and the dashboard both import the calculators from this package, so a change
+ * to their results shows up here as a golden diff that has to be reviewed and committed.
+ *
+ * Usage:
+ *   npm run test:golden                - compare with the golden files
+ *   npm run test:golden -- --update    - rewrite the golden files after an intended change
+ */
+function testGoldenCalculators() {
+  const update = process.argv.includes('--update')
+  const fixtureNames = fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => path.basename(file, '.json'))
+    .sort()
+
+  let failures = 0
+  for (const name of fixtureNames) {
+    const fixture: Fixture = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'))
+    const actual = toJson(runFixture(fixture))
+    const goldenPath = path.join(GOLDEN_DIR, `${name}.json`)
+
+    if (update) {
+      fs.mkdirSync(GOLDEN_DIR, { recursive: true })
+      fs.writeFileSync(goldenPath, actual)
+      console.log(`📝 ${name}: golden file updated`)
+      continue
+    }
+
+    if (!fs.existsSync(goldenPath)) {
+      failures++
+      console.error(`❌ ${name}: missing golden file (run with --update)`)
+      continue
+    }
+
+    const expected: GoldenFile = JSON.parse(fs.readFileSync(goldenPath, 'utf8'))
+    const actualResults: GoldenFile = JSON.parse(actual)
+    let fixtureFailures = 0
+    for (const calculator of Object.keys(actualResults) as Array<keyof GoldenFile>) {
+      actualResults[calculator].forEach((goldenCase, index) => {
+        const expectedCase = expected[calculator]?.[index]
+        if (toJson(goldenCase) !== toJson(expectedCase)) {
+          fixtureFailures++
+          console.error(`❌ ${name}: ${calculator} ${JSON.stringify(goldenCase.params)} differs from the golden result`)
+          console.error(`   expected: ${JSON.stringify(expectedCase?.result)}`)
+          console.error(`   actual:   ${JSON.stringify(goldenCase.result)}`)
+        }
+      })
+    }
+    failures += fixtureFailures
+    if (fixtureFailures === 0) {
+      console.log(`✅ ${name}: ${fixture.description}`)
+    }
+  }
+
+  if (update) {
+    return
+  }
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} golden mismatches`)
+    process.exit(1)
+  }
+  console.log(`\n✅ ${fixtureNames.length} fixtures match their golden results`)
+}
+
+// Run test if script is executed directly
+if (require.main === module) {
+  testGoldenCalculators()
+}
+
+export default testGoldenCalculators
@@ -0,0 +1,56 @@
+import assert from 'assert'
+
+interface TestCase {
+  name: string
+  fn: () => void
+}
+
+const testCases: TestCase[] = []
+let currentSuite: string[] = []
+
+/**
+ * Group the tests registered by fn under a name
+ */
+export function describe(name: string, fn: () => void): void {
+  const previousSuite = currentSuite
+  currentSuite = [...currentSuite, name]
+  try {
+    fn()
+  } finally {
+    currentSuite = previousSuite
+  }
+}
+
+export function test(name: string, fn: () => void): void {
+  testCases.push({ name: [...currentSuite, name].join(' › '), fn })
+}
+
+/**
+ * Deep strict equality, reported with both values on failure
+ */
+export function expectEqual<T>(actual: T, expected: T): void {
+  assert.deepStrictEqual(actual, expected)
+}
+
+/**
+ * Run the registered tests and exit with 1 if any failed
+ */
+export function runTests(): void {
+  let failures = 0
+  for (const testCase of testCases) {
+    try {
+      testCase.fn()
+      console.log(`✅ ${testCase.name}`)
+    } catch (error) {
+      failures++
+      console.error(`❌ ${testCase.name}`)
+      console.error(error instanceof Error ? error.message : error)
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${testCases.length} tests failed`)
+    process.exit(1)
+  }
+  console.log(`\n✅ ${testCases.length} tests passed`)
+}
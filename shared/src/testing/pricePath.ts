@@ -0,0 +1,120 @@
+import { PriceData } from '../priceData'
+
+export interface PricePathOptions {
+  slug?: string
+  start?: string // ISO timestamp of the first tick
+  stepSeconds?: number // Time between ticks
+}
+
+const DEFAULT_OPTIONS: Required<PricePathOptions> = {
+  slug: 'btc-updown-test',
+  start: '2025-01-01T12:00:00.000Z',
+  stepSeconds: 60,
+}
+
+/**
+ * Parse a path of values, one per tick, separated by → or ->:
+ * - `50 → 60 → 55` - three ticks
+ * - `50..53` - every whole value from 50 to 53 (four ticks, also descending)
+ * - `50*3` - the same value on three ticks
+ */
+export function parsePath(path: string): number[] {
+  const values: number[] = []
+  const steps = path.trim().split(/\s*(?:→|->)\s*/)
+  for (const step of steps) {
+    const range = step.match(/^(-?\d+(?:\.\d+)?)\.\.(-?\d+(?:\.\d+)?)$/)
+    const repeat = step.match(/^(-?\d+(?:\.\d+)?)\*(\d+)$/)
+    if (range) {
+      const from = parseFloat(range[1])
+      const to = parseFloat(range[2])
+      const direction = to >= from ? 1 : -1
+      for (let value = from; direction * (to - value) >= 0; value += direction) {
+        values.push(value)
+      }
+    } else if (repeat) {
+      for (let i = 0; i < parseInt(repeat[2], 10); i++) {
+        values.push(parseFloat(repeat[1]))
+      }
+    } else if (/^-?\d+(?:\.\d+)?$/.test(step)) {
+      values.push(parseFloat(step))
+    } else {
+      throw new Error(`Invalid price path step "${step}" in "${path}"`)
+    }
+  }
+  return values
+}
+
+const toDollars = (cents: number): number => Math.round(cents) / 100
+
+/**
+ * Builder of synthetic price histories for the calculator tests. Prices are written in cents:
+ *
+ *   pricePath('50 → 60 → 55')                  - UP asks 50c, 60c, 55c; DOWN mirrors (100 - UP)
+ *   pricePath('50..55').down('50*6')           - explicit DOWN asks
+ *   pricePath('50 → 45').bias('0 → -12.5')     - coin price bias (in dollars) per tick
+ *   pricePath('50 → 60').bids('48 → 58', '50') - best bids, so sells use them instead of 100 - ask
+ *
+ * Paths shorter than the UP path hold their last value.
+ */
+export class PricePath {
+  private readonly options: Required<PricePathOptions>
+  private readonly upPath: number[]
+  private downPath: number[] | null = null
+  private biasPath: number[] | null = null
+  private upBidPath: number[] | null = null
+  private downBidPath: number[] | null = null
+
+  constructor(up: string, options: PricePathOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    this.upPath = parsePath(up)
+  }
+
+  public down(path: string): this {
+    this.downPath = parsePath(path)
+    return this
+  }
+
+  public bias(path: string): this {
+    this.biasPath = parsePath(path)
+    return this
+  }
+
+  public bids(up: string, down: string): this {
+    this.upBidPath = parsePath(up)
+    this.downBidPath = parsePath(down)
+    return this
+  }
+
+  /**
+   * Timestamp of the tick at an index (negative indexes count from the end)
+   */
+  public timestamp(index: number): string {
+    const tick = index < 0 ? this.upPath.length + index : index
+    const time = new Date(this.options.start).getTime() + tick * this.options.stepSeconds * 1000
+    return new Date(time).toISOString()
+  }
+
+  public build(): PriceData[] {
+    const valueAt = (path: number[], index: number): number => path[Math.min(index, path.length - 1)]
+
+    return this.upPath.map((up, index) => {
+      const data: PriceData = {
+        slug: this.options.slug,
+        timestamp: this.timestamp(index),
+        upTokenPrice: toDollars(up),
+        downTokenPrice: toDollars(this.downPath ? valueAt(this.downPath, index) : 100 - up),
+        createdAt: this.timestamp(index),
+      }
+      if (this.biasPath) {
+        data.coinPriceBias = valueAt(this.biasPath, index)
+      }
+      if (this.upBidPath && this.downBidPath) {
+        data.upBestBid = toDollars(valueAt(this.upBidPath, index))
+        data.downBestBid = toDollars(valueAt(this.downBidPath, index))
+      }
+      return data
+    })
+  }
+}
+
+export const pricePath = (up: string, options?: PricePathOptions): PricePath => new PricePath(up, options)